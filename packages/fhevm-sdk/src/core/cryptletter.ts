@@ -14,6 +14,8 @@ import { encryptValue } from "./encryption";
 import {
   type NewsletterData,
   type EncryptedBundle,
+  type EncryptionContext,
+  type DecryptContentOptions,
   encryptContent,
   decryptContent,
   generateAESKey,
@@ -21,13 +23,57 @@ import {
   fheOutputToAESKey,
   serializeBundle,
   deserializeBundle,
+  getBundleContext,
 } from "../utils/encryption";
 import {
   type IPFSConfig,
   type IPFSUploadResponse,
   createIPFSClient,
 } from "../utils/ipfs";
-import { processNewsletterImages } from "../utils/imageProcessor";
+import {
+  extractEncryptedImageCidsFromJson,
+  processNewsletterImages,
+  reencryptImages,
+} from "../utils/imageProcessor";
+import type { ContentCompression } from "../utils/compression";
+import type { CryptletterIndexQueries } from "../indexer/types";
+
+/**
+ * Period counts a subscription can be bought for in one transaction
+ */
+export const SUBSCRIPTION_PERIOD_OPTIONS = [1, 3, 6, 12] as const;
+
+export type SubscriptionPeriods = (typeof SUBSCRIPTION_PERIOD_OPTIONS)[number];
+
+/**
+ * ERC-20 functions used for token-priced subscriptions
+ */
+const ERC20_ABI = [
+  "function symbol() view returns (string)",
+  "function decimals() view returns (uint8)",
+  "function name() view returns (string)",
+  "function nonces(address owner) view returns (uint256)",
+  "function allowance(address owner, address spender) view returns (uint256)",
+  "function approve(address spender, uint256 amount) returns (bool)",
+];
+
+/**
+ * Most subscribers read from the contract in one call, so large lists don't hit the RPC gas cap
+ */
+const SUBSCRIBER_PAGE_SIZE = 100;
+
+/**
+ * EIP-712 types of a creator-signed comp voucher
+ */
+const COMP_VOUCHER_TYPES = {
+  CompVoucher: [
+    { name: "creator", type: "address" },
+    { name: "recipient", type: "address" },
+    { name: "duration", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
 
 /**
  * Cryptletter SDK Configuration
@@ -38,6 +84,7 @@ export interface CryptletterConfig {
   ipfsConfig: IPFSConfig;
   provider: ethers.Provider;
   signer?: ethers.Signer;
+  indexer?: CryptletterIndexQueries; // Answer list queries from an event index instead of the chain
 }
 
 /**
@@ -49,10 +96,19 @@ export interface PublishOptions {
   contentJson?: any; // Tiptap JSON (for processing images)
   author: string;
   isPublic?: boolean;
+  minTierRank?: number; // Minimum subscription tier rank required to read (default 0)
+  price?: bigint; // One-off unlock price in the creator's payment token (default 0 = subscribers only)
+  publishAt?: Date; // Scheduled release time of a premium post; readers can't access it before then (default: now)
   images?: string[]; // IPFS CIDs (populated after image upload)
   metadata?: Record<string, any>;
+  compression?: ContentCompression | "none"; // Compress premium content before encrypting (default "gzip")
 }
 
+/**
+ * Newsletter edit options (visibility, tier, price and release time can't change after publishing)
+ */
+export type EditOptions = Omit<PublishOptions, "isPublic" | "minTierRank" | "price" | "publishAt">;
+
 /**
  * Published newsletter result
  */
@@ -62,11 +118,42 @@ export interface PublishResult {
   transactionHash: string;
 }
 
+/**
+ * Edited newsletter result
+ */
+export interface EditResult {
+  postId: number;
+  contentCID: string;
+  version: number; // Index in the post's version history (0 = original)
+  transactionHash: string;
+}
+
+/**
+ * Key rotation result
+ */
+export interface KeyRotationResult {
+  postId: number;
+  contentCID: string;
+  version: number; // Index in the post's version history
+  imageCids: string[]; // CIDs of the re-encrypted images
+  transactionHash: string;
+}
+
+/**
+ * One content revision of a newsletter
+ */
+export interface NewsletterVersion {
+  version: number;
+  contentCID: string;
+  updatedAt: bigint; // Unix timestamp the revision was published
+}
+
 /**
  * Newsletter fetch result
  */
 export interface FetchResult {
   newsletter: NewsletterData;
+  context: EncryptionContext; // Post the content belongs to; decrypt its images under the same context
   metadata: {
     postId: number;
     creator: string;
@@ -86,6 +173,124 @@ export interface SubscriptionStatus {
   subscribedAt: bigint;
   daysRemaining: number;
   hasAccess: boolean; // Whether user can still access content (even if cancelled)
+  tierId: number; // Tier the subscriber is on (0 = default tier)
+  creditedTime: number; // Seconds of the current period credited from overpayments
+  giftedBy: string; // Who paid for the current period as a gift (ethers.ZeroAddress if self-paid)
+  isTrial: boolean; // Whether the current period is a free trial
+}
+
+/**
+ * A creator's subscriber and their subscription
+ */
+export interface CreatorSubscriber {
+  address: string;
+  isActive: boolean; // False once cancelled
+  hasAccess: boolean; // Whether paid time is left
+  expiresAt: bigint;
+  subscribedAt: bigint; // First subscription to the creator
+  tierId: number;
+  giftedBy: string; // Who paid for the current period as a gift or comp (ethers.ZeroAddress if self-paid)
+  isTrial: boolean;
+}
+
+/**
+ * Options for listing a creator's subscribers
+ */
+export interface ListSubscribersOptions {
+  activeOnly?: boolean; // Only subscribers that haven't cancelled and still have access (default false)
+  limit?: number; // Maximum number of subscribers to return (default 1000)
+}
+
+/**
+ * A subscriber's auto-renew setup for one creator
+ */
+export interface AutoRenewStatus {
+  enabled: boolean;
+  escrowBalance: bigint; // Escrowed in the creator's current payment token
+  paymentToken: string; // ethers.ZeroAddress = ETH
+  renewalPrice: bigint; // Price of one period of the subscriber's tier
+}
+
+/**
+ * Subscription bought by one address for another
+ */
+export interface GiftedSubscription {
+  gifter: string;
+  recipient: string;
+  creator: string;
+  expiresAt: bigint;
+  periods: number;
+  encryptedNote: string | null; // Serialized encrypted bundle of the note as hex, null if none was attached
+  noteKey: string | null; // FHE handle of the note's AES key
+  transactionHash: string;
+  blockNumber: number;
+}
+
+/**
+ * Creator-signed coupon granting free access when redeemed on-chain
+ */
+export interface CompVoucher {
+  creator: string;
+  recipient: string; // Zero address = anyone holding the voucher can redeem it
+  duration: number; // Seconds of access
+  nonce: bigint;
+  deadline: number; // Unix timestamp after which it can't be redeemed
+  signature: string;
+}
+
+/**
+ * Options for creating a comp voucher
+ */
+export interface CreateCompVoucherOptions {
+  durationSeconds: number;
+  recipient?: string; // Defaults to an open voucher anyone can redeem
+  validForSeconds?: number; // Defaults to 30 days
+  nonce?: bigint; // Defaults to a random nonce
+}
+
+/**
+ * Options for creating a promo code; set exactly one of discountBps and fixedDiscount
+ */
+export interface CreatePromoCodeOptions {
+  discountBps?: number; // Percentage off in basis points (2000 = 20%)
+  fixedDiscount?: bigint; // Amount off in wei or token units
+  maxRedemptions?: number; // Defaults to unlimited
+  expiresAt?: number; // Unix timestamp, defaults to never
+}
+
+/**
+ * Promo code as stored on-chain
+ */
+export interface PromoCode {
+  discountBps: number;
+  fixedDiscount: bigint;
+  maxRedemptions: number; // 0 = unlimited
+  redemptions: number;
+  expiresAt: number; // 0 = never expires
+  isActive: boolean;
+}
+
+/**
+ * Result of checking a promo code against a subscription
+ */
+export interface PromoCodeValidation {
+  valid: boolean;
+  reason?: string; // Why the code can't be used, when invalid
+  originalPrice: bigint; // Price after any multi-period discount
+  discountedPrice: bigint; // Price with the code applied (equals originalPrice when invalid)
+  promoCode: PromoCode | null; // Null if the creator never created the code
+}
+
+/**
+ * Subscription tier offered by a creator
+ */
+export interface SubscriptionTier {
+  tierId: number;
+  name: string;
+  price: bigint; // Price in wei per period
+  duration: number; // Period length in seconds
+  rank: number; // Access level required by tier-gated posts
+  isActive: boolean; // Retired tiers can't be bought
 }
 
 /**
@@ -94,10 +299,30 @@ export interface SubscriptionStatus {
 export interface CreatorProfile {
   name: string;
   bio: string;
-  monthlyPrice: bigint;
-  subscriberCount: bigint;
+  monthlyPrice: bigint; // In wei, or in token units for token-priced creators
+  subscriberCount: bigint; // Uncancelled subscriptions, including lapsed ones (see getActiveSubscriberCount)
   isActive: boolean;
   address: string;
+  paymentToken: string; // ERC-20 token address (ethers.ZeroAddress = ETH)
+}
+
+/**
+ * Currency a creator's subscriptions are priced in
+ */
+export interface PaymentToken {
+  address: string; // ethers.ZeroAddress for ETH
+  symbol: string;
+  decimals: number;
+  isNative: boolean;
+}
+
+/**
+ * Creator earnings held by the contract
+ */
+export interface CreatorEarnings {
+  balance: bigint; // Withdrawable balance in wei
+  totalEarned: bigint; // Lifetime earnings in wei
+  totalWithdrawn: bigint; // Lifetime withdrawals in wei
 }
 
 /**
@@ -111,6 +336,10 @@ export interface NewsletterMetadata {
   publishedAt: bigint;
   isPublic: boolean;
   contentCID: string;
+  minTierRank: number;
+  price: bigint; // One-off unlock price (0 = subscribers only)
+  isUnpublished: boolean; // Withdrawn by the creator
+  availableAt: bigint; // Release time (same as publishedAt unless the post was scheduled)
 }
 
 /**
@@ -141,6 +370,9 @@ export class CryptletterCore {
    * @param options - Newsletter content and metadata
    * @param fhevmInstance - FHEVM instance for encryption
    * @returns Published result with post ID and CID
+   * @remarks Premium content is bound to the creator's next post index. If another publish by the same
+   * creator lands first, the post gets a later index; its content and images are then re-encrypted for
+   * that index and the post is updated in a second transaction.
    */
   async publishEncryptedNewsletter(
     options: PublishOptions,
@@ -150,191 +382,260 @@ export class CryptletterCore {
       throw new Error("Signer required to publish newsletter");
     }
 
-    // Create preview: replace images with [Image] text, strip other HTML tags, and truncate
-    // First, replace all img tags (including those with very long base64 src) with [Image]
-    let preview = options.content
-      .replace(/<img\s+[^>]*?src\s*=\s*["'][^"']*["'][^>]*?>/gi, "[Image]") // Replace img with src
-      .replace(/<img[^>]*>/gi, "[Image]") // Fallback for any other img tags
-      .replace(/<[^>]*>/g, "") // Strip all other HTML tags
-      .replace(/\s+/g, " ") // Normalize whitespace
-      .trim()
-      .substring(0, 200) // Truncate to 200 chars
-      .trim();
     const isPublic = options.isPublic || false;
+    const minTierRank = options.minTierRank ?? 0;
+
+    // Free posts are uploaded in the clear, so nothing would hold them back until a release time
+    if (isPublic && options.publishAt && options.publishAt.getTime() > Date.now()) {
+      throw new Error("Free newsletters can't be scheduled");
+    }
 
     // Generate AES key once (used for both content and images)
     const aesKey = !isPublic ? generateAESKey() : null;
 
-    // Process images before creating newsletter data
-    let finalHtml = options.content;
-    let finalJson = options.contentJson;
-    let imageCids: string[] = [];
-
-    // Only process if contentJson exists and has images
-    if (options.contentJson) {
-      const imageProcessResult = await processNewsletterImages(
-        options.content,
-        options.contentJson,
-        this.ipfsClient,
-        !isPublic, // Encrypt images for premium content
-        aesKey || undefined // Use same AES key as content encryption
-      );
-
-      finalHtml = imageProcessResult.html;
-      finalJson = imageProcessResult.json;
-      imageCids = imageProcessResult.imageCids;
+    // Premium content is bound to the post it's about to become: the creator's next post index
+    let context: EncryptionContext | undefined;
+    if (aesKey) {
+      const creator = await this.config.signer.getAddress();
+      context = await this.getEncryptionContext(creator, await this.getCreatorPostCount(creator));
     }
 
-    const newsletterData: NewsletterData = {
-      title: options.title,
-      content: finalHtml,
-      author: options.author,
-      timestamp: Date.now(),
-      images: imageCids,
-      metadata: {
-        ...options.metadata,
-        contentJson: finalJson, // Store processed JSON for future editing
-      },
-    };
+    // Encrypt (premium) or serialize (free) the content and upload it to IPFS
+    const contentCID = await this.uploadNewsletter(options, aesKey, context);
 
-    if (isPublic) {
-      // For free/public content, store as plain JSON (no encryption)
-      const jsonString = JSON.stringify(newsletterData);
-      const uploadResult = await this.ipfsClient.uploadToIPFS(
-        new TextEncoder().encode(jsonString),
-        {
-          name: `newsletter-free-${options.title}-${Date.now()}`,
-          keyValues: {
-            type: "cryptletter-newsletter-free",
-            author: options.author,
-            timestamp: Date.now(),
-          },
-        }
-      );
+    // Encrypt the AES key with FHE (free posts get a dummy key, the contract requires one)
+    const { handle, inputProof } = await this.encryptPostKey(fhevmInstance, aesKey);
 
-      // For public posts, we still need to provide dummy encrypted key (contract requires it)
-      // Use a zero handle since it won't be used for decryption
-      const userAddress = await this.config.signer.getAddress();
-      const dummyValue = "0x0000000000000000000000000000000000000000000000000000000000000000";
+    // Publish to smart contract
+    const tx = await this.contract.publishNewsletter(
+      contentCID,
+      handle,
+      inputProof,
+      options.title,
+      createPreview(options.content),
+      isPublic,
+      isPublic ? 0 : minTierRank, // minTierRank is unused for public posts
+      isPublic ? 0n : options.price ?? 0n, // Public posts are free
+      options.publishAt ? BigInt(Math.floor(options.publishAt.getTime() / 1000)) : 0n // 0 = release now
+    );
 
-      const encryptResult = await encryptValue(
-        fhevmInstance,
-        this.config.contractAddress,
-        userAddress,
-        dummyValue,
-        "euint256"
-      );
+    const receipt = await tx.wait();
 
-      const encryptedKeyHandle = encryptResult.handles[0];
-      const inputProof = encryptResult.inputProof;
-
-      // Publish to smart contract
-      const tx = await this.contract.publishNewsletter(
-        uploadResult.cid,
-        encryptedKeyHandle,
-        inputProof,
-        options.title,
-        preview,
-        true // isPublic
-      );
+    // Extract postId from event
+    const event = this.findEvent(receipt, "NewsletterPublished");
 
-      const receipt = await tx.wait();
-
-      // Extract postId from event
-      const event = receipt.logs
-        .map((log: any) => {
-          try {
-            return this.contract.interface.parseLog(log);
-          } catch {
-            return null;
-          }
-        })
-        .find((e: any) => e?.name === "NewsletterPublished");
-
-      if (!event) {
-        throw new Error("Failed to extract post ID from transaction");
-      }
+    if (!event) {
+      throw new Error("Failed to extract post ID from transaction");
+    }
 
-      return {
-        postId: event.args.postId,
-        contentCID: uploadResult.cid,
-        transactionHash: receipt.hash,
-      };
+    const postId: bigint = event.args.postId;
+    let finalCID = contentCID;
+
+    // Check the index the post actually got; re-bind its content if another post took the expected one
+    if (aesKey && context) {
+      const postNonce = await this.findPostNonce(context.creator, Number(postId), context.postNonce);
+      if (postNonce !== context.postNonce) {
+        finalCID = await this.uploadNewsletter(options, aesKey, { ...context, postNonce });
+        const rebound = await this.encryptPostKey(fhevmInstance, aesKey);
+
+        const updateTx = await this.contract.updateNewsletter(
+          postId,
+          finalCID,
+          rebound.handle,
+          rebound.inputProof,
+          options.title,
+          createPreview(options.content)
+        );
+        await updateTx.wait();
+      }
     }
 
-    // For premium content, use full encryption flow
-    // Step 1: AES key already generated above (used for both content and images)
-    if (!aesKey) {
-      throw new Error("AES key should be generated for premium content");
+    return {
+      postId,
+      contentCID: finalCID,
+      transactionHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Edit a published newsletter: re-encrypt, re-upload and point the post at the new content
+   * @param postId - Post to edit (must belong to the connected signer)
+   * @param options - New content and metadata
+   * @param fhevmInstance - FHEVM instance for encryption
+   * @param decryptedAESKey - The post's current AES key (from FHE decryption); required for premium posts
+   * @returns Edit result with the new CID and version number
+   * @remarks Premium posts keep their AES key so images uploaded with an earlier version still decrypt.
+   * The key gets a fresh FHE handle, so readers need to grant decryption permission again.
+   */
+  async editNewsletter(
+    postId: number,
+    options: EditOptions,
+    fhevmInstance: FhevmInstance,
+    decryptedAESKey?: string
+  ): Promise<EditResult> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to edit newsletter");
     }
 
-    // Step 2: Encrypt newsletter content with AES
-    const encryptedBundle = await encryptContent(newsletterData, aesKey);
+    const post = await this.contract.getNewsletter(postId);
+    const userAddress = await this.config.signer.getAddress();
+    if (post.creator.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error("Only the post creator can edit this newsletter");
+    }
 
-    // Step 3: Upload encrypted content to IPFS
-    const serialized = serializeBundle(encryptedBundle);
-    const uploadResult = await this.ipfsClient.uploadToIPFS(
-      new TextEncoder().encode(serialized),
-      {
-        name: `newsletter-${options.title}-${Date.now()}`,
-        keyValues: {
-          type: "cryptletter-newsletter",
-          author: options.author,
-          timestamp: Date.now(),
-        },
+    let aesKey: Uint8Array | null = null;
+    let context: EncryptionContext | undefined;
+    if (!post.isPublic) {
+      if (!decryptedAESKey) {
+        throw new Error("Decrypted AES key required to edit a premium newsletter");
       }
+      aesKey = fheOutputToAESKey(decryptedAESKey);
+      context = await this.getEncryptionContext(post.creator, await this.findPostNonce(post.creator, postId));
+    }
+
+    const contentCID = await this.uploadNewsletter(options, aesKey, context);
+    const { handle, inputProof } = await this.encryptPostKey(fhevmInstance, aesKey);
+
+    const tx = await this.contract.updateNewsletter(
+      postId,
+      contentCID,
+      handle,
+      inputProof,
+      options.title,
+      createPreview(options.content)
     );
 
-    // Step 4: Encrypt AES key with FHE
-    const aesKeyHex = aesKeyToFHEInput(aesKey);
+    const receipt = await tx.wait();
+
+    const event = this.findEvent(receipt, "NewsletterUpdated");
+
+    if (!event) {
+      throw new Error("Failed to extract version from transaction");
+    }
+
+    return {
+      postId,
+      contentCID,
+      version: Number(event.args.version),
+      transactionHash: receipt.hash,
+    };
+  }
+
+  /**
+   * Rotate a premium post's AES key: re-encrypt its content and images and publish the new key
+   * @param postId - Post to re-key (must belong to the connected signer)
+   * @param fhevmInstance - FHEVM instance for encryption
+   * @param decryptedAESKey - The post's current AES key (from FHE decryption)
+   * @returns Rotation result with the new CID, version number and image CIDs
+   * @remarks The new key goes on-chain through updateNewsletter, which only grants decryption permission
+   * to readers with access at the time, so readers whose access lapsed can't read later revisions.
+   * Content uploaded under the old key stays readable to anyone who already holds it.
+   */
+  async rotateNewsletterKey(
+    postId: number,
+    fhevmInstance: FhevmInstance,
+    decryptedAESKey: string
+  ): Promise<KeyRotationResult> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to rotate newsletter key");
+    }
+
+    const post = await this.contract.getNewsletter(postId);
     const userAddress = await this.config.signer.getAddress();
+    if (post.creator.toLowerCase() !== userAddress.toLowerCase()) {
+      throw new Error("Only the post creator can rotate this newsletter's key");
+    }
+    if (post.isPublic) {
+      throw new Error("Free newsletters have no key to rotate");
+    }
 
-    // Use encryptValue to encrypt the AES key as euint256
-    const encryptResult = await encryptValue(
-      fhevmInstance,
-      this.config.contractAddress,
-      userAddress,
-      aesKeyHex,
-      "euint256"
-    );
+    const { newsletter, context } = await this.decryptNewsletterContent(postId, decryptedAESKey);
+    const oldKey = fheOutputToAESKey(decryptedAESKey);
+    const newKey = generateAESKey();
+
+    // Edits only list the images they uploaded, so also pick up the ones kept in the content
+    const imageCids = [
+      ...new Set([
+        ...(newsletter.images ?? []),
+        ...extractEncryptedImageCidsFromJson(newsletter.metadata?.contentJson),
+      ]),
+    ];
+    const reencrypted = await reencryptImages(imageCids, this.ipfsClient, oldKey, newKey, context);
+
+    // Point image URLs and CID attributes at the re-encrypted copies
+    const replaceCids = (value: string): string => {
+      for (const [oldCid, newCid] of reencrypted) {
+        value = value.split(oldCid).join(newCid);
+      }
+      return value;
+    };
 
-    const encryptedKeyHandle = encryptResult.handles[0];
-    const inputProof = encryptResult.inputProof;
+    const rotated: NewsletterData = {
+      ...newsletter,
+      content: replaceCids(newsletter.content),
+      images: [...reencrypted.values()],
+      metadata: newsletter.metadata && JSON.parse(replaceCids(JSON.stringify(newsletter.metadata))),
+    };
 
-    // Step 5: Publish to smart contract
-    const tx = await this.contract.publishNewsletter(
-      uploadResult.cid,
-      encryptedKeyHandle,
+    const contentCID = await this.uploadNewsletterData(rotated, newKey, context);
+    const { handle, inputProof } = await this.encryptPostKey(fhevmInstance, newKey);
+
+    const tx = await this.contract.updateNewsletter(
+      postId,
+      contentCID,
+      handle,
       inputProof,
-      options.title,
-      preview,
-      false // isPublic
+      post.title,
+      post.preview
     );
 
     const receipt = await tx.wait();
 
-    // Extract postId from event
-    const event = receipt.logs
-      .map((log: any) => {
-        try {
-          return this.contract.interface.parseLog(log);
-        } catch {
-          return null;
-        }
-      })
-      .find((e: any) => e?.name === "NewsletterPublished");
+    const event = this.findEvent(receipt, "NewsletterUpdated");
 
     if (!event) {
-      throw new Error("Failed to extract post ID from transaction");
+      throw new Error("Failed to extract version from transaction");
     }
 
     return {
-      postId: event.args.postId,
-      contentCID: uploadResult.cid,
+      postId,
+      contentCID,
+      version: Number(event.args.version),
+      imageCids: [...reencrypted.values()],
       transactionHash: receipt.hash,
     };
   }
 
+  /**
+   * Get every content revision of a post, oldest first
+   * @param postId - Newsletter post ID
+   * @returns Revisions (the last one is the current content)
+   */
+  async getNewsletterVersions(postId: number): Promise<NewsletterVersion[]> {
+    const versions = await this.contract.getNewsletterVersions(postId);
+
+    return versions.map((version: any, index: number) => ({
+      version: index,
+      contentCID: version.contentCID,
+      updatedAt: version.updatedAt,
+    }));
+  }
+
+  /**
+   * Withdraw a post; it's hidden from listings and only buyers keep access
+   * @param postId - Newsletter post ID
+   * @returns Transaction hash
+   */
+  async unpublishNewsletter(postId: number): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to unpublish newsletter");
+    }
+
+    const tx = await this.contract.unpublishNewsletter(postId);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
   /**
    * Get encrypted AES key for a newsletter (for manual decryption)
    * @param postId - Newsletter post ID
@@ -361,11 +662,13 @@ export class CryptletterCore {
    * Decrypt newsletter content with a decrypted AES key
    * @param postId - Newsletter post ID
    * @param decryptedAESKey - Decrypted AES key (from FHE decryption)
-   * @returns Decrypted newsletter data
+   * @param options - Set `allowUnbound` to read posts encrypted before AAD binding, which can't be checked
+   * @returns Decrypted newsletter data and the on-chain context its content and images are checked against
    */
   async decryptNewsletterContent(
     postId: number,
-    decryptedAESKey: string
+    decryptedAESKey: string,
+    options: Pick<DecryptContentOptions, "allowUnbound"> = {}
   ): Promise<FetchResult> {
     // Step 1: Get newsletter metadata from contract
     const newsletter = await this.contract.getNewsletter(postId);
@@ -376,15 +679,28 @@ export class CryptletterCore {
     // Step 3: Download encrypted content from IPFS
     const encryptedData = await this.ipfsClient.downloadFromIPFS(newsletter.contentCID);
 
-    // Step 4: Deserialize encrypted bundle
-    const serialized = new TextDecoder().decode(encryptedData);
-    const encryptedBundle = deserializeBundle(serialized);
+    // Step 4: Deserialize encrypted bundle (binary, or base64 JSON for older posts)
+    const encryptedBundle = deserializeBundle(encryptedData);
+
+    // Step 5: Check the bundle was encrypted for this post (bundles from before AAD binding need allowUnbound)
+    const context = await this.getEncryptionContext(
+      newsletter.creator,
+      await this.findPostNonce(
+        newsletter.creator,
+        postId,
+        getBundleContext(encryptedBundle)?.postNonce
+      )
+    );
 
-    // Step 5: Decrypt content with AES key
-    const newsletterData = await decryptContent(encryptedBundle, aesKey);
+    // Step 6: Decrypt content with AES key
+    const newsletterData = await decryptContent(encryptedBundle, aesKey, {
+      context,
+      allowUnbound: options.allowUnbound,
+    });
 
     return {
       newsletter: newsletterData,
+      context,
       metadata: {
         postId,
         creator: newsletter.creator,
@@ -400,52 +716,263 @@ export class CryptletterCore {
    * Subscribe to a creator
    * @param creatorAddress - Creator's address
    * @param paymentAmount - Payment amount in wei
+   * @param tierId - Tier to subscribe to (defaults to the creator's default tier)
+   * @param periods - Number of periods to buy (1, 3, 6 or 12)
+   * @param promoCode - Optional promo code (paymentAmount should be the discounted price)
    * @returns Transaction hash
    */
   async subscribeToCreator(
     creatorAddress: string,
-    paymentAmount: bigint
+    paymentAmount: bigint,
+    tierId: number = 0,
+    periods: SubscriptionPeriods = 1,
+    promoCode?: string
   ): Promise<string> {
     if (!this.config.signer) {
       throw new Error("Signer required to subscribe");
     }
 
-    const tx = await this.contract.subscribe(creatorAddress, {
-      value: paymentAmount,
-    });
+    // Token-priced creators are paid with transferFrom, so approve the price first
+    const { paymentToken } = await this.getCreator(creatorAddress);
+    const code = normalizePromoCode(promoCode ?? "");
+    let tx;
+    if (paymentToken === ethers.ZeroAddress) {
+      tx = await this.contract.subscribe(creatorAddress, tierId, periods, code, {
+        value: paymentAmount,
+      });
+    } else {
+      await this.ensureAllowance(paymentToken, paymentAmount);
+      tx = await this.contract.subscribe(creatorAddress, tierId, periods, code);
+    }
 
     const receipt = await tx.wait();
     return receipt.hash;
   }
 
   /**
-   * Renew an existing subscription
+   * Subscribe to a token-priced creator with an EIP-2612 permit instead of a separate approval
    * @param creatorAddress - Creator's address
-   * @param paymentAmount - Payment amount in wei
+   * @param tierId - Tier to subscribe to (defaults to the creator's default tier)
+   * @param periods - Number of periods to buy (1, 3, 6 or 12)
+   * @param deadlineSeconds - How long the permit signature stays valid (default 1 hour)
+   * @param promoCode - Optional promo code; the permit covers the discounted price
    * @returns Transaction hash
    */
-  async renewSubscription(
+  async subscribeWithPermit(
     creatorAddress: string,
-    paymentAmount: bigint
+    tierId: number = 0,
+    periods: SubscriptionPeriods = 1,
+    deadlineSeconds: number = 3600,
+    promoCode?: string
   ): Promise<string> {
     if (!this.config.signer) {
-      throw new Error("Signer required to renew subscription");
+      throw new Error("Signer required to subscribe");
     }
 
-    const tx = await this.contract.renewSubscription(creatorAddress, {
-      value: paymentAmount,
-    });
+    const { paymentToken } = await this.getCreator(creatorAddress);
+    if (paymentToken === ethers.ZeroAddress) {
+      throw new Error("Creator is not priced in an ERC-20 token");
+    }
 
+    const code = normalizePromoCode(promoCode ?? "");
+    const price = code
+      ? await this.contract.quoteSubscriptionWithCode(creatorAddress, tierId, periods, code)
+      : await this.quoteSubscription(creatorAddress, tierId, periods);
+    const deadline = BigInt(Math.floor(Date.now() / 1000) + deadlineSeconds);
+    const { v, r, s } = await this.signPermit(paymentToken, price, deadline);
+
+    const tx = await this.contract.subscribeWithPermit(
+      creatorAddress,
+      tierId,
+      periods,
+      code,
+      deadline,
+      v,
+      r,
+      s
+    );
     const receipt = await tx.wait();
     return receipt.hash;
   }
 
   /**
-   * Cancel a subscription
+   * Pay for a subscription for someone else
+   *
+   * The recipient's running tier is extended, or the default tier bought if they have none.
+   * An optional note is AES-encrypted like newsletter content, with its key FHE-encrypted
+   * so only the gifter and recipient can read it.
+   *
    * @param creatorAddress - Creator's address
+   * @param recipientAddress - Address receiving the subscription
+   * @param paymentAmount - Payment amount in wei (or token units for token-priced creators)
+   * @param periods - Number of periods to gift (1, 3, 6 or 12)
+   * @param note - Optional private message for the recipient
+   * @param fhevmInstance - FHEVM instance, required when a note is attached
    * @returns Transaction hash
    */
-  async cancelSubscription(creatorAddress: string): Promise<string> {
+  async giftSubscription(
+    creatorAddress: string,
+    recipientAddress: string,
+    paymentAmount: bigint,
+    periods: SubscriptionPeriods = 1,
+    note?: string,
+    fhevmInstance?: FhevmInstance
+  ): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to gift a subscription");
+    }
+    if (note && !fhevmInstance) {
+      throw new Error("FHEVM instance required to encrypt a gift note");
+    }
+
+    const { paymentToken } = await this.getCreator(creatorAddress);
+    const isNative = paymentToken === ethers.ZeroAddress;
+    if (!isNative) {
+      await this.ensureAllowance(paymentToken, paymentAmount);
+    }
+    const overrides = isNative ? { value: paymentAmount } : {};
+
+    let tx;
+    if (note) {
+      const gifterAddress = await this.config.signer.getAddress();
+      const noteKey = generateAESKey();
+      const bundle = await encryptContent(
+        {
+          title: "Gift note",
+          content: note,
+          author: gifterAddress,
+          timestamp: Date.now(),
+        },
+        noteKey
+      );
+
+      const encryptResult = await encryptValue(
+        fhevmInstance!,
+        this.config.contractAddress,
+        gifterAddress,
+        aesKeyToFHEInput(noteKey),
+        "euint256"
+      );
+
+      tx = await this.contract.giftSubscriptionWithNote(
+        creatorAddress,
+        recipientAddress,
+        periods,
+        serializeBundle(bundle),
+        encryptResult.handles[0],
+        encryptResult.inputProof,
+        overrides
+      );
+    } else {
+      tx = await this.contract.giftSubscription(
+        creatorAddress,
+        recipientAddress,
+        periods,
+        overrides
+      );
+    }
+
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Get every subscription gifted to an address
+   * @param recipientAddress - Recipient's address
+   * @returns Gifts ordered oldest first
+   */
+  async getReceivedGifts(recipientAddress: string): Promise<GiftedSubscription[]> {
+    if (this.config.indexer) {
+      return this.config.indexer.getReceivedGifts(recipientAddress);
+    }
+
+    const events = await this.contract.queryFilter(
+      this.contract.filters.SubscriptionGifted(null, recipientAddress)
+    );
+
+    return events.map((event: any) => {
+      const hasNote = event.args.encryptedNote !== "0x";
+
+      return {
+        gifter: event.args.gifter,
+        recipient: event.args.recipient,
+        creator: event.args.creator,
+        expiresAt: event.args.expiresAt,
+        periods: Number(event.args.periods),
+        encryptedNote: hasNote ? event.args.encryptedNote : null,
+        noteKey: hasNote ? event.args.noteKey : null,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      };
+    });
+  }
+
+  /**
+   * Decrypt the note attached to a gift
+   * @param gift - Gift with a note
+   * @param decryptedNoteKey - Decrypted note key (from FHE decryption of `gift.noteKey`)
+   * @returns Plain-text note
+   */
+  async decryptGiftNote(gift: GiftedSubscription, decryptedNoteKey: string): Promise<string> {
+    if (!gift.encryptedNote) {
+      throw new Error("Gift has no note");
+    }
+
+    const bundle = deserializeBundle(gift.encryptedNote);
+    const note = await decryptContent(bundle, fheOutputToAESKey(decryptedNoteKey));
+    return note.content;
+  }
+
+  /**
+   * Get the price of a subscription after any multi-period discount
+   * @param creatorAddress - Creator's address
+   * @param tierId - Tier ID
+   * @param periods - Number of periods (1, 3, 6 or 12)
+   * @returns Total price in wei
+   */
+  async quoteSubscription(
+    creatorAddress: string,
+    tierId: number = 0,
+    periods: SubscriptionPeriods = 1
+  ): Promise<bigint> {
+    return await this.contract.quoteSubscription(creatorAddress, tierId, periods);
+  }
+
+  /**
+   * Renew an existing subscription
+   * @param creatorAddress - Creator's address
+   * @param paymentAmount - Payment amount in wei
+   * @returns Transaction hash
+   */
+  async renewSubscription(
+    creatorAddress: string,
+    paymentAmount: bigint
+  ): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to renew subscription");
+    }
+
+    const { paymentToken } = await this.getCreator(creatorAddress);
+    let tx;
+    if (paymentToken === ethers.ZeroAddress) {
+      tx = await this.contract.renewSubscription(creatorAddress, {
+        value: paymentAmount,
+      });
+    } else {
+      await this.ensureAllowance(paymentToken, paymentAmount);
+      tx = await this.contract.renewSubscription(creatorAddress);
+    }
+
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Cancel a subscription
+   * @param creatorAddress - Creator's address
+   * @returns Transaction hash
+   */
+  async cancelSubscription(creatorAddress: string): Promise<string> {
     if (!this.config.signer) {
       throw new Error("Signer required to cancel subscription");
     }
@@ -455,6 +982,44 @@ export class CryptletterCore {
     return receipt.hash;
   }
 
+  /**
+   * Buy permanent access to a single pay-per-view post
+   * @param postId - Newsletter post ID
+   * @returns Transaction hash
+   */
+  async purchasePost(postId: number): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to purchase post");
+    }
+
+    const { creator, price } = await this.getNewsletterMetadata(postId);
+    if (price === 0n) {
+      throw new Error("This post is not for sale");
+    }
+
+    const { paymentToken } = await this.getCreator(creator);
+    let tx;
+    if (paymentToken === ethers.ZeroAddress) {
+      tx = await this.contract.purchasePost(postId, { value: price });
+    } else {
+      await this.ensureAllowance(paymentToken, price);
+      tx = await this.contract.purchasePost(postId);
+    }
+
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Check whether an address bought a pay-per-view post
+   * @param postId - Newsletter post ID
+   * @param buyerAddress - Buyer address
+   * @returns True if the post was purchased
+   */
+  async hasPurchasedPost(postId: number, buyerAddress: string): Promise<boolean> {
+    return await this.contract.postPurchases(postId, buyerAddress);
+  }
+
   /**
    * Check if user can access a newsletter
    * @param postId - Newsletter post ID
@@ -488,9 +1053,27 @@ export class CryptletterCore {
       subscriberCount: creator.subscriberCount,
       isActive: creator.isActive,
       address: creatorAddress,
+      paymentToken: creator.paymentToken ?? ethers.ZeroAddress,
     };
   }
 
+  /**
+   * Get the currency a creator's subscriptions are priced in
+   * @param creatorAddress - Creator's address
+   * @returns Token address, symbol and decimals (ETH for native pricing)
+   */
+  async getPaymentToken(creatorAddress: string): Promise<PaymentToken> {
+    const { paymentToken } = await this.getCreator(creatorAddress);
+    if (paymentToken === ethers.ZeroAddress) {
+      return { address: ethers.ZeroAddress, symbol: "ETH", decimals: 18, isNative: true };
+    }
+
+    const token = this.erc20(paymentToken, this.config.provider);
+    const [symbol, decimals] = await Promise.all([token.symbol(), token.decimals()]);
+
+    return { address: paymentToken, symbol, decimals: Number(decimals), isNative: false };
+  }
+
   /**
    * Get subscription status
    * @param subscriberAddress - Subscriber's address
@@ -508,6 +1091,10 @@ export class CryptletterCore {
     const expiresAt = result[1];
     const subscribedAt = result[2];
     const hasAccess = result.length > 3 ? result[3] : (expiresAt > BigInt(Math.floor(Date.now() / 1000)));
+    const tierId = result.length > 4 ? Number(result[4]) : 0;
+    const creditedTime = result.length > 5 ? Number(result[5]) : 0;
+    const giftedBy = result.length > 6 ? result[6] : ethers.ZeroAddress;
+    const isTrial = result.length > 7 ? result[7] : false;
 
     const now = BigInt(Math.floor(Date.now() / 1000));
     const daysRemaining = hasAccess
@@ -520,138 +1107,1183 @@ export class CryptletterCore {
       subscribedAt,
       daysRemaining,
       hasAccess,
+      tierId,
+      creditedTime,
+      giftedBy,
+      isTrial,
     };
   }
 
   /**
-   * Get newsletter metadata (public info only)
-   * @param postId - Newsletter post ID
-   * @returns Newsletter metadata
+   * Find every creator an address has ever subscribed to, including trials and comps
+   * @param subscriberAddress - Subscriber's address
+   * @returns Creator addresses in the order they were first subscribed to
    */
-  async getNewsletterMetadata(postId: number): Promise<NewsletterMetadata> {
-    const newsletter = await this.contract.getNewsletter(postId);
+  async getSubscribedCreators(subscriberAddress: string): Promise<string[]> {
+    if (this.config.indexer) {
+      const indexed = await this.config.indexer.getSubscriptions(subscriberAddress);
+      return indexed.map((sub) => sub.creator);
+    }
 
-    return {
-      postId,
-      title: newsletter.title,
-      preview: newsletter.preview,
-      creator: newsletter.creator,
-      publishedAt: newsletter.publishedAt,
-      isPublic: newsletter.isPublic,
-      contentCID: newsletter.contentCID,
-    };
+    const { filters } = this.contract;
+    const batches = await Promise.all([
+      this.contract.queryFilter(filters.Subscribed(subscriberAddress)),
+      this.contract.queryFilter(filters.TrialStarted(subscriberAddress)),
+      this.contract.queryFilter(filters.ComplimentaryAccessGranted(null, subscriberAddress)),
+    ]);
+
+    const events = batches
+      .flat()
+      .sort((a: any, b: any) => a.blockNumber - b.blockNumber || a.index - b.index);
+
+    const creators = new Map<string, string>();
+    for (const event of events as any[]) {
+      const creator: string = event.args.creator;
+      if (!creators.has(creator.toLowerCase())) {
+        creators.set(creator.toLowerCase(), creator);
+      }
+    }
+    return [...creators.values()];
   }
 
   /**
-   * List all newsletters for a creator (metadata only)
+   * List a creator's subscribers, oldest first
    * @param creatorAddress - Creator's address
-   * @param limit - Maximum number of newsletters to fetch
-   * @returns Array of newsletter metadata
+   * @param options - Filter and limit
+   * @returns Subscribers with their subscription details
    */
-  async listCreatorNewsletters(
+  async listSubscribers(
     creatorAddress: string,
-    limit: number = 50
-  ): Promise<NewsletterMetadata[]> {
-    // Get total post count
-    const postCounter = await this.contract.postCounter();
-    const total = Number(postCounter);
+    options: ListSubscribersOptions = {}
+  ): Promise<CreatorSubscriber[]> {
+    const { activeOnly = false, limit = 1000 } = options;
+    const now = BigInt(Math.floor(Date.now() / 1000));
 
-    const newsletters: NewsletterMetadata[] = [];
+    if (this.config.indexer) {
+      const indexed = await this.config.indexer.getSubscribers(creatorAddress, { activeOnly });
+      return indexed.slice(0, limit).map((sub) =>
+        toCreatorSubscriber(
+          sub.subscriber,
+          { ...sub, subscribedAt: BigInt(sub.subscribedAt) },
+          now
+        )
+      );
+    }
+
+    const subscribers: CreatorSubscriber[] = [];
+    const pageSize = Math.min(limit, SUBSCRIBER_PAGE_SIZE);
+
+    // Page through the creator's subscriber index; filtered-out entries can leave a page short
+    for (let offset = 0; subscribers.length < limit; offset += pageSize) {
+      const [addresses, subs] = await this.contract.getCreatorSubscribers(
+        creatorAddress,
+        offset,
+        pageSize
+      );
+      if (addresses.length === 0) break;
 
-    // Iterate backwards through posts (most recent first)
-    for (let i = total - 1; i >= 0 && newsletters.length < limit; i--) {
-      try {
-        const newsletter = await this.contract.getNewsletter(i);
-        if (newsletter.creator.toLowerCase() === creatorAddress.toLowerCase()) {
-          newsletters.push({
-            postId: i,
-            title: newsletter.title,
-            preview: newsletter.preview,
-            creator: newsletter.creator,
-            publishedAt: newsletter.publishedAt,
-            isPublic: newsletter.isPublic,
-            contentCID: newsletter.contentCID,
-          });
+      addresses.forEach((address: string, index: number) => {
+        const subscriber = toCreatorSubscriber(address, subs[index], now);
+        if (subscribers.length < limit && (!activeOnly || (subscriber.isActive && subscriber.hasAccess))) {
+          subscribers.push(subscriber);
         }
-      } catch (error) {
-        // Skip invalid posts
-        console.warn(`Failed to fetch newsletter ${i}:`, error);
-      }
+      });
+
+      if (addresses.length < pageSize) break;
     }
 
-    return newsletters;
+    return subscribers;
   }
 
   /**
-   * Get list of creators
-   * @param offset - Starting index
-   * @param limit - Number of creators to fetch
-   * @returns Array of creator addresses
+   * Count a creator's running subscriptions (not cancelled and not expired)
+   *
+   * Unlike `CreatorProfile.subscriberCount`, which only drops on cancellation, subscriptions
+   * that lapse without being cancelled aren't counted.
+   * @param creatorAddress - Creator's address
+   * @returns Number of active subscribers
    */
-  async getCreators(offset: number = 0, limit: number = 10): Promise<string[]> {
-    return await this.contract.getCreators(offset, limit);
+  async getActiveSubscriberCount(creatorAddress: string): Promise<number> {
+    if (this.config.indexer) {
+      const active = await this.config.indexer.getSubscribers(creatorAddress, { activeOnly: true });
+      return active.length;
+    }
+
+    const total = Number(await this.contract.getCreatorSubscriberCount(creatorAddress));
+    if (total === 0) return 0;
+
+    const active = await this.listSubscribers(creatorAddress, { activeOnly: true, limit: total });
+    return active.length;
   }
 
   /**
-   * Get total creator count
-   * @returns Total number of creators
+   * Check whether a subscriber has overpayments credited as extra time
+   * @param subscriberAddress - Subscriber's address
+   * @returns True if overpayments are credited, false if they are refunded
    */
-  async getCreatorCount(): Promise<number> {
-    const count = await this.contract.getCreatorCount();
-    return Number(count);
+  async getOverpaymentPreference(subscriberAddress: string): Promise<boolean> {
+    return await this.contract.creditOverpayment(subscriberAddress);
   }
 
   /**
-   * Register as a creator
-   * @param name - Creator name
-   * @param bio - Creator bio
-   * @param monthlyPrice - Monthly subscription price in wei
+   * Choose whether overpayments are refunded or credited as pro-rated extra time
+   * @param credit - True to credit overpayments as time, false to refund them
    * @returns Transaction hash
    */
-  async registerAsCreator(
-    name: string,
-    bio: string,
-    monthlyPrice: bigint
+  async setOverpaymentPreference(credit: boolean): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to set overpayment preference");
+    }
+
+    const tx = await this.contract.setOverpaymentPreference(credit);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Get a subscriber's auto-renew flag, escrow balance and the price of their next renewal
+   * @param subscriberAddress - Subscriber's address
+   * @param creatorAddress - Creator's address
+   * @returns Auto-renew status
+   */
+  async getAutoRenewStatus(
+    subscriberAddress: string,
+    creatorAddress: string
+  ): Promise<AutoRenewStatus> {
+    const [{ paymentToken }, enabled, status, tiers] = await Promise.all([
+      this.getCreator(creatorAddress),
+      this.contract.autoRenew(subscriberAddress, creatorAddress),
+      this.getSubscriptionStatus(subscriberAddress, creatorAddress),
+      this.getCreatorTiers(creatorAddress),
+    ]);
+    const escrowBalance: bigint = await this.contract.renewalEscrow(
+      subscriberAddress,
+      creatorAddress,
+      paymentToken
+    );
+
+    return {
+      enabled,
+      escrowBalance,
+      paymentToken,
+      renewalPrice: tiers[status.tierId]?.price ?? 0n,
+    };
+  }
+
+  /**
+   * Turn auto-renew on or off for a creator
+   *
+   * Renewals are paid from the escrow funded with fundRenewalEscrow.
+   * @param creatorAddress - Creator's address
+   * @param enabled - True to renew from escrow once the subscription lapses
+   * @returns Transaction hash
+   */
+  async setAutoRenew(creatorAddress: string, enabled: boolean): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to set auto-renew");
+    }
+
+    const tx = await this.contract.setAutoRenew(creatorAddress, enabled);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Deposit into the renewal escrow for a creator, in the creator's current payment token
+   * @param creatorAddress - Creator's address
+   * @param amount - Amount to deposit in wei or token units
+   * @returns Transaction hash
+   */
+  async fundRenewalEscrow(creatorAddress: string, amount: bigint): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to fund renewal escrow");
+    }
+
+    const { paymentToken } = await this.getCreator(creatorAddress);
+    let tx;
+    if (paymentToken === ethers.ZeroAddress) {
+      tx = await this.contract.fundRenewalEscrow(creatorAddress, amount, { value: amount });
+    } else {
+      await this.ensureAllowance(paymentToken, amount);
+      tx = await this.contract.fundRenewalEscrow(creatorAddress, amount);
+    }
+
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Withdraw the whole renewal escrow for a creator
+   * @param creatorAddress - Creator's address
+   * @param token - Escrowed token (default: the creator's current payment token)
+   * @returns Transaction hash
+   */
+  async withdrawRenewalEscrow(creatorAddress: string, token?: string): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to withdraw renewal escrow");
+    }
+
+    const escrowToken = token ?? (await this.getCreator(creatorAddress)).paymentToken;
+    const tx = await this.contract.withdrawRenewalEscrow(creatorAddress, escrowToken);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Renew lapsed auto-renew subscriptions to a creator from their escrows
+   *
+   * Anyone can call this; subscribers that aren't due or can't be charged are skipped.
+   * @param subscriberAddresses - Subscribers to renew
+   * @param creatorAddress - Creator's address
+   * @returns Transaction hash
+   */
+  async processRenewals(subscriberAddresses: string[], creatorAddress: string): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to process renewals");
+    }
+
+    const tx = await this.contract.processRenewals(subscriberAddresses, creatorAddress);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Get a creator's multi-period discounts
+   * @param creatorAddress - Creator's address
+   * @returns Discount in basis points keyed by period count
+   */
+  async getPeriodDiscounts(
+    creatorAddress: string
+  ): Promise<Record<SubscriptionPeriods, number>> {
+    const discounts = await Promise.all(
+      SUBSCRIPTION_PERIOD_OPTIONS.map((periods) =>
+        periods === 1 ? 0n : this.contract.periodDiscounts(creatorAddress, periods)
+      )
+    );
+
+    return Object.fromEntries(
+      SUBSCRIPTION_PERIOD_OPTIONS.map((periods, i) => [periods, Number(discounts[i])])
+    ) as Record<SubscriptionPeriods, number>;
+  }
+
+  /**
+   * Set the discount for buying several periods at once
+   * @param periods - Period count the discount applies to (3, 6 or 12)
+   * @param discountBps - Discount in basis points (max 5000 = 50%)
+   * @returns Transaction hash
+   */
+  async setPeriodDiscount(
+    periods: Exclude<SubscriptionPeriods, 1>,
+    discountBps: number
   ): Promise<string> {
     if (!this.config.signer) {
-      throw new Error("Signer required to register as creator");
+      throw new Error("Signer required to set period discount");
     }
 
-    const tx = await this.contract.registerCreator(name, bio, monthlyPrice);
+    const tx = await this.contract.setPeriodDiscount(periods, discountBps);
     const receipt = await tx.wait();
     return receipt.hash;
   }
 
   /**
-   * Update creator profile
-   * @param name - New name
-   * @param bio - New bio
+   * Get the length of a creator's free trial
+   * @param creatorAddress - Creator's address
+   * @returns Trial length in seconds (0 if no trial is offered)
+   */
+  async getTrialDuration(creatorAddress: string): Promise<number> {
+    return Number(await this.contract.trialDurations(creatorAddress));
+  }
+
+  /**
+   * Check whether an address has already used its free trial of a creator
+   * @param subscriberAddress - Subscriber's address
+   * @param creatorAddress - Creator's address
+   * @returns True if the trial was already started once
+   */
+  async hasUsedTrial(subscriberAddress: string, creatorAddress: string): Promise<boolean> {
+    return await this.contract.trialUsed(subscriberAddress, creatorAddress);
+  }
+
+  /**
+   * Offer new subscribers a free trial of the default tier
+   * @param durationSeconds - Trial length in seconds (max 30 days, 0 to stop offering trials)
    * @returns Transaction hash
    */
-  async updateCreatorProfile(name: string, bio: string): Promise<string> {
+  async setTrialDuration(durationSeconds: number): Promise<string> {
     if (!this.config.signer) {
-      throw new Error("Signer required to update profile");
+      throw new Error("Signer required to set trial duration");
     }
 
-    const tx = await this.contract.updateProfile(name, bio);
+    const tx = await this.contract.setTrialDuration(durationSeconds);
     const receipt = await tx.wait();
     return receipt.hash;
   }
 
   /**
-   * Update creator monthly price
-   * @param newPrice - New monthly price in wei
+   * Start a creator's free trial (once per address, without payment)
+   * @param creatorAddress - Creator's address
    * @returns Transaction hash
    */
-  async updateCreatorPrice(newPrice: bigint): Promise<string> {
+  async startTrial(creatorAddress: string): Promise<string> {
     if (!this.config.signer) {
-      throw new Error("Signer required to update price");
+      throw new Error("Signer required to start a trial");
     }
 
-    const tx = await this.contract.updateMonthlyPrice(newPrice);
+    const tx = await this.contract.startTrial(creatorAddress);
     const receipt = await tx.wait();
     return receipt.hash;
   }
+
+  /**
+   * Register a promo code for the signer's newsletter (creator only)
+   *
+   * Only the hash of the code goes on-chain. Codes are case-insensitive.
+   *
+   * @param code - Code text subscribers will enter
+   * @param options - Discount, redemption limit and expiry
+   * @returns Transaction hash
+   */
+  async createPromoCode(code: string, options: CreatePromoCodeOptions): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to create a promo code");
+    }
+
+    const discountBps = options.discountBps ?? 0;
+    const fixedDiscount = options.fixedDiscount ?? 0n;
+    if ((discountBps === 0) === (fixedDiscount === 0n)) {
+      throw new Error("Set either a percentage or a fixed discount");
+    }
+
+    const tx = await this.contract.createPromoCode(
+      hashPromoCode(code),
+      discountBps,
+      fixedDiscount,
+      options.maxRedemptions ?? 0,
+      options.expiresAt ?? 0
+    );
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Stop one of the signer's promo codes from being used
+   * @param code - Code text
+   * @returns Transaction hash
+   */
+  async disablePromoCode(code: string): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to disable a promo code");
+    }
+
+    const tx = await this.contract.disablePromoCode(hashPromoCode(code));
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Get a creator's promo code
+   * @param creatorAddress - Creator's address
+   * @param code - Code text
+   * @returns The promo code, or null if the creator never created it
+   */
+  async getPromoCode(creatorAddress: string, code: string): Promise<PromoCode | null> {
+    const promo = await this.contract.promoCodes(creatorAddress, hashPromoCode(code));
+    if (promo[0] === 0n && promo[1] === 0n) return null;
+
+    return {
+      discountBps: Number(promo[0]),
+      fixedDiscount: promo[1],
+      maxRedemptions: Number(promo[2]),
+      redemptions: Number(promo[3]),
+      expiresAt: Number(promo[4]),
+      isActive: promo[5],
+    };
+  }
+
+  /**
+   * Check whether a promo code can be used for a subscription and what it would cost
+   * @param creatorAddress - Creator's address
+   * @param code - Code text
+   * @param tierId - Tier ID
+   * @param periods - Number of periods (1, 3, 6 or 12)
+   * @returns Validation result with the original and discounted price
+   */
+  async validatePromoCode(
+    creatorAddress: string,
+    code: string,
+    tierId: number = 0,
+    periods: SubscriptionPeriods = 1
+  ): Promise<PromoCodeValidation> {
+    const [promoCode, originalPrice] = await Promise.all([
+      this.getPromoCode(creatorAddress, code),
+      this.quoteSubscription(creatorAddress, tierId, periods),
+    ]);
+    const invalid = (reason: string): PromoCodeValidation => ({
+      valid: false,
+      reason,
+      originalPrice,
+      discountedPrice: originalPrice,
+      promoCode,
+    });
+
+    if (!promoCode) return invalid("Unknown promo code");
+    if (!promoCode.isActive) return invalid("This promo code is no longer active");
+    if (promoCode.expiresAt !== 0 && promoCode.expiresAt * 1000 < Date.now()) {
+      return invalid("This promo code has expired");
+    }
+    if (promoCode.maxRedemptions !== 0 && promoCode.redemptions >= promoCode.maxRedemptions) {
+      return invalid("This promo code has been fully redeemed");
+    }
+
+    const discountedPrice = await this.contract.quoteSubscriptionWithCode(
+      creatorAddress,
+      tierId,
+      periods,
+      normalizePromoCode(code)
+    );
+    return { valid: true, originalPrice, discountedPrice, promoCode };
+  }
+
+  /**
+   * Give someone free access to the signer's newsletter (creator only)
+   * @param subscriberAddress - Address receiving the access
+   * @param durationSeconds - Seconds of access to add (up to one year)
+   * @returns Transaction hash
+   */
+  async grantComplimentaryAccess(
+    subscriberAddress: string,
+    durationSeconds: number
+  ): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to grant complimentary access");
+    }
+
+    const tx = await this.contract.grantComplimentaryAccess(subscriberAddress, durationSeconds);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Sign a comp voucher off-chain as the creator; nothing is sent on-chain
+   * @param options - Access length, optional recipient, validity and nonce
+   * @returns Signed voucher to hand to the recipient
+   */
+  async createCompVoucher(options: CreateCompVoucherOptions): Promise<CompVoucher> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to create a voucher");
+    }
+
+    const signer = this.config.signer;
+    const [creator, network] = await Promise.all([
+      signer.getAddress(),
+      this.config.provider.getNetwork(),
+    ]);
+    const voucher = {
+      creator,
+      recipient: options.recipient ?? ethers.ZeroAddress,
+      duration: options.durationSeconds,
+      nonce: options.nonce ?? ethers.toBigInt(ethers.randomBytes(32)),
+      deadline: Math.floor(Date.now() / 1000) + (options.validForSeconds ?? 30 * 24 * 60 * 60),
+    };
+
+    const signature = await signer.signTypedData(
+      {
+        name: "Cryptletter",
+        version: "1",
+        chainId: network.chainId,
+        verifyingContract: this.config.contractAddress,
+      },
+      COMP_VOUCHER_TYPES,
+      voucher
+    );
+
+    return { ...voucher, signature };
+  }
+
+  /**
+   * Redeem a comp voucher for the signer
+   * @param voucher - Voucher signed by the creator
+   * @returns Transaction hash
+   */
+  async redeemCompVoucher(voucher: CompVoucher): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to redeem a voucher");
+    }
+
+    const { v, r, s } = ethers.Signature.from(voucher.signature);
+    const tx = await this.contract.redeemCompVoucher(
+      {
+        creator: voucher.creator,
+        recipient: voucher.recipient,
+        duration: voucher.duration,
+        nonce: voucher.nonce,
+        deadline: voucher.deadline,
+      },
+      v,
+      r,
+      s
+    );
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Revoke a voucher the signer handed out before it is redeemed
+   * @param nonce - Nonce of the voucher
+   * @returns Transaction hash
+   */
+  async revokeCompVoucher(nonce: bigint): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to revoke a voucher");
+    }
+
+    const tx = await this.contract.revokeVoucher(nonce);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Check whether a voucher was already redeemed or revoked
+   * @param creatorAddress - Creator who signed the voucher
+   * @param nonce - Voucher nonce
+   * @returns True if the voucher can no longer be redeemed
+   */
+  async isVoucherUsed(creatorAddress: string, nonce: bigint): Promise<boolean> {
+    return await this.contract.voucherNonceUsed(creatorAddress, nonce);
+  }
+
+  /**
+   * Get all subscription tiers of a creator
+   * @param creatorAddress - Creator's address
+   * @returns Tiers ordered by tier ID
+   */
+  async getCreatorTiers(creatorAddress: string): Promise<SubscriptionTier[]> {
+    const tiers = await this.contract.getTiers(creatorAddress);
+
+    return tiers.map((tier: any, index: number) => ({
+      tierId: index,
+      name: tier.name,
+      price: tier.price,
+      duration: Number(tier.duration),
+      rank: Number(tier.rank),
+      isActive: tier.isActive,
+    }));
+  }
+
+  /**
+   * Create a new subscription tier
+   * @param name - Tier name (e.g. "Supporter", "Pro", "Founding")
+   * @param price - Price per period in wei
+   * @param duration - Period length in seconds
+   * @param rank - Access level; posts can require a minimum rank
+   * @returns Transaction hash
+   */
+  async createTier(
+    name: string,
+    price: bigint,
+    duration: number,
+    rank: number
+  ): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to create tier");
+    }
+
+    const tx = await this.contract.createTier(name, price, duration, rank);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Update an existing subscription tier
+   * @param tierId - Tier ID
+   * @param price - New price per period in wei
+   * @param duration - New period length in seconds
+   * @param isActive - Whether the tier can still be bought
+   * @returns Transaction hash
+   */
+  async updateTier(
+    tierId: number,
+    price: bigint,
+    duration: number,
+    isActive: boolean
+  ): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to update tier");
+    }
+
+    const tx = await this.contract.updateTier(tierId, price, duration, isActive);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Get newsletter metadata (public info only)
+   * @param postId - Newsletter post ID
+   * @returns Newsletter metadata
+   */
+  async getNewsletterMetadata(postId: number): Promise<NewsletterMetadata> {
+    const newsletter = await this.contract.getNewsletter(postId);
+    return toNewsletterMetadata(postId, newsletter);
+  }
+
+  /**
+   * List all published newsletters for a creator (metadata only, newest first)
+   * @param creatorAddress - Creator's address
+   * @param limit - Maximum number of newsletters to fetch
+   * @returns Array of newsletter metadata
+   */
+  async listCreatorNewsletters(
+    creatorAddress: string,
+    limit: number = 50
+  ): Promise<NewsletterMetadata[]> {
+    if (this.config.indexer) {
+      const indexed = await this.config.indexer.getCreatorPosts(creatorAddress);
+      const postIds = indexed.slice(0, limit).map((post) => post.postId);
+      if (postIds.length === 0) return [];
+
+      // The index may lag the chain, so re-check unpublished on the fresh structs
+      const posts = await this.contract.getNewsletters(postIds);
+      return posts
+        .map((newsletter: any, index: number) => toNewsletterMetadata(postIds[index], newsletter))
+        .filter((metadata: NewsletterMetadata) => !metadata.isUnpublished);
+    }
+
+    const newsletters: NewsletterMetadata[] = [];
+
+    // Page through the creator's post index; unpublished posts are skipped, so a page can come up short
+    for (let offset = 0; newsletters.length < limit; offset += limit) {
+      const postIds: bigint[] = await this.contract.getCreatorPosts(creatorAddress, offset, limit);
+      if (postIds.length === 0) break;
+
+      const posts = await this.contract.getNewsletters(postIds);
+      posts.forEach((newsletter: any, index: number) => {
+        if (!newsletter.isUnpublished && newsletters.length < limit) {
+          newsletters.push(toNewsletterMetadata(Number(postIds[index]), newsletter));
+        }
+      });
+
+      if (postIds.length < limit) break;
+    }
+
+    return newsletters;
+  }
+
+  /**
+   * Get the number of posts a creator has published (including unpublished ones)
+   * @param creatorAddress - Creator's address
+   * @returns Post count
+   */
+  async getCreatorPostCount(creatorAddress: string): Promise<number> {
+    const count = await this.contract.getCreatorPostCount(creatorAddress);
+    return Number(count);
+  }
+
+  /**
+   * Get list of creators
+   * @param offset - Starting index
+   * @param limit - Number of creators to fetch
+   * @param activeOnly - Skip deactivated creators (offset then counts active creators only)
+   * @returns Array of creator addresses
+   */
+  async getCreators(
+    offset: number = 0,
+    limit: number = 10,
+    activeOnly: boolean = false
+  ): Promise<string[]> {
+    if (this.config.indexer) {
+      const creators = await this.config.indexer.getCreators({ activeOnly });
+      return creators.slice(offset, offset + limit).map((creator) => creator.address);
+    }
+
+    return await this.contract.getCreators(offset, limit, activeOnly);
+  }
+
+  /**
+   * Get total creator count
+   * @returns Total number of creators
+   */
+  async getCreatorCount(): Promise<number> {
+    const count = await this.contract.getCreatorCount();
+    return Number(count);
+  }
+
+  /**
+   * Get the number of active creators
+   * @returns Creators that haven't deactivated their profile
+   */
+  async getActiveCreatorCount(): Promise<number> {
+    const count = await this.contract.activeCreatorCount();
+    return Number(count);
+  }
+
+  /**
+   * Register as a creator
+   * @param name - Creator name
+   * @param bio - Creator bio
+   * @param monthlyPrice - Monthly subscription price in wei, or in token units
+   * @param paymentToken - ERC-20 token to price subscriptions in (defaults to ETH)
+   * @returns Transaction hash
+   */
+  async registerAsCreator(
+    name: string,
+    bio: string,
+    monthlyPrice: bigint,
+    paymentToken: string = ethers.ZeroAddress
+  ): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to register as creator");
+    }
+
+    const tx = await this.contract.registerCreator(name, bio, monthlyPrice, paymentToken);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Update creator profile
+   * @param name - New name
+   * @param bio - New bio
+   * @returns Transaction hash
+   */
+  async updateCreatorProfile(name: string, bio: string): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to update profile");
+    }
+
+    const tx = await this.contract.updateProfile(name, bio);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Update creator monthly price
+   * @param newPrice - New monthly price in wei, or in token units
+   * @param paymentToken - Payment token to switch to (optional, keeps the current one)
+   * @returns Transaction hash
+   */
+  async updateCreatorPrice(newPrice: bigint, paymentToken?: string): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to update price");
+    }
+
+    const token =
+      paymentToken ??
+      (await this.getCreator(await this.config.signer.getAddress())).paymentToken;
+    const tx = await this.contract.updateMonthlyPrice(newPrice, token);
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Deactivate the signer's creator profile; stops new subscriptions, paid time is honoured
+   * @returns Transaction hash
+   */
+  async deactivateCreator(): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to deactivate creator");
+    }
+
+    const tx = await this.contract.deactivateCreator();
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Reactivate the signer's deactivated creator profile
+   * @returns Transaction hash
+   */
+  async reactivateCreator(): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to reactivate creator");
+    }
+
+    const tx = await this.contract.reactivateCreator();
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Get a creator's earnings
+   * @param creatorAddress - Creator's address
+   * @param token - Payment token (defaults to ETH)
+   * @returns Withdrawable balance and lifetime totals
+   */
+  async getCreatorEarnings(
+    creatorAddress: string,
+    token: string = ethers.ZeroAddress
+  ): Promise<CreatorEarnings> {
+    const [balance, totalEarned, totalWithdrawn] =
+      await this.contract.getCreatorEarnings(creatorAddress, token);
+
+    return { balance, totalEarned, totalWithdrawn };
+  }
+
+  /**
+   * Withdraw the signer's full earnings balance
+   * @param recipient - Address receiving the funds (optional, defaults to signer)
+   * @param token - Payment token to withdraw (defaults to ETH)
+   * @returns Transaction hash
+   */
+  async withdrawEarnings(
+    recipient?: string,
+    token: string = ethers.ZeroAddress
+  ): Promise<string> {
+    if (!this.config.signer) {
+      throw new Error("Signer required to withdraw earnings");
+    }
+
+    let tx;
+    if (token !== ethers.ZeroAddress) {
+      const to = recipient ?? (await this.config.signer.getAddress());
+      tx = await this.contract.withdrawToken(token, to);
+    } else {
+      tx = recipient
+        ? await this.contract.withdrawTo(recipient)
+        : await this.contract.withdraw();
+    }
+    const receipt = await tx.wait();
+    return receipt.hash;
+  }
+
+  /**
+   * Context a post's content and images are bound to
+   * @param creator - Post creator
+   * @param postNonce - Index of the post in the creator's post list
+   */
+  private async getEncryptionContext(creator: string, postNonce: number): Promise<EncryptionContext> {
+    const network = await this.config.provider.getNetwork();
+    return {
+      chainId: Number(network.chainId),
+      contract: this.config.contractAddress,
+      creator,
+      postNonce,
+    };
+  }
+
+  /**
+   * Find the index of a post in its creator's post list
+   * @param hint - Index to check first (e.g. the one recorded in the post's bundle)
+   */
+  private async findPostNonce(creator: string, postId: number, hint?: number): Promise<number> {
+    const count = await this.getCreatorPostCount(creator);
+
+    if (hint !== undefined && hint >= 0 && hint < count) {
+      const [id]: bigint[] = await this.contract.getCreatorPosts(creator, count - 1 - hint, 1);
+      if (Number(id) === postId) return hint;
+    }
+
+    // The list is paged newest first, so recent posts are found on the first page
+    const pageSize = 50;
+    for (let offset = 0; offset < count; offset += pageSize) {
+      const postIds: bigint[] = await this.contract.getCreatorPosts(creator, offset, pageSize);
+      const position = postIds.findIndex((id) => Number(id) === postId);
+      if (position !== -1) return count - 1 - offset - position;
+      if (postIds.length < pageSize) break;
+    }
+
+    throw new Error(`Post ${postId} not found in the creator's posts`);
+  }
+
+  /**
+   * Process images, build the newsletter payload and upload it to IPFS
+   * @param aesKey - Key to encrypt content and images with (null for free posts, stored as plain JSON)
+   * @param context - Post the encrypted content and images are bound to
+   * @returns CID of the uploaded content
+   */
+  private async uploadNewsletter(
+    options: EditOptions,
+    aesKey: Uint8Array | null,
+    context?: EncryptionContext
+  ): Promise<string> {
+    // Process images before creating newsletter data
+    let finalHtml = options.content;
+    let finalJson = options.contentJson;
+    let imageCids: string[] = [];
+
+    // Only process if contentJson exists and has images
+    if (options.contentJson) {
+      const imageProcessResult = await processNewsletterImages(
+        options.content,
+        options.contentJson,
+        this.ipfsClient,
+        aesKey !== null, // Encrypt images for premium content
+        aesKey || undefined, // Use same AES key as content encryption
+        context
+      );
+
+      finalHtml = imageProcessResult.html;
+      finalJson = imageProcessResult.json;
+      imageCids = imageProcessResult.imageCids;
+    }
+
+    const newsletterData: NewsletterData = {
+      title: options.title,
+      content: finalHtml,
+      author: options.author,
+      timestamp: Date.now(),
+      images: imageCids,
+      metadata: {
+        ...options.metadata,
+        contentJson: finalJson, // Store processed JSON for future editing
+      },
+    };
+
+    return await this.uploadNewsletterData(newsletterData, aesKey, context, options.compression);
+  }
+
+  /**
+   * Upload a newsletter payload to IPFS
+   * @param aesKey - Key to encrypt the payload with (null for free posts, stored as plain JSON)
+   * @param context - Post the encrypted payload is bound to
+   * @param compression - Compression applied before encrypting (default "gzip")
+   * @returns CID of the uploaded content
+   */
+  private async uploadNewsletterData(
+    newsletterData: NewsletterData,
+    aesKey: Uint8Array | null,
+    context?: EncryptionContext,
+    compression: ContentCompression | "none" = "gzip"
+  ): Promise<string> {
+    if (!aesKey) {
+      // For free/public content, store as plain JSON (no encryption)
+      const jsonString = JSON.stringify(newsletterData);
+      const uploadResult = await this.ipfsClient.uploadToIPFS(
+        new TextEncoder().encode(jsonString),
+        {
+          name: `newsletter-free-${newsletterData.title}-${Date.now()}`,
+          keyValues: {
+            type: "cryptletter-newsletter-free",
+            author: newsletterData.author,
+            timestamp: Date.now(),
+          },
+        }
+      );
+      return uploadResult.cid;
+    }
+
+    // Encrypt newsletter content with AES and upload the serialized bundle
+    const encryptedBundle = await encryptContent(newsletterData, aesKey, {
+      compression: compression === "none" ? undefined : compression,
+      context,
+    });
+    const uploadResult = await this.ipfsClient.uploadToIPFS(
+      serializeBundle(encryptedBundle),
+      {
+        name: `newsletter-${newsletterData.title}-${Date.now()}`,
+        keyValues: {
+          type: "cryptletter-newsletter",
+          author: newsletterData.author,
+          timestamp: Date.now(),
+        },
+      }
+    );
+    return uploadResult.cid;
+  }
+
+  /**
+   * Encrypt a post's AES key as an euint256 input for the contract
+   * @param aesKey - Key to encrypt (null for free posts, which get a zero dummy key)
+   */
+  private async encryptPostKey(
+    fhevmInstance: FhevmInstance,
+    aesKey: Uint8Array | null
+  ): Promise<{ handle: any; inputProof: any }> {
+    const userAddress = await this.config.signer!.getAddress();
+    const value = aesKey
+      ? aesKeyToFHEInput(aesKey)
+      : "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+    const encryptResult = await encryptValue(
+      fhevmInstance,
+      this.config.contractAddress,
+      userAddress,
+      value,
+      "euint256"
+    );
+
+    return { handle: encryptResult.handles[0], inputProof: encryptResult.inputProof };
+  }
+
+  /**
+   * Find the first contract event with the given name in a transaction receipt
+   */
+  private findEvent(receipt: any, name: string): ethers.LogDescription | null | undefined {
+    return receipt.logs
+      .map((log: any) => {
+        try {
+          return this.contract.interface.parseLog(log);
+        } catch {
+          return null;
+        }
+      })
+      .find((e: any) => e?.name === name);
+  }
+
+  /**
+   * ERC-20 contract handle for a payment token
+   */
+  private erc20(token: string, runner: ethers.ContractRunner): ethers.Contract {
+    return new ethers.Contract(token, ERC20_ABI, runner);
+  }
+
+  /**
+   * Approve the contract to pull `amount` of `token` if the current allowance is too low
+   */
+  private async ensureAllowance(token: string, amount: bigint): Promise<void> {
+    const signer = this.config.signer!;
+    const erc20 = this.erc20(token, signer);
+    const owner = await signer.getAddress();
+
+    const allowance: bigint = await erc20.allowance(owner, this.config.contractAddress);
+    if (allowance >= amount) return;
+
+    const tx = await erc20.approve(this.config.contractAddress, amount);
+    await tx.wait();
+  }
+
+  /**
+   * Sign an EIP-2612 permit letting the contract pull `value` of `token`
+   */
+  private async signPermit(
+    token: string,
+    value: bigint,
+    deadline: bigint
+  ): Promise<ethers.Signature> {
+    const signer = this.config.signer!;
+    const erc20 = this.erc20(token, this.config.provider);
+    const owner = await signer.getAddress();
+    const [name, nonce, network] = await Promise.all([
+      erc20.name(),
+      erc20.nonces(owner),
+      this.config.provider.getNetwork(),
+    ]);
+
+    const signature = await signer.signTypedData(
+      { name, version: "1", chainId: network.chainId, verifyingContract: token },
+      {
+        Permit: [
+          { name: "owner", type: "address" },
+          { name: "spender", type: "address" },
+          { name: "value", type: "uint256" },
+          { name: "nonce", type: "uint256" },
+          { name: "deadline", type: "uint256" },
+        ],
+      },
+      { owner, spender: this.config.contractAddress, value, nonce, deadline }
+    );
+
+    return ethers.Signature.from(signature);
+  }
+}
+
+/**
+ * Map a NewsletterPost struct returned by the contract to public metadata
+ * @param postId - Newsletter post ID
+ * @param newsletter - Post struct from getNewsletter / getNewsletters
+ */
+function toNewsletterMetadata(postId: number, newsletter: any): NewsletterMetadata {
+  return {
+    postId,
+    title: newsletter.title,
+    preview: newsletter.preview,
+    creator: newsletter.creator,
+    publishedAt: newsletter.publishedAt,
+    isPublic: newsletter.isPublic,
+    contentCID: newsletter.contentCID,
+    minTierRank: Number(newsletter.minTierRank ?? 0),
+    price: BigInt(newsletter.price ?? 0),
+    isUnpublished: Boolean(newsletter.isUnpublished),
+    availableAt: BigInt(newsletter.availableAt ?? newsletter.publishedAt ?? 0),
+  };
+}
+
+/**
+ * Map a subscription from the contract (or the indexer) to a CreatorSubscriber
+ * @param address - Subscriber's address
+ * @param sub - Subscription struct
+ * @param now - Current time in seconds
+ */
+function toCreatorSubscriber(address: string, sub: any, now: bigint): CreatorSubscriber {
+  const expiresAt = BigInt(sub.expiresAt);
+  return {
+    address,
+    isActive: Boolean(sub.isActive),
+    hasAccess: expiresAt > now,
+    expiresAt,
+    subscribedAt: BigInt(sub.subscribedAt ?? 0),
+    tierId: Number(sub.tierId ?? 0),
+    giftedBy: sub.giftedBy ?? ethers.ZeroAddress,
+    isTrial: Boolean(sub.isTrial),
+  };
+}
+
+/**
+ * Build a post preview: images become [Image], other HTML tags are stripped, truncated to 200 chars
+ * @param content - HTML content from Tiptap
+ */
+function createPreview(content: string): string {
+  // Replace all img tags first (including those with very long base64 src)
+  return content
+    .replace(/<img\s+[^>]*?src\s*=\s*["'][^"']*["'][^>]*?>/gi, "[Image]") // Replace img with src
+    .replace(/<img[^>]*>/gi, "[Image]") // Fallback for any other img tags
+    .replace(/<[^>]*>/g, "") // Strip all other HTML tags
+    .replace(/\s+/g, " ") // Normalize whitespace
+    .trim()
+    .substring(0, 200) // Truncate to 200 chars
+    .trim();
+}
+
+/**
+ * Normalize a promo code the way it is hashed on-chain (trimmed, upper case)
+ * @param code - Code text as typed
+ * @returns Normalized code text
+ */
+export function normalizePromoCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Hash a promo code for storage on-chain
+ * @param code - Code text as typed
+ * @returns keccak256 hash of the normalized code
+ */
+export function hashPromoCode(code: string): string {
+  const normalized = normalizePromoCode(code);
+  if (!normalized) {
+    throw new Error("Promo code is empty");
+  }
+  return ethers.keccak256(ethers.toUtf8Bytes(normalized));
+}
+
+/**
+ * Encode a signed comp voucher as a copy-pasteable code
+ * @param voucher - Signed voucher
+ * @returns Base64 voucher code
+ */
+export function encodeCompVoucher(voucher: CompVoucher): string {
+  const json = JSON.stringify({ ...voucher, nonce: voucher.nonce.toString() });
+  return ethers.encodeBase64(ethers.toUtf8Bytes(json));
+}
+
+/**
+ * Decode a voucher code created with encodeCompVoucher
+ * @param code - Base64 voucher code
+ * @returns Signed voucher
+ */
+export function decodeCompVoucher(code: string): CompVoucher {
+  try {
+    const parsed = JSON.parse(ethers.toUtf8String(ethers.decodeBase64(code.trim())));
+    return {
+      creator: ethers.getAddress(parsed.creator),
+      recipient: ethers.getAddress(parsed.recipient),
+      duration: Number(parsed.duration),
+      nonce: BigInt(parsed.nonce),
+      deadline: Number(parsed.deadline),
+      signature: parsed.signature,
+    };
+  } catch {
+    throw new Error("Invalid voucher code");
+  }
 }
 
 /**
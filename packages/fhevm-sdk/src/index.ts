@@ -7,6 +7,9 @@ export * from "./core/index";
 // Storage implementations
 export * from "./storage/index";
 
+// Event indexer
+export * from "./indexer/index";
+
 // Utilities (error handling, retry, validation, debug)
 export * from "./utils/index";
 
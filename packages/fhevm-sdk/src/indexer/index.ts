@@ -0,0 +1,11 @@
+/**
+ * Cryptletter Indexer Exports
+ *
+ * Event indexer with pluggable stores and a typed query API. Runs anywhere ethers does;
+ * point it at a JSON-RPC node (e.g. a local Hardhat node) and sync.
+ */
+
+export * from "./types";
+export * from "./memory";
+export * from "./sqlite";
+export * from "./indexer";
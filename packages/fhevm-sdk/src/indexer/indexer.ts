@@ -0,0 +1,382 @@
+/**
+ * Cryptletter Event Indexer
+ *
+ * Pulls contract events from block ranges into an IndexerStore and answers list queries
+ * (creators, posts, subscribers, gifts) from them, so pages don't have to rebuild state
+ * from view calls or log scans on every load.
+ */
+
+import { ethers } from "ethers";
+import type { GiftedSubscription } from "../core/cryptletter";
+import { MemoryIndexerStore } from "./memory";
+import { buildIndexState, subscriptionKey, type IndexState } from "./state";
+import type {
+  CryptletterIndexQueries,
+  IndexedBlock,
+  IndexedCreator,
+  IndexedEvent,
+  IndexedEventQuery,
+  IndexedEventValue,
+  IndexedPost,
+  IndexedSubscription,
+  IndexedSubscriptionQuery,
+  IndexerStore,
+} from "./types";
+
+/**
+ * Indexer configuration
+ */
+export interface CryptletterIndexerConfig {
+  provider: ethers.Provider;
+  contractAddress: string;
+  contractABI: any[];
+  store?: IndexerStore; // Defaults to a MemoryIndexerStore
+  startBlock?: number; // Deployment block of the contract (default 0)
+  batchSize?: number; // Blocks per eth_getLogs request (default 2000)
+  confirmations?: number; // Blocks to stay behind the chain head (default 0)
+  maxReorgDepth?: number; // Indexed blocks to search for a fork point (default 64)
+}
+
+/**
+ * Outcome of one sync pass
+ */
+export interface IndexerSyncResult {
+  fromBlock: number;
+  toBlock: number; // Last block indexed (fromBlock - 1 if there was nothing new)
+  eventCount: number;
+  reorgedFrom: number | null; // First block rolled back because of a reorg, if any
+}
+
+/**
+ * Read-only query API over an indexer store
+ *
+ * Use this directly when another process keeps the store in sync (e.g. a web server reading
+ * the SQLite file a `CryptletterIndexer` writes). State is re-folded whenever the store head moves.
+ */
+export class CryptletterIndex implements CryptletterIndexQueries {
+  protected store: IndexerStore;
+  private cached: { head: string; state: IndexState } | null = null;
+
+  constructor(store: IndexerStore) {
+    this.store = store;
+  }
+
+  async getHead(): Promise<IndexedBlock | null> {
+    return this.store.getHead();
+  }
+
+  async getEvents(query?: IndexedEventQuery): Promise<IndexedEvent[]> {
+    return this.store.getEvents(query);
+  }
+
+  /**
+   * Creators in registration order (the same order as the contract's getCreators)
+   */
+  async getCreators(options: { activeOnly?: boolean } = {}): Promise<IndexedCreator[]> {
+    const { creators } = await this.state();
+    return [...creators.values()].filter((creator) => !options.activeOnly || creator.isActive);
+  }
+
+  async getCreator(address: string): Promise<IndexedCreator | null> {
+    const { creators } = await this.state();
+    return creators.get(address.toLowerCase()) ?? null;
+  }
+
+  /**
+   * A creator's posts, newest first
+   */
+  async getCreatorPosts(
+    creator: string,
+    options: { includeUnpublished?: boolean } = {}
+  ): Promise<IndexedPost[]> {
+    const { posts } = await this.state();
+    const address = creator.toLowerCase();
+    return [...posts.values()]
+      .filter(
+        (post) =>
+          post.creator.toLowerCase() === address &&
+          (options.includeUnpublished || !post.isUnpublished)
+      )
+      .reverse();
+  }
+
+  async getPost(postId: number): Promise<IndexedPost | null> {
+    const { posts } = await this.state();
+    return posts.get(postId) ?? null;
+  }
+
+  async getSubscription(subscriber: string, creator: string): Promise<IndexedSubscription | null> {
+    const { subscriptions } = await this.state();
+    return subscriptions.get(subscriptionKey(subscriber, creator)) ?? null;
+  }
+
+  /**
+   * Every creator an address has subscribed to
+   */
+  async getSubscriptions(
+    subscriber: string,
+    options: IndexedSubscriptionQuery = {}
+  ): Promise<IndexedSubscription[]> {
+    const address = subscriber.toLowerCase();
+    return this.filterSubscriptions((sub) => sub.subscriber.toLowerCase() === address, options);
+  }
+
+  /**
+   * Everyone who has subscribed to a creator
+   */
+  async getSubscribers(
+    creator: string,
+    options: IndexedSubscriptionQuery = {}
+  ): Promise<IndexedSubscription[]> {
+    const address = creator.toLowerCase();
+    return this.filterSubscriptions((sub) => sub.creator.toLowerCase() === address, options);
+  }
+
+  /**
+   * Subscriptions gifted to an address, oldest first
+   */
+  async getReceivedGifts(recipient: string): Promise<GiftedSubscription[]> {
+    const { gifts } = await this.state();
+    const address = recipient.toLowerCase();
+    return gifts.filter((gift) => gift.recipient.toLowerCase() === address);
+  }
+
+  async hasPurchased(postId: number, buyer: string): Promise<boolean> {
+    const { purchases } = await this.state();
+    return purchases.has(`${postId}:${buyer.toLowerCase()}`);
+  }
+
+  /**
+   * Current state, re-folded from the event log when the store head has moved
+   */
+  protected async state(): Promise<IndexState> {
+    const head = await this.store.getHead();
+    const headKey = head ? `${head.number}:${head.hash}` : "";
+
+    if (!this.cached || this.cached.head !== headKey) {
+      const state = buildIndexState(await this.store.getEvents());
+      this.cached = { head: headKey, state };
+    }
+    return this.cached.state;
+  }
+
+  private async filterSubscriptions(
+    match: (sub: IndexedSubscription) => boolean,
+    options: IndexedSubscriptionQuery
+  ): Promise<IndexedSubscription[]> {
+    const { subscriptions } = await this.state();
+    const now = BigInt(options.at ?? Math.floor(Date.now() / 1000));
+
+    return [...subscriptions.values()].filter(
+      (sub) => match(sub) && (!options.activeOnly || (sub.isActive && sub.expiresAt > now))
+    );
+  }
+}
+
+/**
+ * Indexer that keeps a store in sync with the chain
+ *
+ * Each `sync()` first checks that the last indexed block is still canonical. If it isn't, the
+ * store is rolled back to the newest block that still is, then indexing resumes from there.
+ *
+ * @example
+ * ```typescript
+ * const indexer = new CryptletterIndexer({
+ *   provider: new ethers.JsonRpcProvider("http://127.0.0.1:8545"),
+ *   contractAddress,
+ *   contractABI,
+ * });
+ *
+ * await indexer.sync();
+ * const subscribers = await indexer.getSubscribers(creator, { activeOnly: true });
+ *
+ * // Keep following new blocks
+ * indexer.start({ onError: console.error });
+ * ```
+ */
+export class CryptletterIndexer extends CryptletterIndex {
+  private provider: ethers.Provider;
+  private contractAddress: string;
+  private contractInterface: ethers.Interface;
+  private startBlock: number;
+  private batchSize: number;
+  private confirmations: number;
+  private maxReorgDepth: number;
+  private syncing: Promise<IndexerSyncResult> | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: CryptletterIndexerConfig) {
+    super(config.store ?? new MemoryIndexerStore());
+    this.provider = config.provider;
+    this.contractAddress = config.contractAddress;
+    this.contractInterface = new ethers.Interface(config.contractABI);
+    this.startBlock = config.startBlock ?? 0;
+    this.batchSize = config.batchSize ?? 2000;
+    this.confirmations = config.confirmations ?? 0;
+    this.maxReorgDepth = config.maxReorgDepth ?? 64;
+  }
+
+  /**
+   * Index every block up to the chain head (minus confirmations)
+   *
+   * Concurrent calls share the pass already in progress.
+   */
+  sync(): Promise<IndexerSyncResult> {
+    if (!this.syncing) {
+      this.syncing = this.runSync().finally(() => {
+        this.syncing = null;
+      });
+    }
+    return this.syncing;
+  }
+
+  /**
+   * Sync now and then every `intervalMs` until stop() is called
+   */
+  start(options: { intervalMs?: number; onError?: (error: unknown) => void } = {}): void {
+    const { intervalMs = 4000, onError } = options;
+    this.stop();
+
+    const tick = async () => {
+      try {
+        await this.sync();
+      } catch (error) {
+        onError?.(error);
+      }
+      if (this.timer) {
+        this.timer = setTimeout(tick, intervalMs);
+      }
+    };
+
+    this.timer = setTimeout(tick, 0);
+  }
+
+  /**
+   * Stop polling started with start()
+   */
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private async runSync(): Promise<IndexerSyncResult> {
+    const reorgedFrom = await this.handleReorg();
+
+    const head = await this.store.getHead();
+    const fromBlock = head ? head.number + 1 : this.startBlock;
+    const toBlock = (await this.provider.getBlockNumber()) - this.confirmations;
+
+    let eventCount = 0;
+    for (let from = fromBlock; from <= toBlock; from += this.batchSize) {
+      eventCount += await this.indexRange(from, Math.min(from + this.batchSize - 1, toBlock));
+    }
+
+    return { fromBlock, toBlock: Math.max(toBlock, fromBlock - 1), eventCount, reorgedFrom };
+  }
+
+  /**
+   * Roll back past a reorg if the indexed head is no longer canonical
+   * @returns First block rolled back, or null if nothing changed
+   */
+  private async handleReorg(): Promise<number | null> {
+    const head = await this.store.getHead();
+    if (!head || (await this.isCanonical(head))) return null;
+
+    const recent = await this.store.getRecentBlocks(this.maxReorgDepth);
+    for (const block of recent) {
+      if (await this.isCanonical(block)) {
+        await this.store.rollback(block.number + 1);
+        return block.number + 1;
+      }
+    }
+
+    // Every indexed block was replaced; start over
+    if (recent.length < this.maxReorgDepth) {
+      await this.store.rollback(this.startBlock);
+      return this.startBlock;
+    }
+
+    throw new Error(
+      `Chain reorganization deeper than ${this.maxReorgDepth} indexed blocks; clear the store and re-index`
+    );
+  }
+
+  private async isCanonical(block: IndexedBlock): Promise<boolean> {
+    const current = await this.provider.getBlock(block.number);
+    return current?.hash === block.hash;
+  }
+
+  /**
+   * Fetch, decode and store the contract events of one block range
+   * @returns Number of events stored
+   */
+  private async indexRange(fromBlock: number, toBlock: number): Promise<number> {
+    const logs = await this.provider.getLogs({
+      address: this.contractAddress,
+      fromBlock,
+      toBlock,
+    });
+
+    // Record every block with events plus the range end, so the next sync has a head to check
+    const numbers = [...new Set([...logs.map((log) => log.blockNumber), toBlock])];
+    const blocks = new Map<number, ethers.Block>();
+    for (const number of numbers) {
+      const block = await this.provider.getBlock(number);
+      if (!block?.hash) {
+        throw new Error(`Block ${number} not found`);
+      }
+      blocks.set(number, block);
+    }
+
+    const events: IndexedEvent[] = [];
+    for (const log of logs) {
+      const block = blocks.get(log.blockNumber)!;
+      if (log.blockHash !== block.hash) {
+        throw new Error(`Block ${log.blockNumber} changed while indexing; retry the sync`);
+      }
+
+      const parsed = this.contractInterface.parseLog(log);
+      if (!parsed) continue;
+
+      events.push({
+        name: parsed.name,
+        args: toEventArgs(parsed),
+        blockNumber: log.blockNumber,
+        blockHash: log.blockHash,
+        timestamp: block.timestamp,
+        transactionHash: log.transactionHash,
+        logIndex: log.index,
+      });
+    }
+
+    await this.store.append(
+      events,
+      numbers.map((number) => ({ number, hash: blocks.get(number)!.hash! }))
+    );
+    return events.length;
+  }
+}
+
+/**
+ * Flatten decoded event args into a name -> value record
+ */
+function toEventArgs(parsed: ethers.LogDescription): Record<string, IndexedEventValue> {
+  const args: Record<string, IndexedEventValue> = {};
+  parsed.fragment.inputs.forEach((input, index) => {
+    const value = parsed.args[index];
+    // Indexed dynamic values (strings, bytes) only come back as their hash
+    args[input.name] = value instanceof ethers.Indexed ? value.hash! : value;
+  });
+  return args;
+}
+
+/**
+ * Create an indexer
+ * @param config - Indexer configuration
+ * @returns Indexer instance
+ */
+export function createCryptletterIndexer(config: CryptletterIndexerConfig): CryptletterIndexer {
+  return new CryptletterIndexer(config);
+}
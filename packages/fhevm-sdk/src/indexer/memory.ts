@@ -0,0 +1,61 @@
+import type { IndexedBlock, IndexedEvent, IndexedEventQuery, IndexerStore } from "./types";
+
+/**
+ * In-memory indexer store
+ *
+ * Keeps the event log in arrays. Nothing survives a restart, so the indexer re-syncs from its
+ * start block every time; use it for tests, scripts and short-lived processes.
+ *
+ * @example
+ * ```typescript
+ * const indexer = new CryptletterIndexer({
+ *   provider,
+ *   contractAddress,
+ *   contractABI,
+ *   store: new MemoryIndexerStore(),
+ * });
+ * ```
+ */
+export class MemoryIndexerStore implements IndexerStore {
+  private events: IndexedEvent[] = [];
+  private blocks: IndexedBlock[] = []; // Ascending by number
+
+  async getHead(): Promise<IndexedBlock | null> {
+    return this.blocks[this.blocks.length - 1] ?? null;
+  }
+
+  async getRecentBlocks(limit: number): Promise<IndexedBlock[]> {
+    return this.blocks.slice(-limit).reverse();
+  }
+
+  async append(events: IndexedEvent[], blocks: IndexedBlock[]): Promise<void> {
+    const head = await this.getHead();
+    const sorted = [...blocks].sort((a, b) => a.number - b.number);
+    if (head && sorted.length > 0 && sorted[0].number <= head.number) {
+      throw new Error(`Block ${sorted[0].number} is already indexed (head is ${head.number})`);
+    }
+
+    this.events.push(...events);
+    this.blocks.push(...sorted);
+  }
+
+  async rollback(fromBlock: number): Promise<void> {
+    this.events = this.events.filter((event) => event.blockNumber < fromBlock);
+    this.blocks = this.blocks.filter((block) => block.number < fromBlock);
+  }
+
+  async getEvents(query: IndexedEventQuery = {}): Promise<IndexedEvent[]> {
+    const { names, fromBlock = 0, toBlock = Infinity } = query;
+    return this.events.filter(
+      (event) =>
+        event.blockNumber >= fromBlock &&
+        event.blockNumber <= toBlock &&
+        (!names || names.includes(event.name))
+    );
+  }
+
+  async clear(): Promise<void> {
+    this.events = [];
+    this.blocks = [];
+  }
+}
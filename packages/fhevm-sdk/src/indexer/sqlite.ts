@@ -0,0 +1,223 @@
+import type { IndexedBlock, IndexedEvent, IndexedEventQuery, IndexerStore } from "./types";
+
+/**
+ * Prepared statement of a synchronous SQLite driver
+ */
+export interface SqliteStatement {
+  run(...params: unknown[]): unknown;
+  all(...params: unknown[]): unknown[];
+  get(...params: unknown[]): unknown;
+}
+
+/**
+ * Minimal synchronous SQLite connection
+ *
+ * Matches both `better-sqlite3` databases and `node:sqlite` `DatabaseSync` (Node 22.5+), so the
+ * SDK doesn't have to depend on either.
+ */
+export interface SqliteDatabase {
+  exec(sql: string): unknown;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * SQLite indexer store options
+ */
+export interface SqliteIndexerStoreOptions {
+  tablePrefix?: string; // Prefix of the tables created by the store (default "cryptletter_")
+}
+
+interface EventRow {
+  name: string;
+  args: string;
+  block_number: number;
+  block_hash: string;
+  timestamp: number;
+  transaction_hash: string;
+  log_index: number;
+}
+
+interface BlockRow {
+  number: number;
+  hash: string;
+}
+
+/**
+ * SQLite indexer store
+ *
+ * Persists the event log in two tables so an indexer can resume where it stopped. Pass an open
+ * connection from any driver matching `SqliteDatabase`; tables are created on construction.
+ *
+ * @example
+ * ```typescript
+ * import Database from "better-sqlite3";
+ *
+ * const store = new SqliteIndexerStore(new Database("cryptletter.db"));
+ * const indexer = new CryptletterIndexer({ provider, contractAddress, contractABI, store });
+ * await indexer.sync();
+ * ```
+ */
+export class SqliteIndexerStore implements IndexerStore {
+  private db: SqliteDatabase;
+  private events: string;
+  private blocks: string;
+
+  /**
+   * Creates a store on an open database connection
+   *
+   * @param db - Open SQLite connection
+   * @param options - Table naming options
+   */
+  constructor(db: SqliteDatabase, options: SqliteIndexerStoreOptions = {}) {
+    const prefix = options.tablePrefix ?? "cryptletter_";
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(prefix)) {
+      throw new Error(`Invalid table prefix: ${prefix}`);
+    }
+
+    this.db = db;
+    this.events = `${prefix}events`;
+    this.blocks = `${prefix}blocks`;
+
+    db.exec(`
+      CREATE TABLE IF NOT EXISTS ${this.events} (
+        block_number INTEGER NOT NULL,
+        log_index INTEGER NOT NULL,
+        name TEXT NOT NULL,
+        args TEXT NOT NULL,
+        block_hash TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        transaction_hash TEXT NOT NULL,
+        PRIMARY KEY (block_number, log_index)
+      );
+      CREATE INDEX IF NOT EXISTS ${this.events}_name ON ${this.events} (name, block_number);
+      CREATE TABLE IF NOT EXISTS ${this.blocks} (
+        number INTEGER PRIMARY KEY,
+        hash TEXT NOT NULL
+      );
+    `);
+  }
+
+  async getHead(): Promise<IndexedBlock | null> {
+    const row = this.db
+      .prepare(`SELECT number, hash FROM ${this.blocks} ORDER BY number DESC LIMIT 1`)
+      .get() as BlockRow | undefined;
+    return row ? { number: Number(row.number), hash: row.hash } : null;
+  }
+
+  async getRecentBlocks(limit: number): Promise<IndexedBlock[]> {
+    const rows = this.db
+      .prepare(`SELECT number, hash FROM ${this.blocks} ORDER BY number DESC LIMIT ?`)
+      .all(limit) as BlockRow[];
+    return rows.map((row) => ({ number: Number(row.number), hash: row.hash }));
+  }
+
+  async append(events: IndexedEvent[], blocks: IndexedBlock[]): Promise<void> {
+    const head = await this.getHead();
+    const first = Math.min(...blocks.map((block) => block.number));
+    if (head && blocks.length > 0 && first <= head.number) {
+      throw new Error(`Block ${first} is already indexed (head is ${head.number})`);
+    }
+
+    const insertEvent = this.db.prepare(
+      `INSERT INTO ${this.events}
+        (block_number, log_index, name, args, block_hash, timestamp, transaction_hash)
+        VALUES (?, ?, ?, ?, ?, ?, ?)`
+    );
+    const insertBlock = this.db.prepare(`INSERT INTO ${this.blocks} (number, hash) VALUES (?, ?)`);
+
+    this.transaction(() => {
+      for (const event of events) {
+        insertEvent.run(
+          event.blockNumber,
+          event.logIndex,
+          event.name,
+          serializeArgs(event.args),
+          event.blockHash,
+          event.timestamp,
+          event.transactionHash
+        );
+      }
+      for (const block of blocks) {
+        insertBlock.run(block.number, block.hash);
+      }
+    });
+  }
+
+  async rollback(fromBlock: number): Promise<void> {
+    this.transaction(() => {
+      this.db.prepare(`DELETE FROM ${this.events} WHERE block_number >= ?`).run(fromBlock);
+      this.db.prepare(`DELETE FROM ${this.blocks} WHERE number >= ?`).run(fromBlock);
+    });
+  }
+
+  async getEvents(query: IndexedEventQuery = {}): Promise<IndexedEvent[]> {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.names) {
+      if (query.names.length === 0) return [];
+      conditions.push(`name IN (${query.names.map(() => "?").join(", ")})`);
+      params.push(...query.names);
+    }
+    if (query.fromBlock !== undefined) {
+      conditions.push("block_number >= ?");
+      params.push(query.fromBlock);
+    }
+    if (query.toBlock !== undefined) {
+      conditions.push("block_number <= ?");
+      params.push(query.toBlock);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+    const rows = this.db
+      .prepare(`SELECT * FROM ${this.events} ${where} ORDER BY block_number, log_index`)
+      .all(...params) as EventRow[];
+
+    return rows.map((row) => ({
+      name: row.name,
+      args: deserializeArgs(row.args),
+      blockNumber: Number(row.block_number),
+      blockHash: row.block_hash,
+      timestamp: Number(row.timestamp),
+      transactionHash: row.transaction_hash,
+      logIndex: Number(row.log_index),
+    }));
+  }
+
+  async clear(): Promise<void> {
+    this.transaction(() => {
+      this.db.exec(`DELETE FROM ${this.events}; DELETE FROM ${this.blocks};`);
+    });
+  }
+
+  /**
+   * Run writes in a single transaction, rolling back if any of them throws
+   */
+  private transaction(fn: () => void): void {
+    this.db.exec("BEGIN");
+    try {
+      fn();
+      this.db.exec("COMMIT");
+    } catch (error) {
+      this.db.exec("ROLLBACK");
+      throw error;
+    }
+  }
+}
+
+/**
+ * JSON-encode event args, tagging bigints so they survive the round trip
+ */
+function serializeArgs(args: IndexedEvent["args"]): string {
+  return JSON.stringify(args, (_key, value) =>
+    typeof value === "bigint" ? { $bigint: value.toString() } : value
+  );
+}
+
+function deserializeArgs(json: string): IndexedEvent["args"] {
+  return JSON.parse(json, (_key, value) =>
+    value && typeof value === "object" && typeof value.$bigint === "string"
+      ? BigInt(value.$bigint)
+      : value
+  );
+}
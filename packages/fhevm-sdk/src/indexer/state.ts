@@ -0,0 +1,226 @@
+/**
+ * Folds the indexed event log into the current creator, post and subscription state
+ */
+
+import { ethers } from "ethers";
+import type { GiftedSubscription } from "../core/cryptletter";
+import type {
+  IndexedCreator,
+  IndexedEvent,
+  IndexedPost,
+  IndexedSubscription,
+} from "./types";
+
+/**
+ * State derived from the event log; maps are keyed by lower-cased addresses
+ */
+export interface IndexState {
+  creators: Map<string, IndexedCreator>; // In registration order
+  posts: Map<number, IndexedPost>;
+  subscriptions: Map<string, IndexedSubscription>; // Keyed by subscriptionKey()
+  gifts: GiftedSubscription[];
+  purchases: Set<string>; // `${postId}:${buyer}`
+  pendingTokens: Map<string, string>; // Tokens set before their creator's CreatorRegistered
+}
+
+/**
+ * Map key of a subscriber's subscription to a creator
+ */
+export function subscriptionKey(subscriber: string, creator: string): string {
+  return `${subscriber.toLowerCase()}:${creator.toLowerCase()}`;
+}
+
+/**
+ * Replay events (oldest first) into a fresh state
+ */
+export function buildIndexState(events: IndexedEvent[]): IndexState {
+  const state: IndexState = {
+    creators: new Map(),
+    posts: new Map(),
+    subscriptions: new Map(),
+    gifts: [],
+    purchases: new Set(),
+    pendingTokens: new Map(),
+  };
+
+  for (const event of events) {
+    applyEvent(state, event);
+  }
+  return state;
+}
+
+function applyEvent(state: IndexState, event: IndexedEvent): void {
+  const args = event.args as Record<string, any>;
+
+  switch (event.name) {
+    case "CreatorRegistered": {
+      // registerCreator sets the payment token, emitting PaymentTokenUpdated, before this event
+      const key = args.creator.toLowerCase();
+      const paymentToken = state.pendingTokens.get(key) ?? ethers.ZeroAddress;
+      state.pendingTokens.delete(key);
+
+      state.creators.set(key, {
+        address: args.creator,
+        name: args.name,
+        monthlyPrice: args.monthlyPrice,
+        paymentToken,
+        isActive: true,
+        registeredAt: event.timestamp,
+        registeredAtBlock: event.blockNumber,
+      });
+      break;
+    }
+
+    case "CreatorProfileUpdated":
+      updateCreator(state, args.creator, { name: args.name });
+      break;
+
+    case "CreatorDeactivated":
+      updateCreator(state, args.creator, { isActive: false });
+      break;
+
+    case "CreatorReactivated":
+      updateCreator(state, args.creator, { isActive: true });
+      break;
+
+    case "MonthlyPriceUpdated":
+      updateCreator(state, args.creator, { monthlyPrice: args.newPrice });
+      break;
+
+    case "PaymentTokenUpdated":
+      if (state.creators.has(args.creator.toLowerCase())) {
+        updateCreator(state, args.creator, { paymentToken: args.token });
+      } else {
+        state.pendingTokens.set(args.creator.toLowerCase(), args.token);
+      }
+      break;
+
+    case "NewsletterPublished":
+      state.posts.set(Number(args.postId), {
+        postId: Number(args.postId),
+        creator: args.creator,
+        title: args.title,
+        contentCID: args.contentCID,
+        isPublic: args.isPublic,
+        version: 0,
+        isUnpublished: false,
+        publishedAt: event.timestamp,
+        publishedAtBlock: event.blockNumber,
+      });
+      break;
+
+    case "NewsletterUpdated": {
+      const post = state.posts.get(Number(args.postId));
+      if (post) {
+        post.title = args.title;
+        post.contentCID = args.contentCID;
+        post.version = Number(args.version);
+      }
+      break;
+    }
+
+    case "NewsletterUnpublished": {
+      const post = state.posts.get(Number(args.postId));
+      if (post) post.isUnpublished = true;
+      break;
+    }
+
+    // Paid subscriptions, including gifts (which follow up with SubscriptionGifted)
+    case "Subscribed":
+      setSubscription(state, event, args.subscriber, args.creator, {
+        expiresAt: args.expiresAt,
+        tierId: Number(args.tierId),
+        isTrial: false,
+        giftedBy: ethers.ZeroAddress,
+      });
+      break;
+
+    case "TrialStarted":
+      setSubscription(state, event, args.subscriber, args.creator, {
+        expiresAt: args.expiresAt,
+        tierId: 0,
+        isTrial: true,
+        giftedBy: ethers.ZeroAddress,
+      });
+      break;
+
+    case "ComplimentaryAccessGranted": {
+      // Comps extend the running tier, or fall back to the default tier
+      const current = state.subscriptions.get(subscriptionKey(args.subscriber, args.creator));
+      const isRunning = current?.isActive && current.expiresAt > BigInt(event.timestamp);
+      setSubscription(state, event, args.subscriber, args.creator, {
+        expiresAt: args.expiresAt,
+        tierId: isRunning ? current!.tierId : 0,
+        isTrial: false,
+        giftedBy: args.creator,
+      });
+      break;
+    }
+
+    case "SubscriptionRenewed": {
+      const current = state.subscriptions.get(subscriptionKey(args.subscriber, args.creator));
+      setSubscription(state, event, args.subscriber, args.creator, {
+        expiresAt: args.newExpiresAt,
+        tierId: current?.tierId ?? 0,
+        isTrial: false,
+        giftedBy: ethers.ZeroAddress,
+      });
+      break;
+    }
+
+    case "SubscriptionCancelled": {
+      const current = state.subscriptions.get(subscriptionKey(args.subscriber, args.creator));
+      if (current) {
+        current.isActive = false;
+        current.updatedAtBlock = event.blockNumber;
+      }
+      break;
+    }
+
+    case "SubscriptionGifted": {
+      const recipientSub = state.subscriptions.get(subscriptionKey(args.recipient, args.creator));
+      if (recipientSub) recipientSub.giftedBy = args.gifter;
+
+      const hasNote = args.encryptedNote !== "0x";
+      state.gifts.push({
+        gifter: args.gifter,
+        recipient: args.recipient,
+        creator: args.creator,
+        expiresAt: args.expiresAt,
+        periods: Number(args.periods),
+        encryptedNote: hasNote ? args.encryptedNote : null,
+        noteKey: hasNote ? args.noteKey : null,
+        transactionHash: event.transactionHash,
+        blockNumber: event.blockNumber,
+      });
+      break;
+    }
+
+    case "PostPurchased":
+      state.purchases.add(`${Number(args.postId)}:${args.buyer.toLowerCase()}`);
+      break;
+  }
+}
+
+function updateCreator(state: IndexState, address: string, changes: Partial<IndexedCreator>): void {
+  const creator = state.creators.get(address.toLowerCase());
+  if (creator) Object.assign(creator, changes);
+}
+
+function setSubscription(
+  state: IndexState,
+  event: IndexedEvent,
+  subscriber: string,
+  creator: string,
+  fields: Pick<IndexedSubscription, "expiresAt" | "tierId" | "isTrial" | "giftedBy">
+): void {
+  const key = subscriptionKey(subscriber, creator);
+  state.subscriptions.set(key, {
+    subscriber,
+    creator,
+    subscribedAt: state.subscriptions.get(key)?.subscribedAt ?? event.timestamp,
+    ...fields,
+    isActive: true,
+    updatedAtBlock: event.blockNumber,
+  });
+}
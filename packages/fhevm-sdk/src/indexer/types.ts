@@ -0,0 +1,163 @@
+/**
+ * Indexer Types
+ *
+ * The indexer keeps an append-only log of Cryptletter contract events plus the hashes of the
+ * blocks it has seen. Everything else (creators, posts, subscriptions) is folded from that log,
+ * so a store only has to persist events and block hashes, and a reorg is undone by deleting both
+ * above the fork point.
+ */
+
+import type { GiftedSubscription } from "../core/cryptletter";
+
+/**
+ * Decoded event argument (uints are bigints, addresses and bytes are hex strings)
+ */
+export type IndexedEventValue = string | bigint | boolean;
+
+/**
+ * Contract event as stored by the indexer
+ */
+export interface IndexedEvent {
+  name: string;
+  args: Record<string, IndexedEventValue>;
+  blockNumber: number;
+  blockHash: string;
+  timestamp: number; // Block timestamp in seconds
+  transactionHash: string;
+  logIndex: number;
+}
+
+/**
+ * Block the indexer has seen, used to detect reorgs
+ */
+export interface IndexedBlock {
+  number: number;
+  hash: string;
+}
+
+/**
+ * Filter for reading raw events back from a store
+ */
+export interface IndexedEventQuery {
+  names?: string[];
+  fromBlock?: number;
+  toBlock?: number;
+}
+
+/**
+ * Persistence backend of the indexer
+ *
+ * Implementations must keep events ordered by (blockNumber, logIndex) and apply each `append`
+ * atomically, so a crash mid-sync never leaves a half-indexed range behind.
+ */
+export interface IndexerStore {
+  /**
+   * Highest block indexed so far, or null for an empty store
+   */
+  getHead(): Promise<IndexedBlock | null>;
+
+  /**
+   * Most recent indexed blocks, newest first
+   */
+  getRecentBlocks(limit: number): Promise<IndexedBlock[]>;
+
+  /**
+   * Add the events and blocks of a synced range
+   */
+  append(events: IndexedEvent[], blocks: IndexedBlock[]): Promise<void>;
+
+  /**
+   * Delete every event and block at or above `fromBlock`
+   */
+  rollback(fromBlock: number): Promise<void>;
+
+  /**
+   * Read events, oldest first
+   */
+  getEvents(query?: IndexedEventQuery): Promise<IndexedEvent[]>;
+
+  /**
+   * Delete everything
+   */
+  clear(): Promise<void>;
+}
+
+/**
+ * Creator as seen through its events
+ */
+export interface IndexedCreator {
+  address: string;
+  name: string;
+  monthlyPrice: bigint;
+  paymentToken: string; // ethers.ZeroAddress = ETH
+  isActive: boolean;
+  registeredAt: number; // Block timestamp in seconds
+  registeredAtBlock: number;
+}
+
+/**
+ * Newsletter post as seen through its events
+ */
+export interface IndexedPost {
+  postId: number;
+  creator: string;
+  title: string;
+  contentCID: string;
+  isPublic: boolean;
+  version: number; // Number of edits
+  isUnpublished: boolean;
+  publishedAt: number; // Block timestamp in seconds
+  publishedAtBlock: number;
+}
+
+/**
+ * Subscription as seen through its events
+ */
+export interface IndexedSubscription {
+  subscriber: string;
+  creator: string;
+  expiresAt: bigint;
+  subscribedAt: number; // Block timestamp of the first subscription
+  tierId: number;
+  isActive: boolean; // False once cancelled (access still runs until expiresAt)
+  isTrial: boolean;
+  giftedBy: string; // Who paid for the current period if it was a gift or comp (ethers.ZeroAddress if self-paid)
+  updatedAtBlock: number;
+}
+
+/**
+ * Options for subscription queries
+ */
+export interface IndexedSubscriptionQuery {
+  activeOnly?: boolean; // Only subscriptions that aren't cancelled and haven't expired
+  at?: number; // Reference time in seconds for activeOnly (default: now)
+}
+
+/**
+ * Read API over indexed data
+ *
+ * `CryptletterCore` accepts any implementation through its `indexer` option and then answers
+ * list queries from it instead of scanning the chain.
+ */
+export interface CryptletterIndexQueries {
+  getHead(): Promise<IndexedBlock | null>;
+  getEvents(query?: IndexedEventQuery): Promise<IndexedEvent[]>;
+  getCreators(options?: { activeOnly?: boolean }): Promise<IndexedCreator[]>;
+  getCreator(address: string): Promise<IndexedCreator | null>;
+  getCreatorPosts(
+    creator: string,
+    options?: { includeUnpublished?: boolean }
+  ): Promise<IndexedPost[]>;
+  getPost(postId: number): Promise<IndexedPost | null>;
+  getSubscription(subscriber: string, creator: string): Promise<IndexedSubscription | null>;
+  getSubscriptions(
+    subscriber: string,
+    options?: IndexedSubscriptionQuery
+  ): Promise<IndexedSubscription[]>;
+  getSubscribers(
+    creator: string,
+    options?: IndexedSubscriptionQuery
+  ): Promise<IndexedSubscription[]>;
+  getReceivedGifts(recipient: string): Promise<GiftedSubscription[]>;
+  hasPurchased(postId: number, buyer: string): Promise<boolean>;
+}
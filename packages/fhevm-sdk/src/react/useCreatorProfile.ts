@@ -34,11 +34,12 @@ export interface UseCreatorProfileReturn {
   // Actions
   refreshProfile: () => Promise<void>;
   updateProfile: (name: string, bio: string) => Promise<string>;
-  updatePrice: (newPriceWei: bigint) => Promise<string>;
+  updatePrice: (newPriceWei: bigint, paymentToken?: string) => Promise<string>;
   registerAsCreator: (
     name: string,
     bio: string,
-    monthlyPriceWei: bigint
+    monthlyPriceWei: bigint,
+    paymentToken?: string
   ) => Promise<string>;
 
   // Stats
@@ -151,9 +152,9 @@ export function useCreatorProfile(
 
   // Update price wrapper
   const updatePrice = useCallback(
-    async (newPriceWei: bigint): Promise<string> => {
+    async (newPriceWei: bigint, paymentToken?: string): Promise<string> => {
       try {
-        const txHash = await updatePriceBase(newPriceWei);
+        const txHash = await updatePriceBase(newPriceWei, paymentToken);
         // Refresh profile after update
         await refreshProfile();
         return txHash;
@@ -168,9 +169,14 @@ export function useCreatorProfile(
 
   // Register as creator wrapper
   const registerAsCreator = useCallback(
-    async (name: string, bio: string, monthlyPriceWei: bigint): Promise<string> => {
+    async (
+      name: string,
+      bio: string,
+      monthlyPriceWei: bigint,
+      paymentToken?: string
+    ): Promise<string> => {
       try {
-        const txHash = await registerAsCreatorBase(name, bio, monthlyPriceWei);
+        const txHash = await registerAsCreatorBase(name, bio, monthlyPriceWei, paymentToken);
         // Refresh profile after registration
         await refreshProfile();
         return txHash;
@@ -15,10 +15,26 @@ import {
   type CryptletterConfig,
   type PublishOptions,
   type PublishResult,
+  type EditOptions,
+  type EditResult,
+  type KeyRotationResult,
+  type NewsletterVersion,
   type FetchResult,
   type SubscriptionStatus,
   type CreatorProfile,
   type NewsletterMetadata,
+  type SubscriptionTier,
+  type SubscriptionPeriods,
+  type CreatorEarnings,
+  type PaymentToken,
+  type GiftedSubscription,
+  type CompVoucher,
+  type CreateCompVoucherOptions,
+  type CreatePromoCodeOptions,
+  type PromoCodeValidation,
+  type CreatorSubscriber,
+  type ListSubscribersOptions,
+  type AutoRenewStatus,
 } from "../core/cryptletter";
 import { useFhevmInstance } from "./useFhevmInstance";
 
@@ -42,21 +58,87 @@ export interface UseCryptletterReturn {
   registerAsCreator: (
     name: string,
     bio: string,
-    monthlyPriceWei: bigint
+    monthlyPriceWei: bigint,
+    paymentToken?: string
   ) => Promise<string>;
   updateProfile: (name: string, bio: string) => Promise<string>;
-  updatePrice: (newPriceWei: bigint) => Promise<string>;
+  updatePrice: (newPriceWei: bigint, paymentToken?: string) => Promise<string>;
+  deactivateCreator: () => Promise<string>;
+  reactivateCreator: () => Promise<string>;
   publishNewsletter: (options: PublishOptions) => Promise<PublishResult>;
+  editNewsletter: (
+    postId: number,
+    options: EditOptions,
+    decryptedAESKey?: string
+  ) => Promise<EditResult>;
+  rotateNewsletterKey: (postId: number, decryptedAESKey: string) => Promise<KeyRotationResult>;
+  unpublishNewsletter: (postId: number) => Promise<string>;
+  createTier: (
+    name: string,
+    priceWei: bigint,
+    durationSeconds: number,
+    rank: number
+  ) => Promise<string>;
+  updateTier: (
+    tierId: number,
+    priceWei: bigint,
+    durationSeconds: number,
+    isActive: boolean
+  ) => Promise<string>;
+  setPeriodDiscount: (
+    periods: Exclude<SubscriptionPeriods, 1>,
+    discountBps: number
+  ) => Promise<string>;
+  withdrawEarnings: (recipient?: string, token?: string) => Promise<string>;
+  setTrialDuration: (durationSeconds: number) => Promise<string>;
+  grantComplimentaryAccess: (subscriberAddress: string, durationSeconds: number) => Promise<string>;
+  createCompVoucher: (options: CreateCompVoucherOptions) => Promise<CompVoucher>;
+  revokeCompVoucher: (nonce: bigint) => Promise<string>;
+  createPromoCode: (code: string, options: CreatePromoCodeOptions) => Promise<string>;
+  disablePromoCode: (code: string) => Promise<string>;
 
   // Subscriber functions
-  subscribe: (creatorAddress: string, paymentWei: bigint) => Promise<string>;
+  subscribe: (
+    creatorAddress: string,
+    paymentWei: bigint,
+    tierId?: number,
+    periods?: SubscriptionPeriods,
+    promoCode?: string
+  ) => Promise<string>;
+  subscribeWithPermit: (
+    creatorAddress: string,
+    tierId?: number,
+    periods?: SubscriptionPeriods,
+    promoCode?: string
+  ) => Promise<string>;
+  giftSubscription: (
+    creatorAddress: string,
+    recipientAddress: string,
+    paymentWei: bigint,
+    periods?: SubscriptionPeriods,
+    note?: string
+  ) => Promise<string>;
+  startTrial: (creatorAddress: string) => Promise<string>;
+  purchasePost: (postId: number) => Promise<string>;
+  redeemCompVoucher: (voucher: CompVoucher) => Promise<string>;
   renewSubscription: (creatorAddress: string, paymentWei: bigint) => Promise<string>;
   cancelSubscription: (creatorAddress: string) => Promise<string>;
+  setOverpaymentPreference: (credit: boolean) => Promise<string>;
+  setAutoRenew: (creatorAddress: string, enabled: boolean) => Promise<string>;
+  fundRenewalEscrow: (creatorAddress: string, amount: bigint) => Promise<string>;
+  withdrawRenewalEscrow: (creatorAddress: string, token?: string) => Promise<string>;
+  processRenewals: (subscriberAddresses: string[], creatorAddress: string) => Promise<string>;
 
   // Content access
   getEncryptedKey: (postId: number) => Promise<string>;
-  decryptNewsletterContent: (postId: number, decryptedAESKey: string) => Promise<FetchResult>;
+  decryptNewsletterContent: (
+    postId: number,
+    decryptedAESKey: string,
+    options?: { allowUnbound?: boolean }
+  ) => Promise<FetchResult>;
+  decryptGiftNote: (gift: GiftedSubscription, decryptedNoteKey: string) => Promise<string>;
   checkAccess: (postId: number, userAddress?: string) => Promise<boolean>;
+  hasPurchasedPost: (postId: number, buyerAddress: string) => Promise<boolean>;
 
   // Queries
   getCreator: (creatorAddress: string) => Promise<CreatorProfile>;
@@ -64,10 +146,42 @@ export interface UseCryptletterReturn {
     subscriberAddress: string,
     creatorAddress: string
   ) => Promise<SubscriptionStatus>;
+  getSubscribedCreators: (subscriberAddress: string) => Promise<string[]>;
   listNewsletters: (creatorAddress: string, limit?: number) => Promise<NewsletterMetadata[]>;
   getNewsletterMetadata: (postId: number) => Promise<NewsletterMetadata>;
-  getCreators: (offset?: number, limit?: number) => Promise<string[]>;
+  getNewsletterVersions: (postId: number) => Promise<NewsletterVersion[]>;
+  getCreators: (offset?: number, limit?: number, activeOnly?: boolean) => Promise<string[]>;
   getCreatorCount: () => Promise<number>;
+  getActiveCreatorCount: () => Promise<number>;
+  listSubscribers: (
+    creatorAddress: string,
+    options?: ListSubscribersOptions
+  ) => Promise<CreatorSubscriber[]>;
+  getActiveSubscriberCount: (creatorAddress: string) => Promise<number>;
+  getCreatorTiers: (creatorAddress: string) => Promise<SubscriptionTier[]>;
+  getPeriodDiscounts: (creatorAddress: string) => Promise<Record<SubscriptionPeriods, number>>;
+  quoteSubscription: (
+    creatorAddress: string,
+    tierId?: number,
+    periods?: SubscriptionPeriods
+  ) => Promise<bigint>;
+  getOverpaymentPreference: (subscriberAddress: string) => Promise<boolean>;
+  getAutoRenewStatus: (
+    subscriberAddress: string,
+    creatorAddress: string
+  ) => Promise<AutoRenewStatus>;
+  getCreatorEarnings: (creatorAddress: string, token?: string) => Promise<CreatorEarnings>;
+  getPaymentToken: (creatorAddress: string) => Promise<PaymentToken>;
+  getReceivedGifts: (recipientAddress: string) => Promise<GiftedSubscription[]>;
+  getTrialDuration: (creatorAddress: string) => Promise<number>;
+  hasUsedTrial: (subscriberAddress: string, creatorAddress: string) => Promise<boolean>;
+  isVoucherUsed: (creatorAddress: string, nonce: bigint) => Promise<boolean>;
+  validatePromoCode: (
+    creatorAddress: string,
+    code: string,
+    tierId?: number,
+    periods?: SubscriptionPeriods
+  ) => Promise<PromoCodeValidation>;
 
   // Status
   isPublishing: boolean;
@@ -152,13 +266,18 @@ export function useCryptletter(config: UseCryptletterConfig): UseCryptletterRetu
   // Creator Functions
 
   const registerAsCreator = useCallback(
-    async (name: string, bio: string, monthlyPriceWei: bigint): Promise<string> => {
+    async (
+      name: string,
+      bio: string,
+      monthlyPriceWei: bigint,
+      paymentToken?: string
+    ): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
       setIsLoading(true);
       setError(null);
 
       try {
-        const txHash = await sdk.registerAsCreator(name, bio, monthlyPriceWei);
+        const txHash = await sdk.registerAsCreator(name, bio, monthlyPriceWei, paymentToken);
         return txHash;
       } catch (err) {
         const error = err instanceof Error ? err : new Error("Failed to register as creator");
@@ -192,13 +311,13 @@ export function useCryptletter(config: UseCryptletterConfig): UseCryptletterRetu
   );
 
   const updatePrice = useCallback(
-    async (newPriceWei: bigint): Promise<string> => {
+    async (newPriceWei: bigint, paymentToken?: string): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
       setIsLoading(true);
       setError(null);
 
       try {
-        const txHash = await sdk.updateCreatorPrice(newPriceWei);
+        const txHash = await sdk.updateCreatorPrice(newPriceWei, paymentToken);
         return txHash;
       } catch (err) {
         const error = err instanceof Error ? err : new Error("Failed to update price");
@@ -211,6 +330,38 @@ export function useCryptletter(config: UseCryptletterConfig): UseCryptletterRetu
     [sdk]
   );
 
+  const deactivateCreator = useCallback(async (): Promise<string> => {
+    if (!sdk) throw new Error("SDK not initialized");
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return await sdk.deactivateCreator();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to deactivate creator");
+      setError(error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sdk]);
+
+  const reactivateCreator = useCallback(async (): Promise<string> => {
+    if (!sdk) throw new Error("SDK not initialized");
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      return await sdk.reactivateCreator();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to reactivate creator");
+      setError(error);
+      throw error;
+    } finally {
+      setIsLoading(false);
+    }
+  }, [sdk]);
+
   const publishNewsletter = useCallback(
     async (options: PublishOptions): Promise<PublishResult> => {
       if (!sdk) throw new Error("SDK not initialized");
@@ -233,19 +384,87 @@ export function useCryptletter(config: UseCryptletterConfig): UseCryptletterRetu
     [sdk, fhevmInstance]
   );
 
-  // Subscriber Functions
+  const editNewsletter = useCallback(
+    async (
+      postId: number,
+      options: EditOptions,
+      decryptedAESKey?: string
+    ): Promise<EditResult> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      if (!fhevmInstance) throw new Error("FHEVM instance not initialized");
 
-  const subscribe = useCallback(
-    async (creatorAddress: string, paymentWei: bigint): Promise<string> => {
+      setIsPublishing(true);
+      setError(null);
+
+      try {
+        return await sdk.editNewsletter(postId, options, fhevmInstance, decryptedAESKey);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to edit newsletter");
+        setError(error);
+        throw error;
+      } finally {
+        setIsPublishing(false);
+      }
+    },
+    [sdk, fhevmInstance]
+  );
+
+  const rotateNewsletterKey = useCallback(
+    async (postId: number, decryptedAESKey: string): Promise<KeyRotationResult> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      if (!fhevmInstance) throw new Error("FHEVM instance not initialized");
+
+      setIsPublishing(true);
+      setError(null);
+
+      try {
+        return await sdk.rotateNewsletterKey(postId, fhevmInstance, decryptedAESKey);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to rotate newsletter key");
+        setError(error);
+        throw error;
+      } finally {
+        setIsPublishing(false);
+      }
+    },
+    [sdk, fhevmInstance]
+  );
+
+  const unpublishNewsletter = useCallback(
+    async (postId: number): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        return await sdk.unpublishNewsletter(postId);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to unpublish newsletter");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const createTier = useCallback(
+    async (
+      name: string,
+      priceWei: bigint,
+      durationSeconds: number,
+      rank: number
+    ): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
       setIsLoading(true);
       setError(null);
 
       try {
-        const txHash = await sdk.subscribeToCreator(creatorAddress, paymentWei);
+        const txHash = await sdk.createTier(name, priceWei, durationSeconds, rank);
         return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to subscribe");
+        const error = err instanceof Error ? err : new Error("Failed to create tier");
         setError(error);
         throw error;
       } finally {
@@ -255,17 +474,22 @@ export function useCryptletter(config: UseCryptletterConfig): UseCryptletterRetu
     [sdk]
   );
 
-  const renewSubscription = useCallback(
-    async (creatorAddress: string, paymentWei: bigint): Promise<string> => {
+  const updateTier = useCallback(
+    async (
+      tierId: number,
+      priceWei: bigint,
+      durationSeconds: number,
+      isActive: boolean
+    ): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
       setIsLoading(true);
       setError(null);
 
       try {
-        const txHash = await sdk.renewSubscription(creatorAddress, paymentWei);
+        const txHash = await sdk.updateTier(tierId, priceWei, durationSeconds, isActive);
         return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to renew subscription");
+        const error = err instanceof Error ? err : new Error("Failed to update tier");
         setError(error);
         throw error;
       } finally {
@@ -275,17 +499,17 @@ export function useCryptletter(config: UseCryptletterConfig): UseCryptletterRetu
     [sdk]
   );
 
-  const cancelSubscription = useCallback(
-    async (creatorAddress: string): Promise<string> => {
+  const setPeriodDiscount = useCallback(
+    async (periods: Exclude<SubscriptionPeriods, 1>, discountBps: number): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
       setIsLoading(true);
       setError(null);
 
       try {
-        const txHash = await sdk.cancelSubscription(creatorAddress);
+        const txHash = await sdk.setPeriodDiscount(periods, discountBps);
         return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to cancel subscription");
+        const error = err instanceof Error ? err : new Error("Failed to set period discount");
         setError(error);
         throw error;
       } finally {
@@ -295,183 +519,973 @@ export function useCryptletter(config: UseCryptletterConfig): UseCryptletterRetu
     [sdk]
   );
 
-  // Content Access Functions
+  const withdrawEarnings = useCallback(
+    async (recipient?: string, token?: string): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
 
-  const getEncryptedKey = useCallback(
-    async (postId: number): Promise<string> => {
+      try {
+        const txHash = await sdk.withdrawEarnings(recipient, token);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to withdraw earnings");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const setTrialDuration = useCallback(
+    async (durationSeconds: number): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        return await sdk.getEncryptedKey(postId);
+        const txHash = await sdk.setTrialDuration(durationSeconds);
+        return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to get encrypted key");
+        const error = err instanceof Error ? err : new Error("Failed to set trial duration");
         setError(error);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  const decryptNewsletterContent = useCallback(
-    async (postId: number, decryptedAESKey: string): Promise<FetchResult> => {
+  const grantComplimentaryAccess = useCallback(
+    async (subscriberAddress: string, durationSeconds: number): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
 
-      setIsFetching(true);
+      try {
+        return await sdk.grantComplimentaryAccess(subscriberAddress, durationSeconds);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to grant complimentary access");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const createCompVoucher = useCallback(
+    async (options: CreateCompVoucherOptions): Promise<CompVoucher> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        const result = await sdk.decryptNewsletterContent(postId, decryptedAESKey);
-        return result;
+        return await sdk.createCompVoucher(options);
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to decrypt newsletter");
+        const error = err instanceof Error ? err : new Error("Failed to create voucher");
         setError(error);
         throw error;
       } finally {
-        setIsFetching(false);
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  const checkAccess = useCallback(
-    async (postId: number, userAddress?: string): Promise<boolean> => {
+  const revokeCompVoucher = useCallback(
+    async (nonce: bigint): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        return await sdk.checkNewsletterAccess(postId, userAddress);
+        return await sdk.revokeCompVoucher(nonce);
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to check access");
+        const error = err instanceof Error ? err : new Error("Failed to revoke voucher");
         setError(error);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  // Query Functions
+  const createPromoCode = useCallback(
+    async (code: string, options: CreatePromoCodeOptions): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
 
-  const getCreator = useCallback(
-    async (creatorAddress: string): Promise<CreatorProfile> => {
+      try {
+        return await sdk.createPromoCode(code, options);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to create promo code");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const disablePromoCode = useCallback(
+    async (code: string): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        return await sdk.getCreator(creatorAddress);
+        return await sdk.disablePromoCode(code);
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to get creator");
+        const error = err instanceof Error ? err : new Error("Failed to disable promo code");
         setError(error);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  const getSubscriptionStatus = useCallback(
+  // Subscriber Functions
+
+  const subscribe = useCallback(
     async (
-      subscriberAddress: string,
-      creatorAddress: string
-    ): Promise<SubscriptionStatus> => {
+      creatorAddress: string,
+      paymentWei: bigint,
+      tierId?: number,
+      periods?: SubscriptionPeriods,
+      promoCode?: string
+    ): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        return await sdk.getSubscriptionStatus(subscriberAddress, creatorAddress);
+        const txHash = await sdk.subscribeToCreator(
+          creatorAddress,
+          paymentWei,
+          tierId,
+          periods,
+          promoCode
+        );
+        return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to get subscription status");
+        const error = err instanceof Error ? err : new Error("Failed to subscribe");
         setError(error);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  const listNewsletters = useCallback(
-    async (creatorAddress: string, limit?: number): Promise<NewsletterMetadata[]> => {
+  const subscribeWithPermit = useCallback(
+    async (
+      creatorAddress: string,
+      tierId?: number,
+      periods?: SubscriptionPeriods,
+      promoCode?: string
+    ): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        return await sdk.listCreatorNewsletters(creatorAddress, limit);
+        const txHash = await sdk.subscribeWithPermit(
+          creatorAddress,
+          tierId,
+          periods,
+          undefined,
+          promoCode
+        );
+        return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to list newsletters");
+        const error = err instanceof Error ? err : new Error("Failed to subscribe with permit");
         setError(error);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  const getNewsletterMetadata = useCallback(
-    async (postId: number): Promise<NewsletterMetadata> => {
+  const startTrial = useCallback(
+    async (creatorAddress: string): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        return await sdk.getNewsletterMetadata(postId);
+        const txHash = await sdk.startTrial(creatorAddress);
+        return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to get newsletter metadata");
+        const error = err instanceof Error ? err : new Error("Failed to start trial");
         setError(error);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  const getCreators = useCallback(
-    async (offset?: number, limit?: number): Promise<string[]> => {
+  const purchasePost = useCallback(
+    async (postId: number): Promise<string> => {
       if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
       setError(null);
 
       try {
-        return await sdk.getCreators(offset, limit);
+        const txHash = await sdk.purchasePost(postId);
+        return txHash;
       } catch (err) {
-        const error = err instanceof Error ? err : new Error("Failed to get creators");
+        const error = err instanceof Error ? err : new Error("Failed to purchase post");
         setError(error);
         throw error;
+      } finally {
+        setIsLoading(false);
       }
     },
     [sdk]
   );
 
-  const getCreatorCount = useCallback(async (): Promise<number> => {
-    if (!sdk) throw new Error("SDK not initialized");
-    setError(null);
+  const redeemCompVoucher = useCallback(
+    async (voucher: CompVoucher): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
 
-    try {
-      return await sdk.getCreatorCount();
-    } catch (err) {
-      const error = err instanceof Error ? err : new Error("Failed to get creator count");
-      setError(error);
-      throw error;
-    }
-  }, [sdk]);
+      try {
+        return await sdk.redeemCompVoucher(voucher);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to redeem voucher");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const giftSubscription = useCallback(
+    async (
+      creatorAddress: string,
+      recipientAddress: string,
+      paymentWei: bigint,
+      periods?: SubscriptionPeriods,
+      note?: string
+    ): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      if (note && !fhevmInstance) throw new Error("FHEVM instance not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.giftSubscription(
+          creatorAddress,
+          recipientAddress,
+          paymentWei,
+          periods,
+          note,
+          fhevmInstance ?? undefined
+        );
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to gift subscription");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk, fhevmInstance]
+  );
+
+  const renewSubscription = useCallback(
+    async (creatorAddress: string, paymentWei: bigint): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.renewSubscription(creatorAddress, paymentWei);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to renew subscription");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const cancelSubscription = useCallback(
+    async (creatorAddress: string): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.cancelSubscription(creatorAddress);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to cancel subscription");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const setOverpaymentPreference = useCallback(
+    async (credit: boolean): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.setOverpaymentPreference(credit);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to set overpayment preference");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const setAutoRenew = useCallback(
+    async (creatorAddress: string, enabled: boolean): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.setAutoRenew(creatorAddress, enabled);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to set auto-renew");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const fundRenewalEscrow = useCallback(
+    async (creatorAddress: string, amount: bigint): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.fundRenewalEscrow(creatorAddress, amount);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to fund renewal escrow");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const withdrawRenewalEscrow = useCallback(
+    async (creatorAddress: string, token?: string): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.withdrawRenewalEscrow(creatorAddress, token);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to withdraw renewal escrow");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  const processRenewals = useCallback(
+    async (subscriberAddresses: string[], creatorAddress: string): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await sdk.processRenewals(subscriberAddresses, creatorAddress);
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to process renewals");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [sdk]
+  );
+
+  // Content Access Functions
+
+  const getEncryptedKey = useCallback(
+    async (postId: number): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getEncryptedKey(postId);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get encrypted key");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const decryptNewsletterContent = useCallback(
+    async (postId: number, decryptedAESKey: string, options?: { allowUnbound?: boolean }): Promise<FetchResult> => {
+      if (!sdk) throw new Error("SDK not initialized");
+
+      setIsFetching(true);
+      setError(null);
+
+      try {
+        const result = await sdk.decryptNewsletterContent(postId, decryptedAESKey, options);
+        return result;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to decrypt newsletter");
+        setError(error);
+        throw error;
+      } finally {
+        setIsFetching(false);
+      }
+    },
+    [sdk]
+  );
+
+  const decryptGiftNote = useCallback(
+    async (gift: GiftedSubscription, decryptedNoteKey: string): Promise<string> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.decryptGiftNote(gift, decryptedNoteKey);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to decrypt gift note");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const checkAccess = useCallback(
+    async (postId: number, userAddress?: string): Promise<boolean> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.checkNewsletterAccess(postId, userAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to check access");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const hasPurchasedPost = useCallback(
+    async (postId: number, buyerAddress: string): Promise<boolean> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.hasPurchasedPost(postId, buyerAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to check post purchase");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  // Query Functions
+
+  const getCreator = useCallback(
+    async (creatorAddress: string): Promise<CreatorProfile> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getCreator(creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get creator");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getSubscriptionStatus = useCallback(
+    async (
+      subscriberAddress: string,
+      creatorAddress: string
+    ): Promise<SubscriptionStatus> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getSubscriptionStatus(subscriberAddress, creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get subscription status");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getSubscribedCreators = useCallback(
+    async (subscriberAddress: string): Promise<string[]> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getSubscribedCreators(subscriberAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get subscribed creators");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const listNewsletters = useCallback(
+    async (creatorAddress: string, limit?: number): Promise<NewsletterMetadata[]> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.listCreatorNewsletters(creatorAddress, limit);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to list newsletters");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getNewsletterMetadata = useCallback(
+    async (postId: number): Promise<NewsletterMetadata> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getNewsletterMetadata(postId);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get newsletter metadata");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getNewsletterVersions = useCallback(
+    async (postId: number): Promise<NewsletterVersion[]> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getNewsletterVersions(postId);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get newsletter versions");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getCreators = useCallback(
+    async (offset?: number, limit?: number, activeOnly?: boolean): Promise<string[]> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getCreators(offset, limit, activeOnly);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get creators");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getCreatorCount = useCallback(async (): Promise<number> => {
+    if (!sdk) throw new Error("SDK not initialized");
+    setError(null);
+
+    try {
+      return await sdk.getCreatorCount();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to get creator count");
+      setError(error);
+      throw error;
+    }
+  }, [sdk]);
+
+  const getActiveCreatorCount = useCallback(async (): Promise<number> => {
+    if (!sdk) throw new Error("SDK not initialized");
+    setError(null);
+
+    try {
+      return await sdk.getActiveCreatorCount();
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to get active creator count");
+      setError(error);
+      throw error;
+    }
+  }, [sdk]);
+
+  const listSubscribers = useCallback(
+    async (
+      creatorAddress: string,
+      options?: ListSubscribersOptions
+    ): Promise<CreatorSubscriber[]> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.listSubscribers(creatorAddress, options);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to list subscribers");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getActiveSubscriberCount = useCallback(
+    async (creatorAddress: string): Promise<number> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getActiveSubscriberCount(creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get active subscriber count");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getCreatorTiers = useCallback(
+    async (creatorAddress: string): Promise<SubscriptionTier[]> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getCreatorTiers(creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get creator tiers");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getPeriodDiscounts = useCallback(
+    async (creatorAddress: string): Promise<Record<SubscriptionPeriods, number>> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getPeriodDiscounts(creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get period discounts");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const quoteSubscription = useCallback(
+    async (
+      creatorAddress: string,
+      tierId?: number,
+      periods?: SubscriptionPeriods
+    ): Promise<bigint> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.quoteSubscription(creatorAddress, tierId, periods);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to quote subscription");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getOverpaymentPreference = useCallback(
+    async (subscriberAddress: string): Promise<boolean> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getOverpaymentPreference(subscriberAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get overpayment preference");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getAutoRenewStatus = useCallback(
+    async (subscriberAddress: string, creatorAddress: string): Promise<AutoRenewStatus> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getAutoRenewStatus(subscriberAddress, creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get auto-renew status");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getCreatorEarnings = useCallback(
+    async (creatorAddress: string, token?: string): Promise<CreatorEarnings> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getCreatorEarnings(creatorAddress, token);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get creator earnings");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getPaymentToken = useCallback(
+    async (creatorAddress: string): Promise<PaymentToken> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getPaymentToken(creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get payment token");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getReceivedGifts = useCallback(
+    async (recipientAddress: string): Promise<GiftedSubscription[]> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getReceivedGifts(recipientAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get received gifts");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const getTrialDuration = useCallback(
+    async (creatorAddress: string): Promise<number> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.getTrialDuration(creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to get trial duration");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const hasUsedTrial = useCallback(
+    async (subscriberAddress: string, creatorAddress: string): Promise<boolean> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.hasUsedTrial(subscriberAddress, creatorAddress);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to check trial usage");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const isVoucherUsed = useCallback(
+    async (creatorAddress: string, nonce: bigint): Promise<boolean> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.isVoucherUsed(creatorAddress, nonce);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to check voucher");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
+
+  const validatePromoCode = useCallback(
+    async (
+      creatorAddress: string,
+      code: string,
+      tierId?: number,
+      periods?: SubscriptionPeriods
+    ): Promise<PromoCodeValidation> => {
+      if (!sdk) throw new Error("SDK not initialized");
+      setError(null);
+
+      try {
+        return await sdk.validatePromoCode(creatorAddress, code, tierId, periods);
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to validate promo code");
+        setError(error);
+        throw error;
+      }
+    },
+    [sdk]
+  );
 
   return {
     // Creator functions
     registerAsCreator,
     updateProfile,
     updatePrice,
+    deactivateCreator,
+    reactivateCreator,
     publishNewsletter,
+    editNewsletter,
+    rotateNewsletterKey,
+    unpublishNewsletter,
+    createTier,
+    updateTier,
+    setPeriodDiscount,
+    withdrawEarnings,
+    setTrialDuration,
+    grantComplimentaryAccess,
+    createCompVoucher,
+    revokeCompVoucher,
+    createPromoCode,
+    disablePromoCode,
 
     // Subscriber functions
     subscribe,
+    subscribeWithPermit,
+    startTrial,
+    purchasePost,
+    redeemCompVoucher,
+    giftSubscription,
     renewSubscription,
     cancelSubscription,
+    setOverpaymentPreference,
+    setAutoRenew,
+    fundRenewalEscrow,
+    withdrawRenewalEscrow,
+    processRenewals,
 
     // Content access
     getEncryptedKey,
     decryptNewsletterContent,
+    decryptGiftNote,
     checkAccess,
+    hasPurchasedPost,
 
     // Queries
     getCreator,
     getSubscriptionStatus,
+    getSubscribedCreators,
     listNewsletters,
     getNewsletterMetadata,
+    getNewsletterVersions,
     getCreators,
     getCreatorCount,
+    getActiveCreatorCount,
+    listSubscribers,
+    getActiveSubscriberCount,
+    getCreatorTiers,
+    getPeriodDiscounts,
+    quoteSubscription,
+    getOverpaymentPreference,
+    getAutoRenewStatus,
+    getCreatorEarnings,
+    getPaymentToken,
+    getReceivedGifts,
+    getTrialDuration,
+    hasUsedTrial,
+    isVoucherUsed,
+    validatePromoCode,
 
     // Status
     isPublishing,
@@ -2,15 +2,22 @@
  * useSubscriptions - React Hook for Subscription Management
  *
  * Provides focused functionality for managing subscriptions:
- * - Subscribe to creators
+ * - Subscribe to creators (ETH or ERC-20, optionally via permit)
+ * - Start free trials
  * - Renew subscriptions
  * - Cancel subscriptions
  * - Check subscription status
- * - Track multiple subscriptions
+ * - Track multiple subscriptions (discovered from the subscriber's history)
  */
 
 import { useState, useEffect, useCallback } from "react";
-import type { SubscriptionStatus, CreatorProfile } from "../core/cryptletter";
+import type {
+  SubscriptionStatus,
+  CreatorProfile,
+  SubscriptionTier,
+  SubscriptionPeriods,
+  PaymentToken,
+} from "../core/cryptletter";
 import { useCryptletter, type UseCryptletterConfig } from "./useCryptletter";
 
 /**
@@ -19,6 +26,7 @@ import { useCryptletter, type UseCryptletterConfig } from "./useCryptletter";
 export interface SubscriptionInfo {
   creatorAddress: string;
   creatorProfile: CreatorProfile | null;
+  paymentToken: PaymentToken | null; // Currency the creator's prices are denominated in
   status: SubscriptionStatus;
   isExpiringSoon: boolean; // Less than 7 days remaining
 }
@@ -28,6 +36,7 @@ export interface SubscriptionInfo {
  */
 export interface UseSubscriptionsConfig extends UseCryptletterConfig {
   subscriberAddress?: string;
+  autoDiscover?: boolean; // Track every creator the subscriber has subscribed to (default: true)
   autoRefresh?: boolean;
   refreshInterval?: number; // in milliseconds
 }
@@ -37,12 +46,21 @@ export interface UseSubscriptionsConfig extends UseCryptletterConfig {
  */
 export interface UseSubscriptionsReturn {
   // Subscription management
-  subscribe: (creatorAddress: string) => Promise<string>;
+  subscribe: (
+    creatorAddress: string,
+    tierId?: number,
+    periods?: SubscriptionPeriods,
+    usePermit?: boolean,
+    promoCode?: string
+  ) => Promise<string>;
+  startTrial: (creatorAddress: string) => Promise<string>;
   renewSubscription: (creatorAddress: string) => Promise<string>;
   cancelSubscription: (creatorAddress: string) => Promise<string>;
 
   // Subscription queries
   getSubscriptionStatus: (creatorAddress: string) => Promise<SubscriptionStatus>;
+  getTiers: (creatorAddress: string) => Promise<SubscriptionTier[]>;
+  getPaymentToken: (creatorAddress: string) => Promise<PaymentToken>;
   checkSubscriptionStatus: (creatorAddress: string) => Promise<void>;
 
   // Tracked subscriptions
@@ -56,6 +74,7 @@ export interface UseSubscriptionsReturn {
 
   // Actions
   refreshAll: () => Promise<void>;
+  discoverSubscriptions: () => Promise<void>;
   trackCreator: (creatorAddress: string) => Promise<void>;
   untrackCreator: (creatorAddress: string) => void;
 }
@@ -64,6 +83,8 @@ export interface UseSubscriptionsReturn {
  * useSubscriptions Hook
  *
  * Specialized hook for subscription management with auto-refresh and tracking.
+ * Every creator the subscriber has ever subscribed to is tracked automatically
+ * unless `autoDiscover` is false.
  *
  * @example
  * ```tsx
@@ -84,8 +105,21 @@ export interface UseSubscriptionsReturn {
  *   refreshInterval: 60000 // 1 minute
  * });
  *
- * // Subscribe to a creator
+ * // Subscribe to a creator's default tier, or pick one from getTiers()
  * await subscribe("0xCreatorAddress");
+ * await subscribe("0xCreatorAddress", 2);
+ *
+ * // Buy 12 periods at once (creator's long-term discount applies)
+ * await subscribe("0xCreatorAddress", 0, 12);
+ *
+ * // Stablecoin creators: approve-and-subscribe, or sign a permit instead
+ * await subscribe("0xStablecoinCreator", 0, 1, true);
+ *
+ * // Apply a creator's promo code
+ * await subscribe("0xCreatorAddress", 0, 1, false, "LAUNCH20");
+ *
+ * // Try a creator for free first (once per creator)
+ * await startTrial("0xCreatorAddress");
  *
  * // Check expiring subscriptions
  * if (expiringSubscriptions.length > 0) {
@@ -98,10 +132,18 @@ export function useSubscriptions(
 ): UseSubscriptionsReturn {
   const {
     subscribe: subscribeBase,
+    subscribeWithPermit: subscribeWithPermitBase,
+    startTrial: startTrialBase,
     renewSubscription: renewSubscriptionBase,
     cancelSubscription: cancelSubscriptionBase,
     getSubscriptionStatus: getSubscriptionStatusBase,
     getCreator,
+    getCreatorTiers,
+    quoteSubscription,
+    validatePromoCode,
+    getPaymentToken,
+    getSubscribedCreators,
+    sdk,
   } = useCryptletter(config);
 
   // State
@@ -117,9 +159,10 @@ export function useSubscriptions(
       if (!config.subscriberAddress) return;
 
       try {
-        const [status, profile] = await Promise.all([
+        const [status, profile, paymentToken] = await Promise.all([
           getSubscriptionStatusBase(config.subscriberAddress, creatorAddress),
           getCreator(creatorAddress).catch(() => null),
+          getPaymentToken(creatorAddress).catch(() => null),
         ]);
 
         const daysRemaining = status.daysRemaining;
@@ -128,6 +171,7 @@ export function useSubscriptions(
         const info: SubscriptionInfo = {
           creatorAddress,
           creatorProfile: profile,
+          paymentToken,
           status,
           isExpiringSoon,
         };
@@ -142,24 +186,60 @@ export function useSubscriptions(
         throw err;
       }
     },
-    [config.subscriberAddress, getSubscriptionStatusBase, getCreator]
+    [config.subscriberAddress, getSubscriptionStatusBase, getCreator, getPaymentToken]
+  );
+
+  // Look up a tier that can be bought
+  const getPurchasableTier = useCallback(
+    async (creatorAddress: string, tierId: number): Promise<SubscriptionTier> => {
+      const tiers = await getCreatorTiers(creatorAddress);
+      const tier = tiers.find((t) => t.tierId === tierId);
+      if (!tier || !tier.isActive) {
+        throw new Error("Subscription tier is not available");
+      }
+      return tier;
+    },
+    [getCreatorTiers]
   );
 
   // Subscribe wrapper
   const subscribe = useCallback(
-    async (creatorAddress: string): Promise<string> => {
+    async (
+      creatorAddress: string,
+      tierId: number = 0,
+      periods: SubscriptionPeriods = 1,
+      usePermit: boolean = false,
+      promoCode?: string
+    ): Promise<string> => {
       setIsLoading(true);
       setError(null);
 
       try {
-        // Get creator profile to determine price
+        // Get creator profile to make sure they're still active
         const creator = await getCreator(creatorAddress);
         if (!creator.isActive) {
           throw new Error("Creator is not active");
         }
 
-        // Subscribe with the creator's monthly price
-        const txHash = await subscribeBase(creatorAddress, creator.monthlyPrice);
+        // Subscribe at the selected tier's price for the requested term.
+        // Token allowances are topped up by the SDK, or skipped with a permit.
+        await getPurchasableTier(creatorAddress, tierId);
+        let txHash: string;
+        let price: bigint | undefined;
+        if (promoCode) {
+          const validation = await validatePromoCode(creatorAddress, promoCode, tierId, periods);
+          if (!validation.valid) {
+            throw new Error(validation.reason);
+          }
+          price = validation.discountedPrice;
+        }
+
+        if (usePermit) {
+          txHash = await subscribeWithPermitBase(creatorAddress, tierId, periods, promoCode);
+        } else {
+          price ??= await quoteSubscription(creatorAddress, tierId, periods);
+          txHash = await subscribeBase(creatorAddress, price, tierId, periods, promoCode);
+        }
 
         // Track this creator and refresh status
         await checkSubscriptionStatus(creatorAddress);
@@ -173,7 +253,39 @@ export function useSubscriptions(
         setIsLoading(false);
       }
     },
-    [subscribeBase, getCreator, checkSubscriptionStatus]
+    [
+      subscribeBase,
+      subscribeWithPermitBase,
+      getCreator,
+      getPurchasableTier,
+      quoteSubscription,
+      validatePromoCode,
+      checkSubscriptionStatus,
+    ]
+  );
+
+  // Start trial wrapper
+  const startTrial = useCallback(
+    async (creatorAddress: string): Promise<string> => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const txHash = await startTrialBase(creatorAddress);
+
+        // Track this creator and refresh status
+        await checkSubscriptionStatus(creatorAddress);
+
+        return txHash;
+      } catch (err) {
+        const error = err instanceof Error ? err : new Error("Failed to start trial");
+        setError(error);
+        throw error;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [startTrialBase, checkSubscriptionStatus]
   );
 
   // Renew subscription wrapper
@@ -183,14 +295,19 @@ export function useSubscriptions(
       setError(null);
 
       try {
-        // Get creator profile to determine price
+        // Get creator profile to make sure they're still active
         const creator = await getCreator(creatorAddress);
         if (!creator.isActive) {
           throw new Error("Creator is not active");
         }
 
-        // Renew with the creator's current monthly price
-        const txHash = await renewSubscriptionBase(creatorAddress, creator.monthlyPrice);
+        // Renew at the current price of the subscriber's tier
+        if (!config.subscriberAddress) {
+          throw new Error("Subscriber address not configured");
+        }
+        const status = await getSubscriptionStatusBase(config.subscriberAddress, creatorAddress);
+        const tier = await getPurchasableTier(creatorAddress, status.tierId);
+        const txHash = await renewSubscriptionBase(creatorAddress, tier.price);
 
         // Refresh status
         await checkSubscriptionStatus(creatorAddress);
@@ -204,7 +321,14 @@ export function useSubscriptions(
         setIsLoading(false);
       }
     },
-    [renewSubscriptionBase, getCreator, checkSubscriptionStatus]
+    [
+      config.subscriberAddress,
+      renewSubscriptionBase,
+      getCreator,
+      getSubscriptionStatusBase,
+      getPurchasableTier,
+      checkSubscriptionStatus,
+    ]
   );
 
   // Cancel subscription wrapper
@@ -243,6 +367,14 @@ export function useSubscriptions(
     [config.subscriberAddress, getSubscriptionStatusBase]
   );
 
+  // Get tiers offered by a creator
+  const getTiers = useCallback(
+    async (creatorAddress: string): Promise<SubscriptionTier[]> => {
+      return await getCreatorTiers(creatorAddress);
+    },
+    [getCreatorTiers]
+  );
+
   // Track a creator
   const trackCreator = useCallback(
     async (creatorAddress: string): Promise<void> => {
@@ -279,6 +411,34 @@ export function useSubscriptions(
     }
   }, [config.subscriberAddress, subscriptions, checkSubscriptionStatus]);
 
+  // Track every creator the subscriber has subscribed to
+  const discoverSubscriptions = useCallback(async (): Promise<void> => {
+    if (!config.subscriberAddress) return;
+
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      const creators = await getSubscribedCreators(config.subscriberAddress);
+      await Promise.all(creators.map((addr) => checkSubscriptionStatus(addr)));
+    } catch (err) {
+      const error = err instanceof Error ? err : new Error("Failed to discover subscriptions");
+      setError(error);
+      console.error("Failed to discover subscriptions:", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [config.subscriberAddress, getSubscribedCreators, checkSubscriptionStatus]);
+
+  // Auto-discover effect (starts over when the subscriber changes)
+  const autoDiscover = config.autoDiscover ?? true;
+  useEffect(() => {
+    if (autoDiscover && sdk) {
+      setSubscriptions(new Map());
+      discoverSubscriptions();
+    }
+  }, [autoDiscover, sdk, discoverSubscriptions]);
+
   // Auto-refresh effect
   useEffect(() => {
     if (config.autoRefresh && config.refreshInterval && subscriptions.size > 0) {
@@ -297,11 +457,14 @@ export function useSubscriptions(
   return {
     // Subscription management
     subscribe,
+    startTrial,
     renewSubscription,
     cancelSubscription,
 
     // Subscription queries
     getSubscriptionStatus,
+    getTiers,
+    getPaymentToken,
     checkSubscriptionStatus,
 
     // Tracked subscriptions
@@ -315,6 +478,7 @@ export function useSubscriptions(
 
     // Actions
     refreshAll,
+    discoverSubscriptions,
     trackCreator,
     untrackCreator,
   };
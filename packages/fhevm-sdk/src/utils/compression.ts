@@ -0,0 +1,167 @@
+/**
+ * Compression Utilities for Cryptletter
+ *
+ * gzip / deflate (zlib) compression of newsletter plaintext before it is encrypted.
+ * Uses the platform's CompressionStream where available and falls back to fflate
+ * everywhere else.
+ */
+
+import { Gunzip, Unzlib, gzipSync, zlibSync } from "fflate";
+
+/**
+ * Supported compression formats
+ */
+export type ContentCompression = "gzip" | "deflate";
+
+/**
+ * Formats accepted by compress() and decompress()
+ */
+export const CONTENT_COMPRESSIONS: readonly ContentCompression[] = ["gzip", "deflate"];
+
+/**
+ * Largest output decompress() produces by default (16 MiB), so a small bundle can't expand to fill memory
+ */
+export const MAX_DECOMPRESSED_SIZE = 16 * 1024 * 1024;
+
+/**
+ * Compressed bytes handed to fflate at a time; DEFLATE expands at most ~1032x, bounding the overshoot per step
+ */
+const INFLATE_SLICE_SIZE = 4096;
+
+/**
+ * Compress data
+ * @param data - Bytes to compress
+ * @param format - "gzip" or "deflate" (zlib-wrapped, like CompressionStream)
+ * @returns Compressed bytes
+ */
+export async function compress(
+  data: Uint8Array,
+  format: ContentCompression
+): Promise<Uint8Array<ArrayBuffer>> {
+  assertFormat(format);
+
+  if (hasCompressionStreams()) {
+    return pipeThrough(data, new CompressionStream(format));
+  }
+  return new Uint8Array(format === "gzip" ? gzipSync(data) : zlibSync(data));
+}
+
+/**
+ * Decompress data
+ *
+ * Stops and throws as soon as the output grows past `maxSize`.
+ * @param data - Compressed bytes
+ * @param format - Format the data was compressed with
+ * @param maxSize - Largest output to accept, in bytes (default MAX_DECOMPRESSED_SIZE)
+ * @returns Original bytes
+ */
+export async function decompress(
+  data: Uint8Array,
+  format: ContentCompression,
+  maxSize: number = MAX_DECOMPRESSED_SIZE
+): Promise<Uint8Array<ArrayBuffer>> {
+  assertFormat(format);
+
+  if (hasCompressionStreams()) {
+    return pipeThrough(data, new DecompressionStream(format), maxSize);
+  }
+  return inflate(data, format, maxSize);
+}
+
+function assertFormat(format: string): asserts format is ContentCompression {
+  if (!CONTENT_COMPRESSIONS.includes(format as ContentCompression)) {
+    throw new Error(`Unsupported compression format: ${format}`);
+  }
+}
+
+function hasCompressionStreams(): boolean {
+  return (
+    typeof CompressionStream !== "undefined" &&
+    typeof DecompressionStream !== "undefined" &&
+    typeof Response !== "undefined"
+  );
+}
+
+async function pipeThrough(
+  data: Uint8Array,
+  transform: CompressionStream | DecompressionStream,
+  maxSize = Infinity
+): Promise<Uint8Array<ArrayBuffer>> {
+  const input = new ReadableStream<BufferSource>({
+    start(controller) {
+      controller.enqueue(new Uint8Array(data)); // Copy onto a plain ArrayBuffer, as BufferSource requires
+      controller.close();
+    },
+  });
+
+  const reader = input.pipeThrough(transform).getReader();
+  const output = new OutputBuffer(maxSize);
+  try {
+    for (;;) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      output.push(value);
+    }
+  } catch (error) {
+    await reader.cancel().catch(() => {});
+    throw error;
+  }
+  return output.concat();
+}
+
+/**
+ * Decompress with fflate's streaming inflaters, which (unlike gunzipSync) don't size the output from the
+ * length the gzip trailer claims
+ */
+function inflate(data: Uint8Array, format: ContentCompression, maxSize: number): Uint8Array<ArrayBuffer> {
+  const output = new OutputBuffer(maxSize);
+  const ondata = (chunk: Uint8Array) => output.push(chunk);
+  const inflater = format === "gzip" ? new Gunzip(ondata) : new Unzlib(ondata);
+
+  let offset = 0;
+  do {
+    const end = Math.min(offset + INFLATE_SLICE_SIZE, data.length);
+    inflater.push(data.subarray(offset, end), end === data.length);
+    offset = end;
+  } while (offset < data.length);
+
+  // The streaming Gunzip doesn't read the trailer: check its length field (ISIZE, the size mod 2^32)
+  if (format === "gzip") {
+    const trailer = data.length >= 18 ? new DataView(data.buffer, data.byteOffset + data.length - 4, 4) : null;
+    if (!trailer || trailer.getUint32(0, true) !== output.size % 2 ** 32) {
+      throw new Error("invalid gzip data");
+    }
+  }
+  return output.concat();
+}
+
+/**
+ * Collects output chunks, throwing once they add up to more than the size limit
+ */
+class OutputBuffer {
+  size = 0;
+  private chunks: Uint8Array[] = [];
+  private maxSize: number;
+
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  push(chunk: Uint8Array): void {
+    this.size += chunk.length;
+    if (this.size > this.maxSize) {
+      throw new Error(`Decompressed data exceeds ${this.maxSize} bytes`);
+    }
+    this.chunks.push(chunk);
+  }
+
+  concat(): Uint8Array<ArrayBuffer> {
+    const result = new Uint8Array(this.size);
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      result.set(chunk, offset);
+      offset += chunk.length;
+    }
+    return result;
+  }
+}
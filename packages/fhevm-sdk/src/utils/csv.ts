@@ -0,0 +1,19 @@
+/**
+ * CSV Utilities for Cryptletter
+ *
+ * Escaping for CSV exports such as the creator dashboard's subscriber list. Some fields (tier names) are free
+ * text chosen by creators, and the files are opened in spreadsheets.
+ */
+
+/**
+ * Escape a value as one CSV field
+ *
+ * Values a spreadsheet would evaluate as a formula (leading `=`, `+`, `-`, `@`, tab or carriage return) are
+ * prefixed with `'`, as OWASP recommends. Fields with a comma, quote or line break are quoted.
+ * @param value - Raw field value
+ * @returns Field ready to be joined with commas
+ */
+export function toCsvField(value: string): string {
+  const text = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
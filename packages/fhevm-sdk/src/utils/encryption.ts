@@ -5,6 +5,8 @@
  * and utilities for converting between AES keys and FHE encrypted values.
  */
 
+import { compress, decompress, CONTENT_COMPRESSIONS, type ContentCompression } from "./compression";
+
 /**
  * Newsletter content structure
  */
@@ -17,6 +19,13 @@ export interface NewsletterData {
   metadata?: Record<string, any>;
 }
 
+/**
+ * Plain-text fields stored alongside the ciphertext in a binary bundle
+ */
+export interface BundleHeader {
+  [field: string]: string | number | boolean;
+}
+
 /**
  * Encrypted bundle containing ciphertext and encryption parameters
  */
@@ -25,6 +34,34 @@ export interface EncryptedBundle {
   iv: Uint8Array;
   authTag: Uint8Array;
   version: string;
+  header?: BundleHeader; // Only kept by the binary (v2) format
+}
+
+/**
+ * Where a post lives on-chain; bound to its ciphertext as AES-GCM additional authenticated data (AAD)
+ * so content encrypted for one post doesn't decrypt as another post's, even under a reused key
+ */
+export interface EncryptionContext {
+  chainId: number;
+  contract: string; // Cryptletter contract address
+  creator: string;
+  postNonce: number; // Index of the post in the creator's post list (getCreatorPostCount before publishing)
+}
+
+/**
+ * Options for encrypting newsletter content
+ */
+export interface EncryptContentOptions {
+  compression?: ContentCompression; // Compress the JSON before encrypting (recorded in the bundle header)
+  context?: EncryptionContext; // Bind the ciphertext to a post (recorded in the bundle header)
+}
+
+/**
+ * Options for decrypting newsletter content
+ */
+export interface DecryptContentOptions {
+  context?: EncryptionContext; // Expected post; defaults to the context recorded in the bundle
+  allowUnbound?: boolean; // Accept bundles bound to no post despite an expected context (pre-AAD posts; default false)
 }
 
 /**
@@ -43,10 +80,27 @@ export const AES_IV_SIZE = 12;
 export const AES_AUTH_TAG_SIZE = 16;
 
 /**
- * Encryption version
+ * Encryption version (no AAD)
  */
 export const ENCRYPTION_VERSION = "1.0.0";
 
+/**
+ * Encryption version of bundles bound to an EncryptionContext (AAD scheme 1, see encodeEncryptionContext)
+ */
+export const ENCRYPTION_VERSION_AAD = "1.1.0";
+
+/**
+ * Magic bytes at the start of every binary bundle ("CLTR")
+ */
+export const BUNDLE_MAGIC = new Uint8Array([0x43, 0x4c, 0x54, 0x52]);
+
+/**
+ * Binary bundle format version (v1 is the legacy base64 JSON format)
+ */
+export const BUNDLE_FORMAT_VERSION = 2;
+
+const BUNDLE_FLAG_HEADER = 0x01;
+
 /**
  * Generate a random AES-256 key
  * @returns 32-byte AES key as Uint8Array
@@ -91,19 +145,19 @@ export function generateIV(): Uint8Array {
 /**
  * Get crypto object (browser or Node.js)
  */
-function getCrypto(): any {
-  // Try window.crypto first (browser)
-  if (typeof window !== "undefined" && window.crypto) {
+export function getCrypto(): Crypto {
+  // Try window.crypto first (browser; jsdom's has no subtle)
+  if (typeof window !== "undefined" && window.crypto?.subtle) {
     return window.crypto;
   }
 
   // Try globalThis.crypto (Node 15+)
-  if (typeof globalThis !== "undefined" && globalThis.crypto) {
+  if (typeof globalThis !== "undefined" && globalThis.crypto?.subtle) {
     return globalThis.crypto;
   }
 
   // Try global.crypto (Node with polyfill)
-  if (typeof global !== "undefined" && (global as any).crypto) {
+  if (typeof global !== "undefined" && (global as any).crypto?.subtle) {
     return (global as any).crypto;
   }
 
@@ -118,6 +172,13 @@ function getCrypto(): any {
   throw new Error("Web Crypto API not available");
 }
 
+/**
+ * Bytes as a Web Crypto BufferSource (copied only if they sit on a SharedArrayBuffer)
+ */
+export function toBufferSource(bytes: Uint8Array): Uint8Array<ArrayBuffer> {
+  return bytes.buffer instanceof ArrayBuffer ? (bytes as Uint8Array<ArrayBuffer>) : new Uint8Array(bytes);
+}
+
 /**
  * Import AES key for Web Crypto API
  * @param keyBytes - Raw AES key bytes
@@ -137,7 +198,7 @@ async function importAESKey(keyBytes: Uint8Array): Promise<CryptoKey> {
 
   return await crypto.subtle.importKey(
     "raw",
-    keyBytes,
+    toBufferSource(keyBytes),
     { name: "AES-GCM", length: 256 },
     false,
     ["encrypt", "decrypt"]
@@ -148,11 +209,13 @@ async function importAESKey(keyBytes: Uint8Array): Promise<CryptoKey> {
  * Encrypt newsletter content with AES-256-GCM
  * @param newsletter - Newsletter data to encrypt
  * @param key - 32-byte AES key
+ * @param options - Optional compression and post context
  * @returns Encrypted bundle with ciphertext, IV, and auth tag
  */
 export async function encryptContent(
   newsletter: NewsletterData,
-  key: Uint8Array
+  key: Uint8Array,
+  options: EncryptContentOptions = {}
 ): Promise<EncryptedBundle> {
   if (!newsletter) {
     throw new Error("Newsletter data is required");
@@ -165,7 +228,11 @@ export async function encryptContent(
   try {
     // Serialize newsletter to JSON
     const plaintext = JSON.stringify(newsletter);
-    const plaintextBytes = new TextEncoder().encode(plaintext);
+    let plaintextBytes = new TextEncoder().encode(plaintext);
+
+    if (options.compression) {
+      plaintextBytes = await compress(plaintextBytes, options.compression);
+    }
 
     // Generate random IV
     const iv = generateIV();
@@ -178,8 +245,9 @@ export async function encryptContent(
     const encryptedBuffer = await crypto.subtle.encrypt(
       {
         name: "AES-GCM",
-        iv: iv,
+        iv: toBufferSource(iv),
         tagLength: AES_AUTH_TAG_SIZE * 8, // 128 bits
+        ...(options.context && { additionalData: toBufferSource(encodeEncryptionContext(options.context)) }),
       },
       cryptoKey,
       plaintextBytes
@@ -190,12 +258,19 @@ export async function encryptContent(
     const ciphertext = encryptedArray.slice(0, -AES_AUTH_TAG_SIZE);
     const authTag = encryptedArray.slice(-AES_AUTH_TAG_SIZE);
 
-    return {
+    const bundle: EncryptedBundle = {
       ciphertext,
       iv,
       authTag,
-      version: ENCRYPTION_VERSION,
+      version: options.context ? ENCRYPTION_VERSION_AAD : ENCRYPTION_VERSION,
     };
+    if (options.compression || options.context) {
+      bundle.header = {
+        ...(options.compression && { compression: options.compression }),
+        ...(options.context && encryptionContextHeader(options.context)),
+      };
+    }
+    return bundle;
   } catch (error) {
     console.error("Encryption failed:", error);
     throw new Error(`Failed to encrypt content: ${error instanceof Error ? error.message : "Unknown error"}`);
@@ -204,13 +279,19 @@ export async function encryptContent(
 
 /**
  * Decrypt newsletter content with AES-256-GCM
+ *
+ * Content compressed at encryption time is decompressed according to the bundle header.
+ * Bundles bound to a post only decrypt under that post's context. Unbound (1.0.0) bundles are refused
+ * when a context is expected, unless `allowUnbound` is set.
  * @param bundle - Encrypted bundle with ciphertext, IV, and auth tag
  * @param key - 32-byte AES key
+ * @param options - Optional expected post context
  * @returns Decrypted newsletter data
  */
 export async function decryptContent(
   bundle: EncryptedBundle,
-  key: Uint8Array
+  key: Uint8Array,
+  options: DecryptContentOptions = {}
 ): Promise<NewsletterData> {
   if (!bundle || !bundle.ciphertext || !bundle.iv || !bundle.authTag) {
     throw new Error("Invalid encrypted bundle");
@@ -220,6 +301,8 @@ export async function decryptContent(
     throw new Error(`Invalid AES key: expected ${AES_KEY_SIZE} bytes`);
   }
 
+  const additionalData = getBundleAAD(bundle, options.context, options.allowUnbound);
+
   try {
     // Import key
     const cryptoKey = await importAESKey(key);
@@ -234,15 +317,26 @@ export async function decryptContent(
     const decryptedBuffer = await crypto.subtle.decrypt(
       {
         name: "AES-GCM",
-        iv: bundle.iv,
+        iv: toBufferSource(bundle.iv),
         tagLength: AES_AUTH_TAG_SIZE * 8,
+        ...(additionalData && { additionalData: toBufferSource(additionalData) }),
       },
       cryptoKey,
       encryptedData
     );
 
+    let plaintextBytes = new Uint8Array(decryptedBuffer);
+
+    const compression = bundle.header?.compression;
+    if (compression !== undefined) {
+      if (!CONTENT_COMPRESSIONS.includes(compression as ContentCompression)) {
+        throw new Error(`Unsupported compression: ${compression}`);
+      }
+      plaintextBytes = await decompress(plaintextBytes, compression as ContentCompression);
+    }
+
     // Parse decrypted JSON
-    const decryptedText = new TextDecoder().decode(decryptedBuffer);
+    const decryptedText = new TextDecoder().decode(plaintextBytes);
     const newsletter = JSON.parse(decryptedText) as NewsletterData;
 
     return newsletter;
@@ -252,6 +346,104 @@ export async function decryptContent(
   }
 }
 
+/**
+ * Encode a post context as AES-GCM additional authenticated data (AAD scheme 1)
+ * @param context - Post the ciphertext belongs to
+ * @returns UTF-8 bytes of "cryptletter:aad-v1:<chainId>:<contract>:<creator>:<postNonce>" (addresses lower-cased)
+ */
+export function encodeEncryptionContext(context: EncryptionContext): Uint8Array {
+  const { chainId, contract, creator, postNonce } = context;
+  if (!Number.isSafeInteger(chainId) || !Number.isSafeInteger(postNonce) || postNonce < 0) {
+    throw new Error("Invalid encryption context");
+  }
+  if (!/^0x[0-9a-fA-F]{40}$/.test(contract) || !/^0x[0-9a-fA-F]{40}$/.test(creator)) {
+    throw new Error("Invalid encryption context address");
+  }
+
+  return new TextEncoder().encode(
+    `cryptletter:aad-v1:${chainId}:${contract.toLowerCase()}:${creator.toLowerCase()}:${postNonce}`
+  );
+}
+
+/**
+ * Bundle header fields recording a post context
+ */
+export function encryptionContextHeader(context: EncryptionContext): BundleHeader {
+  return {
+    chainId: context.chainId,
+    contract: context.contract,
+    creator: context.creator,
+    postNonce: context.postNonce,
+  };
+}
+
+/**
+ * Read a post context recorded with encryptionContextHeader
+ */
+export function readEncryptionContextHeader(header: BundleHeader | undefined): EncryptionContext {
+  const { chainId, contract, creator, postNonce } = header ?? {};
+  if (
+    typeof chainId !== "number" ||
+    typeof contract !== "string" ||
+    typeof creator !== "string" ||
+    typeof postNonce !== "number"
+  ) {
+    throw new Error("Bundle header is missing its encryption context");
+  }
+  return { chainId, contract, creator, postNonce };
+}
+
+/**
+ * Encode a recorded context as AAD, rejecting it if it isn't the one the caller expects
+ * @param recorded - Context stored with the ciphertext
+ * @param expected - Post the caller expects the ciphertext to belong to
+ */
+export function checkEncryptionContext(recorded: EncryptionContext, expected?: EncryptionContext): Uint8Array {
+  const aad = encodeEncryptionContext(recorded);
+  if (expected && !bytesEqual(aad, encodeEncryptionContext(expected))) {
+    throw new Error("Bundle was encrypted for a different post");
+  }
+  return aad;
+}
+
+/**
+ * Read the post context a bundle is bound to
+ * @param bundle - Encrypted bundle
+ * @returns The recorded context, or null for bundles encrypted without one
+ */
+export function getBundleContext(bundle: EncryptedBundle): EncryptionContext | null {
+  if (bundle.version !== ENCRYPTION_VERSION_AAD) {
+    return null;
+  }
+  return readEncryptionContextHeader(bundle.header);
+}
+
+/**
+ * Additional authenticated data to decrypt a bundle with
+ * @param bundle - Encrypted bundle
+ * @param expected - Post the caller expects the bundle to belong to
+ * @param allowUnbound - Accept a bundle encrypted without a context even though one is expected
+ * @returns Encoded context, or undefined for bundles encrypted without one
+ */
+export function getBundleAAD(
+  bundle: EncryptedBundle,
+  expected?: EncryptionContext,
+  allowUnbound = false
+): Uint8Array | undefined {
+  const recorded = getBundleContext(bundle);
+  if (recorded) {
+    return checkEncryptionContext(recorded, expected);
+  }
+  if (expected && !allowUnbound) {
+    throw new Error("Bundle isn't bound to a post");
+  }
+  return undefined;
+}
+
+function bytesEqual(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, i) => byte === b[i]);
+}
+
 /**
  * Convert AES key to FHE input format
  * The AES key (32 bytes) needs to be converted to a format suitable for FHE encryption.
@@ -300,11 +492,15 @@ export function fheOutputToAESKey(fheOutput: string): Uint8Array {
 }
 
 /**
- * Serialize encrypted bundle to base64 for storage
+ * Serialize encrypted bundle to the binary (v2) format for storage
+ *
+ * Layout: magic (4) | format version (1) | flags (1) | IV length (1) | auth tag length (1) |
+ * version length (1) | version | IV | auth tag | [header length (uint16 BE) | header JSON] | ciphertext
+ *
  * @param bundle - Encrypted bundle
- * @returns Base64 encoded bundle
+ * @returns Serialized bundle bytes
  */
-export function serializeBundle(bundle: EncryptedBundle): string {
+export function serializeBundle(bundle: EncryptedBundle): Uint8Array {
   // Validate bundle structure
   if (!bundle || typeof bundle !== 'object') {
     throw new Error('Invalid bundle: expected object');
@@ -325,57 +521,149 @@ export function serializeBundle(bundle: EncryptedBundle): string {
     throw new Error(`Invalid bundle.authTag: expected Uint8Array, got ${typeof bundle.authTag}`);
   }
 
-  const data = {
-    ciphertext: Array.from(bundle.ciphertext),
-    iv: Array.from(bundle.iv),
-    authTag: Array.from(bundle.authTag),
-    version: bundle.version,
-  };
+  const version = new TextEncoder().encode(bundle.version);
+  const header = bundle.header ? new TextEncoder().encode(JSON.stringify(bundle.header)) : null;
 
-  const jsonString = JSON.stringify(data);
+  if (bundle.iv.length > 0xff || bundle.authTag.length > 0xff || version.length > 0xff) {
+    throw new Error('Invalid bundle: IV, auth tag and version must each fit in 255 bytes');
+  }
+  if (header && header.length > 0xffff) {
+    throw new Error('Invalid bundle: header must fit in 65535 bytes');
+  }
 
-  // Use Buffer for Node.js, btoa for browser
-  if (typeof Buffer !== 'undefined') {
-    return Buffer.from(jsonString).toString('base64');
-  } else if (typeof btoa !== 'undefined') {
-    return btoa(jsonString);
-  } else {
-    throw new Error('No base64 encoding method available');
+  const headerSize = header ? 2 + header.length : 0;
+  const out = new Uint8Array(
+    BUNDLE_MAGIC.length + 5 + version.length + bundle.iv.length + bundle.authTag.length + headerSize + bundle.ciphertext.length
+  );
+
+  let offset = 0;
+  const write = (bytes: Uint8Array) => {
+    out.set(bytes, offset);
+    offset += bytes.length;
+  };
+
+  write(BUNDLE_MAGIC);
+  write(
+    new Uint8Array([
+      BUNDLE_FORMAT_VERSION,
+      header ? BUNDLE_FLAG_HEADER : 0,
+      bundle.iv.length,
+      bundle.authTag.length,
+      version.length,
+    ])
+  );
+  write(version);
+  write(bundle.iv);
+  write(bundle.authTag);
+  if (header) {
+    write(new Uint8Array([header.length >> 8, header.length & 0xff]));
+    write(header);
   }
+  write(bundle.ciphertext);
+
+  return out;
 }
 
 /**
- * Deserialize base64 bundle back to EncryptedBundle
- * @param serialized - Base64 encoded bundle
+ * Deserialize a stored bundle back to EncryptedBundle
+ *
+ * Accepts the binary (v2) format and the legacy base64 JSON (v1) format, either as raw bytes
+ * (e.g. an IPFS download), a 0x-prefixed hex string (e.g. event bytes) or, for v1, the base64 string.
+ *
+ * @param serialized - Serialized bundle
  * @returns Encrypted bundle
  */
-export function deserializeBundle(serialized: string): EncryptedBundle {
+export function deserializeBundle(serialized: Uint8Array | string): EncryptedBundle {
   try {
-    let jsonString: string;
-
-    // Use Buffer for Node.js, atob for browser
-    if (typeof Buffer !== 'undefined') {
-      jsonString = Buffer.from(serialized, 'base64').toString('utf-8');
-    } else if (typeof atob !== 'undefined') {
-      jsonString = atob(serialized);
-    } else {
-      throw new Error('No base64 decoding method available');
-    }
+    const bytes = typeof serialized === 'string' ? stringToBytes(serialized) : serialized;
 
-    const data = JSON.parse(jsonString);
-
-    return {
-      ciphertext: new Uint8Array(data.ciphertext),
-      iv: new Uint8Array(data.iv),
-      authTag: new Uint8Array(data.authTag),
-      version: data.version,
-    };
+    if (isBinaryBundle(bytes)) {
+      return decodeBinaryBundle(bytes);
+    }
+    return decodeJsonBundle(new TextDecoder().decode(bytes));
   } catch (error) {
     console.error('Deserialization error:', error);
     throw new Error(`Failed to deserialize encrypted bundle: ${error instanceof Error ? error.message : 'Unknown error'}`);
   }
 }
 
+/**
+ * Check whether bytes start with the binary bundle magic
+ */
+export function isBinaryBundle(bytes: Uint8Array): boolean {
+  return bytes.length >= BUNDLE_MAGIC.length && BUNDLE_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Hex strings are decoded, anything else is taken as legacy base64 text
+ */
+function stringToBytes(serialized: string): Uint8Array {
+  if (/^0x([0-9a-fA-F]{2})*$/.test(serialized)) {
+    const bytes = new Uint8Array((serialized.length - 2) / 2);
+    for (let i = 0; i < bytes.length; i++) {
+      bytes[i] = parseInt(serialized.substr(2 + i * 2, 2), 16);
+    }
+    return bytes;
+  }
+  return new TextEncoder().encode(serialized);
+}
+
+function decodeBinaryBundle(bytes: Uint8Array): EncryptedBundle {
+  let offset = BUNDLE_MAGIC.length;
+  const read = (length: number): Uint8Array => {
+    if (offset + length > bytes.length) {
+      throw new Error('Truncated bundle');
+    }
+    const slice = bytes.slice(offset, offset + length);
+    offset += length;
+    return slice;
+  };
+
+  const [formatVersion, flags, ivLength, authTagLength, versionLength] = read(5);
+  if (formatVersion !== BUNDLE_FORMAT_VERSION) {
+    throw new Error(`Unsupported bundle format version: ${formatVersion}`);
+  }
+
+  const version = new TextDecoder().decode(read(versionLength));
+  const iv = read(ivLength);
+  const authTag = read(authTagLength);
+
+  let header: BundleHeader | undefined;
+  if (flags & BUNDLE_FLAG_HEADER) {
+    const [high, low] = read(2);
+    header = JSON.parse(new TextDecoder().decode(read((high << 8) | low)));
+  }
+
+  const bundle: EncryptedBundle = { ciphertext: bytes.slice(offset), iv, authTag, version };
+  if (header) bundle.header = header;
+  return bundle;
+}
+
+/**
+ * Legacy v1 format: base64 of JSON with the byte fields as number arrays
+ */
+function decodeJsonBundle(base64: string): EncryptedBundle {
+  let jsonString: string;
+
+  // Use Buffer for Node.js, atob for browser
+  if (typeof Buffer !== 'undefined') {
+    jsonString = Buffer.from(base64, 'base64').toString('utf-8');
+  } else if (typeof atob !== 'undefined') {
+    jsonString = atob(base64);
+  } else {
+    throw new Error('No base64 decoding method available');
+  }
+
+  const data = JSON.parse(jsonString);
+
+  return {
+    ciphertext: new Uint8Array(data.ciphertext),
+    iv: new Uint8Array(data.iv),
+    authTag: new Uint8Array(data.authTag),
+    version: data.version,
+  };
+}
+
 /**
  * Create a preview of newsletter content (first N characters of title + content)
  * @param newsletter - Newsletter data
@@ -5,6 +5,28 @@
  */
 
 import type { IPFSClient } from "./ipfs";
+import {
+  AES_AUTH_TAG_SIZE,
+  ENCRYPTION_VERSION_AAD,
+  deserializeBundle,
+  encodeEncryptionContext,
+  encryptionContextHeader,
+  getBundleAAD,
+  getCrypto,
+  isBinaryBundle,
+  serializeBundle,
+  toBufferSource,
+  type EncryptionContext,
+} from "./encryption";
+import {
+  STREAM_MAGIC,
+  bytesToStream,
+  decryptStream,
+  encryptStream,
+  isEncryptedStream,
+  peekStream,
+  readStream,
+} from "./streamEncryption";
 
 export interface ImageData {
   src: string; // base64 or URL
@@ -20,6 +42,13 @@ export interface UploadedImage {
   encrypted: boolean;
 }
 
+/**
+ * Options for decrypting images
+ */
+export interface DecryptImageOptions {
+  allowUnbound?: boolean; // Accept images bound to no post (uploaded before AAD binding; default false)
+}
+
 /**
  * Extract all base64 images from Tiptap JSON content
  */
@@ -48,6 +77,29 @@ export function extractBase64ImagesFromJson(json: any): ImageData[] {
   return images;
 }
 
+/**
+ * Extract the IPFS CIDs of all encrypted images in Tiptap JSON content
+ */
+export function extractEncryptedImageCidsFromJson(json: any): string[] {
+  const cids: string[] = [];
+
+  function traverse(node: any) {
+    if (node.type === "image" && node.attrs?.["data-encrypted"] === "true" && node.attrs["data-ipfs-cid"]) {
+      cids.push(node.attrs["data-ipfs-cid"]);
+    }
+
+    if (node.content && Array.isArray(node.content)) {
+      node.content.forEach(traverse);
+    }
+  }
+
+  if (json) {
+    traverse(json);
+  }
+
+  return cids;
+}
+
 /**
  * Convert base64 data URL to Uint8Array
  */
@@ -71,21 +123,49 @@ export function base64ToUint8Array(base64DataUrl: string): Uint8Array {
 
 /**
  * Encrypt image data using AES-256-GCM
+ *
+ * Without a context the output is IV + ciphertext; with one it's a binary bundle bound to the post.
+ * Encrypts in one shot; uploadImagesToIPFS uses the chunked encryptStream instead.
  */
-export async function encryptImage(imageData: Uint8Array, aesKey: Uint8Array): Promise<Uint8Array> {
+export async function encryptImage(
+  imageData: Uint8Array,
+  aesKey: Uint8Array,
+  context?: EncryptionContext
+): Promise<Uint8Array> {
   // Get crypto object (works in both browser and Node.js)
-  const crypto = globalThis.crypto || (global as any).crypto || require("crypto").webcrypto;
+  const crypto = getCrypto();
 
   // Generate IV
   const iv = crypto.getRandomValues(new Uint8Array(12));
 
   // Import key
-  const cryptoKey = await crypto.subtle.importKey("raw", aesKey, { name: "AES-GCM", length: 256 }, false, [
-    "encrypt",
-  ]);
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    toBufferSource(aesKey),
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt"]
+  );
+
+  if (context) {
+    const sealed = new Uint8Array(
+      await crypto.subtle.encrypt(
+        { name: "AES-GCM", iv, additionalData: toBufferSource(encodeEncryptionContext(context)) },
+        cryptoKey,
+        toBufferSource(imageData)
+      )
+    );
+    return serializeBundle({
+      ciphertext: sealed.slice(0, -AES_AUTH_TAG_SIZE),
+      iv,
+      authTag: sealed.slice(-AES_AUTH_TAG_SIZE),
+      version: ENCRYPTION_VERSION_AAD,
+      header: encryptionContextHeader(context),
+    });
+  }
 
   // Encrypt
-  const encryptedData = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, imageData);
+  const encryptedData = await crypto.subtle.encrypt({ name: "AES-GCM", iv }, cryptoKey, toBufferSource(imageData));
 
   // Combine IV + encrypted data for storage
   const result = new Uint8Array(iv.length + encryptedData.byteLength);
@@ -97,34 +177,102 @@ export async function encryptImage(imageData: Uint8Array, aesKey: Uint8Array): P
 
 /**
  * Decrypt image data using AES-256-GCM
+ *
+ * Reads every stored format: chunked streams (uploads), binary bundles (encryptImage with a context) and
+ * legacy IV + ciphertext. Images only decrypt under their post's context; legacy images, which aren't bound
+ * to a post, are refused unless `allowUnbound` is set.
+ * @param context - Post the image must belong to, from on-chain data (e.g. decryptNewsletterContent's result)
  */
-export async function decryptImage(encryptedData: Uint8Array, aesKey: Uint8Array): Promise<Uint8Array> {
+export async function decryptImage(
+  encryptedData: Uint8Array,
+  aesKey: Uint8Array,
+  context: EncryptionContext,
+  options: DecryptImageOptions = {}
+): Promise<Uint8Array> {
+  if (isEncryptedStream(encryptedData)) {
+    return await readStream(decryptStream(bytesToStream(encryptedData), aesKey, { context }));
+  }
+
   // Get crypto object
-  const crypto = globalThis.crypto || (global as any).crypto || require("crypto").webcrypto;
+  const crypto = getCrypto();
+
+  let iv: Uint8Array;
+  let ciphertext: Uint8Array;
+  let additionalData: Uint8Array | undefined;
+  if (isBinaryBundle(encryptedData)) {
+    const bundle = deserializeBundle(encryptedData);
+    iv = bundle.iv;
+    ciphertext = new Uint8Array(bundle.ciphertext.length + bundle.authTag.length);
+    ciphertext.set(bundle.ciphertext);
+    ciphertext.set(bundle.authTag, bundle.ciphertext.length);
+    additionalData = getBundleAAD(bundle, context, options.allowUnbound);
+  } else {
+    if (!options.allowUnbound) {
+      throw new Error("Image isn't bound to a post");
+    }
 
-  // Extract IV (first 12 bytes)
-  const iv = encryptedData.slice(0, 12);
-  const ciphertext = encryptedData.slice(12);
+    // Extract IV (first 12 bytes)
+    iv = encryptedData.slice(0, 12);
+    ciphertext = encryptedData.slice(12);
+  }
 
   // Import key
-  const cryptoKey = await crypto.subtle.importKey("raw", aesKey, { name: "AES-GCM", length: 256 }, false, [
-    "decrypt",
-  ]);
+  const cryptoKey = await crypto.subtle.importKey(
+    "raw",
+    toBufferSource(aesKey),
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["decrypt"]
+  );
 
   // Decrypt
-  const decryptedData = await crypto.subtle.decrypt({ name: "AES-GCM", iv }, cryptoKey, ciphertext);
+  const decryptedData = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: toBufferSource(iv),
+      ...(additionalData && { additionalData: toBufferSource(additionalData) }),
+    },
+    cryptoKey,
+    toBufferSource(ciphertext)
+  );
 
   return new Uint8Array(decryptedData);
 }
 
+/**
+ * Decrypt an image as it downloads
+ *
+ * Chunked uploads are decrypted chunk by chunk; images in the older one-shot formats are read in full
+ * and decrypted with decryptImage.
+ * @param source - Encrypted image stream (e.g. from IPFSClient.downloadStream)
+ * @param context - Post the image must belong to, from on-chain data
+ * @returns Plaintext image stream
+ */
+export async function decryptImageStream(
+  source: ReadableStream<Uint8Array>,
+  aesKey: Uint8Array,
+  context: EncryptionContext,
+  options: DecryptImageOptions = {}
+): Promise<ReadableStream<Uint8Array>> {
+  const [head, stream] = await peekStream(source, STREAM_MAGIC.length);
+
+  if (isEncryptedStream(head)) {
+    return decryptStream(stream, aesKey, { context });
+  }
+  return bytesToStream(await decryptImage(await readStream(stream), aesKey, context, options));
+}
+
 /**
  * Upload images to IPFS (with optional encryption for premium content)
+ *
+ * Encrypted images are sealed in chunks (see encryptStream) so readers can decrypt them progressively.
  */
 export async function uploadImagesToIPFS(
   images: ImageData[],
   ipfsClient: IPFSClient,
   encrypt: boolean = false,
-  aesKey?: Uint8Array
+  aesKey?: Uint8Array,
+  context?: EncryptionContext
 ): Promise<UploadedImage[]> {
   if (encrypt && !aesKey) {
     throw new Error("AES key required for encrypted image upload");
@@ -135,15 +283,9 @@ export async function uploadImagesToIPFS(
   for (const image of images) {
     try {
       // Convert base64 to bytes
-      let imageBytes = base64ToUint8Array(image.src);
-
-      // Encrypt if needed
-      if (encrypt && aesKey) {
-        imageBytes = await encryptImage(imageBytes, aesKey);
-      }
+      const imageBytes = base64ToUint8Array(image.src);
 
-      // Upload to IPFS
-      const uploadResult = await ipfsClient.uploadToIPFS(imageBytes, {
+      const metadata = {
         name: `newsletter-image-${image.index}.${encrypt ? "enc" : "bin"}`,
         keyValues: {
           type: "newsletter-image",
@@ -151,7 +293,13 @@ export async function uploadImagesToIPFS(
           encrypted: encrypt ? 1 : 0,
           alt: image.alt || "",
         },
-      });
+      };
+
+      // Upload to IPFS (encrypted chunk by chunk if needed)
+      const uploadResult =
+        encrypt && aesKey
+          ? await ipfsClient.uploadStream(encryptStream(bytesToStream(imageBytes), aesKey, { context }), metadata)
+          : await ipfsClient.uploadToIPFS(imageBytes, metadata);
 
       uploadedImages.push({
         index: image.index,
@@ -171,6 +319,49 @@ export async function uploadImagesToIPFS(
   return uploadedImages;
 }
 
+/**
+ * Re-encrypt uploaded images under a new AES key (for key rotation)
+ *
+ * Each image is streamed from IPFS, decrypted with the old key and uploaded again sealed with the new one.
+ * @param context - Post the images are bound to; re-encrypted images are bound to it as well
+ * @returns Map of each old CID to the CID of its re-encrypted copy
+ */
+export async function reencryptImages(
+  cids: string[],
+  ipfsClient: IPFSClient,
+  oldKey: Uint8Array,
+  newKey: Uint8Array,
+  context: EncryptionContext,
+  options: DecryptImageOptions = {}
+): Promise<Map<string, string>> {
+  const reencrypted = new Map<string, string>();
+
+  for (const [index, cid] of cids.entries()) {
+    if (reencrypted.has(cid)) continue;
+
+    try {
+      const plaintext = await decryptImageStream(await ipfsClient.downloadStream(cid), oldKey, context, options);
+      const uploadResult = await ipfsClient.uploadStream(encryptStream(plaintext, newKey, { context }), {
+        name: `newsletter-image-${index}.enc`,
+        keyValues: {
+          type: "newsletter-image",
+          index,
+          encrypted: 1,
+        },
+      });
+
+      reencrypted.set(cid, uploadResult.cid);
+    } catch (error) {
+      console.error(`Failed to re-encrypt image ${cid}:`, error);
+      throw new Error(
+        `Image re-encryption failed for ${cid}: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    }
+  }
+
+  return reencrypted;
+}
+
 /**
  * Replace base64 images in HTML with IPFS URLs
  */
@@ -229,7 +420,8 @@ export async function processNewsletterImages(
   json: any,
   ipfsClient: IPFSClient,
   encrypt: boolean = false,
-  aesKey?: Uint8Array
+  aesKey?: Uint8Array,
+  context?: EncryptionContext // Post the encrypted images are bound to
 ): Promise<{ html: string; json: any; imageCids: string[] }> {
   // Extract images from JSON (more reliable than HTML parsing)
   const images = extractBase64ImagesFromJson(json);
@@ -239,7 +431,7 @@ export async function processNewsletterImages(
   }
 
   // Upload images to IPFS
-  const uploadedImages = await uploadImagesToIPFS(images, ipfsClient, encrypt, aesKey);
+  const uploadedImages = await uploadImagesToIPFS(images, ipfsClient, encrypt, aesKey, context);
 
   // Replace in both HTML and JSON
   const newHtml = replaceImagesInHtml(html, uploadedImages);
@@ -254,3 +446,65 @@ export async function processNewsletterImages(
     imageCids,
   };
 }
+
+/**
+ * Detect an image MIME type from its first bytes (defaults to JPEG)
+ */
+function detectImageMimeType(bytes: Uint8Array): string {
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) return "image/png";
+  if (bytes[0] === 0x47 && bytes[1] === 0x49) return "image/gif";
+  if (bytes[0] === 0x52 && bytes[1] === 0x49) return "image/webp";
+  return "image/jpeg";
+}
+
+/**
+ * Replace encrypted IPFS images in Tiptap JSON with decrypted base64 data URLs (for re-editing a post)
+ *
+ * The returned images map each data URL back to its IPFS upload; pass them to replaceImagesInHtml and
+ * replaceImagesInJson before saving so unchanged images aren't uploaded again.
+ * @param context - Post the images must belong to, from on-chain data
+ */
+export async function inlineEncryptedImages(
+  json: any,
+  ipfsClient: IPFSClient,
+  aesKey: Uint8Array,
+  context: EncryptionContext,
+  options: DecryptImageOptions = {}
+): Promise<{ json: any; images: UploadedImage[] }> {
+  if (!json) return { json, images: [] };
+
+  const result = JSON.parse(JSON.stringify(json)); // Deep clone
+  const nodes: any[] = [];
+
+  function traverse(node: any) {
+    if (node.type === "image" && node.attrs?.["data-encrypted"] === "true" && node.attrs["data-ipfs-cid"]) {
+      nodes.push(node);
+    }
+
+    if (node.content && Array.isArray(node.content)) {
+      node.content.forEach(traverse);
+    }
+  }
+
+  traverse(result);
+
+  const images: UploadedImage[] = [];
+  for (const [index, node] of nodes.entries()) {
+    const ipfsCid = node.attrs["data-ipfs-cid"];
+    const decrypted = await decryptImage(await ipfsClient.downloadFromIPFS(ipfsCid), aesKey, context, options);
+
+    let binary = "";
+    for (let i = 0; i < decrypted.length; i++) {
+      binary += String.fromCharCode(decrypted[i]);
+    }
+    const dataUrl = `data:${detectImageMimeType(decrypted)};base64,${btoa(binary)}`;
+
+    images.push({ index, ipfsCid, ipfsUrl: node.attrs.src, originalSrc: dataUrl, encrypted: true });
+
+    node.attrs.src = dataUrl;
+    delete node.attrs["data-ipfs-cid"];
+    delete node.attrs["data-encrypted"];
+  }
+
+  return { json: result, images };
+}
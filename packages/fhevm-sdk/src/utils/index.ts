@@ -104,25 +104,72 @@ export {
   fheOutputToAESKey,
   serializeBundle,
   deserializeBundle,
+  isBinaryBundle,
+  encodeEncryptionContext,
+  encryptionContextHeader,
+  getBundleContext,
+  getBundleAAD,
+  readEncryptionContextHeader,
+  checkEncryptionContext,
   createPreview,
   AES_KEY_SIZE,
   AES_IV_SIZE,
   AES_AUTH_TAG_SIZE,
   ENCRYPTION_VERSION,
+  ENCRYPTION_VERSION_AAD,
+  BUNDLE_MAGIC,
+  BUNDLE_FORMAT_VERSION,
   type NewsletterData,
   type EncryptedBundle,
+  type BundleHeader,
+  type EncryptContentOptions,
+  type DecryptContentOptions,
+  type EncryptionContext,
 } from "./encryption";
 
+// Streaming encryption utilities (Cryptletter)
+export {
+  encryptStream,
+  decryptStream,
+  isEncryptedStream,
+  bytesToStream,
+  readStream,
+  peekStream,
+  STREAM_MAGIC,
+  STREAM_FORMAT_VERSION,
+  DEFAULT_STREAM_CHUNK_SIZE,
+  MAX_STREAM_CHUNK_SIZE,
+  type EncryptStreamOptions,
+  type DecryptStreamOptions,
+} from "./streamEncryption";
+
+// Compression utilities (Cryptletter)
+export {
+  compress,
+  decompress,
+  CONTENT_COMPRESSIONS,
+  MAX_DECOMPRESSED_SIZE,
+  type ContentCompression,
+} from "./compression";
+
+// CSV utilities (Cryptletter)
+export { toCsvField } from "./csv";
+
 // Image processing utilities (Cryptletter)
 export {
   extractBase64ImagesFromJson,
+  extractEncryptedImageCidsFromJson,
   base64ToUint8Array,
   encryptImage,
   decryptImage,
+  decryptImageStream,
   uploadImagesToIPFS,
+  reencryptImages,
   replaceImagesInHtml,
   replaceImagesInJson,
   processNewsletterImages,
+  inlineEncryptedImages,
   type ImageData,
   type UploadedImage,
+  type DecryptImageOptions,
 } from "./imageProcessor";
@@ -8,6 +8,9 @@
  */
 
 import { PinataSDK } from "pinata-web3";
+import { toBufferSource } from "./encryption";
+
+const PINATA_PIN_FILE_URL = "https://api.pinata.cloud/pinning/pinFileToIPFS";
 
 /**
  * IPFS Configuration
@@ -39,6 +42,7 @@ export interface IPFSPinResponse {
  */
 export class IPFSClient {
   private pinata: PinataSDK;
+  private jwt: string;
   private gateway: string;
 
   constructor(config: IPFSConfig) {
@@ -46,6 +50,7 @@ export class IPFSClient {
       throw new Error("IPFS configuration requires JWT token");
     }
 
+    this.jwt = config.jwt;
     this.gateway = config.gateway || "https://gateway.pinata.cloud";
 
     try {
@@ -69,35 +74,150 @@ export class IPFSClient {
     metadata?: { name?: string; keyValues?: Record<string, string | number> }
   ): Promise<IPFSUploadResponse> {
     try {
-      // Use simple filename to avoid directory creation in IPFS
-      // Pinata creates directory structure from filename with special chars
-      const file = new File([encryptedData], "content.bin", {
-        type: "application/octet-stream",
-      });
+      return await this.uploadParts([encryptedData], metadata);
+    } catch (error) {
+      console.error("IPFS upload failed:", error);
+      throw new Error(`Failed to upload to IPFS: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
 
-      // Upload to Pinata - metadata.name is for Pinata metadata only, not IPFS path
-      const result = await this.pinata.upload.file(file as any, {
-        metadata: metadata ? {
-          name: metadata.name, // This is Pinata UI name, not IPFS filename
-          keyValues: metadata.keyValues,
-        } : undefined,
-      });
+  /**
+   * Upload a stream (e.g. from encryptStream) to IPFS
+   *
+   * Where fetch can send a streaming request body (Node 18+, Chromium), the chunks are written to Pinata
+   * as they arrive, so memory stays flat however large the file is. Other browsers (Firefox, Safari)
+   * collect the chunks into one File first.
+   * @param stream - The content as a stream of chunks
+   * @param metadata - Optional metadata for the upload
+   * @returns Upload response with CID and URL
+   */
+  async uploadStream(
+    stream: ReadableStream<Uint8Array>,
+    metadata?: { name?: string; keyValues?: Record<string, string | number> }
+  ): Promise<IPFSUploadResponse> {
+    try {
+      if (supportsRequestStreams()) {
+        return await this.pinStream(stream, metadata);
+      }
 
-      const cid = result.IpfsHash;
-      const url = `${this.gateway}/ipfs/${cid}`;
-      const size = result.PinSize;
+      const reader = stream.getReader();
+      const parts: Uint8Array[] = [];
+      for (;;) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        parts.push(value);
+      }
 
-      return {
-        cid,
-        url,
-        size,
-      };
+      return await this.uploadParts(parts, metadata);
     } catch (error) {
       console.error("IPFS upload failed:", error);
       throw new Error(`Failed to upload to IPFS: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   }
 
+  /**
+   * Pin a stream with a multipart body written as the stream is read (fetch with duplex "half")
+   */
+  private async pinStream(
+    stream: ReadableStream<Uint8Array>,
+    metadata?: { name?: string; keyValues?: Record<string, string | number> }
+  ): Promise<IPFSUploadResponse> {
+    const encoder = new TextEncoder();
+    const boundary = `----CryptletterBoundary${Array.from(crypto.getRandomValues(new Uint8Array(12)), (byte) =>
+      byte.toString(16).padStart(2, "0")
+    ).join("")}`;
+    const pinataMetadata = JSON.stringify({
+      name: metadata?.name || "content.bin",
+      keyvalues: metadata?.keyValues,
+    });
+    const head =
+      `--${boundary}\r\nContent-Disposition: form-data; name="pinataMetadata"\r\n\r\n${pinataMetadata}\r\n` +
+      `--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="content.bin"\r\n` +
+      `Content-Type: application/octet-stream\r\n\r\n`;
+    const tail = `\r\n--${boundary}--\r\n`;
+
+    // Keep the source's own error: fetch reports a failed body as a generic network error
+    const reader = stream.getReader();
+    let sourceError: unknown;
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode(head));
+      },
+      async pull(controller) {
+        try {
+          const { value, done } = await reader.read();
+          if (done) {
+            controller.enqueue(encoder.encode(tail));
+            controller.close();
+          } else {
+            controller.enqueue(value);
+          }
+        } catch (error) {
+          sourceError = error;
+          throw error;
+        }
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(PINATA_PIN_FILE_URL, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${this.jwt}`,
+          "Content-Type": `multipart/form-data; boundary=${boundary}`,
+        },
+        body,
+        duplex: "half",
+      } as RequestInit);
+    } catch (error) {
+      throw sourceError ?? error;
+    }
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${await response.text()}`);
+    }
+
+    const result = await response.json();
+    return {
+      cid: result.IpfsHash,
+      url: `${this.gateway}/ipfs/${result.IpfsHash}`,
+      size: result.PinSize,
+    };
+  }
+
+  private async uploadParts(
+    parts: Uint8Array[],
+    metadata?: { name?: string; keyValues?: Record<string, string | number> }
+  ): Promise<IPFSUploadResponse> {
+    // Use simple filename to avoid directory creation in IPFS
+    // Pinata creates directory structure from filename with special chars
+    const file = new File(parts.map(toBufferSource), "content.bin", {
+      type: "application/octet-stream",
+    });
+
+    // Upload to Pinata - metadata.name is for Pinata metadata only, not IPFS path
+    const result = await this.pinata.upload.file(file as any, {
+      metadata: metadata ? {
+        name: metadata.name, // This is Pinata UI name, not IPFS filename
+        keyValues: metadata.keyValues,
+      } : undefined,
+    });
+
+    const cid = result.IpfsHash;
+    const url = `${this.gateway}/ipfs/${cid}`;
+    const size = result.PinSize;
+
+    return {
+      cid,
+      url,
+      size,
+    };
+  }
+
   /**
    * Download content from IPFS by CID
    * @param cid - The IPFS Content Identifier
@@ -109,29 +229,56 @@ export class IPFSClient {
     }
 
     try {
-      const url = `${this.gateway}/ipfs/${cid}`;
-      const response = await fetch(url, { redirect: 'follow' });
+      const response = await this.fetchFromGateway(cid);
+      const arrayBuffer = await response.arrayBuffer();
+      return new Uint8Array(arrayBuffer);
+    } catch (error) {
+      console.error("IPFS download failed:", error);
+      throw new Error(`Failed to download from IPFS: ${error instanceof Error ? error.message : "Unknown error"}`);
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`);
-      }
+  /**
+   * Download content from IPFS as a stream, so large files can be processed as they arrive
+   * @param cid - The IPFS Content Identifier
+   * @returns The response body stream
+   */
+  async downloadStream(cid: string): Promise<ReadableStream<Uint8Array>> {
+    if (!cid) {
+      throw new Error("CID is required");
+    }
 
-      // Check if response is HTML (directory or error page)
-      const contentType = response.headers.get('content-type') || '';
-      if (contentType.includes('text/html')) {
-        const text = await response.text();
-        console.error('[IPFS] Received HTML:', text.substring(0, 200));
-        throw new Error(`IPFS returned HTML instead of file. CID may be a directory or does not exist.`);
+    try {
+      const response = await this.fetchFromGateway(cid);
+      if (!response.body) {
+        throw new Error("Response has no body");
       }
-
-      const arrayBuffer = await response.arrayBuffer();
-      return new Uint8Array(arrayBuffer);
+      return response.body;
     } catch (error) {
       console.error("IPFS download failed:", error);
       throw new Error(`Failed to download from IPFS: ${error instanceof Error ? error.message : "Unknown error"}`);
     }
   }
 
+  private async fetchFromGateway(cid: string): Promise<Response> {
+    const url = `${this.gateway}/ipfs/${cid}`;
+    const response = await fetch(url, { redirect: 'follow' });
+
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    // Check if response is HTML (directory or error page)
+    const contentType = response.headers.get('content-type') || '';
+    if (contentType.includes('text/html')) {
+      const text = await response.text();
+      console.error('[IPFS] Received HTML:', text.substring(0, 200));
+      throw new Error(`IPFS returned HTML instead of file. CID may be a directory or does not exist.`);
+    }
+
+    return response;
+  }
+
   /**
    * Pin existing content by CID
    * @param cid - The IPFS Content Identifier to pin
@@ -218,6 +365,29 @@ export class IPFSClient {
   }
 }
 
+/**
+ * Whether fetch can send a ReadableStream request body
+ *
+ * Runtimes that support it read the `duplex` option and don't stringify the stream into a
+ * text/plain body.
+ */
+function supportsRequestStreams(): boolean {
+  try {
+    let duplexAccessed = false;
+    const hasContentType = new Request(PINATA_PIN_FILE_URL, {
+      body: new ReadableStream(),
+      method: "POST",
+      get duplex() {
+        duplexAccessed = true;
+        return "half";
+      },
+    } as RequestInit).headers.has("Content-Type");
+    return duplexAccessed && !hasContentType;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Create an IPFS client instance
  * @param config - IPFS configuration
@@ -0,0 +1,470 @@
+/**
+ * Chunked (streaming) AES-256-GCM for Cryptletter
+ *
+ * Large attachments (PDFs, audio, image galleries) are sealed in fixed-size chunks so neither side
+ * ever holds the whole payload. Chunk nonces follow the STREAM construction: a random 7-byte prefix,
+ * a 4-byte big-endian chunk counter and a final-chunk flag, so chunks can't be reordered, dropped or
+ * cut off without failing authentication.
+ *
+ * Layout: "CLTS" | format version (1) | flags (1) | chunk size (uint32 BE) | nonce prefix (7)
+ *         | [uint16 BE header length + header JSON] | chunks (ciphertext + 16-byte auth tag each)
+ *
+ * Every chunk but the last carries exactly `chunkSize` plaintext bytes; the last carries the rest (possibly
+ * none). Each chunk is authenticated together with the preamble (everything before the first chunk) and,
+ * for streams bound to a post, the encoded EncryptionContext.
+ */
+
+import {
+  AES_AUTH_TAG_SIZE,
+  AES_KEY_SIZE,
+  checkEncryptionContext,
+  encodeEncryptionContext,
+  encryptionContextHeader,
+  getCrypto,
+  readEncryptionContextHeader,
+  toBufferSource,
+  type BundleHeader,
+  type EncryptionContext,
+} from "./encryption";
+
+/**
+ * Magic bytes at the start of every encrypted stream ("CLTS")
+ */
+export const STREAM_MAGIC = new Uint8Array([0x43, 0x4c, 0x54, 0x53]);
+
+/**
+ * Encrypted stream format version
+ */
+export const STREAM_FORMAT_VERSION = 1;
+
+/**
+ * Default plaintext bytes per chunk (64 KiB)
+ */
+export const DEFAULT_STREAM_CHUNK_SIZE = 64 * 1024;
+
+/**
+ * Largest accepted chunk size (16 MiB)
+ */
+export const MAX_STREAM_CHUNK_SIZE = 16 * 1024 * 1024;
+
+const NONCE_PREFIX_SIZE = 7;
+const FIXED_PREAMBLE_SIZE = STREAM_MAGIC.length + 2 + 4 + NONCE_PREFIX_SIZE;
+const MAX_CHUNKS = 2 ** 32;
+
+const STREAM_FLAG_HEADER = 0x01;
+const STREAM_FLAG_CONTEXT = 0x02; // Bound to an EncryptionContext (AAD scheme 1), recorded in the header
+
+/**
+ * Options for encrypting a stream
+ */
+export interface EncryptStreamOptions {
+  chunkSize?: number; // Plaintext bytes per chunk (defaults to DEFAULT_STREAM_CHUNK_SIZE)
+  context?: EncryptionContext; // Bind the stream to a post (recorded in the header)
+  header?: BundleHeader; // Extra plain-text fields, e.g. a MIME type
+}
+
+/**
+ * Options for decrypting a stream
+ */
+export interface DecryptStreamOptions {
+  context?: EncryptionContext; // Expected post; defaults to the context recorded in the stream
+}
+
+/**
+ * Encrypt a stream into the chunked format
+ * @param source - Plaintext stream
+ * @param key - 32-byte AES key
+ * @param options - Chunk size, post context and extra header fields
+ * @returns Encrypted stream, produced chunk by chunk as it's read
+ */
+export function encryptStream(
+  source: ReadableStream<Uint8Array>,
+  key: Uint8Array,
+  options: EncryptStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  if (!key || key.length !== AES_KEY_SIZE) {
+    throw new Error(`Invalid AES key: expected ${AES_KEY_SIZE} bytes`);
+  }
+
+  const chunkSize = options.chunkSize ?? DEFAULT_STREAM_CHUNK_SIZE;
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+    throw new Error(`Invalid chunk size: ${chunkSize}`);
+  }
+
+  const header: BundleHeader = {
+    ...options.header,
+    ...(options.context && encryptionContextHeader(options.context)),
+  };
+  const noncePrefix = getCrypto().getRandomValues(new Uint8Array(NONCE_PREFIX_SIZE));
+  const preamble = encodePreamble(chunkSize, noncePrefix, header, options.context !== undefined);
+  const additionalData = concatBytes([
+    preamble,
+    options.context ? encodeEncryptionContext(options.context) : new Uint8Array(0),
+  ]);
+
+  const reader = source.getReader();
+  const buffer = new ByteQueue();
+  let cryptoKey: Promise<CryptoKey> | null = null;
+  let counter = 0;
+  let sourceDone = false;
+
+  const seal = async (plaintext: Uint8Array, isLast: boolean): Promise<Uint8Array> => {
+    if (counter >= MAX_CHUNKS) {
+      throw new Error("Stream has too many chunks");
+    }
+    const iv = chunkNonce(noncePrefix, counter++, isLast);
+    const sealed = await getCrypto().subtle.encrypt(
+      { name: "AES-GCM", iv, additionalData, tagLength: AES_AUTH_TAG_SIZE * 8 },
+      await (cryptoKey ??= importKey(key, "encrypt")),
+      toBufferSource(plaintext)
+    );
+    return new Uint8Array(sealed);
+  };
+
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(preamble);
+    },
+
+    async pull(controller) {
+      try {
+        // A chunk is only known not to be the last once a byte past it has arrived
+        while (!sourceDone && buffer.length <= chunkSize) {
+          const { value, done } = await reader.read();
+          if (done) {
+            sourceDone = true;
+          } else {
+            buffer.push(value);
+          }
+        }
+
+        if (buffer.length > chunkSize) {
+          controller.enqueue(await seal(buffer.take(chunkSize), false));
+          return;
+        }
+
+        controller.enqueue(await seal(buffer.take(buffer.length), true));
+        controller.close();
+      } catch (error) {
+        throw new Error(`Failed to encrypt stream: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    },
+
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Decrypt a stream in the chunked format
+ *
+ * Chunks are emitted as soon as they authenticate; a stream that was truncated, reordered or tampered
+ * with errors out at the first bad chunk. Streams bound to a post only decrypt under that post's context,
+ * and an expected context refuses streams that aren't bound to one.
+ * @param source - Encrypted stream
+ * @param key - 32-byte AES key
+ * @param options - Optional expected post context
+ * @returns Plaintext stream
+ */
+export function decryptStream(
+  source: ReadableStream<Uint8Array>,
+  key: Uint8Array,
+  options: DecryptStreamOptions = {}
+): ReadableStream<Uint8Array> {
+  if (!key || key.length !== AES_KEY_SIZE) {
+    throw new Error(`Invalid AES key: expected ${AES_KEY_SIZE} bytes`);
+  }
+
+  const reader = source.getReader();
+  const buffer = new ByteQueue();
+  let cryptoKey: Promise<CryptoKey> | null = null;
+  let sourceDone = false;
+  let stream: { chunkSize: number; noncePrefix: Uint8Array; additionalData: Uint8Array<ArrayBuffer> } | null = null;
+  let counter = 0;
+
+  const fill = async (length: number): Promise<void> => {
+    while (!sourceDone && buffer.length < length) {
+      const { value, done } = await reader.read();
+      if (done) {
+        sourceDone = true;
+      } else {
+        buffer.push(value);
+      }
+    }
+  };
+
+  const readPreamble = async () => {
+    await fill(FIXED_PREAMBLE_SIZE);
+    if (buffer.length < FIXED_PREAMBLE_SIZE) {
+      throw new Error("Truncated stream");
+    }
+    const fixed = buffer.take(FIXED_PREAMBLE_SIZE);
+    if (!isEncryptedStream(fixed)) {
+      throw new Error("Not an encrypted stream");
+    }
+
+    const view = new DataView(fixed.buffer, fixed.byteOffset, fixed.byteLength);
+    const formatVersion = fixed[STREAM_MAGIC.length];
+    const flags = fixed[STREAM_MAGIC.length + 1];
+    const chunkSize = view.getUint32(STREAM_MAGIC.length + 2);
+    const noncePrefix = fixed.slice(FIXED_PREAMBLE_SIZE - NONCE_PREFIX_SIZE);
+    if (formatVersion !== STREAM_FORMAT_VERSION) {
+      throw new Error(`Unsupported stream format version: ${formatVersion}`);
+    }
+    if (chunkSize < 1 || chunkSize > MAX_STREAM_CHUNK_SIZE) {
+      throw new Error(`Invalid chunk size: ${chunkSize}`);
+    }
+
+    const parts = [fixed];
+    let header: BundleHeader | undefined;
+    if (flags & STREAM_FLAG_HEADER) {
+      await fill(2);
+      if (buffer.length < 2) {
+        throw new Error("Truncated stream");
+      }
+      const length = buffer.take(2);
+      const headerLength = (length[0] << 8) | length[1];
+      await fill(headerLength);
+      if (buffer.length < headerLength) {
+        throw new Error("Truncated stream");
+      }
+      const headerBytes = buffer.take(headerLength);
+      header = JSON.parse(new TextDecoder().decode(headerBytes));
+      parts.push(length, headerBytes);
+    }
+
+    const bound = (flags & STREAM_FLAG_CONTEXT) !== 0;
+    if (!bound && options.context) {
+      throw new Error("Stream isn't bound to a post");
+    }
+    parts.push(
+      bound ? checkEncryptionContext(readEncryptionContextHeader(header), options.context) : new Uint8Array(0)
+    );
+
+    return { chunkSize, noncePrefix, additionalData: concatBytes(parts) };
+  };
+
+  const open = async (sealed: Uint8Array, isLast: boolean): Promise<Uint8Array> => {
+    const { noncePrefix, additionalData } = stream!;
+    const index = counter++;
+    try {
+      const plaintext = await getCrypto().subtle.decrypt(
+        {
+          name: "AES-GCM",
+          iv: chunkNonce(noncePrefix, index, isLast),
+          additionalData,
+          tagLength: AES_AUTH_TAG_SIZE * 8,
+        },
+        await (cryptoKey ??= importKey(key, "decrypt")),
+        toBufferSource(sealed)
+      );
+      return new Uint8Array(plaintext);
+    } catch {
+      throw new Error(`chunk ${index} failed authentication`);
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      try {
+        stream ??= await readPreamble();
+
+        const sealedSize = stream.chunkSize + AES_AUTH_TAG_SIZE;
+        await fill(sealedSize + 1);
+
+        if (buffer.length > sealedSize) {
+          controller.enqueue(await open(buffer.take(sealedSize), false));
+          return;
+        }
+
+        if (buffer.length < AES_AUTH_TAG_SIZE) {
+          throw new Error("Truncated stream");
+        }
+        controller.enqueue(await open(buffer.take(buffer.length), true));
+        controller.close();
+      } catch (error) {
+        throw new Error(`Failed to decrypt stream: ${error instanceof Error ? error.message : "Unknown error"}`);
+      }
+    },
+
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+}
+
+/**
+ * Check whether bytes start with the encrypted stream magic
+ */
+export function isEncryptedStream(bytes: Uint8Array): boolean {
+  return bytes.length >= STREAM_MAGIC.length && STREAM_MAGIC.every((byte, i) => bytes[i] === byte);
+}
+
+/**
+ * Wrap bytes in a stream
+ * @param bytes - Data to stream
+ * @param chunkSize - Bytes per emitted chunk
+ */
+export function bytesToStream(
+  bytes: Uint8Array,
+  chunkSize: number = DEFAULT_STREAM_CHUNK_SIZE
+): ReadableStream<Uint8Array> {
+  let offset = 0;
+  return new ReadableStream<Uint8Array>({
+    pull(controller) {
+      if (offset >= bytes.length) {
+        controller.close();
+        return;
+      }
+      controller.enqueue(bytes.slice(offset, offset + chunkSize));
+      offset += chunkSize;
+    },
+  });
+}
+
+/**
+ * Read a whole stream into memory
+ * @param stream - Stream to drain
+ * @returns Concatenated bytes
+ */
+export async function readStream(stream: ReadableStream<Uint8Array>): Promise<Uint8Array> {
+  const reader = stream.getReader();
+  const parts: Uint8Array[] = [];
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    parts.push(value);
+  }
+  return concatBytes(parts);
+}
+
+/**
+ * Look at the first bytes of a stream without consuming them
+ * @param stream - Stream to peek into
+ * @param length - Bytes wanted (fewer are returned if the stream is shorter)
+ * @returns The first bytes, and a stream that still yields everything
+ */
+export async function peekStream(
+  stream: ReadableStream<Uint8Array>,
+  length: number
+): Promise<[Uint8Array, ReadableStream<Uint8Array>]> {
+  const reader = stream.getReader();
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  let done = false;
+
+  while (headLength < length) {
+    const result = await reader.read();
+    if (result.done) {
+      done = true;
+      break;
+    }
+    head.push(result.value);
+    headLength += result.value.length;
+  }
+
+  const replay = new ReadableStream<Uint8Array>({
+    start(controller) {
+      head.forEach((chunk) => controller.enqueue(chunk));
+      if (done) controller.close();
+    },
+    async pull(controller) {
+      const { value, done } = await reader.read();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    cancel(reason) {
+      return reader.cancel(reason);
+    },
+  });
+
+  return [concatBytes(head).slice(0, length), replay];
+}
+
+/**
+ * FIFO of byte chunks that can be taken from in arbitrary lengths
+ */
+class ByteQueue {
+  private chunks: Uint8Array[] = [];
+  private offset = 0; // Bytes already taken from chunks[0]
+  length = 0;
+
+  push(chunk: Uint8Array): void {
+    if (chunk.length === 0) return;
+    this.chunks.push(chunk);
+    this.length += chunk.length;
+  }
+
+  take(length: number): Uint8Array {
+    const result = new Uint8Array(length);
+    let filled = 0;
+    while (filled < length) {
+      const chunk = this.chunks[0];
+      const count = Math.min(length - filled, chunk.length - this.offset);
+      result.set(chunk.subarray(this.offset, this.offset + count), filled);
+      filled += count;
+      this.offset += count;
+      if (this.offset === chunk.length) {
+        this.chunks.shift();
+        this.offset = 0;
+      }
+    }
+    this.length -= length;
+    return result;
+  }
+}
+
+function encodePreamble(
+  chunkSize: number,
+  noncePrefix: Uint8Array,
+  header: BundleHeader,
+  bound: boolean
+): Uint8Array {
+  const headerBytes = Object.keys(header).length > 0 ? new TextEncoder().encode(JSON.stringify(header)) : null;
+  if (headerBytes && headerBytes.length > 0xffff) {
+    throw new Error("Stream header too large");
+  }
+
+  const preamble = new Uint8Array(FIXED_PREAMBLE_SIZE + (headerBytes ? 2 + headerBytes.length : 0));
+  const view = new DataView(preamble.buffer);
+  preamble.set(STREAM_MAGIC);
+  preamble[STREAM_MAGIC.length] = STREAM_FORMAT_VERSION;
+  preamble[STREAM_MAGIC.length + 1] = (headerBytes ? STREAM_FLAG_HEADER : 0) | (bound ? STREAM_FLAG_CONTEXT : 0);
+  view.setUint32(STREAM_MAGIC.length + 2, chunkSize);
+  preamble.set(noncePrefix, FIXED_PREAMBLE_SIZE - NONCE_PREFIX_SIZE);
+  if (headerBytes) {
+    view.setUint16(FIXED_PREAMBLE_SIZE, headerBytes.length);
+    preamble.set(headerBytes, FIXED_PREAMBLE_SIZE + 2);
+  }
+  return preamble;
+}
+
+/**
+ * Nonce of a chunk: prefix (7) | counter (uint32 BE) | 1 for the final chunk, else 0
+ */
+function chunkNonce(noncePrefix: Uint8Array, counter: number, isLast: boolean): Uint8Array<ArrayBuffer> {
+  const nonce = new Uint8Array(NONCE_PREFIX_SIZE + 5);
+  nonce.set(noncePrefix);
+  new DataView(nonce.buffer).setUint32(NONCE_PREFIX_SIZE, counter);
+  nonce[NONCE_PREFIX_SIZE + 4] = isLast ? 1 : 0;
+  return nonce;
+}
+
+function concatBytes(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+async function importKey(key: Uint8Array, usage: KeyUsage): Promise<CryptoKey> {
+  const keyData = toBufferSource(key);
+  return await getCrypto().subtle.importKey("raw", keyData, { name: "AES-GCM", length: 256 }, false, [usage]);
+}
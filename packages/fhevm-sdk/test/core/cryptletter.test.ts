@@ -6,6 +6,9 @@ import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { ethers } from "ethers";
 import {
   CryptletterCore,
+  decodeCompVoucher,
+  encodeCompVoucher,
+  hashPromoCode,
   type CryptletterConfig,
   type PublishOptions,
 } from "../../src/core/cryptletter";
@@ -33,6 +36,7 @@ describe("CryptletterCore", () => {
   const CONTRACT_ADDRESS = "0x" + "1".repeat(40);
   const USER_ADDRESS = "0x" + "2".repeat(40);
   const CREATOR_ADDRESS = "0x" + "3".repeat(40);
+  const TOKEN_ADDRESS = "0x" + "4".repeat(40);
 
   beforeEach(() => {
     // Setup mock provider
@@ -43,6 +47,9 @@ describe("CryptletterCore", () => {
     // Setup mock signer
     mockSigner = {
       getAddress: vi.fn().mockResolvedValue(USER_ADDRESS),
+      signTypedData: vi.fn().mockResolvedValue(
+        ethers.Signature.from({ r: "0x" + "a".repeat(64), s: "0x" + "1".repeat(64), v: 27 }).serialized
+      ),
       provider: mockProvider,
     } as any;
 
@@ -59,6 +66,19 @@ describe("CryptletterCore", () => {
           ],
         }),
       }),
+      updateNewsletter: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({
+          hash: "0xupdatetx",
+          logs: [{ topics: [], data: "0x" }],
+        }),
+      }),
+      getNewsletterVersions: vi.fn().mockResolvedValue([
+        { contentCID: "QmOriginal", updatedAt: 1000n },
+        { contentCID: "QmTestCID", updatedAt: 2000n },
+      ]),
+      unpublishNewsletter: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xunpublishtx" }),
+      }),
       getDecryptionKey: vi.fn().mockResolvedValue("0xencryptedkey"),
       grantDecryptionPermission: vi.fn().mockResolvedValue({
         wait: vi.fn().mockResolvedValue({ hash: "0xpermissiontx" }),
@@ -92,10 +112,43 @@ describe("CryptletterCore", () => {
         creator: CREATOR_ADDRESS,
         publishedAt: BigInt(Date.now()),
         isPublic: false,
+        price: 2000000000000000n,
+      }),
+      postPurchases: vi.fn().mockResolvedValue(false),
+      grantComplimentaryAccess: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xcomptx" }),
+      }),
+      redeemCompVoucher: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xredeemtx" }),
+      }),
+      revokeVoucher: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xrevoketx" }),
+      }),
+      voucherNonceUsed: vi.fn().mockResolvedValue(false),
+      createPromoCode: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xpromotx" }),
+      }),
+      disablePromoCode: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xdisablepromotx" }),
+      }),
+      promoCodes: vi.fn().mockResolvedValue([2000n, 0n, 10n, 3n, 0n, true]),
+      quoteSubscriptionWithCode: vi.fn().mockResolvedValue(7680000000000000000n),
+      purchasePost: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xpurchasetx" }),
       }),
       postCounter: vi.fn().mockResolvedValue(10n),
+      getCreatorPosts: vi.fn().mockResolvedValue([]),
+      getCreatorPostCount: vi.fn().mockResolvedValue(3n),
+      getNewsletters: vi.fn().mockResolvedValue([]),
       getCreators: vi.fn().mockResolvedValue([CREATOR_ADDRESS]),
       getCreatorCount: vi.fn().mockResolvedValue(BigInt(1)),
+      activeCreatorCount: vi.fn().mockResolvedValue(BigInt(1)),
+      deactivateCreator: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xdeactivatetx" }),
+      }),
+      reactivateCreator: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xreactivatetx" }),
+      }),
       registerCreator: vi.fn().mockResolvedValue({
         wait: vi.fn().mockResolvedValue({ hash: "0xregistertx" }),
       }),
@@ -105,6 +158,91 @@ describe("CryptletterCore", () => {
       updateMonthlyPrice: vi.fn().mockResolvedValue({
         wait: vi.fn().mockResolvedValue({ hash: "0xupdatepricetx" }),
       }),
+      getTiers: vi.fn().mockResolvedValue([
+        {
+          name: "Standard",
+          price: 1000000000000000000n,
+          duration: 2592000n,
+          rank: 0n,
+          isActive: true,
+        },
+        {
+          name: "Pro",
+          price: 5000000000000000000n,
+          duration: 2592000n,
+          rank: 2n,
+          isActive: true,
+        },
+      ]),
+      createTier: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xcreatetiertx" }),
+      }),
+      updateTier: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xupdatetiertx" }),
+      }),
+      quoteSubscription: vi.fn().mockResolvedValue(9600000000000000000n),
+      periodDiscounts: vi.fn().mockImplementation((_creator: string, periods: number) =>
+        Promise.resolve(periods === 12 ? 2000n : 0n)
+      ),
+      setPeriodDiscount: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xdiscounttx" }),
+      }),
+      creditOverpayment: vi.fn().mockResolvedValue(true),
+      getCreatorEarnings: vi
+        .fn()
+        .mockResolvedValue([3000000000000000000n, 5000000000000000000n, 2000000000000000000n]),
+      withdraw: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xwithdrawtx" }),
+      }),
+      withdrawTo: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xwithdrawtotx" }),
+      }),
+      withdrawToken: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xwithdrawtokentx" }),
+      }),
+      subscribeWithPermit: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xpermittx" }),
+      }),
+      setOverpaymentPreference: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xoverpaymenttx" }),
+      }),
+      giftSubscription: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xgifttx" }),
+      }),
+      giftSubscriptionWithNote: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xgiftnotetx" }),
+      }),
+      autoRenew: vi.fn().mockResolvedValue(true),
+      renewalEscrow: vi.fn().mockResolvedValue(2500000000000000000n),
+      setAutoRenew: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xautorenewtx" }),
+      }),
+      fundRenewalEscrow: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xfundescrowtx" }),
+      }),
+      withdrawRenewalEscrow: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xwithdrawescrowtx" }),
+      }),
+      processRenewals: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xrenewalstx" }),
+      }),
+      trialDurations: vi.fn().mockResolvedValue(604800n),
+      trialUsed: vi.fn().mockResolvedValue(false),
+      setTrialDuration: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xtrialdurationtx" }),
+      }),
+      startTrial: vi.fn().mockResolvedValue({
+        wait: vi.fn().mockResolvedValue({ hash: "0xtrialtx" }),
+      }),
+      filters: {
+        SubscriptionGifted: vi.fn().mockReturnValue("gift-filter"),
+        Subscribed: vi.fn().mockReturnValue("subscribed-filter"),
+        TrialStarted: vi.fn().mockReturnValue("trial-filter"),
+        ComplimentaryAccessGranted: vi.fn().mockReturnValue("comp-filter"),
+      },
+      queryFilter: vi.fn().mockResolvedValue([]),
+      getCreatorSubscribers: vi.fn().mockResolvedValue([[], []]),
+      getCreatorSubscriberCount: vi.fn().mockResolvedValue(0n),
       interface: {
         parseLog: vi.fn().mockReturnValue({
           name: "NewsletterPublished",
@@ -149,7 +287,7 @@ describe("CryptletterCore", () => {
       authTag: new Uint8Array([7, 8, 9]),
       version: "1.0.0",
     });
-    vi.mocked(encryption.serializeBundle).mockReturnValue("serialized-data");
+    vi.mocked(encryption.serializeBundle).mockReturnValue(new Uint8Array([0x43, 0x4c, 0x54, 0x52, 2]));
     vi.mocked(encryption.aesKeyToFHEInput).mockReturnValue(
       "0x" + "1".repeat(64)
     );
@@ -236,6 +374,12 @@ describe("CryptletterCore", () => {
       isPublic: false,
     };
 
+    beforeEach(() => {
+      // The creator has 3 posts; the new one (post 1) lands at index 3 as expected
+      mockContract.getCreatorPostCount.mockResolvedValueOnce(3n).mockResolvedValue(4n);
+      mockContract.getCreatorPosts.mockResolvedValue([1n]);
+    });
+
     it("should throw error if signer is not configured", async () => {
       const coreWithoutSigner = new CryptletterCore({
         ...config,
@@ -261,18 +405,146 @@ describe("CryptletterCore", () => {
       expect(result.transactionHash).toBe("0xtxhash");
 
       expect(encryption.generateAESKey).toHaveBeenCalled();
-      expect(encryption.encryptContent).toHaveBeenCalled();
-      expect(mockIPFSClient.uploadToIPFS).toHaveBeenCalled();
+      expect(encryption.encryptContent).toHaveBeenCalledWith(
+        expect.objectContaining({ title: publishOptions.title }),
+        expect.any(Uint8Array),
+        {
+          compression: "gzip",
+          context: { chainId: 1, contract: CONTRACT_ADDRESS, creator: USER_ADDRESS, postNonce: 3 },
+        }
+      );
+      expect(mockIPFSClient.uploadToIPFS).toHaveBeenCalledWith(
+        new Uint8Array([0x43, 0x4c, 0x54, 0x52, 2]),
+        expect.objectContaining({ keyValues: expect.objectContaining({ type: "cryptletter-newsletter" }) })
+      );
       expect(mockContract.publishNewsletter).toHaveBeenCalledWith(
         "QmTestCID123",
         expect.any(Uint8Array),
         expect.any(Uint8Array),
         "Test Newsletter",
         expect.stringContaining("[Image]"), // Preview should have image replaced
-        false
+        false,
+        0,
+        0n,
+        0n
+      );
+    });
+
+    it("should check the index the post got and keep content bound to it", async () => {
+      await core.publishEncryptedNewsletter(publishOptions, mockFhevmInstance as FhevmInstance);
+
+      expect(mockContract.getCreatorPosts).toHaveBeenCalledWith(USER_ADDRESS, 0, 1);
+      expect(encryption.encryptContent).toHaveBeenCalledTimes(1);
+      expect(mockContract.updateNewsletter).not.toHaveBeenCalled();
+    });
+
+    it("should re-encrypt and update the post when another publish took its index", async () => {
+      // Another post landed first: post 1 is now the newest of 5, at index 4
+      mockContract.getCreatorPostCount.mockReset().mockResolvedValueOnce(3n).mockResolvedValue(5n);
+      mockContract.getCreatorPosts.mockResolvedValueOnce([9n]).mockResolvedValueOnce([1n, 9n, 2n, 1n, 0n]);
+      mockIPFSClient.uploadToIPFS
+        .mockResolvedValueOnce({ cid: "QmStale", url: "https://ipfs.io/ipfs/QmStale", size: 1024 })
+        .mockResolvedValueOnce({ cid: "QmRebound", url: "https://ipfs.io/ipfs/QmRebound", size: 1024 });
+
+      const result = await core.publishEncryptedNewsletter(publishOptions, mockFhevmInstance as FhevmInstance);
+
+      const nonces = vi.mocked(encryption.encryptContent).mock.calls.map(([, , options]) => options?.context?.postNonce);
+      expect(nonces).toEqual([3, 4]);
+      expect(mockContract.updateNewsletter).toHaveBeenCalledWith(
+        1n,
+        "QmRebound",
+        expect.any(Uint8Array),
+        expect.any(Uint8Array),
+        "Test Newsletter",
+        expect.stringContaining("[Image]")
+      );
+      expect(result).toMatchObject({ postId: 1n, contentCID: "QmRebound", transactionHash: "0xtxhash" });
+    });
+
+    it("should skip compression when asked to", async () => {
+      await core.publishEncryptedNewsletter(
+        { ...publishOptions, compression: "none" },
+        mockFhevmInstance as FhevmInstance
+      );
+
+      expect(encryption.encryptContent).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Uint8Array),
+        { compression: undefined, context: expect.any(Object) }
+      );
+    });
+
+    it("should pass the minimum tier rank for premium newsletters", async () => {
+      await core.publishEncryptedNewsletter(
+        { ...publishOptions, minTierRank: 2 },
+        mockFhevmInstance as FhevmInstance
+      );
+
+      expect(mockContract.publishNewsletter).toHaveBeenCalledWith(
+        "QmTestCID123",
+        expect.any(Uint8Array),
+        expect.any(Uint8Array),
+        "Test Newsletter",
+        expect.any(String),
+        false,
+        2,
+        0n,
+        0n
+      );
+    });
+
+    it("should pass the unlock price for pay-per-view newsletters", async () => {
+      await core.publishEncryptedNewsletter(
+        { ...publishOptions, price: 2000000000000000n },
+        mockFhevmInstance as FhevmInstance
+      );
+
+      expect(mockContract.publishNewsletter).toHaveBeenCalledWith(
+        "QmTestCID123",
+        expect.any(Uint8Array),
+        expect.any(Uint8Array),
+        "Test Newsletter",
+        expect.any(String),
+        false,
+        0,
+        2000000000000000n,
+        0n
+      );
+    });
+
+    it("should pass the release time for scheduled newsletters", async () => {
+      const publishAt = new Date("2030-01-07T09:00:00Z");
+
+      await core.publishEncryptedNewsletter(
+        { ...publishOptions, publishAt },
+        mockFhevmInstance as FhevmInstance
+      );
+
+      expect(mockContract.publishNewsletter).toHaveBeenCalledWith(
+        "QmTestCID123",
+        expect.any(Uint8Array),
+        expect.any(Uint8Array),
+        "Test Newsletter",
+        expect.any(String),
+        false,
+        0,
+        0n,
+        BigInt(publishAt.getTime() / 1000)
       );
     });
 
+    it("should refuse to schedule free newsletters", async () => {
+      await expect(
+        core.publishEncryptedNewsletter(
+          { ...publishOptions, isPublic: true, publishAt: new Date("2030-01-07T09:00:00Z") },
+          mockFhevmInstance as FhevmInstance
+        )
+      ).rejects.toThrow("Free newsletters can't be scheduled");
+
+      expect(mockIPFSClient.uploadToIPFS).not.toHaveBeenCalled();
+      expect(mockContract.publishNewsletter).not.toHaveBeenCalled();
+    });
+
     it("should publish public newsletter without encryption", async () => {
       const publicOptions = { ...publishOptions, isPublic: true };
 
@@ -290,7 +562,10 @@ describe("CryptletterCore", () => {
         expect.any(Uint8Array),
         "Test Newsletter",
         expect.any(String),
-        true // isPublic
+        true, // isPublic
+        0,
+        0n,
+        0n
       );
     });
 
@@ -310,7 +585,8 @@ describe("CryptletterCore", () => {
         optionsWithJson.contentJson,
         mockIPFSClient,
         true, // encrypt = true for premium
-        expect.any(Uint8Array) // aesKey
+        expect.any(Uint8Array), // aesKey
+        expect.objectContaining({ postNonce: 3 }) // The creator's next post
       );
     });
 
@@ -340,6 +616,283 @@ describe("CryptletterCore", () => {
     });
   });
 
+  describe("editNewsletter", () => {
+    const editOptions = {
+      title: "Edited Newsletter",
+      content: "<p>Edited <img src='ipfs://QmImage1' /> content</p>",
+      contentJson: { type: "doc", content: [] },
+      author: CREATOR_ADDRESS,
+    };
+    const decryptedKeyHex = "0x" + "2".repeat(64);
+
+    beforeEach(() => {
+      vi.mocked(mockSigner.getAddress).mockResolvedValue(CREATOR_ADDRESS);
+      mockContract.interface.parseLog.mockReturnValue({
+        name: "NewsletterUpdated",
+        args: { postId: 1n, version: 2n },
+      });
+    });
+
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.editNewsletter(
+          1,
+          editOptions,
+          mockFhevmInstance as FhevmInstance,
+          decryptedKeyHex
+        )
+      ).rejects.toThrow("Signer required to edit newsletter");
+    });
+
+    it("should re-encrypt with the existing key and update the post", async () => {
+      mockContract.getCreatorPosts.mockResolvedValueOnce([5n, 1n, 0n]);
+
+      const result = await core.editNewsletter(
+        1,
+        editOptions,
+        mockFhevmInstance as FhevmInstance,
+        decryptedKeyHex
+      );
+
+      expect(result).toEqual({
+        postId: 1,
+        contentCID: "QmTestCID123",
+        version: 2,
+        transactionHash: "0xupdatetx",
+      });
+      expect(encryption.generateAESKey).not.toHaveBeenCalled();
+      expect(encryption.fheOutputToAESKey).toHaveBeenCalledWith(decryptedKeyHex);
+      const context = { chainId: 1, contract: CONTRACT_ADDRESS, creator: CREATOR_ADDRESS, postNonce: 1 };
+      expect(imageProcessor.processNewsletterImages).toHaveBeenCalledWith(
+        editOptions.content,
+        editOptions.contentJson,
+        mockIPFSClient,
+        true,
+        new Uint8Array(32).fill(2),
+        context
+      );
+      expect(encryption.encryptContent).toHaveBeenCalledWith(
+        expect.objectContaining({ title: "Edited Newsletter" }),
+        new Uint8Array(32).fill(2),
+        { compression: "gzip", context }
+      );
+      expect(mockContract.updateNewsletter).toHaveBeenCalledWith(
+        1,
+        "QmTestCID123",
+        expect.any(Uint8Array),
+        expect.any(Uint8Array),
+        "Edited Newsletter",
+        "Edited [Image] content"
+      );
+    });
+
+    it("should fail when the post isn't in the creator's list", async () => {
+      mockContract.getCreatorPosts.mockResolvedValueOnce([5n, 4n, 0n]);
+
+      await expect(
+        core.editNewsletter(1, editOptions, mockFhevmInstance as FhevmInstance, decryptedKeyHex)
+      ).rejects.toThrow("Post 1 not found in the creator's posts");
+      expect(mockContract.updateNewsletter).not.toHaveBeenCalled();
+    });
+
+    it("should require the current key for premium posts", async () => {
+      await expect(
+        core.editNewsletter(1, editOptions, mockFhevmInstance as FhevmInstance)
+      ).rejects.toThrow("Decrypted AES key required to edit a premium newsletter");
+      expect(mockContract.updateNewsletter).not.toHaveBeenCalled();
+    });
+
+    it("should re-upload public posts as plain JSON", async () => {
+      mockContract.getNewsletter.mockResolvedValueOnce({
+        creator: CREATOR_ADDRESS,
+        isPublic: true,
+      });
+
+      await core.editNewsletter(1, editOptions, mockFhevmInstance as FhevmInstance);
+
+      expect(encryption.encryptContent).not.toHaveBeenCalled();
+      const uploaded = mockIPFSClient.uploadToIPFS.mock.calls[0][0];
+      const newsletter = JSON.parse(new TextDecoder().decode(uploaded));
+      expect(newsletter.title).toBe("Edited Newsletter");
+      expect(newsletter.metadata.contentJson).toEqual({ type: "doc", content: [] });
+      expect(mockContract.updateNewsletter).toHaveBeenCalled();
+    });
+
+    it("should reject edits from anyone but the creator", async () => {
+      vi.mocked(mockSigner.getAddress).mockResolvedValue(USER_ADDRESS);
+
+      await expect(
+        core.editNewsletter(
+          1,
+          editOptions,
+          mockFhevmInstance as FhevmInstance,
+          decryptedKeyHex
+        )
+      ).rejects.toThrow("Only the post creator can edit this newsletter");
+    });
+  });
+
+  describe("rotateNewsletterKey", () => {
+    const decryptedKeyHex = "0x" + "2".repeat(64);
+    const contentJson = {
+      type: "doc",
+      content: [
+        {
+          type: "image",
+          attrs: { src: "https://ipfs.io/ipfs/QmImage1", "data-ipfs-cid": "QmImage1", "data-encrypted": "true" },
+        },
+        {
+          type: "image",
+          attrs: { src: "https://ipfs.io/ipfs/QmImage2", "data-ipfs-cid": "QmImage2", "data-encrypted": "true" },
+        },
+      ],
+    };
+
+    beforeEach(() => {
+      vi.mocked(mockSigner.getAddress).mockResolvedValue(CREATOR_ADDRESS);
+      mockContract.getCreatorPosts.mockResolvedValue([5n, 1n, 0n]);
+      mockContract.interface.parseLog.mockReturnValue({
+        name: "NewsletterUpdated",
+        args: { postId: 1n, version: 3n },
+      });
+      vi.mocked(encryption.generateAESKey).mockReturnValue(new Uint8Array(32).fill(9));
+      vi.mocked(encryption.decryptContent).mockResolvedValue({
+        title: "Decrypted Newsletter",
+        content: '<img src="https://ipfs.io/ipfs/QmImage1" data-ipfs-cid="QmImage1" data-encrypted="true">',
+        author: CREATOR_ADDRESS,
+        timestamp: 1000,
+        images: ["QmImage1"],
+        metadata: { contentJson },
+      });
+      vi.mocked(imageProcessor.extractEncryptedImageCidsFromJson).mockReturnValue(["QmImage1", "QmImage2"]);
+      vi.mocked(imageProcessor.reencryptImages).mockResolvedValue(
+        new Map([
+          ["QmImage1", "QmRotated1"],
+          ["QmImage2", "QmRotated2"],
+        ])
+      );
+    });
+
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.rotateNewsletterKey(1, mockFhevmInstance as FhevmInstance, decryptedKeyHex)
+      ).rejects.toThrow("Signer required to rotate newsletter key");
+    });
+
+    it("should re-encrypt content and images under a new key", async () => {
+      const result = await core.rotateNewsletterKey(1, mockFhevmInstance as FhevmInstance, decryptedKeyHex);
+
+      expect(result).toEqual({
+        postId: 1,
+        contentCID: "QmTestCID123",
+        version: 3,
+        imageCids: ["QmRotated1", "QmRotated2"],
+        transactionHash: "0xupdatetx",
+      });
+      const context = { chainId: 1, contract: CONTRACT_ADDRESS, creator: CREATOR_ADDRESS, postNonce: 1 };
+      expect(imageProcessor.extractEncryptedImageCidsFromJson).toHaveBeenCalledWith(contentJson);
+      expect(imageProcessor.reencryptImages).toHaveBeenCalledWith(
+        ["QmImage1", "QmImage2"],
+        mockIPFSClient,
+        new Uint8Array(32).fill(2),
+        new Uint8Array(32).fill(9),
+        context
+      );
+
+      const [rotated, key, options] = vi.mocked(encryption.encryptContent).mock.calls[0];
+      expect(key).toEqual(new Uint8Array(32).fill(9));
+      expect(options).toEqual({ compression: "gzip", context });
+      expect(rotated.content).toBe(
+        '<img src="https://ipfs.io/ipfs/QmRotated1" data-ipfs-cid="QmRotated1" data-encrypted="true">'
+      );
+      expect(rotated.images).toEqual(["QmRotated1", "QmRotated2"]);
+      expect(rotated.timestamp).toBe(1000);
+      expect(rotated.metadata!.contentJson.content[1].attrs).toEqual({
+        src: "https://ipfs.io/ipfs/QmRotated2",
+        "data-ipfs-cid": "QmRotated2",
+        "data-encrypted": "true",
+      });
+
+      expect(encryption.aesKeyToFHEInput).toHaveBeenCalledWith(new Uint8Array(32).fill(9));
+      expect(mockContract.updateNewsletter).toHaveBeenCalledWith(
+        1,
+        "QmTestCID123",
+        expect.any(Uint8Array),
+        expect.any(Uint8Array),
+        "Test Newsletter",
+        "Test preview"
+      );
+    });
+
+    it("should reject rotations from anyone but the creator", async () => {
+      vi.mocked(mockSigner.getAddress).mockResolvedValue(USER_ADDRESS);
+
+      await expect(
+        core.rotateNewsletterKey(1, mockFhevmInstance as FhevmInstance, decryptedKeyHex)
+      ).rejects.toThrow("Only the post creator can rotate this newsletter's key");
+      expect(mockContract.updateNewsletter).not.toHaveBeenCalled();
+    });
+
+    it("should reject free posts", async () => {
+      mockContract.getNewsletter.mockResolvedValueOnce({ creator: CREATOR_ADDRESS, isPublic: true });
+
+      await expect(
+        core.rotateNewsletterKey(1, mockFhevmInstance as FhevmInstance, decryptedKeyHex)
+      ).rejects.toThrow("Free newsletters have no key to rotate");
+    });
+
+    it("should not update the post when an image fails to re-encrypt", async () => {
+      vi.mocked(imageProcessor.reencryptImages).mockRejectedValueOnce(
+        new Error("Image re-encryption failed for QmImage1")
+      );
+
+      await expect(
+        core.rotateNewsletterKey(1, mockFhevmInstance as FhevmInstance, decryptedKeyHex)
+      ).rejects.toThrow("Image re-encryption failed for QmImage1");
+      expect(mockIPFSClient.uploadToIPFS).not.toHaveBeenCalled();
+      expect(mockContract.updateNewsletter).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getNewsletterVersions", () => {
+    it("should number revisions oldest first", async () => {
+      const versions = await core.getNewsletterVersions(1);
+
+      expect(mockContract.getNewsletterVersions).toHaveBeenCalledWith(1);
+      expect(versions).toEqual([
+        { version: 0, contentCID: "QmOriginal", updatedAt: 1000n },
+        { version: 1, contentCID: "QmTestCID", updatedAt: 2000n },
+      ]);
+    });
+  });
+
+  describe("unpublishNewsletter", () => {
+    it("should unpublish a post", async () => {
+      const txHash = await core.unpublishNewsletter(1);
+
+      expect(txHash).toBe("0xunpublishtx");
+      expect(mockContract.unpublishNewsletter).toHaveBeenCalledWith(1);
+    });
+
+    it("should require a signer", async () => {
+      const coreWithoutSigner = new CryptletterCore({ ...config, signer: undefined });
+
+      await expect(coreWithoutSigner.unpublishNewsletter(1)).rejects.toThrow(
+        "Signer required to unpublish newsletter"
+      );
+    });
+  });
+
   describe("getEncryptedKey", () => {
     it("should throw error if signer is not configured", async () => {
       const coreWithoutSigner = new CryptletterCore({
@@ -373,6 +926,11 @@ describe("CryptletterCore", () => {
   });
 
   describe("decryptNewsletterContent", () => {
+    beforeEach(() => {
+      // Post 1 is the creator's second post
+      mockContract.getCreatorPosts.mockResolvedValue([2n, 1n, 0n]);
+    });
+
     it("should decrypt newsletter content successfully", async () => {
       // decryptNewsletterContent now takes (postId, decryptedAESKey) instead of fhevmInstance
       const decryptedKeyHex = "0x" + "2".repeat(64);
@@ -394,11 +952,68 @@ describe("CryptletterCore", () => {
 
       await core.decryptNewsletterContent(1, decryptedKeyHex);
 
-      // Verify the flow: download -> decode -> deserialize -> decrypt
+      // Verify the flow: download -> deserialize -> decrypt
       expect(mockIPFSClient.downloadFromIPFS).toHaveBeenCalledWith("QmTestCID");
-      expect(encryption.deserializeBundle).toHaveBeenCalled();
+      expect(encryption.deserializeBundle).toHaveBeenCalledWith(
+        await mockIPFSClient.downloadFromIPFS.mock.results[0].value
+      );
       expect(encryption.decryptContent).toHaveBeenCalled();
     });
+
+    it("should return the post's on-chain context, even for bundles from before AAD binding", async () => {
+      const result = await core.decryptNewsletterContent(1, "0x" + "2".repeat(64));
+
+      const context = { chainId: 1, contract: CONTRACT_ADDRESS, creator: CREATOR_ADDRESS, postNonce: 1 };
+      expect(result.context).toEqual(context);
+      expect(encryption.decryptContent).toHaveBeenCalledWith(expect.anything(), expect.any(Uint8Array), {
+        context,
+      });
+      expect(vi.mocked(encryption.decryptContent).mock.calls[0][2]?.allowUnbound).toBeUndefined();
+    });
+
+    it("should only accept unbound bundles when asked to", async () => {
+      await core.decryptNewsletterContent(1, "0x" + "2".repeat(64), { allowUnbound: true });
+
+      expect(encryption.decryptContent).toHaveBeenCalledWith(expect.anything(), expect.any(Uint8Array), {
+        context: expect.objectContaining({ postNonce: 1 }),
+        allowUnbound: true,
+      });
+    });
+
+    it("should check a bound bundle's post nonce against the creator's posts", async () => {
+      vi.mocked(encryption.getBundleContext).mockReturnValueOnce({
+        chainId: 1,
+        contract: CONTRACT_ADDRESS,
+        creator: CREATOR_ADDRESS,
+        postNonce: 2,
+      });
+      mockContract.getCreatorPosts.mockResolvedValueOnce([1n]);
+
+      await core.decryptNewsletterContent(1, "0x" + "2".repeat(64));
+
+      // 3 posts, newest first: index 2 is at offset 0
+      expect(mockContract.getCreatorPosts).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 1);
+      expect(encryption.decryptContent).toHaveBeenCalledWith(expect.anything(), expect.any(Uint8Array), {
+        context: { chainId: 1, contract: CONTRACT_ADDRESS, creator: CREATOR_ADDRESS, postNonce: 2 },
+      });
+    });
+
+    it("should expect the post's real nonce when the bundle claims another", async () => {
+      vi.mocked(encryption.getBundleContext).mockReturnValueOnce({
+        chainId: 1,
+        contract: CONTRACT_ADDRESS,
+        creator: CREATOR_ADDRESS,
+        postNonce: 2,
+      });
+      mockContract.getCreatorPosts.mockResolvedValueOnce([7n]).mockResolvedValueOnce([7n, 1n, 0n]);
+
+      await core.decryptNewsletterContent(1, "0x" + "2".repeat(64));
+
+      // decryptContent rejects the bundle, since its recorded context doesn't match
+      expect(encryption.decryptContent).toHaveBeenCalledWith(expect.anything(), expect.any(Uint8Array), {
+        context: expect.objectContaining({ postNonce: 1 }),
+      });
+    });
   });
 
   describe("subscribeToCreator", () => {
@@ -420,26 +1035,710 @@ describe("CryptletterCore", () => {
       );
 
       expect(txHash).toBe("0xsubscribetx");
-      expect(mockContract.subscribe).toHaveBeenCalledWith(CREATOR_ADDRESS, {
+      expect(mockContract.subscribe).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 1, "", {
         value: 1000000000000000000n,
       });
     });
-  });
 
-  describe("renewSubscription", () => {
-    it("should throw error if signer is not configured", async () => {
-      const coreWithoutSigner = new CryptletterCore({
-        ...config,
-        signer: undefined,
+    it("should subscribe to a specific tier", async () => {
+      await core.subscribeToCreator(CREATOR_ADDRESS, 5000000000000000000n, 1);
+
+      expect(mockContract.subscribe).toHaveBeenCalledWith(CREATOR_ADDRESS, 1, 1, "", {
+        value: 5000000000000000000n,
       });
+    });
 
-      await expect(
-        coreWithoutSigner.renewSubscription(CREATOR_ADDRESS, 1000000n)
-      ).rejects.toThrow("Signer required to renew subscription");
+    it("should subscribe for several periods at once", async () => {
+      await core.subscribeToCreator(CREATOR_ADDRESS, 9600000000000000000n, 0, 12);
+
+      expect(mockContract.subscribe).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 12, "", {
+        value: 9600000000000000000n,
+      });
     });
 
-    it("should renew subscription successfully", async () => {
-      const txHash = await core.renewSubscription(
+    it("should pass a normalized promo code", async () => {
+      await core.subscribeToCreator(CREATOR_ADDRESS, 7680000000000000000n, 0, 12, " launch20 ");
+
+      expect(mockContract.subscribe).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 12, "LAUNCH20", {
+        value: 7680000000000000000n,
+      });
+    });
+  });
+
+  describe("token-priced subscriptions", () => {
+    let mockToken: any;
+
+    beforeEach(() => {
+      mockContract.getCreator.mockResolvedValue({
+        name: "Test Creator",
+        bio: "Test bio",
+        monthlyPrice: 5000000n,
+        subscriberCount: 5n,
+        isActive: true,
+        paymentToken: TOKEN_ADDRESS,
+      });
+      mockToken = {
+        symbol: vi.fn().mockResolvedValue("USDC"),
+        decimals: vi.fn().mockResolvedValue(6n),
+        name: vi.fn().mockResolvedValue("USD Coin"),
+        nonces: vi.fn().mockResolvedValue(0n),
+        allowance: vi.fn().mockResolvedValue(0n),
+        approve: vi.fn().mockResolvedValue({
+          wait: vi.fn().mockResolvedValue({ hash: "0xapprovetx" }),
+        }),
+      };
+      vi.spyOn(core as any, "erc20").mockReturnValue(mockToken);
+    });
+
+    it("should describe the creator's payment token", async () => {
+      const token = await core.getPaymentToken(CREATOR_ADDRESS);
+
+      expect(token).toEqual({
+        address: TOKEN_ADDRESS,
+        symbol: "USDC",
+        decimals: 6,
+        isNative: false,
+      });
+    });
+
+    it("should describe ETH for natively priced creators", async () => {
+      mockContract.getCreator.mockResolvedValueOnce({ paymentToken: ethers.ZeroAddress });
+
+      const token = await core.getPaymentToken(CREATOR_ADDRESS);
+
+      expect(token).toEqual({
+        address: ethers.ZeroAddress,
+        symbol: "ETH",
+        decimals: 18,
+        isNative: true,
+      });
+    });
+
+    it("should approve the price before subscribing", async () => {
+      const txHash = await core.subscribeToCreator(CREATOR_ADDRESS, 5000000n);
+
+      expect(txHash).toBe("0xsubscribetx");
+      expect(mockToken.approve).toHaveBeenCalledWith(CONTRACT_ADDRESS, 5000000n);
+      expect(mockContract.subscribe).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 1, "");
+    });
+
+    it("should skip approval when the allowance covers the price", async () => {
+      mockToken.allowance.mockResolvedValueOnce(10000000n);
+
+      await core.renewSubscription(CREATOR_ADDRESS, 5000000n);
+
+      expect(mockToken.approve).not.toHaveBeenCalled();
+      expect(mockContract.renewSubscription).toHaveBeenCalledWith(CREATOR_ADDRESS);
+    });
+
+    it("should approve the deposit before funding the renewal escrow", async () => {
+      await core.fundRenewalEscrow(CREATOR_ADDRESS, 15000000n);
+
+      expect(mockToken.approve).toHaveBeenCalledWith(CONTRACT_ADDRESS, 15000000n);
+      expect(mockContract.fundRenewalEscrow).toHaveBeenCalledWith(CREATOR_ADDRESS, 15000000n);
+    });
+
+    it("should approve the price before buying a post", async () => {
+      await core.purchasePost(1);
+
+      expect(mockToken.approve).toHaveBeenCalledWith(CONTRACT_ADDRESS, 2000000000000000n);
+      expect(mockContract.purchasePost).toHaveBeenCalledWith(1);
+    });
+
+    it("should subscribe with a permit signature", async () => {
+      const txHash = await core.subscribeWithPermit(CREATOR_ADDRESS, 0, 12);
+
+      expect(txHash).toBe("0xpermittx");
+      expect(mockSigner.signTypedData).toHaveBeenCalledWith(
+        { name: "USD Coin", version: "1", chainId: 1n, verifyingContract: TOKEN_ADDRESS },
+        expect.any(Object),
+        expect.objectContaining({
+          owner: USER_ADDRESS,
+          spender: CONTRACT_ADDRESS,
+          value: 9600000000000000000n,
+          nonce: 0n,
+        })
+      );
+      expect(mockContract.subscribeWithPermit).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        0,
+        12,
+        "",
+        expect.any(BigInt),
+        27,
+        "0x" + "a".repeat(64),
+        "0x" + "1".repeat(64)
+      );
+    });
+
+    it("should sign a permit for the discounted price with a promo code", async () => {
+      await core.subscribeWithPermit(CREATOR_ADDRESS, 0, 12, 3600, "launch20");
+
+      expect(mockContract.quoteSubscriptionWithCode).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        0,
+        12,
+        "LAUNCH20"
+      );
+      expect(mockSigner.signTypedData).toHaveBeenCalledWith(
+        expect.any(Object),
+        expect.any(Object),
+        expect.objectContaining({ value: 7680000000000000000n })
+      );
+      expect(mockContract.subscribeWithPermit).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        0,
+        12,
+        "LAUNCH20",
+        expect.any(BigInt),
+        27,
+        "0x" + "a".repeat(64),
+        "0x" + "1".repeat(64)
+      );
+    });
+
+    it("should reject permit subscriptions to ETH-priced creators", async () => {
+      mockContract.getCreator.mockResolvedValueOnce({ paymentToken: ethers.ZeroAddress });
+
+      await expect(core.subscribeWithPermit(CREATOR_ADDRESS)).rejects.toThrow(
+        "Creator is not priced in an ERC-20 token"
+      );
+    });
+  });
+
+  describe("giftSubscription", () => {
+    const RECIPIENT_ADDRESS = "0x" + "5".repeat(40);
+
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.giftSubscription(CREATOR_ADDRESS, RECIPIENT_ADDRESS, 1000000n)
+      ).rejects.toThrow("Signer required to gift a subscription");
+    });
+
+    it("should gift a subscription paid in ETH", async () => {
+      const txHash = await core.giftSubscription(
+        CREATOR_ADDRESS,
+        RECIPIENT_ADDRESS,
+        3000000000000000000n,
+        3
+      );
+
+      expect(txHash).toBe("0xgifttx");
+      expect(mockContract.giftSubscription).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        RECIPIENT_ADDRESS,
+        3,
+        { value: 3000000000000000000n }
+      );
+      expect(mockContract.giftSubscriptionWithNote).not.toHaveBeenCalled();
+    });
+
+    it("should encrypt an attached note and its key", async () => {
+      const txHash = await core.giftSubscription(
+        CREATOR_ADDRESS,
+        RECIPIENT_ADDRESS,
+        1000000000000000000n,
+        1,
+        "Enjoy the newsletter!",
+        mockFhevmInstance as FhevmInstance
+      );
+
+      expect(txHash).toBe("0xgiftnotetx");
+      expect(encryption.encryptContent).toHaveBeenCalledWith(
+        expect.objectContaining({ content: "Enjoy the newsletter!", author: USER_ADDRESS }),
+        expect.any(Uint8Array)
+      );
+      expect(coreEncryption.encryptValue).toHaveBeenCalledWith(
+        mockFhevmInstance,
+        CONTRACT_ADDRESS,
+        USER_ADDRESS,
+        "0x" + "1".repeat(64),
+        "euint256"
+      );
+      expect(mockContract.giftSubscriptionWithNote).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        RECIPIENT_ADDRESS,
+        1,
+        new Uint8Array([0x43, 0x4c, 0x54, 0x52, 2]),
+        new Uint8Array([10, 11, 12]),
+        new Uint8Array([13, 14, 15]),
+        { value: 1000000000000000000n }
+      );
+    });
+
+    it("should require an FHEVM instance for notes", async () => {
+      await expect(
+        core.giftSubscription(CREATOR_ADDRESS, RECIPIENT_ADDRESS, 1000000n, 1, "Hi")
+      ).rejects.toThrow("FHEVM instance required to encrypt a gift note");
+    });
+
+    it("should list gifts received by an address", async () => {
+      mockContract.queryFilter.mockResolvedValueOnce([
+        {
+          args: {
+            gifter: USER_ADDRESS,
+            recipient: RECIPIENT_ADDRESS,
+            creator: CREATOR_ADDRESS,
+            expiresAt: 1700000000n,
+            periods: 3n,
+            encryptedNote: "0x",
+            noteKey: ethers.ZeroHash,
+          },
+          transactionHash: "0xgifttx",
+          blockNumber: 12,
+        },
+        {
+          args: {
+            gifter: USER_ADDRESS,
+            recipient: RECIPIENT_ADDRESS,
+            creator: CREATOR_ADDRESS,
+            expiresAt: 1800000000n,
+            periods: 1n,
+            encryptedNote: "0x434c545202",
+            noteKey: "0x" + "ab".repeat(32),
+          },
+          transactionHash: "0xgiftnotetx",
+          blockNumber: 15,
+        },
+      ]);
+
+      const gifts = await core.getReceivedGifts(RECIPIENT_ADDRESS);
+
+      expect(mockContract.filters.SubscriptionGifted).toHaveBeenCalledWith(null, RECIPIENT_ADDRESS);
+      expect(mockContract.queryFilter).toHaveBeenCalledWith("gift-filter");
+      expect(gifts).toHaveLength(2);
+      expect(gifts[0]).toMatchObject({ periods: 3, encryptedNote: null, noteKey: null, blockNumber: 12 });
+      expect(gifts[1]).toMatchObject({ encryptedNote: "0x434c545202", noteKey: "0x" + "ab".repeat(32) });
+    });
+
+    it("should decrypt a gift note", async () => {
+      vi.mocked(encryption.decryptContent).mockResolvedValueOnce({
+        title: "Gift note",
+        content: "Enjoy the newsletter!",
+        author: USER_ADDRESS,
+        timestamp: Date.now(),
+      });
+
+      const note = await core.decryptGiftNote(
+        {
+          gifter: USER_ADDRESS,
+          recipient: "0x" + "5".repeat(40),
+          creator: CREATOR_ADDRESS,
+          expiresAt: 1800000000n,
+          periods: 1,
+          encryptedNote: "0x434c545202",
+          noteKey: "0x" + "ab".repeat(32),
+          transactionHash: "0xgiftnotetx",
+          blockNumber: 15,
+        },
+        "0x" + "2".repeat(64)
+      );
+
+      expect(note).toBe("Enjoy the newsletter!");
+      expect(encryption.deserializeBundle).toHaveBeenCalledWith("0x434c545202");
+      expect(encryption.fheOutputToAESKey).toHaveBeenCalledWith("0x" + "2".repeat(64));
+    });
+  });
+
+  describe("free trials", () => {
+    it("should read the creator's trial length", async () => {
+      expect(await core.getTrialDuration(CREATOR_ADDRESS)).toBe(604800);
+      expect(mockContract.trialDurations).toHaveBeenCalledWith(CREATOR_ADDRESS);
+    });
+
+    it("should check whether the trial was used", async () => {
+      expect(await core.hasUsedTrial(USER_ADDRESS, CREATOR_ADDRESS)).toBe(false);
+      expect(mockContract.trialUsed).toHaveBeenCalledWith(USER_ADDRESS, CREATOR_ADDRESS);
+    });
+
+    it("should set the trial length", async () => {
+      const txHash = await core.setTrialDuration(1209600);
+
+      expect(txHash).toBe("0xtrialdurationtx");
+      expect(mockContract.setTrialDuration).toHaveBeenCalledWith(1209600);
+    });
+
+    it("should start a trial", async () => {
+      const txHash = await core.startTrial(CREATOR_ADDRESS);
+
+      expect(txHash).toBe("0xtrialtx");
+      expect(mockContract.startTrial).toHaveBeenCalledWith(CREATOR_ADDRESS);
+    });
+
+    it("should require a signer to start a trial", async () => {
+      const coreWithoutSigner = new CryptletterCore({ ...config, signer: undefined });
+
+      await expect(coreWithoutSigner.startTrial(CREATOR_ADDRESS)).rejects.toThrow(
+        "Signer required to start a trial"
+      );
+    });
+  });
+
+  describe("complimentary access", () => {
+    it("should grant access directly", async () => {
+      const txHash = await core.grantComplimentaryAccess(USER_ADDRESS, 2592000);
+
+      expect(txHash).toBe("0xcomptx");
+      expect(mockContract.grantComplimentaryAccess).toHaveBeenCalledWith(USER_ADDRESS, 2592000);
+    });
+
+    it("should sign a voucher for the contract's EIP-712 domain", async () => {
+      const voucher = await core.createCompVoucher({
+        durationSeconds: 2592000,
+        recipient: CREATOR_ADDRESS,
+        nonce: 7n,
+      });
+
+      expect(voucher).toMatchObject({
+        creator: USER_ADDRESS,
+        recipient: CREATOR_ADDRESS,
+        duration: 2592000,
+        nonce: 7n,
+      });
+      expect(voucher.deadline).toBeGreaterThan(Math.floor(Date.now() / 1000));
+      expect(mockSigner.signTypedData).toHaveBeenCalledWith(
+        { name: "Cryptletter", version: "1", chainId: 1n, verifyingContract: CONTRACT_ADDRESS },
+        expect.objectContaining({ CompVoucher: expect.any(Array) }),
+        expect.objectContaining({ creator: USER_ADDRESS, nonce: 7n })
+      );
+      expect(mockContract.grantComplimentaryAccess).not.toHaveBeenCalled();
+    });
+
+    it("should default to an open voucher with a random nonce", async () => {
+      const first = await core.createCompVoucher({ durationSeconds: 86400 });
+      const second = await core.createCompVoucher({ durationSeconds: 86400 });
+
+      expect(first.recipient).toBe(ethers.ZeroAddress);
+      expect(first.nonce).not.toBe(second.nonce);
+    });
+
+    it("should redeem a voucher with its split signature", async () => {
+      const voucher = await core.createCompVoucher({ durationSeconds: 86400, nonce: 1n });
+
+      const txHash = await core.redeemCompVoucher(voucher);
+
+      expect(txHash).toBe("0xredeemtx");
+      expect(mockContract.redeemCompVoucher).toHaveBeenCalledWith(
+        expect.objectContaining({ creator: USER_ADDRESS, nonce: 1n }),
+        27,
+        "0x" + "a".repeat(64),
+        "0x" + "1".repeat(64)
+      );
+    });
+
+    it("should revoke and look up vouchers", async () => {
+      expect(await core.revokeCompVoucher(3n)).toBe("0xrevoketx");
+      expect(mockContract.revokeVoucher).toHaveBeenCalledWith(3n);
+
+      expect(await core.isVoucherUsed(CREATOR_ADDRESS, 3n)).toBe(false);
+      expect(mockContract.voucherNonceUsed).toHaveBeenCalledWith(CREATOR_ADDRESS, 3n);
+    });
+
+    it("should require a signer to create a voucher", async () => {
+      const coreWithoutSigner = new CryptletterCore({ ...config, signer: undefined });
+
+      await expect(coreWithoutSigner.createCompVoucher({ durationSeconds: 86400 })).rejects.toThrow(
+        "Signer required to create a voucher"
+      );
+    });
+
+    it("should round-trip voucher codes", async () => {
+      const voucher = await core.createCompVoucher({ durationSeconds: 86400, nonce: 2n ** 200n });
+
+      expect(decodeCompVoucher(encodeCompVoucher(voucher))).toEqual(voucher);
+      expect(() => decodeCompVoucher("not a voucher")).toThrow("Invalid voucher code");
+    });
+  });
+
+  describe("promo codes", () => {
+    const CODE_HASH = ethers.keccak256(ethers.toUtf8Bytes("LAUNCH20"));
+
+    it("should hash codes case-insensitively", () => {
+      expect(hashPromoCode(" Launch20 ")).toBe(CODE_HASH);
+      expect(() => hashPromoCode("  ")).toThrow("Promo code is empty");
+    });
+
+    it("should create a percentage code", async () => {
+      const txHash = await core.createPromoCode("launch20", {
+        discountBps: 2000,
+        maxRedemptions: 10,
+      });
+
+      expect(txHash).toBe("0xpromotx");
+      expect(mockContract.createPromoCode).toHaveBeenCalledWith(CODE_HASH, 2000, 0n, 10, 0);
+    });
+
+    it("should require exactly one kind of discount", async () => {
+      await expect(core.createPromoCode("launch20", {})).rejects.toThrow(
+        "Set either a percentage or a fixed discount"
+      );
+      await expect(
+        core.createPromoCode("launch20", { discountBps: 1000, fixedDiscount: 1n })
+      ).rejects.toThrow("Set either a percentage or a fixed discount");
+      expect(mockContract.createPromoCode).not.toHaveBeenCalled();
+    });
+
+    it("should disable a code by its text", async () => {
+      expect(await core.disablePromoCode("LAUNCH20")).toBe("0xdisablepromotx");
+      expect(mockContract.disablePromoCode).toHaveBeenCalledWith(CODE_HASH);
+    });
+
+    it("should quote the discounted price of a valid code", async () => {
+      const result = await core.validatePromoCode(CREATOR_ADDRESS, "launch20", 0, 12);
+
+      expect(result).toEqual({
+        valid: true,
+        originalPrice: 9600000000000000000n,
+        discountedPrice: 7680000000000000000n,
+        promoCode: {
+          discountBps: 2000,
+          fixedDiscount: 0n,
+          maxRedemptions: 10,
+          redemptions: 3,
+          expiresAt: 0,
+          isActive: true,
+        },
+      });
+      expect(mockContract.promoCodes).toHaveBeenCalledWith(CREATOR_ADDRESS, CODE_HASH);
+    });
+
+    it("should explain why a code can't be used", async () => {
+      mockContract.promoCodes.mockResolvedValueOnce([0n, 0n, 0n, 0n, 0n, false]);
+      expect(await core.validatePromoCode(CREATOR_ADDRESS, "nope")).toMatchObject({
+        valid: false,
+        reason: "Unknown promo code",
+        discountedPrice: 9600000000000000000n,
+        promoCode: null,
+      });
+
+      mockContract.promoCodes.mockResolvedValueOnce([2000n, 0n, 0n, 0n, 1n, true]);
+      expect((await core.validatePromoCode(CREATOR_ADDRESS, "old")).reason).toBe(
+        "This promo code has expired"
+      );
+
+      mockContract.promoCodes.mockResolvedValueOnce([2000n, 0n, 3n, 3n, 0n, true]);
+      expect((await core.validatePromoCode(CREATOR_ADDRESS, "used")).reason).toBe(
+        "This promo code has been fully redeemed"
+      );
+      expect(mockContract.quoteSubscriptionWithCode).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("quoteSubscription", () => {
+    it("should return the discounted price from the contract", async () => {
+      const price = await core.quoteSubscription(CREATOR_ADDRESS, 0, 12);
+
+      expect(price).toBe(9600000000000000000n);
+      expect(mockContract.quoteSubscription).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 12);
+    });
+
+    it("should default to one period of the default tier", async () => {
+      await core.quoteSubscription(CREATOR_ADDRESS);
+
+      expect(mockContract.quoteSubscription).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 1);
+    });
+  });
+
+  describe("getPeriodDiscounts", () => {
+    it("should return discounts keyed by period count", async () => {
+      const discounts = await core.getPeriodDiscounts(CREATOR_ADDRESS);
+
+      expect(discounts).toEqual({ 1: 0, 3: 0, 6: 0, 12: 2000 });
+      expect(mockContract.periodDiscounts).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("setPeriodDiscount", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(coreWithoutSigner.setPeriodDiscount(12, 2000)).rejects.toThrow(
+        "Signer required to set period discount"
+      );
+    });
+
+    it("should set period discount successfully", async () => {
+      const txHash = await core.setPeriodDiscount(6, 1000);
+
+      expect(txHash).toBe("0xdiscounttx");
+      expect(mockContract.setPeriodDiscount).toHaveBeenCalledWith(6, 1000);
+    });
+  });
+
+  describe("getOverpaymentPreference", () => {
+    it("should read the subscriber's preference", async () => {
+      const credit = await core.getOverpaymentPreference(USER_ADDRESS);
+
+      expect(credit).toBe(true);
+      expect(mockContract.creditOverpayment).toHaveBeenCalledWith(USER_ADDRESS);
+    });
+  });
+
+  describe("setOverpaymentPreference", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(coreWithoutSigner.setOverpaymentPreference(true)).rejects.toThrow(
+        "Signer required to set overpayment preference"
+      );
+    });
+
+    it("should set overpayment preference successfully", async () => {
+      const txHash = await core.setOverpaymentPreference(true);
+
+      expect(txHash).toBe("0xoverpaymenttx");
+      expect(mockContract.setOverpaymentPreference).toHaveBeenCalledWith(true);
+    });
+  });
+
+  describe("getAutoRenewStatus", () => {
+    it("should combine the flag, escrow and the price of the subscriber's tier", async () => {
+      mockContract.getSubscriptionStatus.mockResolvedValueOnce([
+        true,
+        1000n,
+        500n,
+        false,
+        1n, // tierId
+      ]);
+
+      const status = await core.getAutoRenewStatus(USER_ADDRESS, CREATOR_ADDRESS);
+
+      expect(status).toEqual({
+        enabled: true,
+        escrowBalance: 2500000000000000000n,
+        paymentToken: ethers.ZeroAddress,
+        renewalPrice: 5000000000000000000n,
+      });
+      expect(mockContract.renewalEscrow).toHaveBeenCalledWith(
+        USER_ADDRESS,
+        CREATOR_ADDRESS,
+        ethers.ZeroAddress
+      );
+    });
+  });
+
+  describe("setAutoRenew", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(coreWithoutSigner.setAutoRenew(CREATOR_ADDRESS, true)).rejects.toThrow(
+        "Signer required to set auto-renew"
+      );
+    });
+
+    it("should set auto-renew successfully", async () => {
+      const txHash = await core.setAutoRenew(CREATOR_ADDRESS, true);
+
+      expect(txHash).toBe("0xautorenewtx");
+      expect(mockContract.setAutoRenew).toHaveBeenCalledWith(CREATOR_ADDRESS, true);
+    });
+  });
+
+  describe("fundRenewalEscrow", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.fundRenewalEscrow(CREATOR_ADDRESS, 1000000n)
+      ).rejects.toThrow("Signer required to fund renewal escrow");
+    });
+
+    it("should send the deposit as value for ETH-priced creators", async () => {
+      const txHash = await core.fundRenewalEscrow(CREATOR_ADDRESS, 3000000000000000000n);
+
+      expect(txHash).toBe("0xfundescrowtx");
+      expect(mockContract.fundRenewalEscrow).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        3000000000000000000n,
+        { value: 3000000000000000000n }
+      );
+    });
+  });
+
+  describe("withdrawRenewalEscrow", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(coreWithoutSigner.withdrawRenewalEscrow(CREATOR_ADDRESS)).rejects.toThrow(
+        "Signer required to withdraw renewal escrow"
+      );
+    });
+
+    it("should withdraw the escrow in the creator's payment token by default", async () => {
+      const txHash = await core.withdrawRenewalEscrow(CREATOR_ADDRESS);
+
+      expect(txHash).toBe("0xwithdrawescrowtx");
+      expect(mockContract.withdrawRenewalEscrow).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        ethers.ZeroAddress
+      );
+    });
+
+    it("should withdraw escrow left in a previous payment token", async () => {
+      await core.withdrawRenewalEscrow(CREATOR_ADDRESS, TOKEN_ADDRESS);
+
+      expect(mockContract.getCreator).not.toHaveBeenCalled();
+      expect(mockContract.withdrawRenewalEscrow).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        TOKEN_ADDRESS
+      );
+    });
+  });
+
+  describe("processRenewals", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.processRenewals([USER_ADDRESS], CREATOR_ADDRESS)
+      ).rejects.toThrow("Signer required to process renewals");
+    });
+
+    it("should renew a batch of subscribers", async () => {
+      const txHash = await core.processRenewals([USER_ADDRESS], CREATOR_ADDRESS);
+
+      expect(txHash).toBe("0xrenewalstx");
+      expect(mockContract.processRenewals).toHaveBeenCalledWith([USER_ADDRESS], CREATOR_ADDRESS);
+    });
+  });
+
+  describe("renewSubscription", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.renewSubscription(CREATOR_ADDRESS, 1000000n)
+      ).rejects.toThrow("Signer required to renew subscription");
+    });
+
+    it("should renew subscription successfully", async () => {
+      const txHash = await core.renewSubscription(
         CREATOR_ADDRESS,
         1000000000000000000n
       );
@@ -519,6 +1818,82 @@ describe("CryptletterCore", () => {
       expect(status.subscribedAt).toBeGreaterThan(0n);
       expect(status.daysRemaining).toBeGreaterThan(0);
       expect(status.hasAccess).toBe(true);
+      expect(status.tierId).toBe(0);
+      expect(status.creditedTime).toBe(0);
+      expect(status.giftedBy).toBe(ethers.ZeroAddress);
+      expect(status.isTrial).toBe(false);
+    });
+
+    it("should return the subscriber's tier", async () => {
+      const nowInSeconds = Math.floor(Date.now() / 1000);
+      mockContract.getSubscriptionStatus.mockResolvedValueOnce([
+        true,
+        BigInt(nowInSeconds + 86400),
+        BigInt(nowInSeconds),
+        true,
+        2n,
+      ]);
+
+      const status = await core.getSubscriptionStatus(
+        USER_ADDRESS,
+        CREATOR_ADDRESS
+      );
+
+      expect(status.tierId).toBe(2);
+    });
+
+    it("should return time credited from overpayments", async () => {
+      const nowInSeconds = Math.floor(Date.now() / 1000);
+      mockContract.getSubscriptionStatus.mockResolvedValueOnce([
+        true,
+        BigInt(nowInSeconds + 86400),
+        BigInt(nowInSeconds),
+        true,
+        0n,
+        1296000n,
+      ]);
+
+      const status = await core.getSubscriptionStatus(
+        USER_ADDRESS,
+        CREATOR_ADDRESS
+      );
+
+      expect(status.creditedTime).toBe(1296000);
+    });
+
+    it("should return who gifted the current period", async () => {
+      const nowInSeconds = Math.floor(Date.now() / 1000);
+      mockContract.getSubscriptionStatus.mockResolvedValueOnce([
+        true,
+        BigInt(nowInSeconds + 86400),
+        BigInt(nowInSeconds),
+        true,
+        0n,
+        0n,
+        USER_ADDRESS,
+      ]);
+
+      const status = await core.getSubscriptionStatus(CREATOR_ADDRESS, CREATOR_ADDRESS);
+
+      expect(status.giftedBy).toBe(USER_ADDRESS);
+    });
+
+    it("should report trial access", async () => {
+      const nowInSeconds = Math.floor(Date.now() / 1000);
+      mockContract.getSubscriptionStatus.mockResolvedValueOnce([
+        true,
+        BigInt(nowInSeconds + 7 * 86400),
+        BigInt(nowInSeconds),
+        true,
+        0n,
+        0n,
+        ethers.ZeroAddress,
+        true,
+      ]);
+
+      const status = await core.getSubscriptionStatus(USER_ADDRESS, CREATOR_ADDRESS);
+
+      expect(status.isTrial).toBe(true);
     });
 
     it("should calculate days remaining correctly", async () => {
@@ -542,6 +1917,73 @@ describe("CryptletterCore", () => {
     });
   });
 
+  describe("getCreatorTiers", () => {
+    it("should map tiers with their IDs", async () => {
+      const tiers = await core.getCreatorTiers(CREATOR_ADDRESS);
+
+      expect(mockContract.getTiers).toHaveBeenCalledWith(CREATOR_ADDRESS);
+      expect(tiers).toHaveLength(2);
+      expect(tiers[1]).toEqual({
+        tierId: 1,
+        name: "Pro",
+        price: 5000000000000000000n,
+        duration: 2592000,
+        rank: 2,
+        isActive: true,
+      });
+    });
+  });
+
+  describe("createTier", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.createTier("Pro", 1000000n, 2592000, 2)
+      ).rejects.toThrow("Signer required to create tier");
+    });
+
+    it("should create tier successfully", async () => {
+      const txHash = await core.createTier("Pro", 5000000000000000000n, 2592000, 2);
+
+      expect(txHash).toBe("0xcreatetiertx");
+      expect(mockContract.createTier).toHaveBeenCalledWith(
+        "Pro",
+        5000000000000000000n,
+        2592000,
+        2
+      );
+    });
+  });
+
+  describe("updateTier", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(
+        coreWithoutSigner.updateTier(1, 1000000n, 2592000, false)
+      ).rejects.toThrow("Signer required to update tier");
+    });
+
+    it("should update tier successfully", async () => {
+      const txHash = await core.updateTier(1, 6000000000000000000n, 2592000, false);
+
+      expect(txHash).toBe("0xupdatetiertx");
+      expect(mockContract.updateTier).toHaveBeenCalledWith(
+        1,
+        6000000000000000000n,
+        2592000,
+        false
+      );
+    });
+  });
+
   describe("getNewsletterMetadata", () => {
     it("should get newsletter metadata", async () => {
       const metadata = await core.getNewsletterMetadata(1);
@@ -552,71 +1994,96 @@ describe("CryptletterCore", () => {
       expect(metadata.creator).toBe(CREATOR_ADDRESS);
       expect(metadata.isPublic).toBe(false);
       expect(metadata.contentCID).toBe("QmTestCID");
+      expect(metadata.price).toBe(2000000000000000n);
+      expect(metadata.isUnpublished).toBe(false);
+      // Posts that weren't scheduled are available from publishedAt
+      expect(metadata.availableAt).toBe(metadata.publishedAt);
+    });
+  });
+
+  describe("purchasePost", () => {
+    it("should pay the post price in ETH", async () => {
+      mockContract.getCreator.mockResolvedValueOnce({ paymentToken: ethers.ZeroAddress });
+
+      const txHash = await core.purchasePost(1);
+
+      expect(txHash).toBe("0xpurchasetx");
+      expect(mockContract.purchasePost).toHaveBeenCalledWith(1, { value: 2000000000000000n });
+    });
+
+    it("should reject posts without a price", async () => {
+      mockContract.getNewsletter.mockResolvedValueOnce({ creator: CREATOR_ADDRESS, price: 0n });
+
+      await expect(core.purchasePost(1)).rejects.toThrow("This post is not for sale");
+      expect(mockContract.purchasePost).not.toHaveBeenCalled();
+    });
+
+    it("should require a signer", async () => {
+      const coreWithoutSigner = new CryptletterCore({ ...config, signer: undefined });
+
+      await expect(coreWithoutSigner.purchasePost(1)).rejects.toThrow(
+        "Signer required to purchase post"
+      );
+    });
+
+    it("should check whether a post was purchased", async () => {
+      expect(await core.hasPurchasedPost(1, USER_ADDRESS)).toBe(false);
+      expect(mockContract.postPurchases).toHaveBeenCalledWith(1, USER_ADDRESS);
     });
   });
 
   describe("listCreatorNewsletters", () => {
-    it("should list creator newsletters", async () => {
-      // Mock postCounter to return 2 (2 posts exist: index 0 and 1)
-      mockContract.postCounter.mockResolvedValue(2n);
-
-      // Mock newsletters - implementation iterates backwards from postCounter-1 to 0
-      // So first call will be for postId 1, then postId 0
-      mockContract.getNewsletter
-        .mockResolvedValueOnce({
-          contentCID: "QmCID2",
-          title: "Newsletter 2",
-          preview: "Preview 2",
-          creator: CREATOR_ADDRESS,
-          publishedAt: BigInt(Date.now()),
-          isPublic: true,
-        })
-        .mockResolvedValueOnce({
-          contentCID: "QmCID1",
-          title: "Newsletter 1",
-          preview: "Preview 1",
-          creator: CREATOR_ADDRESS,
-          publishedAt: BigInt(Date.now()),
-          isPublic: false,
-        });
+    const post = (title: string, overrides: Record<string, any> = {}) => ({
+      contentCID: `Qm${title.replace(/\s/g, "")}`,
+      title,
+      preview: `Preview of ${title}`,
+      creator: CREATOR_ADDRESS,
+      publishedAt: 1000n,
+      isPublic: false,
+      ...overrides,
+    });
+
+    it("should list creator newsletters from the post index", async () => {
+      mockContract.getCreatorPosts.mockResolvedValueOnce([7n, 3n]);
+      mockContract.getNewsletters.mockResolvedValueOnce([
+        post("Newsletter 2", { isPublic: true }),
+        post("Newsletter 1"),
+      ]);
 
       const newsletters = await core.listCreatorNewsletters(CREATOR_ADDRESS);
 
+      expect(mockContract.getCreatorPosts).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 50);
+      expect(mockContract.getNewsletters).toHaveBeenCalledWith([7n, 3n]);
+      expect(mockContract.getNewsletter).not.toHaveBeenCalled();
       expect(newsletters).toHaveLength(2);
-      // Results are in reverse chronological order (most recent first)
-      expect(newsletters[0].title).toBe("Newsletter 2");
-      expect(newsletters[1].title).toBe("Newsletter 1");
-    });
-
-    it("should filter out newsletters from different creators", async () => {
-      const otherCreator = "0x" + "9".repeat(40);
-      mockContract.postCounter.mockResolvedValue(2n);
-
-      // First newsletter (postId 1) is from other creator
-      // Second newsletter (postId 0) is from target creator
-      mockContract.getNewsletter
-        .mockResolvedValueOnce({
-          contentCID: "QmCID2",
-          title: "Newsletter 2",
-          preview: "Preview 2",
-          creator: otherCreator,
-          publishedAt: BigInt(Date.now()),
-          isPublic: true,
-        })
-        .mockResolvedValueOnce({
-          contentCID: "QmCID1",
-          title: "Newsletter 1",
-          preview: "Preview 1",
-          creator: CREATOR_ADDRESS,
-          publishedAt: BigInt(Date.now()),
-          isPublic: false,
-        });
+      // The index is newest first
+      expect(newsletters[0]).toMatchObject({ postId: 7, title: "Newsletter 2", isPublic: true });
+      expect(newsletters[1]).toMatchObject({ postId: 3, title: "Newsletter 1" });
+    });
 
-      const newsletters = await core.listCreatorNewsletters(CREATOR_ADDRESS);
+    it("should skip unpublished newsletters and fetch more to fill the limit", async () => {
+      mockContract.getCreatorPosts.mockResolvedValueOnce([5n, 4n]).mockResolvedValueOnce([2n]);
+      mockContract.getNewsletters
+        .mockResolvedValueOnce([post("Newsletter 3", { isUnpublished: true }), post("Newsletter 2")])
+        .mockResolvedValueOnce([post("Newsletter 1")]);
+
+      const newsletters = await core.listCreatorNewsletters(CREATOR_ADDRESS, 2);
+
+      expect(mockContract.getCreatorPosts).toHaveBeenNthCalledWith(2, CREATOR_ADDRESS, 2, 2);
+      expect(newsletters.map(n => n.postId)).toEqual([4, 2]);
+      expect(newsletters.every(n => !n.isUnpublished)).toBe(true);
+    });
 
-      expect(newsletters).toHaveLength(1);
-      expect(newsletters[0].creator).toBe(CREATOR_ADDRESS);
-      expect(newsletters[0].title).toBe("Newsletter 1");
+    it("should return an empty list for creators without posts", async () => {
+      mockContract.getCreatorPosts.mockResolvedValueOnce([]);
+
+      expect(await core.listCreatorNewsletters(CREATOR_ADDRESS)).toEqual([]);
+      expect(mockContract.getNewsletters).not.toHaveBeenCalled();
+    });
+
+    it("should get the creator's post count", async () => {
+      expect(await core.getCreatorPostCount(CREATOR_ADDRESS)).toBe(3);
+      expect(mockContract.getCreatorPostCount).toHaveBeenCalledWith(CREATOR_ADDRESS);
     });
   });
 
@@ -625,13 +2092,19 @@ describe("CryptletterCore", () => {
       const creators = await core.getCreators(0, 10);
 
       expect(creators).toEqual([CREATOR_ADDRESS]);
-      expect(mockContract.getCreators).toHaveBeenCalledWith(0, 10);
+      expect(mockContract.getCreators).toHaveBeenCalledWith(0, 10, false);
     });
 
     it("should use default pagination values", async () => {
       await core.getCreators();
 
-      expect(mockContract.getCreators).toHaveBeenCalledWith(0, 10);
+      expect(mockContract.getCreators).toHaveBeenCalledWith(0, 10, false);
+    });
+
+    it("should filter out inactive creators", async () => {
+      await core.getCreators(5, 20, true);
+
+      expect(mockContract.getCreators).toHaveBeenCalledWith(5, 20, true);
     });
   });
 
@@ -643,6 +2116,230 @@ describe("CryptletterCore", () => {
       expect(count).toBe(1);
       expect(mockContract.getCreatorCount).toHaveBeenCalled();
     });
+
+    it("should get the active creator count", async () => {
+      expect(await core.getActiveCreatorCount()).toBe(1);
+      expect(mockContract.activeCreatorCount).toHaveBeenCalled();
+    });
+  });
+
+  describe("listSubscribers", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const sub = (overrides: Record<string, any> = {}) => ({
+      expiresAt: BigInt(now + 86400),
+      subscribedAt: BigInt(now - 86400),
+      isActive: true,
+      tierId: 0n,
+      creditedTime: 0n,
+      giftedBy: ethers.ZeroAddress,
+      isTrial: false,
+      ...overrides,
+    });
+    const address = (n: number) => "0x" + String(n).repeat(40);
+
+    it("should list subscribers with their subscriptions", async () => {
+      mockContract.getCreatorSubscribers.mockResolvedValueOnce([
+        [address(5), address(6)],
+        [sub({ tierId: 2n }), sub({ expiresAt: BigInt(now - 10), isTrial: true })],
+      ]);
+
+      const subscribers = await core.listSubscribers(CREATOR_ADDRESS);
+
+      expect(mockContract.getCreatorSubscribers).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 100);
+      expect(subscribers).toEqual([
+        expect.objectContaining({ address: address(5), tierId: 2, hasAccess: true, isActive: true }),
+        expect.objectContaining({ address: address(6), hasAccess: false, isTrial: true }),
+      ]);
+    });
+
+    it("should skip cancelled and expired subscribers and fetch more to fill the limit", async () => {
+      mockContract.getCreatorSubscribers
+        .mockResolvedValueOnce([
+          [address(5), address(6)],
+          [sub({ isActive: false }), sub({ expiresAt: BigInt(now - 10) })],
+        ])
+        .mockResolvedValueOnce([[address(7), address(8)], [sub(), sub()]])
+        .mockResolvedValueOnce([[address(9)], [sub()]]);
+
+      const subscribers = await core.listSubscribers(CREATOR_ADDRESS, { activeOnly: true, limit: 2 });
+
+      expect(mockContract.getCreatorSubscribers).toHaveBeenNthCalledWith(2, CREATOR_ADDRESS, 2, 2);
+      expect(subscribers.map(s => s.address)).toEqual([address(7), address(8)]);
+    });
+
+    it("should read large lists in pages of 100", async () => {
+      const page = (start: number, size: number) => [
+        Array.from({ length: size }, (_, i) => "0x" + (start + i).toString(16).padStart(40, "0")),
+        Array.from({ length: size }, () => sub()),
+      ];
+      mockContract.getCreatorSubscribers
+        .mockResolvedValueOnce(page(0, 100))
+        .mockResolvedValueOnce(page(100, 100))
+        .mockResolvedValueOnce(page(200, 50));
+
+      const subscribers = await core.listSubscribers(CREATOR_ADDRESS, { limit: 5000 });
+
+      expect(mockContract.getCreatorSubscribers).toHaveBeenCalledTimes(3);
+      expect(mockContract.getCreatorSubscribers).toHaveBeenNthCalledWith(3, CREATOR_ADDRESS, 200, 100);
+      expect(subscribers).toHaveLength(250);
+    });
+
+    it("should return an empty list for creators without subscribers", async () => {
+      expect(await core.listSubscribers(CREATOR_ADDRESS)).toEqual([]);
+    });
+  });
+
+  describe("getActiveSubscriberCount", () => {
+    const now = Math.floor(Date.now() / 1000);
+    const sub = (overrides: Record<string, any> = {}) => ({
+      expiresAt: BigInt(now + 86400),
+      subscribedAt: BigInt(now - 86400 * 60),
+      isActive: true,
+      tierId: 0n,
+      creditedTime: 0n,
+      giftedBy: ethers.ZeroAddress,
+      isTrial: false,
+      ...overrides,
+    });
+    const address = (n: number) => "0x" + String(n).repeat(40);
+
+    it("should skip lapsed and cancelled subscriptions but count resubscribers", async () => {
+      mockContract.getCreatorSubscriberCount.mockResolvedValueOnce(4n);
+      mockContract.getCreatorSubscribers.mockResolvedValueOnce([
+        [address(5), address(6), address(7), address(8)],
+        [
+          sub({ expiresAt: BigInt(now - 10) }), // Lapsed without a cancel
+          sub({ isActive: false }), // Cancelled, time still running
+          sub(), // Cancelled earlier, then resubscribed
+          sub({ isTrial: true }),
+        ],
+      ]);
+
+      expect(await core.getActiveSubscriberCount(CREATOR_ADDRESS)).toBe(2);
+      expect(mockContract.getCreatorSubscribers).toHaveBeenCalledWith(CREATOR_ADDRESS, 0, 4);
+    });
+
+    it("should not page through an empty index", async () => {
+      expect(await core.getActiveSubscriberCount(CREATOR_ADDRESS)).toBe(0);
+      expect(mockContract.getCreatorSubscribers).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("getSubscribedCreators", () => {
+    const log = (creator: string, blockNumber: number, index = 0) => ({
+      args: { creator },
+      blockNumber,
+      index,
+    });
+
+    it("should collect creators from paid, trial and comp events in first-seen order", async () => {
+      const other = "0x" + "7".repeat(40);
+      const third = "0x" + "8".repeat(40);
+      mockContract.queryFilter.mockImplementation(async (filter: string) => {
+        switch (filter) {
+          case "subscribed-filter":
+            return [log(CREATOR_ADDRESS, 20), log(other, 5, 1)];
+          case "trial-filter":
+            return [log(other, 5, 0)];
+          case "comp-filter":
+            return [log(third, 30), log(CREATOR_ADDRESS.toLowerCase(), 40)];
+          default:
+            return [];
+        }
+      });
+
+      const creators = await core.getSubscribedCreators(USER_ADDRESS);
+
+      expect(mockContract.filters.Subscribed).toHaveBeenCalledWith(USER_ADDRESS);
+      expect(mockContract.filters.TrialStarted).toHaveBeenCalledWith(USER_ADDRESS);
+      expect(mockContract.filters.ComplimentaryAccessGranted).toHaveBeenCalledWith(null, USER_ADDRESS);
+      expect(creators).toEqual([other, CREATOR_ADDRESS, third]);
+    });
+
+    it("should return an empty list for addresses that never subscribed", async () => {
+      expect(await core.getSubscribedCreators(USER_ADDRESS)).toEqual([]);
+    });
+  });
+
+  describe("with an indexer", () => {
+    let indexer: any;
+
+    beforeEach(() => {
+      indexer = {
+        getCreators: vi.fn().mockResolvedValue([
+          { address: CREATOR_ADDRESS },
+          { address: USER_ADDRESS },
+        ]),
+        getCreatorPosts: vi.fn().mockResolvedValue([{ postId: 9 }, { postId: 4 }, { postId: 1 }]),
+        getReceivedGifts: vi.fn().mockResolvedValue([{ gifter: USER_ADDRESS, periods: 3 }]),
+        getSubscriptions: vi.fn().mockResolvedValue([
+          { subscriber: USER_ADDRESS, creator: CREATOR_ADDRESS },
+        ]),
+        getSubscribers: vi.fn().mockResolvedValue([
+          {
+            subscriber: USER_ADDRESS,
+            creator: CREATOR_ADDRESS,
+            expiresAt: 5000n,
+            subscribedAt: 1000,
+            tierId: 1,
+            isActive: true,
+            isTrial: false,
+            giftedBy: ethers.ZeroAddress,
+          },
+        ]),
+      };
+      core = new CryptletterCore({ ...config, indexer });
+      (core as any).contract = mockContract;
+    });
+
+    it("should page creators from the index", async () => {
+      expect(await core.getCreators(1, 10, true)).toEqual([USER_ADDRESS]);
+      expect(indexer.getCreators).toHaveBeenCalledWith({ activeOnly: true });
+      expect(mockContract.getCreators).not.toHaveBeenCalled();
+    });
+
+    it("should take post IDs from the index and batch-load them", async () => {
+      mockContract.getNewsletters.mockResolvedValueOnce([
+        { title: "Newest", creator: CREATOR_ADDRESS, publishedAt: 3n },
+        { title: "Pulled", creator: CREATOR_ADDRESS, publishedAt: 2n, isUnpublished: true },
+      ]);
+
+      const newsletters = await core.listCreatorNewsletters(CREATOR_ADDRESS, 2);
+
+      expect(mockContract.getCreatorPosts).not.toHaveBeenCalled();
+      expect(mockContract.getNewsletters).toHaveBeenCalledWith([9, 4]);
+      // Unpublished after the index last synced
+      expect(newsletters.map(n => n.postId)).toEqual([9]);
+    });
+
+    it("should read received gifts from the index", async () => {
+      const gifts = await core.getReceivedGifts(USER_ADDRESS);
+
+      expect(gifts).toEqual([{ gifter: USER_ADDRESS, periods: 3 }]);
+      expect(mockContract.queryFilter).not.toHaveBeenCalled();
+    });
+
+    it("should discover subscribed creators from the index", async () => {
+      expect(await core.getSubscribedCreators(USER_ADDRESS)).toEqual([CREATOR_ADDRESS]);
+      expect(indexer.getSubscriptions).toHaveBeenCalledWith(USER_ADDRESS);
+      expect(mockContract.queryFilter).not.toHaveBeenCalled();
+    });
+
+    it("should count active subscribers from the index", async () => {
+      expect(await core.getActiveSubscriberCount(CREATOR_ADDRESS)).toBe(1);
+      expect(indexer.getSubscribers).toHaveBeenCalledWith(CREATOR_ADDRESS, { activeOnly: true });
+      expect(mockContract.getCreatorSubscriberCount).not.toHaveBeenCalled();
+    });
+
+    it("should list subscribers from the index", async () => {
+      const subscribers = await core.listSubscribers(CREATOR_ADDRESS, { activeOnly: true });
+
+      expect(indexer.getSubscribers).toHaveBeenCalledWith(CREATOR_ADDRESS, { activeOnly: true });
+      expect(mockContract.getCreatorSubscribers).not.toHaveBeenCalled();
+      expect(subscribers).toEqual([
+        expect.objectContaining({ address: USER_ADDRESS, subscribedAt: 1000n, tierId: 1, expiresAt: 5000n }),
+      ]);
+    });
   });
 
   describe("registerAsCreator", () => {
@@ -668,7 +2365,19 @@ describe("CryptletterCore", () => {
       expect(mockContract.registerCreator).toHaveBeenCalledWith(
         "Test Creator",
         "Test bio",
-        1000000000000000000n
+        1000000000000000000n,
+        ethers.ZeroAddress
+      );
+    });
+
+    it("should register with an ERC-20 payment token", async () => {
+      await core.registerAsCreator("Test Creator", "Test bio", 5000000n, TOKEN_ADDRESS);
+
+      expect(mockContract.registerCreator).toHaveBeenCalledWith(
+        "Test Creator",
+        "Test bio",
+        5000000n,
+        TOKEN_ADDRESS
       );
     });
   });
@@ -716,8 +2425,91 @@ describe("CryptletterCore", () => {
 
       expect(txHash).toBe("0xupdatepricetx");
       expect(mockContract.updateMonthlyPrice).toHaveBeenCalledWith(
-        2000000000000000000n
+        2000000000000000000n,
+        ethers.ZeroAddress
+      );
+    });
+
+    it("should keep the current payment token unless one is given", async () => {
+      mockContract.getCreator.mockResolvedValueOnce({ paymentToken: TOKEN_ADDRESS });
+      await core.updateCreatorPrice(5000000n);
+
+      expect(mockContract.getCreator).toHaveBeenCalledWith(USER_ADDRESS);
+      expect(mockContract.updateMonthlyPrice).toHaveBeenCalledWith(5000000n, TOKEN_ADDRESS);
+
+      await core.updateCreatorPrice(1000n, ethers.ZeroAddress);
+      expect(mockContract.updateMonthlyPrice).toHaveBeenLastCalledWith(1000n, ethers.ZeroAddress);
+    });
+  });
+
+  describe("creator deactivation", () => {
+    it("should deactivate and reactivate the signer's profile", async () => {
+      expect(await core.deactivateCreator()).toBe("0xdeactivatetx");
+      expect(await core.reactivateCreator()).toBe("0xreactivatetx");
+      expect(mockContract.deactivateCreator).toHaveBeenCalled();
+      expect(mockContract.reactivateCreator).toHaveBeenCalled();
+    });
+
+    it("should require a signer", async () => {
+      const coreWithoutSigner = new CryptletterCore({ ...config, signer: undefined });
+
+      await expect(coreWithoutSigner.deactivateCreator()).rejects.toThrow(
+        "Signer required to deactivate creator"
+      );
+      await expect(coreWithoutSigner.reactivateCreator()).rejects.toThrow(
+        "Signer required to reactivate creator"
+      );
+    });
+  });
+
+  describe("getCreatorEarnings", () => {
+    it("should return balance and lifetime totals", async () => {
+      const earnings = await core.getCreatorEarnings(CREATOR_ADDRESS);
+
+      expect(mockContract.getCreatorEarnings).toHaveBeenCalledWith(
+        CREATOR_ADDRESS,
+        ethers.ZeroAddress
+      );
+      expect(earnings).toEqual({
+        balance: 3000000000000000000n,
+        totalEarned: 5000000000000000000n,
+        totalWithdrawn: 2000000000000000000n,
+      });
+    });
+  });
+
+  describe("withdrawEarnings", () => {
+    it("should throw error if signer is not configured", async () => {
+      const coreWithoutSigner = new CryptletterCore({
+        ...config,
+        signer: undefined,
+      });
+
+      await expect(coreWithoutSigner.withdrawEarnings()).rejects.toThrow(
+        "Signer required to withdraw earnings"
       );
     });
+
+    it("should withdraw to the signer by default", async () => {
+      const txHash = await core.withdrawEarnings();
+
+      expect(txHash).toBe("0xwithdrawtx");
+      expect(mockContract.withdraw).toHaveBeenCalled();
+      expect(mockContract.withdrawTo).not.toHaveBeenCalled();
+    });
+
+    it("should withdraw to a recipient", async () => {
+      const txHash = await core.withdrawEarnings(USER_ADDRESS);
+
+      expect(txHash).toBe("0xwithdrawtotx");
+      expect(mockContract.withdrawTo).toHaveBeenCalledWith(USER_ADDRESS);
+    });
+
+    it("should withdraw token earnings to the signer by default", async () => {
+      const txHash = await core.withdrawEarnings(undefined, TOKEN_ADDRESS);
+
+      expect(txHash).toBe("0xwithdrawtokentx");
+      expect(mockContract.withdrawToken).toHaveBeenCalledWith(TOKEN_ADDRESS, USER_ADDRESS);
+    });
   });
 });
@@ -3,6 +3,7 @@ import * as main from "../src";
 import * as react from "../src/react";
 import * as core from "../src/core";
 import * as storage from "../src/storage";
+import * as indexer from "../src/indexer";
 
 describe("exports", () => {
   it("main exports are present", () => {
@@ -20,5 +21,11 @@ describe("exports", () => {
   it("storage exports are present", () => {
     expect(storage).toBeTruthy();
   });
+
+  it("indexer exports are present", () => {
+    expect(indexer.CryptletterIndexer).toBeTruthy();
+    expect(indexer.MemoryIndexerStore).toBeTruthy();
+    expect(indexer.SqliteIndexerStore).toBeTruthy();
+  });
 });
 
@@ -0,0 +1,586 @@
+/**
+ * Tests for the Cryptletter event indexer
+ */
+
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ethers } from "ethers";
+import initSqlJs, { type Database } from "sql.js";
+import {
+  CryptletterIndex,
+  CryptletterIndexer,
+  MemoryIndexerStore,
+  SqliteIndexerStore,
+  type IndexerStore,
+  type SqliteDatabase,
+} from "../../src/indexer";
+
+const CONTRACT_ADDRESS = "0x" + "1".repeat(40);
+const SUBSCRIBER = ethers.getAddress("0x" + "2".repeat(40));
+const CREATOR = ethers.getAddress("0x" + "3".repeat(40));
+const OTHER_CREATOR = ethers.getAddress("0x" + "4".repeat(40));
+const TOKEN = ethers.getAddress("0x" + "5".repeat(40));
+
+const ABI = [
+  "event CreatorRegistered(address indexed creator, string name, uint256 monthlyPrice)",
+  "event CreatorProfileUpdated(address indexed creator, string name, string bio)",
+  "event CreatorDeactivated(address indexed creator)",
+  "event MonthlyPriceUpdated(address indexed creator, uint256 oldPrice, uint256 newPrice)",
+  "event PaymentTokenUpdated(address indexed creator, address indexed token)",
+  "event NewsletterPublished(uint256 indexed postId, address indexed creator, string title, string contentCID, bool isPublic)",
+  "event NewsletterUpdated(uint256 indexed postId, address indexed creator, string title, string contentCID, uint256 version)",
+  "event NewsletterUnpublished(uint256 indexed postId, address indexed creator)",
+  "event TrialStarted(address indexed subscriber, address indexed creator, uint256 expiresAt)",
+  "event Subscribed(address indexed subscriber, address indexed creator, uint256 expiresAt, uint256 tierId, uint256 periods)",
+  "event SubscriptionGifted(address indexed gifter, address indexed recipient, address indexed creator, uint256 expiresAt, uint256 periods, bytes encryptedNote, bytes32 noteKey)",
+  "event ComplimentaryAccessGranted(address indexed creator, address indexed subscriber, uint256 expiresAt, uint256 voucherNonce)",
+  "event SubscriptionRenewed(address indexed subscriber, address indexed creator, uint256 newExpiresAt)",
+  "event SubscriptionCancelled(address indexed subscriber, address indexed creator)",
+  "event PostPurchased(uint256 indexed postId, address indexed buyer, address indexed creator, uint256 price)",
+];
+
+type ChainEvent = [name: string, args: any[]];
+
+/**
+ * Adapt an in-memory sql.js database to the synchronous driver interface of better-sqlite3
+ */
+function sqlJsDatabase(db: Database): SqliteDatabase {
+  return {
+    exec: (sql) => db.exec(sql),
+    prepare: (sql) => {
+      const all = (...params: unknown[]) => {
+        const stmt = db.prepare(sql);
+        const rows: unknown[] = [];
+        try {
+          stmt.bind(params as any[]);
+          while (stmt.step()) rows.push(stmt.getAsObject());
+        } finally {
+          stmt.free();
+        }
+        return rows;
+      };
+      return {
+        run: (...params) => db.run(sql, params as any[]),
+        all,
+        get: (...params) => all(...params)[0],
+      };
+    },
+  };
+}
+
+const SQL = await initSqlJs();
+
+const stores: [string, () => IndexerStore][] = [
+  ["MemoryIndexerStore", () => new MemoryIndexerStore()],
+  ["SqliteIndexerStore", () => new SqliteIndexerStore(sqlJsDatabase(new SQL.Database()))],
+];
+
+/**
+ * Minimal chain: one block per mine() call, blocks 12s apart starting at t=1000
+ */
+class FakeChain {
+  private iface = new ethers.Interface(ABI);
+  blocks: { number: number; hash: string; timestamp: number }[] = [];
+  logs: any[] = [];
+
+  constructor() {
+    this.mine([]);
+  }
+
+  mine(events: ChainEvent[], fork = "main"): number {
+    const number = this.blocks.length;
+    const hash = ethers.id(`${fork}:${number}`);
+    this.blocks.push({ number, hash, timestamp: 1000 + number * 12 });
+
+    events.forEach(([name, args], index) => {
+      const { topics, data } = this.iface.encodeEventLog(name, args);
+      this.logs.push({
+        address: CONTRACT_ADDRESS,
+        topics,
+        data,
+        blockNumber: number,
+        blockHash: hash,
+        transactionHash: ethers.id(`${hash}:${index}`),
+        index,
+      });
+    });
+    return number;
+  }
+
+  /**
+   * Drop every block from `fromBlock` on, as if a competing fork had won
+   */
+  reorg(fromBlock: number): void {
+    this.blocks = this.blocks.slice(0, fromBlock);
+    this.logs = this.logs.filter((log) => log.blockNumber < fromBlock);
+  }
+
+  provider = {
+    getBlockNumber: vi.fn(async () => this.blocks.length - 1),
+    getBlock: vi.fn(async (number: number) => this.blocks[number] ?? null),
+    getLogs: vi.fn(async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+      this.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock)
+    ),
+  };
+}
+
+describe.each(stores)("CryptletterIndexer on %s", (_name, createStore) => {
+  let chain: FakeChain;
+  let store: IndexerStore;
+  let indexer: CryptletterIndexer;
+
+  const createIndexer = (overrides: Record<string, any> = {}) =>
+    new CryptletterIndexer({
+      provider: chain.provider as any,
+      contractAddress: CONTRACT_ADDRESS,
+      contractABI: ABI,
+      store,
+      ...overrides,
+    });
+
+  beforeEach(() => {
+    chain = new FakeChain();
+    store = createStore();
+    indexer = createIndexer();
+  });
+
+  describe("sync", () => {
+    it("should index events in block order", async () => {
+      chain.mine([["CreatorRegistered", [CREATOR, "Alice", 100n]]]);
+      chain.mine([["NewsletterPublished", [1n, CREATOR, "Hello", "QmHello", true]]]);
+
+      const result = await indexer.sync();
+
+      expect(result).toEqual({ fromBlock: 0, toBlock: 2, eventCount: 2, reorgedFrom: null });
+      const events = await indexer.getEvents();
+      expect(events.map((e) => e.name)).toEqual(["CreatorRegistered", "NewsletterPublished"]);
+      expect(events[0]).toMatchObject({
+        args: { creator: CREATOR, name: "Alice", monthlyPrice: 100n },
+        blockNumber: 1,
+        timestamp: 1012,
+      });
+    });
+
+    it("should resume from the stored head", async () => {
+      chain.mine([["CreatorRegistered", [CREATOR, "Alice", 100n]]]);
+      await indexer.sync();
+      chain.mine([["CreatorDeactivated", [CREATOR]]]);
+
+      const result = await indexer.sync();
+
+      expect(result).toMatchObject({ fromBlock: 2, toBlock: 2, eventCount: 1 });
+      expect(await indexer.getEvents()).toHaveLength(2);
+    });
+
+    it("should report an empty pass when there are no new blocks", async () => {
+      await indexer.sync();
+
+      expect(await indexer.sync()).toEqual({
+        fromBlock: 1,
+        toBlock: 0,
+        eventCount: 0,
+        reorgedFrom: null,
+      });
+    });
+
+    it("should split long ranges into batches", async () => {
+      for (let i = 0; i < 5; i++) chain.mine([]);
+
+      await createIndexer({ batchSize: 2 }).sync();
+
+      expect(chain.provider.getLogs).toHaveBeenCalledTimes(3);
+      expect(chain.provider.getLogs).toHaveBeenLastCalledWith({
+        address: CONTRACT_ADDRESS,
+        fromBlock: 4,
+        toBlock: 5,
+      });
+    });
+
+    it("should stay behind the head by the configured confirmations", async () => {
+      chain.mine([["CreatorRegistered", [CREATOR, "Alice", 100n]]]);
+      chain.mine([["CreatorRegistered", [OTHER_CREATOR, "Bob", 100n]]]);
+
+      const result = await createIndexer({ confirmations: 1 }).sync();
+
+      expect(result.toBlock).toBe(1);
+      expect(await indexer.getCreators()).toHaveLength(1);
+    });
+
+    it("should share a pass between concurrent calls", async () => {
+      chain.mine([["CreatorRegistered", [CREATOR, "Alice", 100n]]]);
+
+      const [first, second] = await Promise.all([indexer.sync(), indexer.sync()]);
+
+      expect(first).toBe(second);
+      expect(chain.provider.getLogs).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("reorgs", () => {
+    it("should roll back to the fork point and re-index the new branch", async () => {
+      chain.mine([["CreatorRegistered", [CREATOR, "Alice", 100n]]]);
+      const forkBlock = chain.mine([["NewsletterPublished", [1n, CREATOR, "Orphaned", "QmA", true]]]);
+      await indexer.sync();
+
+      chain.reorg(forkBlock);
+      chain.mine([["NewsletterPublished", [1n, CREATOR, "Canonical", "QmB", true]]], "fork");
+      chain.mine([], "fork");
+
+      const result = await indexer.sync();
+
+      expect(result.reorgedFrom).toBe(forkBlock);
+      const posts = await indexer.getCreatorPosts(CREATOR);
+      expect(posts).toHaveLength(1);
+      expect(posts[0].title).toBe("Canonical");
+    });
+
+    it("should start over when every indexed block was replaced", async () => {
+      chain.mine([["CreatorRegistered", [CREATOR, "Alice", 100n]]]);
+      await indexer.sync();
+
+      chain.reorg(0);
+      chain.mine([], "fork");
+      chain.mine([["CreatorRegistered", [OTHER_CREATOR, "Bob", 100n]]], "fork");
+
+      const result = await indexer.sync();
+
+      expect(result.reorgedFrom).toBe(0);
+      expect((await indexer.getCreators()).map((c) => c.name)).toEqual(["Bob"]);
+    });
+
+    it("should refuse reorgs deeper than maxReorgDepth", async () => {
+      for (let i = 0; i < 3; i++) chain.mine([]);
+      const shallow = createIndexer({ maxReorgDepth: 2, batchSize: 1 });
+      await shallow.sync();
+
+      chain.reorg(1);
+      for (let i = 0; i < 3; i++) chain.mine([], "fork");
+
+      await expect(shallow.sync()).rejects.toThrow("deeper than 2 indexed blocks");
+    });
+  });
+
+  describe("polling", () => {
+    it("should sync on an interval until stopped", async () => {
+      vi.useFakeTimers();
+      try {
+        indexer.start({ intervalMs: 1000 });
+        await vi.advanceTimersByTimeAsync(0);
+        expect(chain.provider.getBlockNumber).toHaveBeenCalledTimes(1);
+
+        await vi.advanceTimersByTimeAsync(1000);
+        expect(chain.provider.getBlockNumber).toHaveBeenCalledTimes(2);
+
+        indexer.stop();
+        await vi.advanceTimersByTimeAsync(5000);
+        expect(chain.provider.getBlockNumber).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it("should report errors and keep polling", async () => {
+      vi.useFakeTimers();
+      try {
+        const onError = vi.fn();
+        chain.provider.getBlockNumber.mockRejectedValueOnce(new Error("RPC down"));
+
+        indexer.start({ intervalMs: 1000, onError });
+        await vi.advanceTimersByTimeAsync(1000);
+        indexer.stop();
+
+        expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: "RPC down" }));
+        expect(chain.provider.getBlockNumber).toHaveBeenCalledTimes(2);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe("queries", () => {
+    const t = (block: number) => 1000 + block * 12;
+
+    it("should track creators through profile changes and deactivation", async () => {
+      chain.mine([
+        ["CreatorRegistered", [CREATOR, "Alice", 100n]],
+        ["CreatorRegistered", [OTHER_CREATOR, "Bob", 200n]],
+      ]);
+      chain.mine([
+        ["CreatorProfileUpdated", [CREATOR, "Alice B.", "bio"]],
+        ["CreatorDeactivated", [OTHER_CREATOR]],
+      ]);
+      await indexer.sync();
+
+      expect((await indexer.getCreators()).map((c) => c.name)).toEqual(["Alice B.", "Bob"]);
+      expect((await indexer.getCreators({ activeOnly: true })).map((c) => c.address)).toEqual([
+        CREATOR,
+      ]);
+      expect(await indexer.getCreator(OTHER_CREATOR.toLowerCase())).toMatchObject({
+        isActive: false,
+        monthlyPrice: 200n,
+        registeredAtBlock: 1,
+      });
+    });
+
+    it("should price creators in the token they registered with", async () => {
+      // registerCreator emits PaymentTokenUpdated before CreatorRegistered
+      chain.mine([
+        ["PaymentTokenUpdated", [CREATOR, TOKEN]],
+        ["CreatorRegistered", [CREATOR, "Alice", 5_000_000n]],
+        ["CreatorRegistered", [OTHER_CREATOR, "Bob", 100n]],
+      ]);
+      await indexer.sync();
+
+      expect(await indexer.getCreator(CREATOR)).toMatchObject({ paymentToken: TOKEN, monthlyPrice: 5_000_000n });
+      expect(await indexer.getCreator(OTHER_CREATOR)).toMatchObject({ paymentToken: ethers.ZeroAddress });
+    });
+
+    it("should follow price and payment token changes", async () => {
+      chain.mine([
+        ["PaymentTokenUpdated", [CREATOR, TOKEN]],
+        ["CreatorRegistered", [CREATOR, "Alice", 5_000_000n]],
+      ]);
+      chain.mine([
+        ["MonthlyPriceUpdated", [CREATOR, 5_000_000n, 100n]],
+        ["PaymentTokenUpdated", [CREATOR, ethers.ZeroAddress]],
+      ]);
+      await indexer.sync();
+
+      expect(await indexer.getCreator(CREATOR)).toMatchObject({
+        paymentToken: ethers.ZeroAddress,
+        monthlyPrice: 100n,
+      });
+    });
+
+    it("should list a creator's posts newest first with edits applied", async () => {
+      chain.mine([
+        ["NewsletterPublished", [1n, CREATOR, "First", "QmFirst", true]],
+        ["NewsletterPublished", [2n, OTHER_CREATOR, "Elsewhere", "QmOther", true]],
+      ]);
+      chain.mine([
+        ["NewsletterPublished", [3n, CREATOR, "Second", "QmSecond", false]],
+        ["NewsletterUpdated", [1n, CREATOR, "First (edited)", "QmFirst2", 1n]],
+      ]);
+      chain.mine([["NewsletterUnpublished", [3n, CREATOR]]]);
+      await indexer.sync();
+
+      expect(await indexer.getCreatorPosts(CREATOR)).toEqual([
+        expect.objectContaining({ postId: 1, title: "First (edited)", contentCID: "QmFirst2", version: 1 }),
+      ]);
+      const all = await indexer.getCreatorPosts(CREATOR, { includeUnpublished: true });
+      expect(all.map((p) => p.postId)).toEqual([3, 1]);
+      expect(await indexer.getPost(3)).toMatchObject({ isUnpublished: true, publishedAt: t(2) });
+    });
+
+    it("should follow a subscription through trial, upgrade, renewal and cancellation", async () => {
+      const trial = chain.mine([["TrialStarted", [SUBSCRIBER, CREATOR, 5000n]]]);
+      chain.mine([["Subscribed", [SUBSCRIBER, CREATOR, 9000n, 2n, 1n]]]);
+      chain.mine([["SubscriptionRenewed", [SUBSCRIBER, CREATOR, 12000n]]]);
+      await indexer.sync();
+
+      expect(trial).toBe(1);
+      expect(await indexer.getSubscription(SUBSCRIBER, CREATOR)).toMatchObject({
+        expiresAt: 12000n,
+        subscribedAt: t(1),
+        tierId: 2,
+        isActive: true,
+        isTrial: false,
+      });
+
+      chain.mine([["SubscriptionCancelled", [SUBSCRIBER, CREATOR]]]);
+      await indexer.sync();
+
+      const sub = await indexer.getSubscription(SUBSCRIBER, CREATOR);
+      expect(sub).toMatchObject({ isActive: false, expiresAt: 12000n });
+      expect(await indexer.getSubscribers(CREATOR, { activeOnly: true, at: 2000 })).toEqual([]);
+    });
+
+    it("should keep the running tier on comps and reset it once expired", async () => {
+      chain.mine([["Subscribed", [SUBSCRIBER, CREATOR, 2000n, 1n, 1n]]]);
+      chain.mine([["ComplimentaryAccessGranted", [CREATOR, SUBSCRIBER, 3000n, 0n]]]);
+      chain.mine([["Subscribed", [SUBSCRIBER, OTHER_CREATOR, t(4), 1n, 1n]]]);
+      chain.mine([]);
+      chain.mine([["ComplimentaryAccessGranted", [OTHER_CREATOR, SUBSCRIBER, 9000n, 1n]]]);
+      await indexer.sync();
+
+      expect(await indexer.getSubscription(SUBSCRIBER, CREATOR)).toMatchObject({ tierId: 1, giftedBy: CREATOR });
+      expect((await indexer.getSubscription(SUBSCRIBER, OTHER_CREATOR))!.tierId).toBe(0);
+    });
+
+    it("should filter subscribers and subscriptions by activity", async () => {
+      chain.mine([
+        ["Subscribed", [SUBSCRIBER, CREATOR, 5000n, 0n, 1n]],
+        ["Subscribed", [SUBSCRIBER, OTHER_CREATOR, 1500n, 0n, 1n]],
+      ]);
+      await indexer.sync();
+
+      expect(await indexer.getSubscriptions(SUBSCRIBER)).toHaveLength(2);
+      const active = await indexer.getSubscriptions(SUBSCRIBER, { activeOnly: true, at: 2000 });
+      expect(active.map((s) => s.creator)).toEqual([CREATOR]);
+      expect(await indexer.getSubscribers(OTHER_CREATOR)).toHaveLength(1);
+      expect(await indexer.getSubscribers(OTHER_CREATOR, { activeOnly: true, at: 2000 })).toEqual([]);
+    });
+
+    it("should count active subscribers through expiry, cancel and resubscribe", async () => {
+      const reader = ethers.getAddress("0x" + "5".repeat(40));
+      const activeAt = async (at: number) =>
+        (await indexer.getSubscribers(CREATOR, { activeOnly: true, at })).length;
+
+      chain.mine([
+        ["Subscribed", [SUBSCRIBER, CREATOR, 2000n, 0n, 1n]],
+        ["Subscribed", [reader, CREATOR, 5000n, 0n, 1n]],
+      ]);
+      // Reader cancels with time left, then comes back after the subscriber has lapsed
+      chain.mine([["SubscriptionCancelled", [reader, CREATOR]]]);
+      chain.mine([["Subscribed", [reader, CREATOR, 6000n, 0n, 1n]]]);
+      await indexer.sync();
+
+      expect(await activeAt(1500)).toBe(2);
+      expect(await activeAt(2500)).toBe(1); // Lapsed without a cancel
+      expect(await activeAt(6500)).toBe(0);
+
+      // Subscriber resubscribes after the lapse and is counted once
+      chain.mine([["Subscribed", [SUBSCRIBER, CREATOR, 7000n, 0n, 1n]]]);
+      await indexer.sync();
+
+      expect(await activeAt(5500)).toBe(2);
+      expect(await indexer.getSubscribers(CREATOR)).toHaveLength(2);
+    });
+
+    it("should record gifts with their notes", async () => {
+      const note = "0x434c54520200";
+      const noteKey = "0x" + "ab".repeat(32);
+      chain.mine([
+        ["Subscribed", [SUBSCRIBER, CREATOR, 5000n, 0n, 3n]],
+        ["SubscriptionGifted", [OTHER_CREATOR, SUBSCRIBER, CREATOR, 5000n, 3n, "0x", ethers.ZeroHash]],
+        ["SubscriptionGifted", [OTHER_CREATOR, SUBSCRIBER, CREATOR, 9000n, 1n, note, noteKey]],
+      ]);
+      await indexer.sync();
+
+      expect((await indexer.getSubscription(SUBSCRIBER, CREATOR))!.giftedBy).toBe(OTHER_CREATOR);
+      const gifts = await indexer.getReceivedGifts(SUBSCRIBER);
+      expect(gifts).toHaveLength(2);
+      expect(gifts[0]).toMatchObject({ periods: 3, encryptedNote: null, noteKey: null, blockNumber: 1 });
+      expect(gifts[1]).toMatchObject({ encryptedNote: note, noteKey });
+      expect(await indexer.getReceivedGifts(CREATOR)).toEqual([]);
+    });
+
+    it("should record post purchases", async () => {
+      chain.mine([["PostPurchased", [4n, SUBSCRIBER, CREATOR, 10n]]]);
+      await indexer.sync();
+
+      expect(await indexer.hasPurchased(4, SUBSCRIBER.toLowerCase())).toBe(true);
+      expect(await indexer.hasPurchased(5, SUBSCRIBER)).toBe(false);
+    });
+  });
+
+  describe("CryptletterIndex", () => {
+    it("should read a store kept in sync by another indexer", async () => {
+      const reader = new CryptletterIndex(store);
+      chain.mine([["CreatorRegistered", [CREATOR, "Alice", 100n]]]);
+      await indexer.sync();
+      expect(await reader.getCreators()).toHaveLength(1);
+
+      chain.mine([["CreatorRegistered", [OTHER_CREATOR, "Bob", 100n]]]);
+      await indexer.sync();
+
+      expect(await reader.getCreators()).toHaveLength(2);
+      expect(await reader.getHead()).toMatchObject({ number: 2 });
+    });
+  });
+});
+
+describe.each(stores)("%s", (_name, createStore) => {
+  const event = (blockNumber: number, name = "CreatorDeactivated") => ({
+    name,
+    args: { creator: CREATOR },
+    blockNumber,
+    blockHash: ethers.id(String(blockNumber)),
+    timestamp: 1000 + blockNumber,
+    transactionHash: ethers.id(`tx${blockNumber}`),
+    logIndex: 0,
+  });
+  const block = (number: number) => ({ number, hash: ethers.id(String(number)) });
+
+  let store: IndexerStore;
+
+  beforeEach(async () => {
+    store = createStore();
+    await store.append([event(1), event(3, "CreatorReactivated")], [block(1), block(3), block(5)]);
+  });
+
+  it("should report the head and recent blocks newest first", async () => {
+    expect(await store.getHead()).toEqual(block(5));
+    expect(await store.getRecentBlocks(2)).toEqual([block(5), block(3)]);
+  });
+
+  it("should filter events by name and block range", async () => {
+    expect(await store.getEvents({ names: ["CreatorReactivated"] })).toEqual([
+      event(3, "CreatorReactivated"),
+    ]);
+    expect(await store.getEvents({ fromBlock: 2 })).toHaveLength(1);
+    expect(await store.getEvents({ toBlock: 2 })).toHaveLength(1);
+  });
+
+  it("should refuse blocks at or below the head", async () => {
+    await expect(store.append([], [block(5)])).rejects.toThrow("already indexed");
+  });
+
+  it("should append after the head", async () => {
+    await store.append([event(6), event(7)], [block(7), block(6)]);
+
+    expect(await store.getHead()).toEqual(block(7));
+    expect((await store.getEvents({ fromBlock: 6 })).map((e) => e.blockNumber)).toEqual([6, 7]);
+  });
+
+  it("should refuse blocks below the head", async () => {
+    await expect(store.append([event(4)], [block(4)])).rejects.toThrow("already indexed");
+    expect(await store.getEvents()).toHaveLength(2);
+  });
+
+  it("should roll back events and blocks from a block on", async () => {
+    await store.rollback(3);
+
+    expect(await store.getHead()).toEqual(block(1));
+    expect(await store.getEvents()).toEqual([event(1)]);
+  });
+
+  it("should keep everything when rolling back past the head", async () => {
+    await store.rollback(6);
+
+    expect(await store.getHead()).toEqual(block(5));
+    expect(await store.getEvents()).toHaveLength(2);
+  });
+
+  it("should empty the store when rolling back to before the first block", async () => {
+    await store.rollback(0);
+
+    expect(await store.getHead()).toBeNull();
+    expect(await store.getEvents()).toEqual([]);
+    await store.append([event(2)], [block(2)]);
+    expect(await store.getHead()).toEqual(block(2));
+  });
+
+  it("should round-trip bigints and addresses in event args", async () => {
+    const args = {
+      subscriber: SUBSCRIBER,
+      creator: CREATOR.toLowerCase(),
+      expiresAt: 2n ** 200n,
+      tierId: 0n,
+      periods: 12n,
+      isPublic: true,
+    };
+    await store.append([{ ...event(6, "Subscribed"), args }], [block(6)]);
+
+    const [stored] = await store.getEvents({ names: ["Subscribed"] });
+    expect(stored.args).toEqual(args);
+    expect(typeof stored.args.expiresAt).toBe("bigint");
+    expect(stored.args.subscriber).toBe(SUBSCRIBER);
+  });
+
+  it("should clear everything", async () => {
+    await store.clear();
+
+    expect(await store.getHead()).toBeNull();
+    expect(await store.getEvents()).toEqual([]);
+  });
+});
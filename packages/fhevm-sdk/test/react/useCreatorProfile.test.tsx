@@ -372,7 +372,7 @@ describe("useCreatorProfile Hook", () => {
         txHash = await result.current.updatePrice(newPrice);
       });
 
-      expect(mockUpdatePrice).toHaveBeenCalledWith(newPrice);
+      expect(mockUpdatePrice).toHaveBeenCalledWith(newPrice, undefined);
       expect(txHash).toBe("0xtxhash");
       expect(mockGetCreator).toHaveBeenCalledTimes(2); // Initial + refresh after update
     });
@@ -447,7 +447,7 @@ describe("useCreatorProfile Hook", () => {
         txHash = await result.current.registerAsCreator("Test Creator", "Test Bio", price);
       });
 
-      expect(mockRegisterAsCreator).toHaveBeenCalledWith("Test Creator", "Test Bio", price);
+      expect(mockRegisterAsCreator).toHaveBeenCalledWith("Test Creator", "Test Bio", price, undefined);
       expect(txHash).toBe("0xtxhash");
     });
 
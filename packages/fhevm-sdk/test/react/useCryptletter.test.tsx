@@ -89,6 +89,22 @@ describe("useCryptletter Hook", () => {
       updateCreatorProfile: vi.fn().mockResolvedValue("0xtxhash"),
       updateCreatorPrice: vi.fn().mockResolvedValue("0xtxhash"),
       publishEncryptedNewsletter: vi.fn().mockResolvedValue(mockPublishResult),
+      editNewsletter: vi.fn().mockResolvedValue({
+        postId: 1,
+        contentCID: "QmEdited",
+        version: 1,
+        transactionHash: "0xtxhash",
+      }),
+      rotateNewsletterKey: vi.fn().mockResolvedValue({
+        postId: 1,
+        contentCID: "QmRotated",
+        version: 2,
+        imageCids: [],
+        transactionHash: "0xtxhash",
+      }),
+      getNewsletterVersions: vi.fn().mockResolvedValue([
+        { version: 0, contentCID: "QmTest", updatedAt: 1000n },
+      ]),
       subscribeToCreator: vi.fn().mockResolvedValue("0xtxhash"),
       renewSubscription: vi.fn().mockResolvedValue("0xtxhash"),
       cancelSubscription: vi.fn().mockResolvedValue("0xtxhash"),
@@ -101,6 +117,73 @@ describe("useCryptletter Hook", () => {
       getNewsletterMetadata: vi.fn().mockResolvedValue(mockNewsletterMetadata),
       getCreators: vi.fn().mockResolvedValue(["0x" + "a".repeat(40)]),
       getCreatorCount: vi.fn().mockResolvedValue(1),
+      getActiveCreatorCount: vi.fn().mockResolvedValue(1),
+      unpublishNewsletter: vi.fn().mockResolvedValue("0xtxhash"),
+      deactivateCreator: vi.fn().mockResolvedValue("0xtxhash"),
+      reactivateCreator: vi.fn().mockResolvedValue("0xtxhash"),
+      getCreatorTiers: vi.fn().mockResolvedValue([]),
+      createTier: vi.fn().mockResolvedValue("0xtxhash"),
+      updateTier: vi.fn().mockResolvedValue("0xtxhash"),
+      setPeriodDiscount: vi.fn().mockResolvedValue("0xtxhash"),
+      getPeriodDiscounts: vi.fn().mockResolvedValue({ 1: 0, 3: 0, 6: 500, 12: 2000 }),
+      quoteSubscription: vi.fn().mockResolvedValue(BigInt(9600)),
+      setOverpaymentPreference: vi.fn().mockResolvedValue("0xtxhash"),
+      getOverpaymentPreference: vi.fn().mockResolvedValue(false),
+      setAutoRenew: vi.fn().mockResolvedValue("0xtxhash"),
+      fundRenewalEscrow: vi.fn().mockResolvedValue("0xtxhash"),
+      withdrawRenewalEscrow: vi.fn().mockResolvedValue("0xtxhash"),
+      processRenewals: vi.fn().mockResolvedValue("0xtxhash"),
+      getAutoRenewStatus: vi.fn().mockResolvedValue({
+        enabled: true,
+        escrowBalance: 3000000000000000000n,
+        paymentToken: "0x" + "0".repeat(40),
+        renewalPrice: 1000000000000000000n,
+      }),
+      withdrawEarnings: vi.fn().mockResolvedValue("0xtxhash"),
+      subscribeWithPermit: vi.fn().mockResolvedValue("0xtxhash"),
+      giftSubscription: vi.fn().mockResolvedValue("0xtxhash"),
+      startTrial: vi.fn().mockResolvedValue("0xtxhash"),
+      purchasePost: vi.fn().mockResolvedValue("0xtxhash"),
+      grantComplimentaryAccess: vi.fn().mockResolvedValue("0xtxhash"),
+      createCompVoucher: vi.fn().mockResolvedValue({
+        creator: "0x" + "a".repeat(40),
+        recipient: "0x" + "0".repeat(40),
+        duration: 86400,
+        nonce: 1n,
+        deadline: 2000000000,
+        signature: "0xsig",
+      }),
+      redeemCompVoucher: vi.fn().mockResolvedValue("0xtxhash"),
+      revokeCompVoucher: vi.fn().mockResolvedValue("0xtxhash"),
+      isVoucherUsed: vi.fn().mockResolvedValue(false),
+      createPromoCode: vi.fn().mockResolvedValue("0xtxhash"),
+      disablePromoCode: vi.fn().mockResolvedValue("0xtxhash"),
+      validatePromoCode: vi.fn().mockResolvedValue({
+        valid: true,
+        originalPrice: BigInt(1000),
+        discountedPrice: BigInt(800),
+        promoCode: null,
+      }),
+      hasPurchasedPost: vi.fn().mockResolvedValue(true),
+      setTrialDuration: vi.fn().mockResolvedValue("0xtxhash"),
+      getTrialDuration: vi.fn().mockResolvedValue(604800),
+      hasUsedTrial: vi.fn().mockResolvedValue(false),
+      getReceivedGifts: vi.fn().mockResolvedValue([]),
+      listSubscribers: vi.fn().mockResolvedValue([]),
+      getSubscribedCreators: vi.fn().mockResolvedValue([]),
+      getActiveSubscriberCount: vi.fn().mockResolvedValue(0),
+      decryptGiftNote: vi.fn().mockResolvedValue("Enjoy!"),
+      getPaymentToken: vi.fn().mockResolvedValue({
+        address: "0x" + "d".repeat(40),
+        symbol: "USDC",
+        decimals: 6,
+        isNative: false,
+      }),
+      getCreatorEarnings: vi.fn().mockResolvedValue({
+        balance: BigInt(3000),
+        totalEarned: BigInt(5000),
+        totalWithdrawn: BigInt(2000),
+      }),
     };
 
     (CryptletterCore as any).mockImplementation(() => mockSDK);
@@ -215,7 +298,12 @@ describe("useCryptletter Hook", () => {
           txHash = await result.current.registerAsCreator("Test", "Bio", BigInt(1000));
         });
 
-        expect(mockSDK.registerAsCreator).toHaveBeenCalledWith("Test", "Bio", BigInt(1000));
+        expect(mockSDK.registerAsCreator).toHaveBeenCalledWith(
+          "Test",
+          "Bio",
+          BigInt(1000),
+          undefined
+        );
         expect(txHash).toBe("0xtxhash");
         expect(result.current.error).toBeNull();
       });
@@ -384,7 +472,7 @@ describe("useCryptletter Hook", () => {
           txHash = await result.current.updatePrice(BigInt(2000));
         });
 
-        expect(mockSDK.updateCreatorPrice).toHaveBeenCalledWith(BigInt(2000));
+        expect(mockSDK.updateCreatorPrice).toHaveBeenCalledWith(BigInt(2000), undefined);
         expect(txHash).toBe("0xtxhash");
       });
 
@@ -410,6 +498,47 @@ describe("useCryptletter Hook", () => {
       });
     });
 
+    describe("deactivateCreator / reactivateCreator", () => {
+      it("toggles the creator profile", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          expect(await result.current.deactivateCreator()).toBe("0xtxhash");
+          expect(await result.current.reactivateCreator()).toBe("0xtxhash");
+        });
+
+        expect(mockSDK.deactivateCreator).toHaveBeenCalled();
+        expect(mockSDK.reactivateCreator).toHaveBeenCalled();
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      it("handles deactivation errors", async () => {
+        mockSDK.deactivateCreator.mockRejectedValueOnce(new Error("Not registered"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.deactivateCreator()).rejects.toThrow("Not registered");
+        });
+
+        expect(result.current.error?.message).toBe("Not registered");
+      });
+    });
+
     describe("publishNewsletter", () => {
       it("publishes newsletter successfully", async () => {
         const { result } = renderHook(() =>
@@ -468,14 +597,934 @@ describe("useCryptletter Hook", () => {
           }
         });
 
-        await promise;
-        expect(result.current.isPublishing).toBe(false);
+        await promise;
+        expect(result.current.isPublishing).toBe(false);
+      });
+
+      it("throws when SDK not initialized", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "",
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(
+            result.current.publishNewsletter({
+              title: "Test",
+              content: "Content",
+              author: "Author",
+            })
+          ).rejects.toThrow("SDK not initialized");
+        });
+      });
+
+      it("throws when FHEVM instance not initialized", async () => {
+        (useFhevmInstance as any).mockReturnValueOnce(undefined);
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(
+            result.current.publishNewsletter({
+              title: "Test",
+              content: "Content",
+              author: "Author",
+            })
+          ).rejects.toThrow("FHEVM instance not initialized");
+        });
+      });
+
+      it("handles publish errors", async () => {
+        mockSDK.publishEncryptedNewsletter.mockRejectedValueOnce(new Error("Publish failed"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(
+            result.current.publishNewsletter({
+              title: "Test",
+              content: "Content",
+              author: "Author",
+            })
+          ).rejects.toThrow("Publish failed");
+        });
+
+        expect(result.current.error?.message).toBe("Publish failed");
+        expect(result.current.isPublishing).toBe(false);
+      });
+    });
+
+    describe("editNewsletter", () => {
+      const editOptions = { title: "Edited", content: "New content", author: "Author" };
+
+      it("edits a newsletter with the decrypted key", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let version: number | undefined;
+        await act(async () => {
+          version = (await result.current.editNewsletter(1, editOptions, "0xkey")).version;
+        });
+
+        expect(mockSDK.editNewsletter).toHaveBeenCalledWith(
+          1,
+          editOptions,
+          mockFhevmInstance,
+          "0xkey"
+        );
+        expect(version).toBe(1);
+        expect(result.current.isPublishing).toBe(false);
+      });
+
+      it("handles edit errors", async () => {
+        mockSDK.editNewsletter.mockRejectedValueOnce(
+          new Error("Only the post creator can edit this newsletter")
+        );
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.editNewsletter(1, editOptions)).rejects.toThrow(
+            "Only the post creator can edit this newsletter"
+          );
+        });
+
+        expect(result.current.error?.message).toBe(
+          "Only the post creator can edit this newsletter"
+        );
+      });
+    });
+
+    describe("rotateNewsletterKey", () => {
+      it("rotates a newsletter's key with the decrypted key", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let contentCID: string | undefined;
+        await act(async () => {
+          contentCID = (await result.current.rotateNewsletterKey(1, "0xkey")).contentCID;
+        });
+
+        expect(mockSDK.rotateNewsletterKey).toHaveBeenCalledWith(1, mockFhevmInstance, "0xkey");
+        expect(contentCID).toBe("QmRotated");
+        expect(result.current.isPublishing).toBe(false);
+      });
+
+      it("handles rotation errors", async () => {
+        mockSDK.rotateNewsletterKey.mockRejectedValueOnce(new Error("Free newsletters have no key to rotate"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.rotateNewsletterKey(1, "0xkey")).rejects.toThrow(
+            "Free newsletters have no key to rotate"
+          );
+        });
+
+        expect(result.current.error?.message).toBe("Free newsletters have no key to rotate");
+      });
+    });
+
+    describe("unpublishNewsletter", () => {
+      it("unpublishes a newsletter", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let txHash: string = "";
+        await act(async () => {
+          txHash = await result.current.unpublishNewsletter(1);
+        });
+
+        expect(mockSDK.unpublishNewsletter).toHaveBeenCalledWith(1);
+        expect(txHash).toBe("0xtxhash");
+        expect(result.current.isLoading).toBe(false);
+      });
+
+      it("handles unpublish errors", async () => {
+        mockSDK.unpublishNewsletter.mockRejectedValueOnce(new Error("Unauthorized"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.unpublishNewsletter(1)).rejects.toThrow("Unauthorized");
+        });
+
+        expect(result.current.error?.message).toBe("Unauthorized");
+      });
+    });
+  });
+
+  describe("tier functions", () => {
+    it("creates a tier", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      let txHash: string = "";
+      await act(async () => {
+        txHash = await result.current.createTier("Pro", BigInt(5000), 2592000, 1);
+      });
+
+      expect(mockSDK.createTier).toHaveBeenCalledWith("Pro", BigInt(5000), 2592000, 1);
+      expect(txHash).toBe("0xtxhash");
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("handles create tier errors", async () => {
+      mockSDK.createTier.mockRejectedValueOnce(new Error("Create tier failed"));
+
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      await act(async () => {
+        await expect(
+          result.current.createTier("Pro", BigInt(5000), 2592000, 1)
+        ).rejects.toThrow("Create tier failed");
+      });
+
+      expect(result.current.error?.message).toBe("Create tier failed");
+    });
+
+    it("updates a tier", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      await act(async () => {
+        await result.current.updateTier(1, BigInt(6000), 2592000, false);
+      });
+
+      expect(mockSDK.updateTier).toHaveBeenCalledWith(1, BigInt(6000), 2592000, false);
+    });
+
+    it("gets creator tiers", async () => {
+      const tiers = [
+        {
+          tierId: 0,
+          name: "Standard",
+          price: BigInt(1000),
+          duration: 2592000,
+          rank: 0,
+          isActive: true,
+        },
+      ];
+      mockSDK.getCreatorTiers.mockResolvedValueOnce(tiers);
+
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      let fetched: unknown;
+      await act(async () => {
+        fetched = await result.current.getCreatorTiers("0x" + "a".repeat(40));
+      });
+
+      expect(mockSDK.getCreatorTiers).toHaveBeenCalledWith("0x" + "a".repeat(40));
+      expect(fetched).toEqual(tiers);
+    });
+
+    it("sets a period discount", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      await act(async () => {
+        await result.current.setPeriodDiscount(12, 2000);
+      });
+
+      expect(mockSDK.setPeriodDiscount).toHaveBeenCalledWith(12, 2000);
+    });
+
+    it("gets period discounts and quotes", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      let discounts: unknown;
+      let quote: bigint | undefined;
+      await act(async () => {
+        discounts = await result.current.getPeriodDiscounts("0x" + "a".repeat(40));
+        quote = await result.current.quoteSubscription("0x" + "a".repeat(40), 0, 12);
+      });
+
+      expect(discounts).toEqual({ 1: 0, 3: 0, 6: 500, 12: 2000 });
+      expect(mockSDK.quoteSubscription).toHaveBeenCalledWith("0x" + "a".repeat(40), 0, 12);
+      expect(quote).toBe(BigInt(9600));
+    });
+
+    it("handles quote errors", async () => {
+      mockSDK.quoteSubscription.mockRejectedValueOnce(new Error("Quote failed"));
+
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      await act(async () => {
+        await expect(
+          result.current.quoteSubscription("0x" + "a".repeat(40), 0, 12)
+        ).rejects.toThrow("Quote failed");
+      });
+
+      expect(result.current.error?.message).toBe("Quote failed");
+    });
+  });
+
+  describe("earnings functions", () => {
+    it("withdraws earnings", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      let txHash: string = "";
+      await act(async () => {
+        txHash = await result.current.withdrawEarnings("0x" + "c".repeat(40));
+      });
+
+      expect(mockSDK.withdrawEarnings).toHaveBeenCalledWith("0x" + "c".repeat(40), undefined);
+      expect(txHash).toBe("0xtxhash");
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("withdraws token earnings", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      await act(async () => {
+        await result.current.withdrawEarnings(undefined, "0x" + "d".repeat(40));
+      });
+
+      expect(mockSDK.withdrawEarnings).toHaveBeenCalledWith(undefined, "0x" + "d".repeat(40));
+    });
+
+    it("handles withdraw errors", async () => {
+      mockSDK.withdrawEarnings.mockRejectedValueOnce(new Error("Withdraw failed"));
+
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      await act(async () => {
+        await expect(result.current.withdrawEarnings()).rejects.toThrow("Withdraw failed");
+      });
+
+      expect(result.current.error?.message).toBe("Withdraw failed");
+    });
+
+    it("gets creator earnings", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      let earnings: any;
+      await act(async () => {
+        earnings = await result.current.getCreatorEarnings("0x" + "a".repeat(40));
+      });
+
+      expect(mockSDK.getCreatorEarnings).toHaveBeenCalledWith("0x" + "a".repeat(40), undefined);
+      expect(earnings.balance).toBe(BigInt(3000));
+    });
+  });
+
+  describe("payment token functions", () => {
+    it("gets a creator's payment token", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      let token: any;
+      await act(async () => {
+        token = await result.current.getPaymentToken("0x" + "a".repeat(40));
+      });
+
+      expect(mockSDK.getPaymentToken).toHaveBeenCalledWith("0x" + "a".repeat(40));
+      expect(token.symbol).toBe("USDC");
+      expect(token.decimals).toBe(6);
+    });
+
+    it("subscribes with a permit", async () => {
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      let txHash: string = "";
+      await act(async () => {
+        txHash = await result.current.subscribeWithPermit("0x" + "a".repeat(40), 1, 3);
+      });
+
+      expect(mockSDK.subscribeWithPermit).toHaveBeenCalledWith(
+        "0x" + "a".repeat(40),
+        1,
+        3,
+        undefined,
+        undefined
+      );
+      expect(txHash).toBe("0xtxhash");
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("handles permit subscribe errors", async () => {
+      mockSDK.subscribeWithPermit.mockRejectedValueOnce(
+        new Error("Creator is not priced in an ERC-20 token")
+      );
+
+      const { result } = renderHook(() =>
+        useCryptletter({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: mockProvider,
+        })
+      );
+
+      await act(async () => {
+        await expect(
+          result.current.subscribeWithPermit("0x" + "a".repeat(40))
+        ).rejects.toThrow("Creator is not priced in an ERC-20 token");
+      });
+
+      expect(result.current.error?.message).toBe("Creator is not priced in an ERC-20 token");
+    });
+  });
+
+  describe("subscriber functions", () => {
+    describe("subscribe", () => {
+      it("subscribes successfully", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let txHash: string = "";
+        await act(async () => {
+          txHash = await result.current.subscribe("0x" + "a".repeat(40), BigInt(1000));
+        });
+
+        expect(mockSDK.subscribeToCreator).toHaveBeenCalledWith(
+          "0x" + "a".repeat(40),
+          BigInt(1000),
+          undefined,
+          undefined,
+          undefined
+        );
+        expect(txHash).toBe("0xtxhash");
+      });
+
+      it("passes the selected tier and period count", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await result.current.subscribe("0x" + "a".repeat(40), BigInt(3000), 2, 6);
+        });
+
+        expect(mockSDK.subscribeToCreator).toHaveBeenCalledWith(
+          "0x" + "a".repeat(40),
+          BigInt(3000),
+          2,
+          6,
+          undefined
+        );
+      });
+
+      it("passes a promo code", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await result.current.subscribe("0x" + "a".repeat(40), BigInt(800), 0, 1, "LAUNCH20");
+        });
+
+        expect(mockSDK.subscribeToCreator).toHaveBeenCalledWith(
+          "0x" + "a".repeat(40),
+          BigInt(800),
+          0,
+          1,
+          "LAUNCH20"
+        );
+      });
+
+      it("handles subscribe errors", async () => {
+        mockSDK.subscribeToCreator.mockRejectedValueOnce(new Error("Subscribe failed"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(
+            result.current.subscribe("0x" + "a".repeat(40), BigInt(1000))
+          ).rejects.toThrow("Subscribe failed");
+        });
+
+        expect(result.current.error?.message).toBe("Subscribe failed");
+      });
+    });
+
+    describe("renewSubscription", () => {
+      it("renews subscription successfully", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let txHash: string = "";
+        await act(async () => {
+          txHash = await result.current.renewSubscription("0x" + "a".repeat(40), BigInt(1000));
+        });
+
+        expect(mockSDK.renewSubscription).toHaveBeenCalledWith("0x" + "a".repeat(40), BigInt(1000));
+        expect(txHash).toBe("0xtxhash");
+      });
+
+      it("handles renew errors", async () => {
+        mockSDK.renewSubscription.mockRejectedValueOnce(new Error("Renew failed"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(
+            result.current.renewSubscription("0x" + "a".repeat(40), BigInt(1000))
+          ).rejects.toThrow("Renew failed");
+        });
+
+        expect(result.current.error?.message).toBe("Renew failed");
+      });
+    });
+
+    describe("complimentary access", () => {
+      it("grants access directly", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await result.current.grantComplimentaryAccess("0x" + "c".repeat(40), 86400);
+        });
+
+        expect(mockSDK.grantComplimentaryAccess).toHaveBeenCalledWith("0x" + "c".repeat(40), 86400);
+      });
+
+      it("creates, redeems and revokes vouchers", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let used = true;
+        await act(async () => {
+          const voucher = await result.current.createCompVoucher({ durationSeconds: 86400 });
+          await result.current.redeemCompVoucher(voucher);
+          await result.current.revokeCompVoucher(voucher.nonce);
+          used = await result.current.isVoucherUsed(voucher.creator, voucher.nonce);
+        });
+
+        expect(mockSDK.createCompVoucher).toHaveBeenCalledWith({ durationSeconds: 86400 });
+        expect(mockSDK.redeemCompVoucher).toHaveBeenCalledWith(expect.objectContaining({ nonce: 1n }));
+        expect(mockSDK.revokeCompVoucher).toHaveBeenCalledWith(1n);
+        expect(used).toBe(false);
+      });
+
+      it("creates, validates and disables promo codes", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let discountedPrice = BigInt(0);
+        await act(async () => {
+          await result.current.createPromoCode("LAUNCH20", { discountBps: 2000 });
+          ({ discountedPrice } = await result.current.validatePromoCode(
+            "0x" + "a".repeat(40),
+            "LAUNCH20",
+            0,
+            3
+          ));
+          await result.current.disablePromoCode("LAUNCH20");
+        });
+
+        expect(mockSDK.createPromoCode).toHaveBeenCalledWith("LAUNCH20", { discountBps: 2000 });
+        expect(mockSDK.validatePromoCode).toHaveBeenCalledWith(
+          "0x" + "a".repeat(40),
+          "LAUNCH20",
+          0,
+          3
+        );
+        expect(mockSDK.disablePromoCode).toHaveBeenCalledWith("LAUNCH20");
+        expect(discountedPrice).toBe(BigInt(800));
+      });
+
+      it("handles redemption errors", async () => {
+        mockSDK.redeemCompVoucher.mockRejectedValueOnce(new Error("VoucherUsed"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.redeemCompVoucher({} as any)).rejects.toThrow("VoucherUsed");
+        });
+
+        expect(result.current.error?.message).toBe("VoucherUsed");
+      });
+    });
+
+    describe("pay-per-view posts", () => {
+      it("purchases a post", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let txHash: string = "";
+        await act(async () => {
+          txHash = await result.current.purchasePost(3);
+        });
+
+        expect(mockSDK.purchasePost).toHaveBeenCalledWith(3);
+        expect(txHash).toBe("0xtxhash");
+      });
+
+      it("checks a purchase", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let purchased = false;
+        await act(async () => {
+          purchased = await result.current.hasPurchasedPost(3, "0x" + "c".repeat(40));
+        });
+
+        expect(mockSDK.hasPurchasedPost).toHaveBeenCalledWith(3, "0x" + "c".repeat(40));
+        expect(purchased).toBe(true);
+      });
+
+      it("handles purchase errors", async () => {
+        mockSDK.purchasePost.mockRejectedValueOnce(new Error("This post is not for sale"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.purchasePost(3)).rejects.toThrow("This post is not for sale");
+        });
+
+        expect(result.current.error?.message).toBe("This post is not for sale");
+      });
+    });
+
+    describe("free trials", () => {
+      it("starts a trial", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let txHash: string = "";
+        await act(async () => {
+          txHash = await result.current.startTrial("0x" + "a".repeat(40));
+        });
+
+        expect(mockSDK.startTrial).toHaveBeenCalledWith("0x" + "a".repeat(40));
+        expect(txHash).toBe("0xtxhash");
+      });
+
+      it("sets and reads the trial length", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let duration = 0;
+        let used = true;
+        await act(async () => {
+          await result.current.setTrialDuration(604800);
+          duration = await result.current.getTrialDuration("0x" + "a".repeat(40));
+          used = await result.current.hasUsedTrial("0x" + "c".repeat(40), "0x" + "a".repeat(40));
+        });
+
+        expect(mockSDK.setTrialDuration).toHaveBeenCalledWith(604800);
+        expect(duration).toBe(604800);
+        expect(used).toBe(false);
+      });
+
+      it("handles trial errors", async () => {
+        mockSDK.startTrial.mockRejectedValueOnce(new Error("Trial unavailable"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.startTrial("0x" + "a".repeat(40))).rejects.toThrow(
+            "Trial unavailable"
+          );
+        });
+
+        expect(result.current.error?.message).toBe("Trial unavailable");
+      });
+    });
+
+    describe("giftSubscription", () => {
+      it("gifts a subscription with a note", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let txHash: string = "";
+        await act(async () => {
+          txHash = await result.current.giftSubscription(
+            "0x" + "a".repeat(40),
+            "0x" + "c".repeat(40),
+            BigInt(3000),
+            3,
+            "Enjoy!"
+          );
+        });
+
+        expect(mockSDK.giftSubscription).toHaveBeenCalledWith(
+          "0x" + "a".repeat(40),
+          "0x" + "c".repeat(40),
+          BigInt(3000),
+          3,
+          "Enjoy!",
+          mockFhevmInstance
+        );
+        expect(txHash).toBe("0xtxhash");
+      });
+
+      it("requires an FHEVM instance for notes", async () => {
+        (useFhevmInstance as any).mockReturnValue(undefined);
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(
+            result.current.giftSubscription("0x" + "a".repeat(40), "0x" + "c".repeat(40), BigInt(1000), 1, "Hi")
+          ).rejects.toThrow("FHEVM instance not initialized");
+        });
+        expect(mockSDK.giftSubscription).not.toHaveBeenCalled();
       });
 
-      it("throws when SDK not initialized", async () => {
+      it("handles gift errors", async () => {
+        mockSDK.giftSubscription.mockRejectedValueOnce(new Error("Gift failed"));
+
         const { result } = renderHook(() =>
           useCryptletter({
-            contractAddress: "",
+            contractAddress: "0x" + "b".repeat(40),
             contractABI: [],
             ipfsJWT: "test-jwt",
             provider: mockProvider,
@@ -484,18 +1533,16 @@ describe("useCryptletter Hook", () => {
 
         await act(async () => {
           await expect(
-            result.current.publishNewsletter({
-              title: "Test",
-              content: "Content",
-              author: "Author",
-            })
-          ).rejects.toThrow("SDK not initialized");
+            result.current.giftSubscription("0x" + "a".repeat(40), "0x" + "c".repeat(40), BigInt(1000))
+          ).rejects.toThrow("Gift failed");
         });
-      });
 
-      it("throws when FHEVM instance not initialized", async () => {
-        (useFhevmInstance as any).mockReturnValueOnce(undefined);
+        expect(result.current.error?.message).toBe("Gift failed");
+      });
+    });
 
+    describe("cancelSubscription", () => {
+      it("cancels subscription successfully", async () => {
         const { result } = renderHook(() =>
           useCryptletter({
             contractAddress: "0x" + "b".repeat(40),
@@ -505,19 +1552,17 @@ describe("useCryptletter Hook", () => {
           })
         );
 
+        let txHash: string = "";
         await act(async () => {
-          await expect(
-            result.current.publishNewsletter({
-              title: "Test",
-              content: "Content",
-              author: "Author",
-            })
-          ).rejects.toThrow("FHEVM instance not initialized");
+          txHash = await result.current.cancelSubscription("0x" + "a".repeat(40));
         });
+
+        expect(mockSDK.cancelSubscription).toHaveBeenCalledWith("0x" + "a".repeat(40));
+        expect(txHash).toBe("0xtxhash");
       });
 
-      it("handles publish errors", async () => {
-        mockSDK.publishEncryptedNewsletter.mockRejectedValueOnce(new Error("Publish failed"));
+      it("handles cancel errors", async () => {
+        mockSDK.cancelSubscription.mockRejectedValueOnce(new Error("Cancel failed"));
 
         const { result } = renderHook(() =>
           useCryptletter({
@@ -530,23 +1575,16 @@ describe("useCryptletter Hook", () => {
 
         await act(async () => {
           await expect(
-            result.current.publishNewsletter({
-              title: "Test",
-              content: "Content",
-              author: "Author",
-            })
-          ).rejects.toThrow("Publish failed");
+            result.current.cancelSubscription("0x" + "a".repeat(40))
+          ).rejects.toThrow("Cancel failed");
         });
 
-        expect(result.current.error?.message).toBe("Publish failed");
-        expect(result.current.isPublishing).toBe(false);
+        expect(result.current.error?.message).toBe("Cancel failed");
       });
     });
-  });
 
-  describe("subscriber functions", () => {
-    describe("subscribe", () => {
-      it("subscribes successfully", async () => {
+    describe("overpayment preference", () => {
+      it("sets overpayment preference", async () => {
         const { result } = renderHook(() =>
           useCryptletter({
             contractAddress: "0x" + "b".repeat(40),
@@ -558,19 +1596,15 @@ describe("useCryptletter Hook", () => {
 
         let txHash: string = "";
         await act(async () => {
-          txHash = await result.current.subscribe("0x" + "a".repeat(40), BigInt(1000));
+          txHash = await result.current.setOverpaymentPreference(true);
         });
 
-        expect(mockSDK.subscribeToCreator).toHaveBeenCalledWith(
-          "0x" + "a".repeat(40),
-          BigInt(1000)
-        );
+        expect(mockSDK.setOverpaymentPreference).toHaveBeenCalledWith(true);
         expect(txHash).toBe("0xtxhash");
+        expect(result.current.isLoading).toBe(false);
       });
 
-      it("handles subscribe errors", async () => {
-        mockSDK.subscribeToCreator.mockRejectedValueOnce(new Error("Subscribe failed"));
-
+      it("gets overpayment preference", async () => {
         const { result } = renderHook(() =>
           useCryptletter({
             contractAddress: "0x" + "b".repeat(40),
@@ -580,18 +1614,18 @@ describe("useCryptletter Hook", () => {
           })
         );
 
+        let credit = true;
         await act(async () => {
-          await expect(
-            result.current.subscribe("0x" + "a".repeat(40), BigInt(1000))
-          ).rejects.toThrow("Subscribe failed");
+          credit = await result.current.getOverpaymentPreference("0x" + "c".repeat(40));
         });
 
-        expect(result.current.error?.message).toBe("Subscribe failed");
+        expect(mockSDK.getOverpaymentPreference).toHaveBeenCalledWith("0x" + "c".repeat(40));
+        expect(credit).toBe(false);
       });
-    });
 
-    describe("renewSubscription", () => {
-      it("renews subscription successfully", async () => {
+      it("handles overpayment preference errors", async () => {
+        mockSDK.setOverpaymentPreference.mockRejectedValueOnce(new Error("Preference failed"));
+
         const { result } = renderHook(() =>
           useCryptletter({
             contractAddress: "0x" + "b".repeat(40),
@@ -601,18 +1635,20 @@ describe("useCryptletter Hook", () => {
           })
         );
 
-        let txHash: string = "";
         await act(async () => {
-          txHash = await result.current.renewSubscription("0x" + "a".repeat(40), BigInt(1000));
+          await expect(result.current.setOverpaymentPreference(true)).rejects.toThrow(
+            "Preference failed"
+          );
         });
 
-        expect(mockSDK.renewSubscription).toHaveBeenCalledWith("0x" + "a".repeat(40), BigInt(1000));
-        expect(txHash).toBe("0xtxhash");
+        expect(result.current.error?.message).toBe("Preference failed");
       });
+    });
 
-      it("handles renew errors", async () => {
-        mockSDK.renewSubscription.mockRejectedValueOnce(new Error("Renew failed"));
+    describe("auto-renew", () => {
+      const creator = "0x" + "c".repeat(40);
 
+      it("toggles auto-renew and manages the escrow", async () => {
         const { result } = renderHook(() =>
           useCryptletter({
             contractAddress: "0x" + "b".repeat(40),
@@ -623,17 +1659,18 @@ describe("useCryptletter Hook", () => {
         );
 
         await act(async () => {
-          await expect(
-            result.current.renewSubscription("0x" + "a".repeat(40), BigInt(1000))
-          ).rejects.toThrow("Renew failed");
+          await result.current.fundRenewalEscrow(creator, 3000000000000000000n);
+          await result.current.setAutoRenew(creator, true);
+          await result.current.withdrawRenewalEscrow(creator);
         });
 
-        expect(result.current.error?.message).toBe("Renew failed");
+        expect(mockSDK.fundRenewalEscrow).toHaveBeenCalledWith(creator, 3000000000000000000n);
+        expect(mockSDK.setAutoRenew).toHaveBeenCalledWith(creator, true);
+        expect(mockSDK.withdrawRenewalEscrow).toHaveBeenCalledWith(creator, undefined);
+        expect(result.current.isLoading).toBe(false);
       });
-    });
 
-    describe("cancelSubscription", () => {
-      it("cancels subscription successfully", async () => {
+      it("processes renewals", async () => {
         const { result } = renderHook(() =>
           useCryptletter({
             contractAddress: "0x" + "b".repeat(40),
@@ -643,17 +1680,39 @@ describe("useCryptletter Hook", () => {
           })
         );
 
-        let txHash: string = "";
+        let txHash = "";
         await act(async () => {
-          txHash = await result.current.cancelSubscription("0x" + "a".repeat(40));
+          txHash = await result.current.processRenewals(["0x" + "d".repeat(40)], creator);
         });
 
-        expect(mockSDK.cancelSubscription).toHaveBeenCalledWith("0x" + "a".repeat(40));
+        expect(mockSDK.processRenewals).toHaveBeenCalledWith(["0x" + "d".repeat(40)], creator);
         expect(txHash).toBe("0xtxhash");
       });
 
-      it("handles cancel errors", async () => {
-        mockSDK.cancelSubscription.mockRejectedValueOnce(new Error("Cancel failed"));
+      it("gets auto-renew status", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let escrowBalance = 0n;
+        await act(async () => {
+          ({ escrowBalance } = await result.current.getAutoRenewStatus(
+            "0x" + "d".repeat(40),
+            creator
+          ));
+        });
+
+        expect(mockSDK.getAutoRenewStatus).toHaveBeenCalledWith("0x" + "d".repeat(40), creator);
+        expect(escrowBalance).toBe(3000000000000000000n);
+      });
+
+      it("handles auto-renew errors", async () => {
+        mockSDK.setAutoRenew.mockRejectedValueOnce(new Error("Auto-renew failed"));
 
         const { result } = renderHook(() =>
           useCryptletter({
@@ -665,12 +1724,12 @@ describe("useCryptletter Hook", () => {
         );
 
         await act(async () => {
-          await expect(
-            result.current.cancelSubscription("0x" + "a".repeat(40))
-          ).rejects.toThrow("Cancel failed");
+          await expect(result.current.setAutoRenew(creator, true)).rejects.toThrow(
+            "Auto-renew failed"
+          );
         });
 
-        expect(result.current.error?.message).toBe("Cancel failed");
+        expect(result.current.error?.message).toBe("Auto-renew failed");
       });
     });
   });
@@ -729,10 +1788,10 @@ describe("useCryptletter Hook", () => {
 
         let fetchResult: FetchResult | undefined;
         await act(async () => {
-          fetchResult = await result.current.decryptNewsletterContent(1, "decryptedKey");
+          fetchResult = await result.current.decryptNewsletterContent(1, "decryptedKey", { allowUnbound: true });
         });
 
-        expect(mockSDK.decryptNewsletterContent).toHaveBeenCalledWith(1, "decryptedKey");
+        expect(mockSDK.decryptNewsletterContent).toHaveBeenCalledWith(1, "decryptedKey", { allowUnbound: true });
         expect(fetchResult).toEqual(mockFetchResult);
       });
 
@@ -846,6 +1905,137 @@ describe("useCryptletter Hook", () => {
   });
 
   describe("query functions", () => {
+    describe("listSubscribers", () => {
+      it("lists subscribers with options", async () => {
+        const subscriber = { address: "0x" + "c".repeat(40), isActive: true, hasAccess: true };
+        mockSDK.listSubscribers.mockResolvedValueOnce([subscriber]);
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let subscribers: unknown;
+        await act(async () => {
+          subscribers = await result.current.listSubscribers("0x" + "a".repeat(40), { activeOnly: true });
+        });
+
+        expect(mockSDK.listSubscribers).toHaveBeenCalledWith("0x" + "a".repeat(40), { activeOnly: true });
+        expect(subscribers).toEqual([subscriber]);
+      });
+
+      it("handles list subscribers errors", async () => {
+        mockSDK.listSubscribers.mockRejectedValueOnce(new Error("List failed"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.listSubscribers("0x" + "a".repeat(40))).rejects.toThrow("List failed");
+        });
+
+        expect(result.current.error?.message).toBe("List failed");
+      });
+    });
+
+    describe("getActiveSubscriberCount", () => {
+      it("returns the active subscriber count", async () => {
+        mockSDK.getActiveSubscriberCount.mockResolvedValueOnce(7);
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let count: number | undefined;
+        await act(async () => {
+          count = await result.current.getActiveSubscriberCount("0x" + "a".repeat(40));
+        });
+
+        expect(mockSDK.getActiveSubscriberCount).toHaveBeenCalledWith("0x" + "a".repeat(40));
+        expect(count).toBe(7);
+      });
+
+      it("handles count errors", async () => {
+        mockSDK.getActiveSubscriberCount.mockRejectedValueOnce(new Error("Count failed"));
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.getActiveSubscriberCount("0x" + "a".repeat(40))).rejects.toThrow(
+            "Count failed"
+          );
+        });
+
+        expect(result.current.error?.message).toBe("Count failed");
+      });
+    });
+
+    describe("getSubscribedCreators", () => {
+      it("returns every creator the address subscribed to", async () => {
+        mockSDK.getSubscribedCreators.mockResolvedValueOnce(["0x" + "a".repeat(40)]);
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let creators: unknown;
+        await act(async () => {
+          creators = await result.current.getSubscribedCreators("0x" + "c".repeat(40));
+        });
+
+        expect(mockSDK.getSubscribedCreators).toHaveBeenCalledWith("0x" + "c".repeat(40));
+        expect(creators).toEqual(["0x" + "a".repeat(40)]);
+      });
+
+      it("falls back to a default error message", async () => {
+        mockSDK.getSubscribedCreators.mockRejectedValueOnce("String error");
+
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await expect(result.current.getSubscribedCreators("0x" + "c".repeat(40))).rejects.toThrow(
+            "Failed to get subscribed creators"
+          );
+        });
+
+        expect(result.current.error?.message).toBe("Failed to get subscribed creators");
+      });
+    });
+
     describe("getCreator", () => {
       it("gets creator successfully", async () => {
         const { result } = renderHook(() =>
@@ -1040,6 +2230,27 @@ describe("useCryptletter Hook", () => {
       });
     });
 
+    describe("getNewsletterVersions", () => {
+      it("gets the version history of a post", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let versions: any[] | undefined;
+        await act(async () => {
+          versions = await result.current.getNewsletterVersions(1);
+        });
+
+        expect(mockSDK.getNewsletterVersions).toHaveBeenCalledWith(1);
+        expect(versions).toHaveLength(1);
+      });
+    });
+
     describe("getCreators", () => {
       it("gets creators successfully", async () => {
         const { result } = renderHook(() =>
@@ -1056,10 +2267,27 @@ describe("useCryptletter Hook", () => {
           creators = await result.current.getCreators(0, 10);
         });
 
-        expect(mockSDK.getCreators).toHaveBeenCalledWith(0, 10);
+        expect(mockSDK.getCreators).toHaveBeenCalledWith(0, 10, undefined);
         expect(creators).toEqual(["0x" + "a".repeat(40)]);
       });
 
+      it("gets active creators only", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        await act(async () => {
+          await result.current.getCreators(0, 10, true);
+        });
+
+        expect(mockSDK.getCreators).toHaveBeenCalledWith(0, 10, true);
+      });
+
       it("gets creators without pagination", async () => {
         const { result } = renderHook(() =>
           useCryptletter({
@@ -1074,7 +2302,7 @@ describe("useCryptletter Hook", () => {
           await result.current.getCreators();
         });
 
-        expect(mockSDK.getCreators).toHaveBeenCalledWith(undefined, undefined);
+        expect(mockSDK.getCreators).toHaveBeenCalledWith(undefined, undefined, undefined);
       });
 
       it("handles get creators errors", async () => {
@@ -1117,6 +2345,25 @@ describe("useCryptletter Hook", () => {
         expect(count).toBe(1);
       });
 
+      it("gets active creator count", async () => {
+        const { result } = renderHook(() =>
+          useCryptletter({
+            contractAddress: "0x" + "b".repeat(40),
+            contractABI: [],
+            ipfsJWT: "test-jwt",
+            provider: mockProvider,
+          })
+        );
+
+        let count: number | undefined;
+        await act(async () => {
+          count = await result.current.getActiveCreatorCount();
+        });
+
+        expect(mockSDK.getActiveCreatorCount).toHaveBeenCalled();
+        expect(count).toBe(1);
+      });
+
       it("handles get count errors", async () => {
         mockSDK.getCreatorCount.mockRejectedValueOnce(new Error("Get count failed"));
 
@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from "vitest";
 import { renderHook, act, waitFor } from "@testing-library/react";
 import { useSubscriptions } from "../../src/react/useSubscriptions";
-import type { SubscriptionStatus, CreatorProfile } from "../../src/core/cryptletter";
+import type {
+  SubscriptionStatus,
+  CreatorProfile,
+  SubscriptionTier,
+  PaymentToken,
+} from "../../src/core/cryptletter";
 
 // Mock useCryptletter
 vi.mock("../../src/react/useCryptletter", () => ({
@@ -18,31 +23,82 @@ describe("useSubscriptions Hook", () => {
     subscriberCount: BigInt(10),
     isActive: true,
     address: "0x" + "a".repeat(40),
+    paymentToken: "0x" + "0".repeat(40),
+  };
+
+  const mockPaymentToken: PaymentToken = {
+    address: "0x" + "0".repeat(40),
+    symbol: "ETH",
+    decimals: 18,
+    isNative: true,
   };
 
   const mockActiveSubscription: SubscriptionStatus = {
     isActive: true,
     expiresAt: BigInt(Math.floor(Date.now() / 1000) + 86400 * 10), // 10 days from now
     daysRemaining: 10,
+
+    tierId: 0,
+    creditedTime: 0,
   };
 
   const mockExpiringSubscription: SubscriptionStatus = {
     isActive: true,
     expiresAt: BigInt(Math.floor(Date.now() / 1000) + 86400 * 5), // 5 days from now
     daysRemaining: 5,
+
+    tierId: 0,
+    creditedTime: 0,
   };
 
   const mockExpiredSubscription: SubscriptionStatus = {
     isActive: false,
     expiresAt: BigInt(Math.floor(Date.now() / 1000) - 86400), // 1 day ago
     daysRemaining: 0,
+
+    tierId: 0,
+    creditedTime: 0,
   };
 
+  const mockTiers: SubscriptionTier[] = [
+    {
+      tierId: 0,
+      name: "Standard",
+      price: BigInt("1000000000000000000"), // 1 ETH
+      duration: 2592000,
+      rank: 0,
+      isActive: true,
+    },
+    {
+      tierId: 1,
+      name: "Pro",
+      price: BigInt("3000000000000000000"), // 3 ETH
+      duration: 2592000,
+      rank: 1,
+      isActive: true,
+    },
+    {
+      tierId: 2,
+      name: "Founding",
+      price: BigInt("10000000000000000000"), // 10 ETH
+      duration: 31536000,
+      rank: 2,
+      isActive: false,
+    },
+  ];
+
   const mockSubscribe = vi.fn();
   const mockRenewSubscription = vi.fn();
   const mockCancelSubscription = vi.fn();
   const mockGetSubscriptionStatus = vi.fn();
   const mockGetCreator = vi.fn();
+  const mockGetCreatorTiers = vi.fn();
+  const mockQuoteSubscription = vi.fn();
+  const mockSubscribeWithPermit = vi.fn();
+  const mockGetPaymentToken = vi.fn();
+  const mockStartTrial = vi.fn();
+  const mockValidatePromoCode = vi.fn();
+  const mockGetSubscribedCreators = vi.fn();
 
   const mockUseCryptletterReturn = {
     subscribe: mockSubscribe,
@@ -50,6 +106,17 @@ describe("useSubscriptions Hook", () => {
     cancelSubscription: mockCancelSubscription,
     getSubscriptionStatus: mockGetSubscriptionStatus,
     getCreator: mockGetCreator,
+    getCreatorTiers: mockGetCreatorTiers,
+    quoteSubscription: mockQuoteSubscription,
+    subscribeWithPermit: mockSubscribeWithPermit,
+    getPaymentToken: mockGetPaymentToken,
+    startTrial: mockStartTrial,
+    validatePromoCode: mockValidatePromoCode,
+    getSubscribedCreators: mockGetSubscribedCreators,
+    getPeriodDiscounts: vi.fn(),
+    setPeriodDiscount: vi.fn(),
+    createTier: vi.fn(),
+    updateTier: vi.fn(),
     updateProfile: vi.fn(),
     updatePrice: vi.fn(),
     registerAsCreator: vi.fn(),
@@ -75,6 +142,14 @@ describe("useSubscriptions Hook", () => {
     mockCancelSubscription.mockResolvedValue("0xtxhash");
     mockGetSubscriptionStatus.mockResolvedValue(mockActiveSubscription);
     mockGetCreator.mockResolvedValue(mockCreatorProfile);
+    mockGetCreatorTiers.mockResolvedValue(mockTiers);
+    mockSubscribeWithPermit.mockResolvedValue("0xpermittx");
+    mockGetPaymentToken.mockResolvedValue(mockPaymentToken);
+    mockStartTrial.mockResolvedValue("0xtrialtx");
+    mockGetSubscribedCreators.mockResolvedValue([]);
+    mockQuoteSubscription.mockImplementation((_creator: string, tierId: number, periods: number) =>
+      Promise.resolve(mockTiers[tierId].price * BigInt(periods))
+    );
     (useCryptletter as any).mockReturnValue(mockUseCryptletterReturn);
   });
 
@@ -137,7 +212,10 @@ describe("useSubscriptions Hook", () => {
       expect(mockGetCreator).toHaveBeenCalledWith("0x" + "a".repeat(40));
       expect(mockSubscribe).toHaveBeenCalledWith(
         "0x" + "a".repeat(40),
-        mockCreatorProfile.monthlyPrice
+        mockTiers[0].price,
+        0,
+        1,
+        undefined
       );
       expect(mockGetSubscriptionStatus).toHaveBeenCalledWith(
         "0x" + "c".repeat(40),
@@ -147,6 +225,160 @@ describe("useSubscriptions Hook", () => {
       expect(result.current.subscriptions.size).toBe(1);
     });
 
+    it("subscribes to a selected tier at that tier's price", async () => {
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await result.current.subscribe("0x" + "a".repeat(40), 1);
+      });
+
+      expect(mockGetCreatorTiers).toHaveBeenCalledWith("0x" + "a".repeat(40));
+      expect(mockSubscribe).toHaveBeenCalledWith(
+        "0x" + "a".repeat(40),
+        mockTiers[1].price,
+        1,
+        1,
+        undefined
+      );
+    });
+
+    it("subscribes for several periods at the quoted price", async () => {
+      mockQuoteSubscription.mockResolvedValueOnce(BigInt("9600000000000000000"));
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await result.current.subscribe("0x" + "a".repeat(40), 0, 12);
+      });
+
+      expect(mockQuoteSubscription).toHaveBeenCalledWith("0x" + "a".repeat(40), 0, 12);
+      expect(mockSubscribe).toHaveBeenCalledWith(
+        "0x" + "a".repeat(40),
+        BigInt("9600000000000000000"),
+        0,
+        12,
+        undefined
+      );
+    });
+
+    it("subscribes at the discounted price of a promo code", async () => {
+      mockValidatePromoCode.mockResolvedValueOnce({
+        valid: true,
+        originalPrice: BigInt("1000000000000000000"),
+        discountedPrice: BigInt("800000000000000000"),
+        promoCode: null,
+      });
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await result.current.subscribe("0x" + "a".repeat(40), 0, 1, false, "LAUNCH20");
+      });
+
+      expect(mockValidatePromoCode).toHaveBeenCalledWith("0x" + "a".repeat(40), "LAUNCH20", 0, 1);
+      expect(mockQuoteSubscription).not.toHaveBeenCalled();
+      expect(mockSubscribe).toHaveBeenCalledWith(
+        "0x" + "a".repeat(40),
+        BigInt("800000000000000000"),
+        0,
+        1,
+        "LAUNCH20"
+      );
+    });
+
+    it("rejects an invalid promo code before paying", async () => {
+      mockValidatePromoCode.mockResolvedValueOnce({
+        valid: false,
+        reason: "This promo code has expired",
+        originalPrice: BigInt("1000000000000000000"),
+        discountedPrice: BigInt("1000000000000000000"),
+        promoCode: null,
+      });
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await expect(
+          result.current.subscribe("0x" + "a".repeat(40), 0, 1, false, "OLD")
+        ).rejects.toThrow("This promo code has expired");
+      });
+
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+
+    it("subscribes with a permit signature when requested", async () => {
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      let txHash: string = "";
+      await act(async () => {
+        txHash = await result.current.subscribe("0x" + "a".repeat(40), 1, 3, true);
+      });
+
+      expect(mockSubscribeWithPermit).toHaveBeenCalledWith("0x" + "a".repeat(40), 1, 3, undefined);
+      expect(mockSubscribe).not.toHaveBeenCalled();
+      expect(txHash).toBe("0xpermittx");
+    });
+
+    it("rejects subscription to a retired tier", async () => {
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await expect(result.current.subscribe("0x" + "a".repeat(40), 2)).rejects.toThrow(
+          "Subscription tier is not available"
+        );
+      });
+
+      expect(mockSubscribe).not.toHaveBeenCalled();
+    });
+
     it("rejects subscription to inactive creator", async () => {
       const inactiveCreator = { ...mockCreatorProfile, isActive: false };
       mockGetCreator.mockResolvedValueOnce(inactiveCreator);
@@ -236,7 +468,7 @@ describe("useSubscriptions Hook", () => {
       expect(mockGetCreator).toHaveBeenCalledWith("0x" + "a".repeat(40));
       expect(mockRenewSubscription).toHaveBeenCalledWith(
         "0x" + "a".repeat(40),
-        mockCreatorProfile.monthlyPrice
+        mockTiers[0].price
       );
       expect(mockGetSubscriptionStatus).toHaveBeenCalledWith(
         "0x" + "c".repeat(40),
@@ -245,6 +477,26 @@ describe("useSubscriptions Hook", () => {
       expect(txHash).toBe("0xtxhash");
     });
 
+    it("renews at the price of the subscriber's current tier", async () => {
+      mockGetSubscriptionStatus.mockResolvedValue({ ...mockActiveSubscription, tierId: 1 });
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await result.current.renewSubscription("0x" + "a".repeat(40));
+      });
+
+      expect(mockRenewSubscription).toHaveBeenCalledWith("0x" + "a".repeat(40), mockTiers[1].price);
+    });
+
     it("rejects renewal for inactive creator", async () => {
       const inactiveCreator = { ...mockCreatorProfile, isActive: false };
       mockGetCreator.mockResolvedValueOnce(inactiveCreator);
@@ -314,6 +566,51 @@ describe("useSubscriptions Hook", () => {
     });
   });
 
+  describe("startTrial", () => {
+    it("starts a trial and tracks the creator", async () => {
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      let txHash: string = "";
+      await act(async () => {
+        txHash = await result.current.startTrial("0x" + "a".repeat(40));
+      });
+
+      expect(mockStartTrial).toHaveBeenCalledWith("0x" + "a".repeat(40));
+      expect(result.current.subscriptions.has("0x" + "a".repeat(40))).toBe(true);
+      expect(txHash).toBe("0xtrialtx");
+    });
+
+    it("handles trial errors", async () => {
+      mockStartTrial.mockRejectedValueOnce(new Error("Trial unavailable"));
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await expect(result.current.startTrial("0x" + "a".repeat(40))).rejects.toThrow(
+          "Trial unavailable"
+        );
+      });
+
+      expect(result.current.error?.message).toBe("Trial unavailable");
+    });
+  });
+
   describe("cancelSubscription", () => {
     it("cancels subscription successfully", async () => {
       const { result } = renderHook(() =>
@@ -453,6 +750,29 @@ describe("useSubscriptions Hook", () => {
       expect(subscription).toBeDefined();
       expect(subscription?.status).toEqual(mockActiveSubscription);
       expect(subscription?.creatorProfile).toEqual(mockCreatorProfile);
+      expect(subscription?.paymentToken).toEqual(mockPaymentToken);
+    });
+
+    it("tracks a null payment token when the lookup fails", async () => {
+      mockGetPaymentToken.mockRejectedValueOnce(new Error("Token lookup failed"));
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await act(async () => {
+        await result.current.checkSubscriptionStatus("0x" + "a".repeat(40));
+      });
+
+      const subscription = result.current.subscriptions.get("0x" + "a".repeat(40));
+      expect(subscription?.paymentToken).toBeNull();
+      expect(subscription?.status).toEqual(mockActiveSubscription);
     });
 
     it("does nothing when subscriberAddress is not provided", async () => {
@@ -566,6 +886,118 @@ describe("useSubscriptions Hook", () => {
     });
   });
 
+  describe("discoverSubscriptions", () => {
+    const creatorA = "0x" + "a".repeat(40);
+    const creatorD = "0x" + "d".repeat(40);
+
+    afterEach(() => {
+      (useCryptletter as any).mockReturnValue(mockUseCryptletterReturn);
+    });
+
+    it("tracks every creator the subscriber has subscribed to once the SDK is ready", async () => {
+      (useCryptletter as any).mockReturnValue({ ...mockUseCryptletterReturn, sdk: {} });
+      mockGetSubscribedCreators.mockResolvedValueOnce([creatorA, creatorD]);
+      mockGetSubscriptionStatus
+        .mockResolvedValueOnce(mockActiveSubscription)
+        .mockResolvedValueOnce(mockExpiredSubscription);
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.subscriptions.size).toBe(2);
+      });
+
+      expect(mockGetSubscribedCreators).toHaveBeenCalledWith("0x" + "c".repeat(40));
+      expect(result.current.activeSubscriptions.map((sub) => sub.creatorAddress)).toEqual([creatorA]);
+      expect(result.current.isLoading).toBe(false);
+    });
+
+    it("does not discover when autoDiscover is disabled", async () => {
+      (useCryptletter as any).mockReturnValue({ ...mockUseCryptletterReturn, sdk: {} });
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+          autoDiscover: false,
+        })
+      );
+
+      expect(mockGetSubscribedCreators).not.toHaveBeenCalled();
+
+      mockGetSubscribedCreators.mockResolvedValueOnce([creatorA]);
+      await act(async () => {
+        await result.current.discoverSubscriptions();
+      });
+
+      expect(result.current.subscriptions.has(creatorA)).toBe(true);
+    });
+
+    it("waits for the SDK before discovering", () => {
+      renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      expect(mockGetSubscribedCreators).not.toHaveBeenCalled();
+    });
+
+    it("does nothing without subscriberAddress", async () => {
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+        })
+      );
+
+      await act(async () => {
+        await result.current.discoverSubscriptions();
+      });
+
+      expect(mockGetSubscribedCreators).not.toHaveBeenCalled();
+    });
+
+    it("sets error when discovery fails", async () => {
+      (useCryptletter as any).mockReturnValue({ ...mockUseCryptletterReturn, sdk: {} });
+      mockGetSubscribedCreators.mockRejectedValueOnce("String error");
+      const consoleSpy = vi.spyOn(console, "error").mockImplementation(() => {});
+
+      const { result } = renderHook(() =>
+        useSubscriptions({
+          contractAddress: "0x" + "b".repeat(40),
+          contractABI: [],
+          ipfsJWT: "test-jwt",
+          provider: {} as any,
+          subscriberAddress: "0x" + "c".repeat(40),
+        })
+      );
+
+      await waitFor(() => {
+        expect(result.current.error?.message).toBe("Failed to discover subscriptions");
+      });
+
+      consoleSpy.mockRestore();
+    });
+  });
+
   describe("refreshAll", () => {
     it("refreshes all tracked subscriptions", async () => {
       const { result } = renderHook(() =>
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, afterEach, beforeEach } from "vitest";
+import * as zlib from "zlib";
+import {
+  compress,
+  decompress,
+  MAX_DECOMPRESSED_SIZE,
+  type ContentCompression,
+} from "../../src/utils/compression";
+
+const encoder = new TextEncoder();
+
+function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length);
+  for (let offset = 0; offset < length; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, length)));
+  }
+  return bytes;
+}
+
+const samples: Record<string, Uint8Array> = {
+  empty: new Uint8Array(0),
+  short: encoder.encode("a"),
+  text: encoder.encode("<p>" + "Lorem ipsum dolor sit amet, consectetur adipiscing elit. ".repeat(400) + "</p>"),
+  runs: new Uint8Array(100000).fill(7),
+  random: randomBytes(70000),
+};
+
+describe("Compression Utils", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe.each(["gzip", "deflate"] as ContentCompression[])("compress/decompress (%s)", (format) => {
+    it("round-trips with CompressionStream", async () => {
+      const compressed = await compress(samples.text, format);
+
+      expect(compressed.length).toBeLessThan(samples.text.length);
+      expect(await decompress(compressed, format)).toEqual(samples.text);
+    });
+
+    it.each(Object.entries(samples))("round-trips %s data", async (_name, data) => {
+      expect(await decompress(await compress(data, format), format)).toEqual(data);
+    });
+
+    it("falls back to fflate without CompressionStream", async () => {
+      const native = await compress(samples.text, format);
+
+      vi.stubGlobal("CompressionStream", undefined);
+      vi.stubGlobal("DecompressionStream", undefined);
+      const fallback = await compress(samples.text, format);
+
+      expect(fallback.length).toBeLessThan(samples.text.length);
+      expect(await decompress(native, format)).toEqual(samples.text);
+      expect(await decompress(fallback, format)).toEqual(samples.text);
+
+      vi.unstubAllGlobals();
+      expect(await decompress(fallback, format)).toEqual(samples.text);
+    });
+
+    it.each([
+      ["CompressionStream", false],
+      ["fflate", true],
+    ])("stops at the size limit with %s", async (_name, stub) => {
+      const compressed = await compress(samples.runs, format);
+      if (stub) {
+        vi.stubGlobal("DecompressionStream", undefined);
+      }
+
+      await expect(decompress(compressed, format, 1000)).rejects.toThrow("Decompressed data exceeds 1000 bytes");
+      expect(await decompress(compressed, format, samples.runs.length)).toEqual(samples.runs);
+    });
+
+    it.each([
+      ["CompressionStream", false],
+      ["fflate", true],
+    ])("caps output at MAX_DECOMPRESSED_SIZE by default with %s", async (_name, stub) => {
+      const bomb = await compress(new Uint8Array(MAX_DECOMPRESSED_SIZE + 1), format);
+      if (stub) {
+        vi.stubGlobal("DecompressionStream", undefined);
+      }
+
+      await expect(decompress(bomb, format)).rejects.toThrow(
+        `Decompressed data exceeds ${MAX_DECOMPRESSED_SIZE} bytes`
+      );
+    });
+  });
+
+  describe("without CompressionStream", () => {
+    beforeEach(() => {
+      vi.stubGlobal("CompressionStream", undefined);
+      vi.stubGlobal("DecompressionStream", undefined);
+    });
+
+    it.each(Object.entries(samples))("produces %s output that zlib can read", async (_name, data) => {
+      expect(new Uint8Array(zlib.gunzipSync(await compress(data, "gzip")))).toEqual(data);
+      expect(new Uint8Array(zlib.inflateSync(await compress(data, "deflate")))).toEqual(data);
+    });
+
+    it.each([0, 1, 6, 9])("reads zlib's output at level %i", async (level) => {
+      for (const data of Object.values(samples)) {
+        expect(await decompress(new Uint8Array(zlib.gzipSync(data, { level })), "gzip")).toEqual(data);
+        expect(await decompress(new Uint8Array(zlib.deflateSync(data, { level })), "deflate")).toEqual(data);
+      }
+    });
+
+    it("rejects data in the wrong format", async () => {
+      await expect(decompress(samples.text, "gzip")).rejects.toThrow(/invalid gzip data/);
+    });
+
+    it("rejects truncated data", async () => {
+      const compressed = await compress(samples.text, "deflate");
+
+      await expect(decompress(compressed.subarray(0, compressed.length / 2), "deflate")).rejects.toThrow();
+    });
+
+    it("rejects gzip data with a missing or wrong trailer", async () => {
+      const compressed = await compress(samples.text, "gzip");
+      const corrupted = compressed.slice();
+      corrupted[corrupted.length - 1] ^= 1;
+
+      await expect(decompress(compressed.subarray(0, compressed.length - 2), "gzip")).rejects.toThrow();
+      await expect(decompress(corrupted, "gzip")).rejects.toThrow(/invalid gzip data/);
+    });
+
+    it("rejects empty input", async () => {
+      await expect(decompress(new Uint8Array(0), "gzip")).rejects.toThrow();
+      await expect(decompress(new Uint8Array(0), "deflate")).rejects.toThrow();
+    });
+  });
+
+  it("rejects unsupported formats", async () => {
+    await expect(compress(samples.text, "brotli" as ContentCompression)).rejects.toThrow(
+      "Unsupported compression format: brotli"
+    );
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, it, expect } from "vitest";
+import { toCsvField } from "../../src/utils/csv";
+
+describe("CSV Utils", () => {
+  describe("toCsvField", () => {
+    it("leaves plain values alone", () => {
+      expect(toCsvField("0x1234567890abcdef1234567890abcdef12345678")).toBe(
+        "0x1234567890abcdef1234567890abcdef12345678"
+      );
+      expect(toCsvField("Gold tier")).toBe("Gold tier");
+      expect(toCsvField("2030-01-07T09:00:00.000Z")).toBe("2030-01-07T09:00:00.000Z");
+      expect(toCsvField("")).toBe("");
+    });
+
+    it.each(["=", "+", "-", "@", "\t", "\r"])("defuses formulas starting with %j", (lead) => {
+      expect(toCsvField(`${lead}SUM(A1:A9)`)).toMatch(/^"?'/);
+    });
+
+    it("prefixes without quoting when nothing else needs escaping", () => {
+      expect(toCsvField("=1+1")).toBe("'=1+1");
+      expect(toCsvField("@cmd")).toBe("'@cmd");
+      expect(toCsvField("\tTab")).toBe("'\tTab");
+    });
+
+    it("quotes fields with commas, quotes or line breaks", () => {
+      expect(toCsvField("Gold, annual")).toBe('"Gold, annual"');
+      expect(toCsvField('The "VIP" tier')).toBe('"The ""VIP"" tier"');
+      expect(toCsvField("Line\nbreak")).toBe('"Line\nbreak"');
+      expect(toCsvField("Carriage\rreturn")).toBe('"Carriage\rreturn"');
+    });
+
+    it("defuses and quotes together", () => {
+      expect(toCsvField('=HYPERLINK("http://evil.example","Click")')).toBe(
+        `"'=HYPERLINK(""http://evil.example"",""Click"")"`
+      );
+      expect(toCsvField("\r=1+1")).toBe(`"'\r=1+1"`);
+    });
+  });
+});
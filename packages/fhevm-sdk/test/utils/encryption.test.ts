@@ -15,10 +15,30 @@ import {
   createPreview,
   AES_KEY_SIZE,
   AES_IV_SIZE,
+  AES_AUTH_TAG_SIZE,
+  BUNDLE_MAGIC,
+  ENCRYPTION_VERSION,
+  ENCRYPTION_VERSION_AAD,
+  encodeEncryptionContext,
+  getBundleContext,
   type NewsletterData,
   type EncryptedBundle,
+  type EncryptionContext,
 } from "../../src/utils/encryption";
 
+/**
+ * Serialize the way the SDK did before the binary format (base64 of JSON number arrays)
+ */
+function serializeLegacyBundle(bundle: EncryptedBundle): string {
+  const data = {
+    ciphertext: Array.from(bundle.ciphertext),
+    iv: Array.from(bundle.iv),
+    authTag: Array.from(bundle.authTag),
+    version: bundle.version,
+  };
+  return Buffer.from(JSON.stringify(data)).toString("base64");
+}
+
 describe("Encryption Utilities", () => {
   let testNewsletter: NewsletterData;
 
@@ -138,6 +158,157 @@ describe("Encryption Utilities", () => {
     });
   });
 
+  describe("compression", () => {
+    const longNewsletter = (): NewsletterData => ({
+      ...testNewsletter,
+      content: "<p>" + "Long-form issues repeat a lot of markup and prose. ".repeat(300) + "</p>",
+    });
+
+    it.each(["gzip", "deflate"] as const)("should round-trip %s-compressed content", async (compression) => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(longNewsletter(), key, { compression });
+
+      expect(encrypted.header).toEqual({ compression });
+      expect(await decryptContent(encrypted, key)).toEqual(longNewsletter());
+    });
+
+    it("should keep the compression in the serialized header", async () => {
+      const key = generateAESKey();
+      const serialized = serializeBundle(await encryptContent(longNewsletter(), key, { compression: "gzip" }));
+
+      const deserialized = deserializeBundle(serialized);
+
+      expect(deserialized.header).toEqual({ compression: "gzip" });
+      expect(await decryptContent(deserialized, key)).toEqual(longNewsletter());
+    });
+
+    it("should shrink long-form content substantially", async () => {
+      const key = generateAESKey();
+      const plain = serializeBundle(await encryptContent(longNewsletter(), key));
+      const compressed = serializeBundle(await encryptContent(longNewsletter(), key, { compression: "gzip" }));
+
+      expect(compressed.length * 10).toBeLessThan(plain.length);
+    });
+
+    it("should leave uncompressed bundles without a header", async () => {
+      const encrypted = await encryptContent(testNewsletter, generateAESKey());
+
+      expect(encrypted.header).toBeUndefined();
+    });
+
+    it("should still decrypt legacy v1 bundles", async () => {
+      const key = generateAESKey();
+      const legacy = serializeLegacyBundle(await encryptContent(testNewsletter, key));
+
+      expect(await decryptContent(deserializeBundle(legacy), key)).toEqual(testNewsletter);
+    });
+
+    it("should reject unknown compression formats", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key);
+
+      await expect(
+        decryptContent({ ...encrypted, header: { compression: "brotli" } }, key)
+      ).rejects.toThrow(/Unsupported compression: brotli/);
+    });
+  });
+
+  describe("post binding (AAD)", () => {
+    const context: EncryptionContext = {
+      chainId: 11155111,
+      contract: "0x" + "a".repeat(40),
+      creator: "0x" + "B".repeat(40),
+      postNonce: 4,
+    };
+
+    it("should record the context and AAD scheme in the bundle", async () => {
+      const encrypted = await encryptContent(testNewsletter, generateAESKey(), { compression: "gzip", context });
+
+      expect(encrypted.version).toBe(ENCRYPTION_VERSION_AAD);
+      expect(encrypted.header).toEqual({ compression: "gzip", ...context });
+      expect(getBundleContext(deserializeBundle(serializeBundle(encrypted)))).toEqual(context);
+    });
+
+    it("should decrypt under the recorded or the expected context", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key, { context });
+
+      expect(await decryptContent(encrypted, key)).toEqual(testNewsletter);
+      expect(
+        await decryptContent(encrypted, key, { context: { ...context, creator: context.creator.toLowerCase() } })
+      ).toEqual(testNewsletter);
+    });
+
+    it.each([
+      ["chain", { chainId: 1 }],
+      ["contract", { contract: "0x" + "c".repeat(40) }],
+      ["creator", { creator: "0x" + "d".repeat(40) }],
+      ["post", { postNonce: 5 }],
+    ])("should reject a bundle expected on another %s", async (_field, change) => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key, { context });
+
+      await expect(decryptContent(encrypted, key, { context: { ...context, ...change } })).rejects.toThrow(
+        "Bundle was encrypted for a different post"
+      );
+    });
+
+    it("should fail authentication when the recorded context is tampered with", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key, { context });
+      const moved = { ...encrypted, header: { ...encrypted.header, postNonce: 5 } };
+
+      await expect(decryptContent(moved, key, { context: { ...context, postNonce: 5 } })).rejects.toThrow(
+        /Failed to decrypt content/
+      );
+    });
+
+    it("should reject bound bundles that lost their context", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key, { context });
+
+      await expect(decryptContent({ ...encrypted, header: undefined }, key)).rejects.toThrow(
+        "Bundle header is missing its encryption context"
+      );
+    });
+
+    it("should refuse unbound bundles when a context is expected", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key);
+
+      expect(encrypted.version).toBe(ENCRYPTION_VERSION);
+      expect(getBundleContext(encrypted)).toBeNull();
+      await expect(decryptContent(encrypted, key, { context })).rejects.toThrow("Bundle isn't bound to a post");
+    });
+
+    it("should decrypt unbound bundles with allowUnbound", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key);
+
+      expect(await decryptContent(encrypted, key, { context, allowUnbound: true })).toEqual(testNewsletter);
+      expect(await decryptContent(encrypted, key)).toEqual(testNewsletter);
+    });
+
+    it("should still check bound bundles with allowUnbound", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key, { context });
+
+      await expect(
+        decryptContent(encrypted, key, { context: { ...context, postNonce: 5 }, allowUnbound: true })
+      ).rejects.toThrow("Bundle was encrypted for a different post");
+    });
+
+    it("should encode the context canonically", () => {
+      expect(new TextDecoder().decode(encodeEncryptionContext(context))).toBe(
+        `cryptletter:aad-v1:11155111:0x${"a".repeat(40)}:0x${"b".repeat(40)}:4`
+      );
+      expect(() => encodeEncryptionContext({ ...context, creator: "0x1234" })).toThrow(
+        "Invalid encryption context address"
+      );
+      expect(() => encodeEncryptionContext({ ...context, postNonce: -1 })).toThrow("Invalid encryption context");
+    });
+  });
+
   describe("aesKeyToFHEInput and fheOutputToAESKey", () => {
     it("should convert AES key to hex string and back", () => {
       const originalKey = generateAESKey();
@@ -184,8 +355,9 @@ describe("Encryption Utilities", () => {
 
       const serialized = serializeBundle(encrypted);
 
-      expect(typeof serialized).toBe("string");
-      expect(serialized.length).toBeGreaterThan(0);
+      expect(serialized).toBeInstanceOf(Uint8Array);
+      expect(serialized.slice(0, 4)).toEqual(BUNDLE_MAGIC);
+      expect(serialized[4]).toBe(2);
 
       const deserialized = deserializeBundle(serialized);
 
@@ -210,6 +382,102 @@ describe("Encryption Utilities", () => {
         /Failed to deserialize encrypted bundle/
       );
     });
+
+    it("should keep header fields", async () => {
+      const encrypted = await encryptContent(testNewsletter, generateAESKey());
+      const header = { contentType: "application/json", chunks: 3, compressed: false };
+
+      const deserialized = deserializeBundle(serializeBundle({ ...encrypted, header }));
+
+      expect(deserialized.header).toEqual(header);
+      expect(deserialized.ciphertext).toEqual(encrypted.ciphertext);
+    });
+
+    it("should leave the header out when there is none", async () => {
+      const encrypted = await encryptContent(testNewsletter, generateAESKey());
+
+      expect(deserializeBundle(serializeBundle(encrypted))).not.toHaveProperty("header");
+    });
+
+    it("should accept a 0x-prefixed hex string", async () => {
+      const key = generateAESKey();
+      const encrypted = await encryptContent(testNewsletter, key);
+      const hex = "0x" + Buffer.from(serializeBundle(encrypted)).toString("hex");
+
+      expect(await decryptContent(deserializeBundle(hex), key)).toEqual(testNewsletter);
+    });
+
+    it("should reject unknown format versions", async () => {
+      const serialized = serializeBundle(await encryptContent(testNewsletter, generateAESKey()));
+      serialized[4] = 3;
+
+      expect(() => deserializeBundle(serialized)).toThrow(/Unsupported bundle format version: 3/);
+    });
+
+    it("should reject truncated bundles", async () => {
+      const serialized = serializeBundle(await encryptContent(testNewsletter, generateAESKey()));
+
+      expect(() => deserializeBundle(serialized.slice(0, 20))).toThrow(/Truncated bundle/);
+    });
+
+    describe("legacy v1 bundles", () => {
+      it("should decrypt a v1 base64 string", async () => {
+        const key = generateAESKey();
+        const legacy = serializeLegacyBundle(await encryptContent(testNewsletter, key));
+
+        expect(await decryptContent(deserializeBundle(legacy), key)).toEqual(testNewsletter);
+      });
+
+      it("should decrypt v1 bytes as downloaded from IPFS", async () => {
+        const key = generateAESKey();
+        const legacy = serializeLegacyBundle(await encryptContent(testNewsletter, key));
+        const downloaded = new TextEncoder().encode(legacy);
+
+        expect(await decryptContent(deserializeBundle(downloaded), key)).toEqual(testNewsletter);
+      });
+
+      it("should decrypt v1 gift notes read from event bytes", async () => {
+        const key = generateAESKey();
+        const legacy = serializeLegacyBundle(await encryptContent(testNewsletter, key));
+        const eventBytes = "0x" + Buffer.from(legacy).toString("hex");
+
+        expect(await decryptContent(deserializeBundle(eventBytes), key)).toEqual(testNewsletter);
+      });
+    });
+  });
+
+  describe("bundle size", () => {
+    // magic (4) + format/flags/lengths (5) + "1.0.0" (5) + IV + auth tag
+    const V2_OVERHEAD = 14 + AES_IV_SIZE + AES_AUTH_TAG_SIZE;
+
+    const largeNewsletter = (): NewsletterData => ({
+      ...testNewsletter,
+      content: "<p>" + "Lorem ipsum dolor sit amet, consectetur adipiscing elit. ".repeat(200) + "</p>",
+    });
+
+    it("should add a fixed overhead on top of the ciphertext", async () => {
+      const encrypted = await encryptContent(largeNewsletter(), generateAESKey());
+
+      expect(serializeBundle(encrypted).length).toBe(encrypted.ciphertext.length + V2_OVERHEAD);
+    });
+
+    it("should stay within a few bytes of the plaintext", async () => {
+      const newsletter = largeNewsletter();
+      const plaintextSize = new TextEncoder().encode(JSON.stringify(newsletter)).length;
+
+      const serialized = serializeBundle(await encryptContent(newsletter, generateAESKey()));
+
+      expect(serialized.length).toBe(plaintextSize + V2_OVERHEAD);
+    });
+
+    it("should be at least 4x smaller than the v1 format", async () => {
+      const encrypted = await encryptContent(largeNewsletter(), generateAESKey());
+
+      const v1Size = new TextEncoder().encode(serializeLegacyBundle(encrypted)).length;
+      const v2Size = serializeBundle(encrypted).length;
+
+      expect(v2Size * 4).toBeLessThan(v1Size);
+    });
   });
 
   describe("createPreview", () => {
@@ -7,16 +7,22 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import {
   extractBase64ImagesFromJson,
+  extractEncryptedImageCidsFromJson,
   base64ToUint8Array,
   encryptImage,
   decryptImage,
+  decryptImageStream,
   uploadImagesToIPFS,
+  reencryptImages,
   replaceImagesInHtml,
   replaceImagesInJson,
   processNewsletterImages,
+  inlineEncryptedImages,
   type ImageData,
   type UploadedImage,
 } from "../../src/utils/imageProcessor";
+import { ENCRYPTION_VERSION_AAD, deserializeBundle, type EncryptionContext } from "../../src/utils/encryption";
+import { bytesToStream, encryptStream, isEncryptedStream, readStream } from "../../src/utils/streamEncryption";
 import type { IPFSClient } from "../../src/utils/ipfs";
 
 // Sample base64 images (1x1 pixels PNG)
@@ -30,6 +36,14 @@ const SAMPLE_BASE64_IMAGE_2 =
 const SAMPLE_BASE64_IMAGE_3 =
   "data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M/wHwAEBgIApD5fRAAAAABJRU5ErkJggg==";
 
+// Post the images are read for
+const POST_CONTEXT: EncryptionContext = {
+  chainId: 1,
+  contract: "0x" + "1".repeat(40),
+  creator: "0x" + "3".repeat(40),
+  postNonce: 0,
+};
+
 describe("Image Processing Utilities", () => {
   describe("extractBase64ImagesFromJson", () => {
     it("should extract images from flat content", () => {
@@ -218,8 +232,8 @@ describe("Image Processing Utilities", () => {
       const originalData = new Uint8Array([1, 2, 3, 4, 5]);
       const aesKey = crypto.getRandomValues(new Uint8Array(32));
 
-      const encrypted = await encryptImage(originalData, aesKey);
-      const decrypted = await decryptImage(encrypted, aesKey);
+      const encrypted = await encryptImage(originalData, aesKey, POST_CONTEXT);
+      const decrypted = await decryptImage(encrypted, aesKey, POST_CONTEXT);
 
       expect(decrypted).toEqual(originalData);
     });
@@ -231,7 +245,7 @@ describe("Image Processing Utilities", () => {
 
       const encrypted = await encryptImage(originalData, aesKey1);
 
-      await expect(decryptImage(encrypted, aesKey2)).rejects.toThrow();
+      await expect(decryptImage(encrypted, aesKey2, POST_CONTEXT)).rejects.toThrow();
     });
 
     it("should handle large image data", async () => {
@@ -239,23 +253,136 @@ describe("Image Processing Utilities", () => {
       largeData.fill(42);
       const aesKey = crypto.getRandomValues(new Uint8Array(32));
 
-      const encrypted = await encryptImage(largeData, aesKey);
-      const decrypted = await decryptImage(encrypted, aesKey);
+      const encrypted = await encryptImage(largeData, aesKey, POST_CONTEXT);
+      const decrypted = await decryptImage(encrypted, aesKey, POST_CONTEXT);
 
       expect(decrypted).toEqual(largeData);
     });
+
+    describe("bound to a post", () => {
+      const context: EncryptionContext = {
+        chainId: 1,
+        contract: "0x" + "1".repeat(40),
+        creator: "0x" + "3".repeat(40),
+        postNonce: 0,
+      };
+
+      it("should store bound images as bundles recording the context", async () => {
+        const aesKey = crypto.getRandomValues(new Uint8Array(32));
+
+        const bundle = deserializeBundle(await encryptImage(new Uint8Array([1, 2, 3]), aesKey, context));
+
+        expect(bundle.version).toBe(ENCRYPTION_VERSION_AAD);
+        expect(bundle.header).toEqual(context);
+      });
+
+      it("should decrypt under the expected context", async () => {
+        const originalData = new Uint8Array([1, 2, 3, 4, 5]);
+        const aesKey = crypto.getRandomValues(new Uint8Array(32));
+
+        const encrypted = await encryptImage(originalData, aesKey, context);
+
+        expect(await decryptImage(encrypted, aesKey, context)).toEqual(originalData);
+      });
+
+      it("should reject images from another post", async () => {
+        const aesKey = crypto.getRandomValues(new Uint8Array(32));
+
+        const encrypted = await encryptImage(new Uint8Array([1, 2, 3]), aesKey, context);
+
+        await expect(decryptImage(encrypted, aesKey, { ...context, postNonce: 1 })).rejects.toThrow(
+          "Bundle was encrypted for a different post"
+        );
+      });
+
+      it("should refuse legacy images, which aren't bound to a post", async () => {
+        const aesKey = crypto.getRandomValues(new Uint8Array(32));
+
+        const encrypted = await encryptImage(new Uint8Array([1, 2, 3]), aesKey);
+
+        await expect(decryptImage(encrypted, aesKey, context)).rejects.toThrow("Image isn't bound to a post");
+        await expect(decryptImageStream(bytesToStream(encrypted), aesKey, context)).rejects.toThrow(
+          "Image isn't bound to a post"
+        );
+      });
+
+      it("should decrypt legacy images with allowUnbound", async () => {
+        const originalData = new Uint8Array([1, 2, 3, 4, 5]);
+        const aesKey = crypto.getRandomValues(new Uint8Array(32));
+
+        const encrypted = await encryptImage(originalData, aesKey);
+
+        expect(await decryptImage(encrypted, aesKey, context, { allowUnbound: true })).toEqual(originalData);
+      });
+
+      it("should still check bound images with allowUnbound", async () => {
+        const aesKey = crypto.getRandomValues(new Uint8Array(32));
+
+        const encrypted = await encryptImage(new Uint8Array([1, 2, 3]), aesKey, context);
+
+        await expect(
+          decryptImage(encrypted, aesKey, { ...context, postNonce: 1 }, { allowUnbound: true })
+        ).rejects.toThrow("Bundle was encrypted for a different post");
+      });
+    });
+  });
+
+  describe("decryptImageStream", () => {
+    const originalData = crypto.getRandomValues(new Uint8Array(5000));
+
+    it("should decrypt chunked images chunk by chunk", async () => {
+      const aesKey = crypto.getRandomValues(new Uint8Array(32));
+      const encrypted = encryptStream(bytesToStream(originalData, 700), aesKey, {
+        chunkSize: 1024,
+        context: POST_CONTEXT,
+      });
+
+      const reader = (await decryptImageStream(encrypted, aesKey, POST_CONTEXT)).getReader();
+      const first = await reader.read();
+
+      expect(first.value).toEqual(originalData.slice(0, 1024));
+      reader.releaseLock();
+    });
+
+    const formats: [string, (data: Uint8Array, key: Uint8Array, context?: EncryptionContext) => Promise<Uint8Array>][] = [
+      ["chunked", (data, key, context) => readStream(encryptStream(bytesToStream(data), key, { context }))],
+      ["one-shot", (data, key, context) => encryptImage(data, key, context)],
+    ];
+
+    it.each(formats)("should decrypt %s images", async (_format, encrypt) => {
+      const aesKey = crypto.getRandomValues(new Uint8Array(32));
+      const encrypted = await encrypt(originalData, aesKey, POST_CONTEXT);
+
+      const decrypted = await readStream(
+        await decryptImageStream(bytesToStream(encrypted, 1000), aesKey, POST_CONTEXT)
+      );
+
+      expect(decrypted).toEqual(originalData);
+    });
+
+    it.each(formats)("should reject %s images from another post", async (_format, encrypt) => {
+      const aesKey = crypto.getRandomValues(new Uint8Array(32));
+      const encrypted = await encrypt(originalData, aesKey, POST_CONTEXT);
+
+      const read = async () =>
+        readStream(await decryptImageStream(bytesToStream(encrypted), aesKey, { ...POST_CONTEXT, postNonce: 1 }));
+
+      await expect(read()).rejects.toThrow("Bundle was encrypted for a different post");
+    });
   });
 
   describe("uploadImagesToIPFS", () => {
     let mockIPFSClient: IPFSClient;
 
     beforeEach(() => {
+      const uploaded = {
+        cid: "QmTestCID123",
+        url: "https://gateway.pinata.cloud/ipfs/QmTestCID123",
+        size: 100,
+      };
       mockIPFSClient = {
-        uploadToIPFS: vi.fn().mockResolvedValue({
-          cid: "QmTestCID123",
-          url: "https://gateway.pinata.cloud/ipfs/QmTestCID123",
-          size: 100,
-        }),
+        uploadToIPFS: vi.fn().mockResolvedValue(uploaded),
+        uploadStream: vi.fn().mockResolvedValue(uploaded),
       } as any;
     });
 
@@ -292,8 +419,9 @@ describe("Image Processing Utilities", () => {
 
       expect(result).toHaveLength(1);
       expect(result[0].encrypted).toBe(true);
-      expect(mockIPFSClient.uploadToIPFS).toHaveBeenCalledWith(
-        expect.any(Uint8Array),
+      expect(mockIPFSClient.uploadToIPFS).not.toHaveBeenCalled();
+      expect(mockIPFSClient.uploadStream).toHaveBeenCalledWith(
+        expect.any(ReadableStream),
         expect.objectContaining({
           name: expect.stringContaining(".enc"),
           keyValues: expect.objectContaining({
@@ -303,6 +431,17 @@ describe("Image Processing Utilities", () => {
       );
     });
 
+    it("should upload encrypted images as chunked streams", async () => {
+      const images: ImageData[] = [{ src: SAMPLE_BASE64_IMAGE, index: 0 }];
+      const aesKey = crypto.getRandomValues(new Uint8Array(32));
+
+      await uploadImagesToIPFS(images, mockIPFSClient, true, aesKey, POST_CONTEXT);
+
+      const uploaded = await readStream(vi.mocked(mockIPFSClient.uploadStream).mock.calls[0][0]);
+      expect(isEncryptedStream(uploaded)).toBe(true);
+      expect(await decryptImage(uploaded, aesKey, POST_CONTEXT)).toEqual(base64ToUint8Array(SAMPLE_BASE64_IMAGE));
+    });
+
     it("should throw error when encryption requested without AES key", async () => {
       const images: ImageData[] = [{ src: SAMPLE_BASE64_IMAGE, index: 0 }];
 
@@ -578,12 +717,14 @@ describe("Image Processing Utilities", () => {
     let mockIPFSClient: IPFSClient;
 
     beforeEach(() => {
+      const uploaded = {
+        cid: "QmProcessed123",
+        url: "https://gateway.pinata.cloud/ipfs/QmProcessed123",
+        size: 100,
+      };
       mockIPFSClient = {
-        uploadToIPFS: vi.fn().mockResolvedValue({
-          cid: "QmProcessed123",
-          url: "https://gateway.pinata.cloud/ipfs/QmProcessed123",
-          size: 100,
-        }),
+        uploadToIPFS: vi.fn().mockResolvedValue(uploaded),
+        uploadStream: vi.fn().mockResolvedValue(uploaded),
       } as any;
     });
 
@@ -691,4 +832,178 @@ describe("Image Processing Utilities", () => {
       ).rejects.toThrow(/Image upload failed/);
     });
   });
+
+  describe("inlineEncryptedImages", () => {
+    const aesKey = new Uint8Array(32).fill(7);
+    const imageBytes = base64ToUint8Array(SAMPLE_BASE64_IMAGE);
+    const ipfsUrl = "https://gateway.pinata.cloud/ipfs/QmEncrypted";
+    let mockIPFSClient: IPFSClient;
+
+    beforeEach(async () => {
+      const encrypted = await encryptImage(imageBytes, aesKey, POST_CONTEXT);
+      mockIPFSClient = {
+        downloadFromIPFS: vi.fn().mockResolvedValue(encrypted),
+      } as any;
+    });
+
+    it("should replace encrypted images with data URLs", async () => {
+      const json = {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              {
+                type: "image",
+                attrs: { src: ipfsUrl, "data-ipfs-cid": "QmEncrypted", "data-encrypted": "true" },
+              },
+            ],
+          },
+          { type: "image", attrs: { src: "https://example.com/public.png" } },
+        ],
+      };
+
+      const result = await inlineEncryptedImages(json, mockIPFSClient, aesKey, POST_CONTEXT);
+
+      expect(mockIPFSClient.downloadFromIPFS).toHaveBeenCalledTimes(1);
+      expect(mockIPFSClient.downloadFromIPFS).toHaveBeenCalledWith("QmEncrypted");
+      expect(result.json.content[0].content[0].attrs).toEqual({ src: SAMPLE_BASE64_IMAGE });
+      expect(result.json.content[1].attrs.src).toBe("https://example.com/public.png");
+      expect(json.content[0].content![0].attrs!.src).toBe(ipfsUrl); // Input is not mutated
+      expect(result.images).toEqual([
+        { index: 0, ipfsCid: "QmEncrypted", ipfsUrl, originalSrc: SAMPLE_BASE64_IMAGE, encrypted: true },
+      ]);
+    });
+
+    it("should round-trip through replaceImagesInJson", async () => {
+      const json = {
+        type: "doc",
+        content: [
+          { type: "image", attrs: { src: ipfsUrl, "data-ipfs-cid": "QmEncrypted", "data-encrypted": "true" } },
+        ],
+      };
+
+      const { json: inlined, images } = await inlineEncryptedImages(json, mockIPFSClient, aesKey, POST_CONTEXT);
+
+      expect(replaceImagesInJson(inlined, images)).toEqual(json);
+      expect(extractBase64ImagesFromJson(replaceImagesInJson(inlined, images))).toHaveLength(0);
+    });
+
+    it("should refuse images bound to another post", async () => {
+      const json = {
+        type: "doc",
+        content: [
+          { type: "image", attrs: { src: ipfsUrl, "data-ipfs-cid": "QmEncrypted", "data-encrypted": "true" } },
+        ],
+      };
+
+      await expect(
+        inlineEncryptedImages(json, mockIPFSClient, aesKey, { ...POST_CONTEXT, postNonce: 3 })
+      ).rejects.toThrow("Bundle was encrypted for a different post");
+    });
+
+    it("should return empty results for missing content", async () => {
+      const result = await inlineEncryptedImages(null, mockIPFSClient, aesKey, POST_CONTEXT);
+
+      expect(result).toEqual({ json: null, images: [] });
+    });
+  });
+
+  describe("extractEncryptedImageCidsFromJson", () => {
+    it("should collect the CIDs of encrypted images only", () => {
+      const json = {
+        type: "doc",
+        content: [
+          {
+            type: "paragraph",
+            content: [
+              { type: "image", attrs: { src: "ipfs://QmOne", "data-ipfs-cid": "QmOne", "data-encrypted": "true" } },
+            ],
+          },
+          { type: "image", attrs: { src: "ipfs://QmPublic", "data-ipfs-cid": "QmPublic", "data-encrypted": "false" } },
+          { type: "image", attrs: { src: SAMPLE_BASE64_IMAGE } },
+          { type: "image", attrs: { src: "ipfs://QmTwo", "data-ipfs-cid": "QmTwo", "data-encrypted": "true" } },
+        ],
+      };
+
+      expect(extractEncryptedImageCidsFromJson(json)).toEqual(["QmOne", "QmTwo"]);
+    });
+
+    it("should handle missing content", () => {
+      expect(extractEncryptedImageCidsFromJson(null)).toEqual([]);
+    });
+  });
+
+  describe("reencryptImages", () => {
+    const oldKey = new Uint8Array(32).fill(1);
+    const newKey = new Uint8Array(32).fill(2);
+    const imageBytes = base64ToUint8Array(SAMPLE_BASE64_IMAGE);
+    const context: EncryptionContext = {
+      chainId: 1,
+      contract: "0x" + "1".repeat(40),
+      creator: "0x" + "3".repeat(40),
+      postNonce: 4,
+    };
+    let mockIPFSClient: IPFSClient;
+    let uploads: Uint8Array[];
+
+    beforeEach(() => {
+      uploads = [];
+      mockIPFSClient = {
+        downloadStream: vi.fn(async () => encryptStream(bytesToStream(imageBytes), oldKey, { context })),
+        uploadStream: vi.fn(async (stream: ReadableStream<Uint8Array>) => {
+          uploads.push(await readStream(stream));
+          const cid = `QmRotated${uploads.length}`;
+          return { cid, url: `https://gateway.pinata.cloud/ipfs/${cid}`, size: 100 };
+        }),
+      } as any;
+    });
+
+    it("should re-upload each image once, sealed with the new key", async () => {
+      const result = await reencryptImages(["QmOld1", "QmOld2", "QmOld1"], mockIPFSClient, oldKey, newKey, context);
+
+      expect(result).toEqual(
+        new Map([
+          ["QmOld1", "QmRotated1"],
+          ["QmOld2", "QmRotated2"],
+        ])
+      );
+      expect(mockIPFSClient.downloadStream).toHaveBeenCalledTimes(2);
+      expect(isEncryptedStream(uploads[0])).toBe(true);
+      expect(await decryptImage(uploads[0], newKey, context)).toEqual(imageBytes);
+      await expect(decryptImage(uploads[0], oldKey, context)).rejects.toThrow();
+    });
+
+    it("should re-encrypt images in the older one-shot format", async () => {
+      vi.mocked(mockIPFSClient.downloadStream).mockResolvedValueOnce(
+        bytesToStream(await encryptImage(imageBytes, oldKey, context))
+      );
+
+      await reencryptImages(["QmOneShot"], mockIPFSClient, oldKey, newKey, context);
+
+      expect(isEncryptedStream(uploads[0])).toBe(true);
+      expect(await decryptImage(uploads[0], newKey, context)).toEqual(imageBytes);
+    });
+
+    it("should bind legacy unbound images to the post only with allowUnbound", async () => {
+      const legacy = await encryptImage(imageBytes, oldKey);
+      vi.mocked(mockIPFSClient.downloadStream).mockImplementation(async () => bytesToStream(legacy));
+
+      await expect(reencryptImages(["QmLegacy"], mockIPFSClient, oldKey, newKey, context)).rejects.toThrow(
+        "Image re-encryption failed for QmLegacy: Image isn't bound to a post"
+      );
+
+      await reencryptImages(["QmLegacy"], mockIPFSClient, oldKey, newKey, context, { allowUnbound: true });
+
+      expect(uploads).toHaveLength(1);
+      expect(await decryptImage(uploads[0], newKey, context)).toEqual(imageBytes);
+    });
+
+    it("should fail when an image doesn't decrypt with the old key", async () => {
+      await expect(
+        reencryptImages(["QmOld1"], mockIPFSClient, new Uint8Array(32).fill(3), newKey, context)
+      ).rejects.toThrow(/^Image re-encryption failed for QmOld1: .*chunk 0 failed authentication$/);
+      expect(uploads).toHaveLength(0);
+    });
+  });
 });
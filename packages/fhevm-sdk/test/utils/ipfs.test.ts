@@ -5,7 +5,7 @@
  * Full integration tests require valid Pinata credentials.
  */
 
-import { describe, it, expect, beforeEach, vi } from "vitest";
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
 import {
   IPFSClient,
   createIPFSClient,
@@ -112,6 +112,162 @@ describe("IPFS Utilities", () => {
     });
   });
 
+  describe("IPFSClient - uploadStream", () => {
+    const chunks = () =>
+      new ReadableStream<Uint8Array>({
+        start(controller) {
+          controller.enqueue(new Uint8Array([1, 2, 3]));
+          controller.enqueue(new Uint8Array([4, 5, 6]));
+          controller.close();
+        },
+      });
+
+    // Reads the request body the way the network would, so the stream is actually pulled
+    const mockPinFetch = () => {
+      const sent: { url?: string; init?: RequestInit; body?: Uint8Array } = {};
+      global.fetch = vi.fn().mockImplementation(async (url: string, init: RequestInit) => {
+        sent.url = url;
+        sent.init = init;
+        sent.body = new Uint8Array(await new Response(init.body).arrayBuffer());
+        return new Response(JSON.stringify({ IpfsHash: "QmStream123", PinSize: 6 }));
+      });
+      return sent;
+    };
+
+    it("should stream the chunks to Pinata as a multipart body", async () => {
+      const client = new IPFSClient(mockConfig);
+      const upload = vi.spyOn((client as any).pinata.upload, "file");
+      const sent = mockPinFetch();
+
+      const result = await client.uploadStream(chunks(), { name: "attachment.enc" });
+
+      expect(result).toEqual({
+        cid: "QmStream123",
+        url: "https://test-gateway.pinata.cloud/ipfs/QmStream123",
+        size: 6,
+      });
+      expect(upload).not.toHaveBeenCalled();
+      expect(sent.url).toBe("https://api.pinata.cloud/pinning/pinFileToIPFS");
+      expect((sent.init as any).duplex).toBe("half");
+      expect(sent.init!.body).toBeInstanceOf(ReadableStream);
+
+      const headers = sent.init!.headers as Record<string, string>;
+      expect(headers.Authorization).toBe("Bearer test_jwt_token_12345");
+      const boundary = headers["Content-Type"].match(/^multipart\/form-data; boundary=(.+)$/)![1];
+
+      const body = new TextDecoder("latin1").decode(sent.body);
+      expect(body).toContain('name="pinataMetadata"\r\n\r\n{"name":"attachment.enc"}');
+      expect(body).toContain(
+        'name="file"; filename="content.bin"\r\nContent-Type: application/octet-stream\r\n\r\n\x01\x02\x03\x04\x05\x06\r\n'
+      );
+      expect(body.endsWith(`--${boundary}--\r\n`)).toBe(true);
+    });
+
+    it("should report Pinata errors", async () => {
+      const client = new IPFSClient(mockConfig);
+      global.fetch = vi.fn().mockResolvedValue(new Response("Invalid JWT", { status: 401 }));
+
+      await expect(client.uploadStream(chunks())).rejects.toThrow(
+        "Failed to upload to IPFS: HTTP 401: Invalid JWT"
+      );
+    });
+
+    it("should fail when the stream errors", async () => {
+      const client = new IPFSClient(mockConfig);
+      mockPinFetch();
+      const stream = new ReadableStream<Uint8Array>({
+        pull() {
+          throw new Error("Encryption failed");
+        },
+      });
+
+      await expect(client.uploadStream(stream)).rejects.toThrow(
+        "Failed to upload to IPFS: Encryption failed"
+      );
+    });
+
+    describe("without request streams", () => {
+      beforeEach(() => {
+        vi.stubGlobal("Request", undefined);
+      });
+
+      afterEach(() => {
+        vi.unstubAllGlobals();
+      });
+
+      it("should upload every chunk of the stream as one file", async () => {
+        const client = new IPFSClient(mockConfig);
+        const upload = vi.spyOn((client as any).pinata.upload, "file").mockResolvedValue({
+          IpfsHash: "QmStream123",
+          PinSize: 6,
+        } as any);
+
+        const result = await client.uploadStream(chunks(), { name: "attachment.enc" });
+
+        expect(result).toEqual({
+          cid: "QmStream123",
+          url: "https://test-gateway.pinata.cloud/ipfs/QmStream123",
+          size: 6,
+        });
+        const file = upload.mock.calls[0][0] as unknown as File;
+        expect(file.size).toBe(6);
+        expect(upload.mock.calls[0][1]).toEqual({ metadata: { name: "attachment.enc", keyValues: undefined } });
+      });
+
+      it("should fail when the stream errors", async () => {
+        const client = new IPFSClient(mockConfig);
+        const stream = new ReadableStream<Uint8Array>({
+          pull() {
+            throw new Error("Encryption failed");
+          },
+        });
+
+        await expect(client.uploadStream(stream)).rejects.toThrow(
+          "Failed to upload to IPFS: Encryption failed"
+        );
+      });
+    });
+  });
+
+  describe("IPFSClient - downloadStream", () => {
+    it("should return the response body", async () => {
+      const client = new IPFSClient(mockConfig);
+      const body = new ReadableStream<Uint8Array>();
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: {
+          get: vi.fn().mockReturnValue("application/octet-stream"),
+        },
+        body,
+      });
+
+      expect(await client.downloadStream("QmTest123")).toBe(body);
+      expect(global.fetch).toHaveBeenCalledWith(
+        "https://test-gateway.pinata.cloud/ipfs/QmTest123",
+        expect.any(Object)
+      );
+    });
+
+    it("should reject HTML responses", async () => {
+      const client = new IPFSClient(mockConfig);
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        headers: {
+          get: vi.fn().mockReturnValue("text/html"),
+        },
+        text: () => Promise.resolve("<html></html>"),
+      });
+
+      await expect(client.downloadStream("QmDirectory")).rejects.toThrow(/IPFS returned HTML/);
+    });
+
+    it("should throw error for empty CID", async () => {
+      const client = new IPFSClient(mockConfig);
+
+      await expect(client.downloadStream("")).rejects.toThrow(/CID is required/);
+    });
+  });
+
   describe("IPFSClient - downloadFromIPFS", () => {
     it("should throw error for empty CID", async () => {
       const client = new IPFSClient(mockConfig);
@@ -0,0 +1,254 @@
+import { describe, it, expect } from "vitest";
+import {
+  encryptStream,
+  decryptStream,
+  isEncryptedStream,
+  bytesToStream,
+  readStream,
+  peekStream,
+  STREAM_MAGIC,
+} from "../../src/utils/streamEncryption";
+import { AES_AUTH_TAG_SIZE, generateAESKey, type EncryptionContext } from "../../src/utils/encryption";
+
+const CHUNK_SIZE = 1024;
+const PREAMBLE_SIZE = 17; // Magic, format version, flags, chunk size, nonce prefix
+
+function randomBytes(length: number): Uint8Array {
+  return crypto.getRandomValues(new Uint8Array(length));
+}
+
+async function encrypt(data: Uint8Array, key: Uint8Array, context?: EncryptionContext): Promise<Uint8Array> {
+  return await readStream(encryptStream(bytesToStream(data, 333), key, { chunkSize: CHUNK_SIZE, context }));
+}
+
+async function decrypt(data: Uint8Array, key: Uint8Array, context?: EncryptionContext): Promise<Uint8Array> {
+  return await readStream(decryptStream(bytesToStream(data, 500), key, { context }));
+}
+
+/**
+ * Source stream the test feeds by hand
+ */
+function controlledStream() {
+  let controller!: ReadableStreamDefaultController<Uint8Array>;
+  const stream = new ReadableStream<Uint8Array>({
+    start(c) {
+      controller = c;
+    },
+  });
+  return { stream, controller };
+}
+
+describe("Stream Encryption Utils", () => {
+  describe("encryptStream and decryptStream", () => {
+    it.each([0, 1, CHUNK_SIZE - 1, CHUNK_SIZE, CHUNK_SIZE + 1, 3 * CHUNK_SIZE, 5000])(
+      "should round-trip %i bytes",
+      async (length) => {
+        const key = generateAESKey();
+        const data = randomBytes(length);
+
+        const encrypted = await encrypt(data, key);
+
+        expect(isEncryptedStream(encrypted)).toBe(true);
+        expect(await decrypt(encrypted, key)).toEqual(data);
+      }
+    );
+
+    it("should add one auth tag per chunk", async () => {
+      const data = randomBytes(3 * CHUNK_SIZE + 10);
+
+      const encrypted = await encrypt(data, generateAESKey());
+
+      expect(encrypted.length).toBe(PREAMBLE_SIZE + data.length + 4 * AES_AUTH_TAG_SIZE);
+    });
+
+    it("should use the default chunk size", async () => {
+      const key = generateAESKey();
+      const data = new Uint8Array(150 * 1024).fill(7);
+
+      const encrypted = await readStream(encryptStream(bytesToStream(data), key));
+
+      expect(encrypted.length).toBe(PREAMBLE_SIZE + data.length + 3 * AES_AUTH_TAG_SIZE);
+      expect(await decrypt(encrypted, key)).toEqual(data);
+    });
+
+    it("should encrypt chunks before the source ends", async () => {
+      const { stream, controller } = controlledStream();
+      const reader = encryptStream(stream, generateAESKey(), { chunkSize: CHUNK_SIZE }).getReader();
+
+      controller.enqueue(randomBytes(CHUNK_SIZE + 1));
+
+      expect((await reader.read()).value).toHaveLength(PREAMBLE_SIZE);
+      expect((await reader.read()).value).toHaveLength(CHUNK_SIZE + AES_AUTH_TAG_SIZE);
+      reader.releaseLock();
+    });
+
+    it("should decrypt chunks before the source ends", async () => {
+      const key = generateAESKey();
+      const data = randomBytes(4 * CHUNK_SIZE);
+      const encrypted = await encrypt(data, key);
+      const { stream, controller } = controlledStream();
+      const reader = decryptStream(stream, key).getReader();
+
+      controller.enqueue(encrypted.slice(0, PREAMBLE_SIZE + 2 * (CHUNK_SIZE + AES_AUTH_TAG_SIZE)));
+
+      expect((await reader.read()).value).toEqual(data.slice(0, CHUNK_SIZE));
+      reader.releaseLock();
+    });
+
+    it("should use a fresh nonce prefix per stream", async () => {
+      const key = generateAESKey();
+      const data = randomBytes(100);
+
+      expect(await encrypt(data, key)).not.toEqual(await encrypt(data, key));
+    });
+
+    it("should fail with the wrong key", async () => {
+      const encrypted = await encrypt(randomBytes(100), generateAESKey());
+
+      await expect(decrypt(encrypted, generateAESKey())).rejects.toThrow(
+        "Failed to decrypt stream: chunk 0 failed authentication"
+      );
+    });
+
+    it("should reject invalid chunk sizes", () => {
+      expect(() => encryptStream(bytesToStream(randomBytes(1)), generateAESKey(), { chunkSize: 0 })).toThrow(
+        "Invalid chunk size: 0"
+      );
+    });
+
+    it("should reject invalid keys", () => {
+      expect(() => decryptStream(bytesToStream(randomBytes(1)), new Uint8Array(16))).toThrow(/Invalid AES key/);
+    });
+  });
+
+  describe("tampering", () => {
+    const sealedChunk = CHUNK_SIZE + AES_AUTH_TAG_SIZE;
+
+    it("should detect truncation at a chunk boundary", async () => {
+      const key = generateAESKey();
+      const encrypted = await encrypt(randomBytes(3 * CHUNK_SIZE + 10), key);
+
+      await expect(decrypt(encrypted.slice(0, PREAMBLE_SIZE + 2 * sealedChunk), key)).rejects.toThrow(
+        "chunk 1 failed authentication"
+      );
+    });
+
+    it("should detect dropped chunks", async () => {
+      const key = generateAESKey();
+      const encrypted = await encrypt(randomBytes(3 * CHUNK_SIZE + 10), key);
+      const dropped = new Uint8Array([
+        ...encrypted.slice(0, PREAMBLE_SIZE + sealedChunk),
+        ...encrypted.slice(PREAMBLE_SIZE + 2 * sealedChunk),
+      ]);
+
+      await expect(decrypt(dropped, key)).rejects.toThrow("chunk 1 failed authentication");
+    });
+
+    it("should detect reordered chunks", async () => {
+      const key = generateAESKey();
+      const encrypted = await encrypt(randomBytes(3 * CHUNK_SIZE + 10), key);
+      const first = encrypted.slice(PREAMBLE_SIZE, PREAMBLE_SIZE + sealedChunk);
+      const second = encrypted.slice(PREAMBLE_SIZE + sealedChunk, PREAMBLE_SIZE + 2 * sealedChunk);
+      const swapped = new Uint8Array(encrypted);
+      swapped.set(second, PREAMBLE_SIZE);
+      swapped.set(first, PREAMBLE_SIZE + sealedChunk);
+
+      await expect(decrypt(swapped, key)).rejects.toThrow("chunk 0 failed authentication");
+    });
+
+    it("should detect modified ciphertext", async () => {
+      const key = generateAESKey();
+      const encrypted = await encrypt(randomBytes(2 * CHUNK_SIZE), key);
+      encrypted[encrypted.length - 20] ^= 0x01;
+
+      await expect(decrypt(encrypted, key)).rejects.toThrow("chunk 1 failed authentication");
+    });
+
+    it("should detect a modified chunk size", async () => {
+      const key = generateAESKey();
+      const encrypted = await encrypt(randomBytes(3 * CHUNK_SIZE), key);
+      encrypted[8] = 0x02; // 1024 => 512
+
+      await expect(decrypt(encrypted, key)).rejects.toThrow("chunk 0 failed authentication");
+    });
+
+    it("should reject data that isn't an encrypted stream", async () => {
+      await expect(decrypt(randomBytes(100), generateAESKey())).rejects.toThrow("Not an encrypted stream");
+    });
+
+    it("should reject unknown format versions", async () => {
+      const key = generateAESKey();
+      const encrypted = await encrypt(randomBytes(10), key);
+      encrypted[4] = 9;
+
+      await expect(decrypt(encrypted, key)).rejects.toThrow("Unsupported stream format version: 9");
+    });
+
+    it("should reject truncated preambles", async () => {
+      await expect(decrypt(STREAM_MAGIC, generateAESKey())).rejects.toThrow("Truncated stream");
+    });
+  });
+
+  describe("post binding (AAD)", () => {
+    const context: EncryptionContext = {
+      chainId: 1,
+      contract: "0x" + "1".repeat(40),
+      creator: "0x" + "3".repeat(40),
+      postNonce: 2,
+    };
+
+    it("should decrypt under the recorded or the expected context", async () => {
+      const key = generateAESKey();
+      const data = randomBytes(2500);
+      const encrypted = await encrypt(data, key, context);
+
+      expect(await decrypt(encrypted, key)).toEqual(data);
+      expect(await decrypt(encrypted, key, context)).toEqual(data);
+    });
+
+    it("should reject streams from another post", async () => {
+      const key = generateAESKey();
+      const encrypted = await encrypt(randomBytes(2500), key, context);
+
+      await expect(decrypt(encrypted, key, { ...context, postNonce: 3 })).rejects.toThrow(
+        "Bundle was encrypted for a different post"
+      );
+    });
+
+    it("should refuse unbound streams when a context is expected", async () => {
+      const key = generateAESKey();
+      const data = randomBytes(2500);
+      const encrypted = await encrypt(data, key);
+
+      await expect(decrypt(encrypted, key, context)).rejects.toThrow("Stream isn't bound to a post");
+      expect(await decrypt(encrypted, key)).toEqual(data);
+    });
+  });
+
+  describe("stream helpers", () => {
+    it("should split bytes into chunks and read them back", async () => {
+      const data = randomBytes(2500);
+      const reader = bytesToStream(data, 1000).getReader();
+
+      expect((await reader.read()).value).toHaveLength(1000);
+      reader.releaseLock();
+      expect(await readStream(bytesToStream(data, 1000))).toEqual(data);
+    });
+
+    it("should peek without consuming", async () => {
+      const data = randomBytes(2500);
+
+      const [head, stream] = await peekStream(bytesToStream(data, 3), 4);
+
+      expect(head).toEqual(data.slice(0, 4));
+      expect(await readStream(stream)).toEqual(data);
+    });
+
+    it("should peek into streams shorter than asked", async () => {
+      const [head, stream] = await peekStream(bytesToStream(new Uint8Array([1, 2])), 4);
+
+      expect(head).toEqual(new Uint8Array([1, 2]));
+      expect(await readStream(stream)).toEqual(new Uint8Array([1, 2]));
+    });
+  });
+});
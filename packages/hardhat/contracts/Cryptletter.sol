@@ -3,6 +3,7 @@ pragma solidity ^0.8.24;
 
 import {FHE, euint256, externalEuint256} from "@fhevm/solidity/lib/FHE.sol";
 import {SepoliaConfig} from "@fhevm/solidity/config/ZamaConfig.sol";
+import {IERC20, IERC20Permit} from "./interfaces/IERC20.sol";
 
 /// @title Cryptletter - Encrypted Newsletter Platform
 /// @author Zama Developer Program - Cryptletter Team
@@ -15,9 +16,10 @@ contract Cryptletter is SepoliaConfig {
     struct Creator {
         string name;
         string bio;
-        uint256 monthlyPrice; // Price in wei for monthly subscription
-        uint256 subscriberCount;
+        uint256 monthlyPrice; // Price for monthly subscription, in wei or token units
+        uint256 subscriberCount; // Uncancelled subscriptions, including lapsed ones that were never cancelled
         bool isActive;
+        address paymentToken; // ERC-20 token subscriptions are priced in (address(0) = ETH)
     }
 
     /// @notice Newsletter post metadata
@@ -29,6 +31,10 @@ contract Cryptletter is SepoliaConfig {
         uint256 publishedAt;
         bool isPublic; // Free newsletters are public
         address creator;
+        uint256 minTierRank; // Minimum tier rank required to read (0 = any subscriber)
+        uint256 price; // One-off unlock price in the creator's payment token (0 = subscribers only)
+        bool isUnpublished; // Withdrawn by the creator; only the creator and buyers keep access
+        uint256 availableAt; // Embargo: nobody but the creator can read before this timestamp
     }
 
     /// @notice Subscription information
@@ -36,33 +42,162 @@ contract Cryptletter is SepoliaConfig {
         uint256 expiresAt; // Timestamp when subscription expires
         uint256 subscribedAt; // Initial subscription timestamp
         bool isActive;
+        uint256 tierId; // Tier the subscriber is currently on
+        uint256 creditedTime; // Seconds of the current period bought with overpayment credit
+        address giftedBy; // Who paid for the current period if it was a gift (address(0) = self-paid)
+        bool isTrial; // Whether the current period is a free trial
+    }
+
+    /// @notice Creator-signed (EIP-712) coupon granting free access when redeemed
+    struct CompVoucher {
+        address creator;
+        address recipient; // Who may redeem it (address(0) = whoever holds the coupon)
+        uint256 duration; // Seconds of access granted
+        uint256 nonce; // Unique per creator; each nonce can be redeemed once
+        uint256 deadline; // Last timestamp the voucher can be redeemed
+    }
+
+    /// @notice Creator promo code, stored under the keccak256 hash of its text
+    struct PromoCode {
+        uint256 discountBps; // Percentage off in basis points (0 for fixed-amount codes)
+        uint256 fixedDiscount; // Amount off in wei or token units (0 for percentage codes)
+        uint256 maxRedemptions; // How many times it can be used (0 = unlimited)
+        uint256 redemptions;
+        uint256 expiresAt; // Last timestamp it can be used (0 = never expires)
+        bool isActive;
+    }
+
+    /// @notice One revision of a post's content
+    struct PostVersion {
+        string contentCID;
+        uint256 updatedAt; // When this revision was published
+    }
+
+    /// @notice Subscription tier offered by a creator
+    struct Tier {
+        string name;
+        uint256 price; // Price in wei per period
+        uint256 duration; // Length of one period in seconds
+        uint256 rank; // Access level; a tier can read every post up to its rank
+        bool isActive; // Retired tiers can't be bought, existing subscribers keep access
     }
 
     // ============ State Variables ============
 
     /// @notice Mapping from creator address to creator profile
-    mapping(address => Creator) public creators;
+    mapping(address => Creator) internal creators;
 
     /// @notice Mapping from post ID to newsletter post
-    mapping(uint256 => NewsletterPost) public newsletters;
+    mapping(uint256 => NewsletterPost) internal newsletters;
+
+    /// @notice Content revisions per post ID, oldest first (the last entry is the current content)
+    mapping(uint256 => PostVersion[]) internal postVersions;
+
+    /// @notice Post IDs per creator, in publishing order
+    mapping(address => uint256[]) internal creatorPosts;
 
     /// @notice Mapping from subscriber => creator => subscription
-    mapping(address => mapping(address => Subscription)) public subscriptions;
+    mapping(address => mapping(address => Subscription)) internal subscriptions;
+
+    /// @notice Everyone who has ever subscribed to a creator, in order of their first subscription
+    mapping(address => address[]) internal creatorSubscribers;
+
+    /// @notice Mapping from creator address to their subscription tiers (tier ID = index)
+    mapping(address => Tier[]) internal creatorTiers;
+
+    /// @notice Mapping from creator => period count => discount in basis points
+    mapping(address => mapping(uint256 => uint256)) public periodDiscounts;
+
+    /// @notice Free trial length per creator in seconds (0 = no trial offered)
+    mapping(address => uint256) public trialDurations;
+
+    /// @notice Whether a subscriber => creator trial has already been used
+    mapping(address => mapping(address => bool)) public trialUsed;
+
+    /// @notice Readers who bought permanent access to a post: post ID => buyer => purchased
+    mapping(uint256 => mapping(address => bool)) public postPurchases;
+
+    /// @notice Comp voucher nonces that were redeemed or revoked: creator => nonce => used
+    mapping(address => mapping(uint256 => bool)) public voucherNonceUsed;
+
+    /// @notice Promo codes per creator => code hash
+    mapping(address => mapping(bytes32 => PromoCode)) public promoCodes;
+
+    /// @notice Whether a subscriber wants overpayments credited as extra time instead of refunded
+    mapping(address => bool) public creditOverpayment;
+
+    /// @notice Whether a subscriber => creator subscription is renewed from escrow when it lapses
+    mapping(address => mapping(address => bool)) public autoRenew;
+
+    /// @notice Funds set aside for renewals per subscriber => creator => payment token
+    mapping(address => mapping(address => mapping(address => uint256))) public renewalEscrow;
+
+    /// @notice Withdrawable balance per creator => payment token (address(0) = ETH)
+    mapping(address => mapping(address => uint256)) public creatorBalances;
+
+    /// @notice Lifetime earnings per creator => payment token
+    mapping(address => mapping(address => uint256)) public totalEarnings;
+
+    /// @notice Lifetime withdrawals per creator => payment token
+    mapping(address => mapping(address => uint256)) public totalWithdrawn;
+
+    /// @notice Platform operator allowed to change fees and the treasury
+    address public owner;
+
+    /// @notice Address platform fees are paid out to
+    address public treasury;
+
+    /// @notice Platform fee taken from every subscription payment, in basis points
+    uint256 public platformFeeBps;
+
+    /// @notice Platform fees waiting to be paid out per payment token
+    mapping(address => uint256) public treasuryBalances;
+
+    /// @notice Lifetime platform fees collected per payment token
+    mapping(address => uint256) public totalPlatformFees;
 
     /// @notice Array of all creator addresses for discovery
     address[] public creatorList;
 
+    /// @notice Number of creators that haven't deactivated their profile
+    uint256 public activeCreatorCount;
+
     /// @notice Counter for newsletter post IDs
     uint256 public postCounter;
 
     /// @notice Constant for subscription duration (30 days)
     uint256 public constant SUBSCRIPTION_DURATION = 30 days;
 
+    /// @notice Maximum number of tiers a creator can define
+    uint256 public constant MAX_TIERS = 10;
+
+    /// @notice Maximum multi-period discount a creator can offer (50%)
+    uint256 public constant MAX_PERIOD_DISCOUNT_BPS = 5000;
+
+    /// @notice Longest free trial a creator can offer
+    uint256 public constant MAX_TRIAL_DURATION = 30 days;
+
+    /// @notice Longest complimentary access a single grant or voucher can give
+    uint256 public constant MAX_COMP_DURATION = 365 days;
+
+    /// @notice EIP-712 type hash of a CompVoucher
+    bytes32 public constant COMP_VOUCHER_TYPEHASH =
+        keccak256("CompVoucher(address creator,address recipient,uint256 duration,uint256 nonce,uint256 deadline)");
+
+    /// @notice Maximum platform fee the owner can set (20%)
+    uint256 public constant MAX_PLATFORM_FEE_BPS = 2000;
+
+    /// @notice Basis point denominator (100%)
+    uint256 internal constant BPS_DENOMINATOR = 10000;
+
     // ============ Events ============
 
     event CreatorRegistered(address indexed creator, string name, uint256 monthlyPrice);
     event CreatorProfileUpdated(address indexed creator, string name, string bio);
+    event CreatorDeactivated(address indexed creator);
+    event CreatorReactivated(address indexed creator);
     event MonthlyPriceUpdated(address indexed creator, uint256 oldPrice, uint256 newPrice);
+    event PaymentTokenUpdated(address indexed creator, address indexed token);
     event NewsletterPublished(
         uint256 indexed postId,
         address indexed creator,
@@ -70,9 +205,95 @@ contract Cryptletter is SepoliaConfig {
         string contentCID,
         bool isPublic
     );
-    event Subscribed(address indexed subscriber, address indexed creator, uint256 expiresAt);
+    event NewsletterUpdated(
+        uint256 indexed postId,
+        address indexed creator,
+        string title,
+        string contentCID,
+        uint256 version
+    );
+    event NewsletterUnpublished(uint256 indexed postId, address indexed creator);
+    event TierCreated(
+        address indexed creator,
+        uint256 indexed tierId,
+        string name,
+        uint256 price,
+        uint256 duration,
+        uint256 rank
+    );
+    event TierUpdated(address indexed creator, uint256 indexed tierId, uint256 price, uint256 duration, bool isActive);
+    event PeriodDiscountUpdated(address indexed creator, uint256 periods, uint256 discountBps);
+    event TrialDurationUpdated(address indexed creator, uint256 duration);
+    event TrialStarted(address indexed subscriber, address indexed creator, uint256 expiresAt);
+    event Subscribed(
+        address indexed subscriber,
+        address indexed creator,
+        uint256 expiresAt,
+        uint256 tierId,
+        uint256 periods
+    );
+    event OverpaymentSettled(
+        address indexed subscriber,
+        address indexed creator,
+        uint256 excess,
+        uint256 refunded,
+        uint256 creditedTime
+    );
+    event OverpaymentPreferenceUpdated(address indexed subscriber, bool creditOverpayment);
+    event EarningsCredited(address indexed creator, address indexed payer, address indexed token, uint256 amount);
+    event EarningsWithdrawn(address indexed creator, address indexed to, address indexed token, uint256 amount);
+    event SubscriptionGifted(
+        address indexed gifter,
+        address indexed recipient,
+        address indexed creator,
+        uint256 expiresAt,
+        uint256 periods,
+        bytes encryptedNote,
+        bytes32 noteKey
+    );
+    event PromoCodeCreated(
+        address indexed creator,
+        bytes32 indexed codeHash,
+        uint256 discountBps,
+        uint256 fixedDiscount,
+        uint256 maxRedemptions,
+        uint256 expiresAt
+    );
+    event PromoCodeDisabled(address indexed creator, bytes32 indexed codeHash);
+    event PromoCodeRedeemed(
+        address indexed subscriber,
+        address indexed creator,
+        bytes32 indexed codeHash,
+        uint256 discount
+    );
+    event PostPurchased(uint256 indexed postId, address indexed buyer, address indexed creator, uint256 price);
+    event ComplimentaryAccessGranted(
+        address indexed creator,
+        address indexed subscriber,
+        uint256 expiresAt,
+        uint256 voucherNonce
+    );
+    event VoucherRevoked(address indexed creator, uint256 nonce);
     event SubscriptionRenewed(address indexed subscriber, address indexed creator, uint256 newExpiresAt);
     event SubscriptionCancelled(address indexed subscriber, address indexed creator);
+    event AutoRenewUpdated(address indexed subscriber, address indexed creator, bool enabled);
+    event RenewalEscrowFunded(
+        address indexed subscriber,
+        address indexed creator,
+        address indexed token,
+        uint256 amount
+    );
+    event RenewalEscrowWithdrawn(
+        address indexed subscriber,
+        address indexed creator,
+        address indexed token,
+        uint256 amount
+    );
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+    event PlatformFeeUpdated(uint256 oldFeeBps, uint256 newFeeBps);
+    event TreasuryUpdated(address indexed oldTreasury, address indexed newTreasury);
+    event PlatformFeeCollected(address indexed creator, address indexed token, uint256 amount);
+    event PlatformFeesWithdrawn(address indexed treasury, address indexed token, uint256 amount);
 
     // ============ Errors ============
 
@@ -84,15 +305,46 @@ contract Cryptletter is SepoliaConfig {
     error SubscriptionExpired();
     error NoActiveSubscription();
     error Unauthorized();
+    error InvalidTier();
+    error TooManyTiers();
+    error InvalidPeriods();
+    error NothingToWithdraw();
+    error WrongPaymentMethod();
+    error InvalidFee();
+    error TrialUnavailable();
+    error PostNotForSale();
+    error AlreadyPurchased();
+    error InvalidSignature();
+    error VoucherExpired();
+    error VoucherUsed();
+    error InvalidPromoCode();
+    error NotYetAvailable();
+    error TransferFailed();
+
+    // ============ Constructor ============
+
+    /// @notice The deployer becomes the owner and initial treasury; the platform fee starts at zero
+    constructor() {
+        owner = msg.sender;
+        treasury = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+    }
 
     // ============ Creator Functions ============
 
     /// @notice Register as a creator on the platform
     /// @param name Creator's display name
     /// @param bio Creator's bio/description
-    /// @param monthlyPrice Subscription price in wei per month
-    function registerCreator(string calldata name, string calldata bio, uint256 monthlyPrice) external {
-        if (creators[msg.sender].isActive) revert AlreadyRegistered();
+    /// @param monthlyPrice Subscription price per month, in wei or token units
+    /// @param paymentToken ERC-20 token to price subscriptions in (address(0) = ETH)
+    function registerCreator(
+        string calldata name,
+        string calldata bio,
+        uint256 monthlyPrice,
+        address paymentToken
+    ) external {
+        // Deactivated creators keep their profile and have to reactivate instead
+        if (bytes(creators[msg.sender].name).length != 0) revert AlreadyRegistered();
         if (bytes(name).length == 0) revert InvalidInput();
         if (monthlyPrice == 0) revert InvalidPrice();
 
@@ -101,19 +353,50 @@ contract Cryptletter is SepoliaConfig {
             bio: bio,
             monthlyPrice: monthlyPrice,
             subscriberCount: 0,
-            isActive: true
+            isActive: true,
+            paymentToken: address(0)
         });
+        _setPaymentToken(paymentToken);
+
+        creatorTiers[msg.sender].push(
+            Tier({name: "Standard", price: monthlyPrice, duration: SUBSCRIPTION_DURATION, rank: 0, isActive: true})
+        );
 
         creatorList.push(msg.sender);
+        activeCreatorCount++;
 
         emit CreatorRegistered(msg.sender, name, monthlyPrice);
+        emit TierCreated(msg.sender, 0, "Standard", monthlyPrice, SUBSCRIPTION_DURATION, 0);
+    }
+
+    /// @notice Stop taking new subscribers, renewals and purchases
+    /// @dev Paid time is honoured: subscribers and buyers keep access, and earnings can still be withdrawn
+    function deactivateCreator() external {
+        _checkActiveCreator();
+
+        creators[msg.sender].isActive = false;
+        activeCreatorCount--;
+
+        emit CreatorDeactivated(msg.sender);
+    }
+
+    /// @notice Reopen a deactivated creator profile with its previous settings
+    function reactivateCreator() external {
+        Creator storage creator = creators[msg.sender];
+        if (bytes(creator.name).length == 0) revert NotRegistered();
+        if (creator.isActive) revert AlreadyRegistered();
+
+        creator.isActive = true;
+        activeCreatorCount++;
+
+        emit CreatorReactivated(msg.sender);
     }
 
     /// @notice Update creator profile information
     /// @param name New display name
     /// @param bio New bio/description
     function updateProfile(string calldata name, string calldata bio) external {
-        if (!creators[msg.sender].isActive) revert NotRegistered();
+        _checkActiveCreator();
         if (bytes(name).length == 0) revert InvalidInput();
 
         creators[msg.sender].name = name;
@@ -122,27 +405,163 @@ contract Cryptletter is SepoliaConfig {
         emit CreatorProfileUpdated(msg.sender, name, bio);
     }
 
-    /// @notice Update monthly subscription price
-    /// @param newPrice New price in wei
-    function updateMonthlyPrice(uint256 newPrice) external {
-        if (!creators[msg.sender].isActive) revert NotRegistered();
+    /// @notice Update monthly subscription price and payment token
+    /// @dev Updates the price of the default tier (tier 0). Other tier prices are read in the new token's units,
+    ///      so creators switching tokens should update them too. Running subscriptions are unaffected.
+    /// @param newPrice New price in wei or token units
+    /// @param paymentToken ERC-20 token to price subscriptions in (address(0) = ETH)
+    function updateMonthlyPrice(uint256 newPrice, address paymentToken) external {
+        _checkActiveCreator();
         if (newPrice == 0) revert InvalidPrice();
 
         uint256 oldPrice = creators[msg.sender].monthlyPrice;
         creators[msg.sender].monthlyPrice = newPrice;
+        creatorTiers[msg.sender][0].price = newPrice;
+        _setPaymentToken(paymentToken);
 
         emit MonthlyPriceUpdated(msg.sender, oldPrice, newPrice);
     }
 
+    // ============ Tier Functions ============
+
+    /// @notice Add a new subscription tier
+    /// @dev Name and rank are fixed once created so existing posts keep their meaning
+    /// @param name Tier display name (e.g. "Supporter", "Pro")
+    /// @param price Price in wei per period
+    /// @param duration Length of one period in seconds
+    /// @param rank Access level; posts require a minimum rank to read
+    /// @return tierId The ID of the created tier
+    function createTier(
+        string calldata name,
+        uint256 price,
+        uint256 duration,
+        uint256 rank
+    ) external returns (uint256 tierId) {
+        _checkActiveCreator();
+        if (bytes(name).length == 0 || duration == 0) revert InvalidInput();
+        if (price == 0) revert InvalidPrice();
+
+        Tier[] storage tiers = creatorTiers[msg.sender];
+        if (tiers.length >= MAX_TIERS) revert TooManyTiers();
+
+        tierId = tiers.length;
+        tiers.push(Tier({name: name, price: price, duration: duration, rank: rank, isActive: true}));
+
+        emit TierCreated(msg.sender, tierId, name, price, duration, rank);
+    }
+
+    /// @notice Update price, duration or availability of an existing tier
+    /// @param tierId Tier ID
+    /// @param price New price in wei per period
+    /// @param duration New period length in seconds
+    /// @param isActive Whether the tier can still be bought (the default tier can't be retired)
+    function updateTier(uint256 tierId, uint256 price, uint256 duration, bool isActive) external {
+        _checkActiveCreator();
+        if (tierId >= creatorTiers[msg.sender].length) revert InvalidTier();
+        if (tierId == 0 && !isActive) revert InvalidTier();
+        if (duration == 0) revert InvalidInput();
+        if (price == 0) revert InvalidPrice();
+
+        Tier storage tier = creatorTiers[msg.sender][tierId];
+        tier.price = price;
+        tier.duration = duration;
+        tier.isActive = isActive;
+
+        if (tierId == 0) {
+            uint256 oldPrice = creators[msg.sender].monthlyPrice;
+            creators[msg.sender].monthlyPrice = price;
+            emit MonthlyPriceUpdated(msg.sender, oldPrice, price);
+        }
+
+        emit TierUpdated(msg.sender, tierId, price, duration, isActive);
+    }
+
+    /// @notice Set the discount for buying several periods at once
+    /// @param periods Period count the discount applies to (3, 6 or 12)
+    /// @param discountBps Discount in basis points, up to MAX_PERIOD_DISCOUNT_BPS
+    function setPeriodDiscount(uint256 periods, uint256 discountBps) external {
+        _checkActiveCreator();
+        if (periods == 1 || !_isValidPeriods(periods)) revert InvalidPeriods();
+        if (discountBps > MAX_PERIOD_DISCOUNT_BPS) revert InvalidInput();
+
+        periodDiscounts[msg.sender][periods] = discountBps;
+
+        emit PeriodDiscountUpdated(msg.sender, periods, discountBps);
+    }
+
+    /// @notice Offer new subscribers a free trial of the default tier
+    /// @param duration Trial length in seconds, up to MAX_TRIAL_DURATION (0 = no trial)
+    function setTrialDuration(uint256 duration) external {
+        _checkActiveCreator();
+        if (duration > MAX_TRIAL_DURATION) revert InvalidInput();
+
+        trialDurations[msg.sender] = duration;
+
+        emit TrialDurationUpdated(msg.sender, duration);
+    }
+
+    // ============ Promo Code Functions ============
+
+    /// @notice Register a promo code subscribers can enter at checkout
+    /// @dev Only the hash is stored so codes can't be read off-chain before they are shared; the text
+    ///      becomes public once someone subscribes with it. Set exactly one of discountBps and fixedDiscount.
+    /// @param codeHash keccak256 of the code text
+    /// @param discountBps Percentage off in basis points (up to 100%)
+    /// @param fixedDiscount Amount off the total in wei or token units
+    /// @param maxRedemptions How many times the code can be used (0 = unlimited)
+    /// @param expiresAt Last timestamp the code can be used (0 = never expires)
+    function createPromoCode(
+        bytes32 codeHash,
+        uint256 discountBps,
+        uint256 fixedDiscount,
+        uint256 maxRedemptions,
+        uint256 expiresAt
+    ) external {
+        _checkActiveCreator();
+        if (codeHash == bytes32(0) || (discountBps == 0) == (fixedDiscount == 0)) revert InvalidInput();
+        if (discountBps > BPS_DENOMINATOR) revert InvalidInput();
+        if (expiresAt != 0 && expiresAt <= block.timestamp) revert InvalidInput();
+
+        PromoCode storage promo = promoCodes[msg.sender][codeHash];
+        // Codes can't be reused, so a shared code never silently changes meaning
+        if (promo.discountBps != 0 || promo.fixedDiscount != 0) revert InvalidPromoCode();
+
+        promoCodes[msg.sender][codeHash] = PromoCode({
+            discountBps: discountBps,
+            fixedDiscount: fixedDiscount,
+            maxRedemptions: maxRedemptions,
+            redemptions: 0,
+            expiresAt: expiresAt,
+            isActive: true
+        });
+
+        emit PromoCodeCreated(msg.sender, codeHash, discountBps, fixedDiscount, maxRedemptions, expiresAt);
+    }
+
+    /// @notice Stop a promo code from being used
+    /// @param codeHash keccak256 of the code text
+    function disablePromoCode(bytes32 codeHash) external {
+        PromoCode storage promo = promoCodes[msg.sender][codeHash];
+        if (!promo.isActive) revert InvalidPromoCode();
+
+        promo.isActive = false;
+
+        emit PromoCodeDisabled(msg.sender, codeHash);
+    }
+
     // ============ Publishing Functions ============
 
     /// @notice Publish a new newsletter post
+    /// @dev Public posts can't be scheduled: their content isn't encrypted and its CID is public as soon as it's posted
     /// @param contentCID IPFS CID of encrypted content
     /// @param inputEncryptedKey External encrypted AES key
     /// @param inputProof Proof for the encrypted key
     /// @param title Newsletter title
     /// @param preview Preview text (first ~200 chars)
     /// @param isPublic Whether this is a free/public post
+    /// @param minTierRank Minimum tier rank required to read (ignored for public posts)
+    /// @param price One-off unlock price for non-subscribers (0 = subscribers only, must be 0 for public posts)
+    /// @param availableAt Release time for scheduled premium posts (0 or a past time = available now)
     /// @return postId The ID of the created post
     function publishNewsletter(
         string calldata contentCID,
@@ -150,10 +569,15 @@ contract Cryptletter is SepoliaConfig {
         bytes calldata inputProof,
         string calldata title,
         string calldata preview,
-        bool isPublic
+        bool isPublic,
+        uint256 minTierRank,
+        uint256 price,
+        uint256 availableAt
     ) external returns (uint256 postId) {
-        if (!creators[msg.sender].isActive) revert NotRegistered();
+        _checkActiveCreator();
         if (bytes(contentCID).length == 0 || bytes(title).length == 0) revert InvalidInput();
+        if (isPublic && price > 0) revert InvalidPrice();
+        if (isPublic && availableAt > block.timestamp) revert InvalidInput();
 
         // Convert external encrypted key to internal euint256
         euint256 encryptedKey = FHE.fromExternal(inputEncryptedKey, inputProof);
@@ -171,64 +595,205 @@ contract Cryptletter is SepoliaConfig {
             preview: preview,
             publishedAt: block.timestamp,
             isPublic: isPublic,
-            creator: msg.sender
+            creator: msg.sender,
+            minTierRank: minTierRank,
+            price: price,
+            isUnpublished: false,
+            availableAt: availableAt > block.timestamp ? availableAt : block.timestamp
         });
+        postVersions[postId].push(PostVersion({contentCID: contentCID, updatedAt: block.timestamp}));
+        creatorPosts[msg.sender].push(postId);
 
         emit NewsletterPublished(postId, msg.sender, title, contentCID, isPublic);
     }
 
+    /// @notice Replace a post's content with a re-encrypted revision, or rotate its key
+    /// @dev Readers need to call grantDecryptionPermission again, since the new key is a fresh handle.
+    /// Content re-encrypted under a new AES key cuts off readers whose access has lapsed: they keep the
+    /// old handle, but grantDecryptionPermission only ever allows the current one.
+    /// @param postId Post to edit (must be the caller's)
+    /// @param newCID IPFS CID of the new encrypted content
+    /// @param newEncryptedKey External encrypted AES key for the new content
+    /// @param inputProof Proof for the encrypted key
+    /// @param title New title
+    /// @param preview New preview text
+    function updateNewsletter(
+        uint256 postId,
+        string calldata newCID,
+        externalEuint256 newEncryptedKey,
+        bytes calldata inputProof,
+        string calldata title,
+        string calldata preview
+    ) external {
+        NewsletterPost storage post = newsletters[postId];
+        if (post.creator != msg.sender) revert Unauthorized();
+        if (bytes(newCID).length == 0 || bytes(title).length == 0) revert InvalidInput();
+
+        euint256 encryptedKey = FHE.fromExternal(newEncryptedKey, inputProof);
+        FHE.allowThis(encryptedKey);
+        FHE.allow(encryptedKey, msg.sender);
+
+        post.contentCID = newCID;
+        post.encryptedKey = encryptedKey;
+        post.title = title;
+        post.preview = preview;
+        postVersions[postId].push(PostVersion({contentCID: newCID, updatedAt: block.timestamp}));
+
+        emit NewsletterUpdated(postId, msg.sender, title, newCID, postVersions[postId].length - 1);
+    }
+
+    /// @notice Withdraw a post: it's hidden from listings and only the creator and its buyers keep access
+    /// @dev Decryption permissions granted before unpublishing can't be taken back
+    /// @param postId Post to unpublish (must be the caller's)
+    function unpublishNewsletter(uint256 postId) external {
+        NewsletterPost storage post = newsletters[postId];
+        if (post.creator != msg.sender) revert Unauthorized();
+        if (post.isUnpublished) revert InvalidInput();
+
+        post.isUnpublished = true;
+
+        emit NewsletterUnpublished(postId, msg.sender);
+    }
+
     // ============ Subscription Functions ============
 
-    /// @notice Subscribe to a creator's newsletter
+    /// @notice Subscribe to one of a creator's tiers for one or more periods
+    /// @dev Same tier extends the current period; switching tiers carries the time left over, pro-rated by price
+    /// @param creator Address of the creator to subscribe to
+    /// @param tierId Tier to subscribe to (0 = default tier)
+    /// @param periods Number of periods to buy (1, 3, 6 or 12)
+    /// @param promoCode Promo code text (empty = no code)
+    /// @dev Token-priced creators are paid with transferFrom, so the caller must have approved the price first
+    function subscribe(address creator, uint256 tierId, uint256 periods, string calldata promoCode) external payable {
+        _subscribe(msg.sender, creator, tierId, periods, _promoCodeHash(promoCode));
+    }
+
+    /// @notice Subscribe to a token-priced creator, approving the price with an EIP-2612 permit signature
     /// @param creator Address of the creator to subscribe to
-    function subscribe(address creator) external payable {
+    /// @param tierId Tier to subscribe to (0 = default tier)
+    /// @param periods Number of periods to buy (1, 3, 6 or 12)
+    /// @param promoCode Promo code text (empty = no code)
+    /// @param deadline Permit deadline
+    /// @param v Permit signature v
+    /// @param r Permit signature r
+    /// @param s Permit signature s
+    function subscribeWithPermit(
+        address creator,
+        uint256 tierId,
+        uint256 periods,
+        string calldata promoCode,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        address token = creators[creator].paymentToken;
+        if (token == address(0)) revert WrongPaymentMethod();
+
+        bytes32 codeHash = _promoCodeHash(promoCode);
+        uint256 price = quoteSubscription(creator, tierId, periods);
+        price -= _promoDiscount(creator, codeHash, price);
+        // Someone may have front-run the permit; the allowance is then already in place
+        try IERC20Permit(token).permit(msg.sender, address(this), price, deadline, v, r, s) {} catch {}
+        _subscribe(msg.sender, creator, tierId, periods, codeHash);
+    }
+
+    /// @notice Pay for someone else's subscription
+    /// @dev Extends the recipient's current tier if they have one running, otherwise buys the default tier.
+    ///      The caller pays (and gets any refund), the recipient gets the time.
+    /// @param creator Address of the creator
+    /// @param recipient Address receiving the subscription
+    /// @param periods Number of periods to gift (1, 3, 6 or 12)
+    function giftSubscription(address creator, address recipient, uint256 periods) external payable {
+        uint256 expiresAt = _gift(creator, recipient, periods);
+        emit SubscriptionGifted(msg.sender, recipient, creator, expiresAt, periods, "", bytes32(0));
+    }
+
+    /// @notice Gift a subscription with a private note for the recipient
+    /// @dev The note is AES-encrypted off-chain and only carried in the event; its key is FHE-encrypted
+    ///      and shared with the gifter and recipient, the same way newsletter keys are
+    /// @param creator Address of the creator
+    /// @param recipient Address receiving the subscription
+    /// @param periods Number of periods to gift (1, 3, 6 or 12)
+    /// @param encryptedNote Serialized AES-encrypted note
+    /// @param inputNoteKey External encrypted AES key of the note
+    /// @param inputProof Proof for the encrypted key
+    function giftSubscriptionWithNote(
+        address creator,
+        address recipient,
+        uint256 periods,
+        bytes calldata encryptedNote,
+        externalEuint256 inputNoteKey,
+        bytes calldata inputProof
+    ) external payable {
+        if (encryptedNote.length == 0) revert InvalidInput();
+        uint256 expiresAt = _gift(creator, recipient, periods);
+
+        euint256 noteKey = FHE.fromExternal(inputNoteKey, inputProof);
+        FHE.allowThis(noteKey);
+        FHE.allow(noteKey, msg.sender);
+        FHE.allow(noteKey, recipient);
+
+        emit SubscriptionGifted(
+            msg.sender,
+            recipient,
+            creator,
+            expiresAt,
+            periods,
+            encryptedNote,
+            euint256.unwrap(noteKey)
+        );
+    }
+
+    /// @notice Start a free trial of a creator's default tier
+    /// @dev Each address gets one trial per creator, and only while it has no running subscription.
+    ///      Subscribing during the trial adds the paid period on top of the remaining trial time.
+    /// @param creator Address of the creator
+    function startTrial(address creator) external {
         if (!creators[creator].isActive) revert NotRegistered();
-        if (msg.value < creators[creator].monthlyPrice) revert InsufficientPayment();
 
+        uint256 duration = trialDurations[creator];
         Subscription storage sub = subscriptions[msg.sender][creator];
-
-        // Calculate new expiry date
-        uint256 expiresAt;
-        if (sub.isActive && sub.expiresAt > block.timestamp) {
-            // Extend existing subscription
-            expiresAt = sub.expiresAt + SUBSCRIPTION_DURATION;
-        } else {
-            // New subscription or expired subscription
-            expiresAt = block.timestamp + SUBSCRIPTION_DURATION;
-            if (!sub.isActive) {
-                creators[creator].subscriberCount++;
-            }
+        if (duration == 0 || trialUsed[msg.sender][creator] || sub.expiresAt > block.timestamp) {
+            revert TrialUnavailable();
         }
 
-        sub.expiresAt = expiresAt;
-        sub.subscribedAt = sub.subscribedAt == 0 ? block.timestamp : sub.subscribedAt;
-        sub.isActive = true;
-
-        // Transfer payment to creator
-        (bool success, ) = creator.call{value: msg.value}("");
-        require(success, "Payment transfer failed");
+        trialUsed[msg.sender][creator] = true;
+        uint256 expiresAt = _activateSubscription(msg.sender, creator, 0, duration);
+        sub.giftedBy = address(0);
+        sub.isTrial = true;
 
-        emit Subscribed(msg.sender, creator, expiresAt);
+        emit TrialStarted(msg.sender, creator, expiresAt);
     }
 
-    /// @notice Renew an existing subscription
+    /// @notice Renew an existing subscription on its current tier
     /// @param creator Address of the creator
     function renewSubscription(address creator) external payable {
         if (!creators[creator].isActive) revert NotRegistered();
-        if (msg.value < creators[creator].monthlyPrice) revert InsufficientPayment();
 
         Subscription storage sub = subscriptions[msg.sender][creator];
         if (!sub.isActive) revert NoActiveSubscription();
 
+        Tier storage tier = _purchasableTier(creator, sub.tierId);
+        uint256 credit = _checkPayment(creator, tier, tier.price);
+
         // Extend from current expiry or now, whichever is later
-        uint256 baseTime = sub.expiresAt > block.timestamp ? sub.expiresAt : block.timestamp;
-        sub.expiresAt = baseTime + SUBSCRIPTION_DURATION;
+        uint256 expiresAt = _activateSubscription(msg.sender, creator, sub.tierId, tier.duration + credit);
+        sub.creditedTime += credit;
+
+        sub.giftedBy = address(0);
+        sub.isTrial = false;
+        _settlePayment(creator, tier.price, credit);
 
-        // Transfer payment to creator
-        (bool success, ) = creator.call{value: msg.value}("");
-        require(success, "Payment transfer failed");
+        emit SubscriptionRenewed(msg.sender, creator, expiresAt);
+    }
 
-        emit SubscriptionRenewed(msg.sender, creator, sub.expiresAt);
+    /// @notice Choose what happens to wei sent above the price of a subscription
+    /// @dev Refunding is the default; crediting converts the excess into pro-rated extra time
+    /// @param credit True to credit overpayments as extra time, false to refund them
+    function setOverpaymentPreference(bool credit) external {
+        creditOverpayment[msg.sender] = credit;
+        emit OverpaymentPreferenceUpdated(msg.sender, credit);
     }
 
     /// @notice Cancel a subscription (doesn't refund, just marks inactive)
@@ -243,6 +808,256 @@ contract Cryptletter is SepoliaConfig {
         emit SubscriptionCancelled(msg.sender, creator);
     }
 
+    // ============ Auto-renew Functions ============
+
+    /// @notice Turn renewals from escrow on or off for a subscription
+    /// @param creator Address of the creator
+    /// @param enabled True to renew from escrow once the subscription lapses
+    function setAutoRenew(address creator, bool enabled) external {
+        autoRenew[msg.sender][creator] = enabled;
+        emit AutoRenewUpdated(msg.sender, creator, enabled);
+    }
+
+    /// @notice Set funds aside for renewing a subscription, in the creator's current payment token
+    /// @dev ETH is taken from msg.value (`amount` is ignored); tokens need an allowance for `amount`
+    /// @param creator Address of the creator
+    /// @param amount Token amount to deposit
+    function fundRenewalEscrow(address creator, uint256 amount) external payable {
+        address token = creators[creator].paymentToken;
+        if (token == address(0)) {
+            amount = msg.value;
+        } else if (msg.value != 0) {
+            revert WrongPaymentMethod();
+        }
+        if (amount == 0) revert InvalidInput();
+
+        renewalEscrow[msg.sender][creator][token] += amount;
+        if (token != address(0)) {
+            _callToken(token, abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), amount)));
+        }
+
+        emit RenewalEscrowFunded(msg.sender, creator, token, amount);
+    }
+
+    /// @notice Take back everything left in a renewal escrow
+    /// @param creator Address of the creator
+    /// @param token Payment token of the escrow (address(0) = ETH)
+    function withdrawRenewalEscrow(address creator, address token) external {
+        uint256 amount = renewalEscrow[msg.sender][creator][token];
+        if (amount == 0) revert NothingToWithdraw();
+
+        renewalEscrow[msg.sender][creator][token] = 0;
+        _transferOut(token, msg.sender, amount);
+
+        emit RenewalEscrowWithdrawn(msg.sender, creator, token, amount);
+    }
+
+    /// @notice Renew lapsed subscriptions from their escrows for one more period of their tier
+    /// @dev Permissionless so keepers can call it. Subscribers without auto-renew, with a running or
+    ///      cancelled subscription, an unavailable tier or too little escrow are skipped, not reverted on.
+    /// @param subscribers Subscribers to renew
+    /// @param creator Address of the creator
+    /// @return renewed Number of subscriptions renewed
+    function processRenewals(address[] calldata subscribers, address creator) external returns (uint256 renewed) {
+        if (!creators[creator].isActive) return 0;
+        address token = creators[creator].paymentToken;
+
+        for (uint256 i = 0; i < subscribers.length; i++) {
+            address subscriber = subscribers[i];
+            Subscription storage sub = subscriptions[subscriber][creator];
+            if (!autoRenew[subscriber][creator] || !sub.isActive || sub.expiresAt > block.timestamp) continue;
+
+            Tier storage tier = creatorTiers[creator][sub.tierId];
+            uint256 balance = renewalEscrow[subscriber][creator][token];
+            if (!tier.isActive || balance < tier.price) continue;
+
+            renewalEscrow[subscriber][creator][token] = balance - tier.price;
+            sub.expiresAt = block.timestamp + tier.duration;
+            sub.creditedTime = 0;
+            sub.giftedBy = address(0);
+            sub.isTrial = false;
+            _splitPayment(creator, subscriber, token, tier.price);
+            renewed++;
+
+            emit SubscriptionRenewed(subscriber, creator, sub.expiresAt);
+        }
+    }
+
+    // ============ Pay-per-view Functions ============
+
+    /// @notice Buy permanent access to a single post without subscribing
+    /// @dev Paid in the creator's payment token; ETH overpayments are always refunded
+    /// @param postId Newsletter post ID
+    function purchasePost(uint256 postId) external payable {
+        NewsletterPost storage post = newsletters[postId];
+        if (post.creator == address(0) || post.price == 0 || post.isUnpublished) revert PostNotForSale();
+        if (!creators[post.creator].isActive) revert NotRegistered();
+        if (postPurchases[postId][msg.sender]) revert AlreadyPurchased();
+
+        if (creators[post.creator].paymentToken != address(0)) {
+            if (msg.value != 0) revert WrongPaymentMethod();
+        } else if (msg.value < post.price) {
+            revert InsufficientPayment();
+        }
+
+        postPurchases[postId][msg.sender] = true;
+        _settlePayment(post.creator, post.price, 0);
+
+        emit PostPurchased(postId, msg.sender, post.creator, post.price);
+    }
+
+    // ============ Complimentary Access Functions ============
+
+    /// @notice Give someone free access on their running tier (or the default tier)
+    /// @param subscriber Address receiving the access
+    /// @param duration Seconds of access to add (up to MAX_COMP_DURATION)
+    function grantComplimentaryAccess(address subscriber, uint256 duration) external {
+        _checkActiveCreator();
+        uint256 expiresAt = _grantComp(msg.sender, subscriber, duration);
+        emit ComplimentaryAccessGranted(msg.sender, subscriber, expiresAt, 0);
+    }
+
+    /// @notice Redeem a comp voucher signed off-chain by the creator
+    /// @dev The access goes to the caller; vouchers with a recipient can only be redeemed by that address
+    /// @param voucher The signed voucher
+    /// @param v Signature v
+    /// @param r Signature r
+    /// @param s Signature s
+    function redeemCompVoucher(CompVoucher calldata voucher, uint8 v, bytes32 r, bytes32 s) external {
+        if (!creators[voucher.creator].isActive) revert NotRegistered();
+        if (block.timestamp > voucher.deadline) revert VoucherExpired();
+        if (voucher.recipient != address(0) && voucher.recipient != msg.sender) revert Unauthorized();
+        if (voucherNonceUsed[voucher.creator][voucher.nonce]) revert VoucherUsed();
+
+        bytes32 structHash = keccak256(
+            abi.encode(
+                COMP_VOUCHER_TYPEHASH,
+                voucher.creator,
+                voucher.recipient,
+                voucher.duration,
+                voucher.nonce,
+                voucher.deadline
+            )
+        );
+        address signer = ecrecover(keccak256(abi.encodePacked("\x19\x01", DOMAIN_SEPARATOR(), structHash)), v, r, s);
+        if (signer == address(0) || signer != voucher.creator) revert InvalidSignature();
+
+        voucherNonceUsed[voucher.creator][voucher.nonce] = true;
+        uint256 expiresAt = _grantComp(voucher.creator, msg.sender, voucher.duration);
+        emit ComplimentaryAccessGranted(voucher.creator, msg.sender, expiresAt, voucher.nonce);
+    }
+
+    /// @notice Invalidate a voucher that was handed out but not redeemed yet
+    /// @param nonce Nonce of the voucher to revoke
+    function revokeVoucher(uint256 nonce) external {
+        if (voucherNonceUsed[msg.sender][nonce]) revert VoucherUsed();
+        voucherNonceUsed[msg.sender][nonce] = true;
+        emit VoucherRevoked(msg.sender, nonce);
+    }
+
+    /// @notice EIP-712 domain separator for comp vouchers
+    function DOMAIN_SEPARATOR() public view returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+                    keccak256("Cryptletter"),
+                    keccak256("1"),
+                    block.chainid,
+                    address(this)
+                )
+            );
+    }
+
+    // ============ Earnings Functions ============
+
+    /// @notice Withdraw the caller's full ETH balance to their own address
+    function withdraw() external {
+        _withdraw(address(0), msg.sender);
+    }
+
+    /// @notice Withdraw the caller's full ETH balance to another address
+    /// @param to Address receiving the funds
+    function withdrawTo(address to) external {
+        if (to == address(0)) revert InvalidInput();
+        _withdraw(address(0), to);
+    }
+
+    /// @notice Withdraw the caller's full balance of an ERC-20 token
+    /// @param token Token to withdraw
+    /// @param to Address receiving the funds
+    function withdrawToken(address token, address to) external {
+        if (token == address(0) || to == address(0)) revert InvalidInput();
+        _withdraw(token, to);
+    }
+
+    /// @notice Get a creator's earnings in one payment token
+    /// @param creator Creator address
+    /// @param token Payment token (address(0) = ETH)
+    /// @return balance Withdrawable balance
+    /// @return earned Lifetime earnings
+    /// @return withdrawn Lifetime withdrawals
+    function getCreatorEarnings(
+        address creator,
+        address token
+    ) external view returns (uint256 balance, uint256 earned, uint256 withdrawn) {
+        return (creatorBalances[creator][token], totalEarnings[creator][token], totalWithdrawn[creator][token]);
+    }
+
+    // ============ Admin Functions ============
+
+    /// @notice Set the platform fee taken from subscription payments
+    /// @dev Only applies to payments made after the change
+    /// @param feeBps Fee in basis points (max MAX_PLATFORM_FEE_BPS)
+    function setPlatformFee(uint256 feeBps) external {
+        _checkOwner();
+        if (feeBps > MAX_PLATFORM_FEE_BPS) revert InvalidFee();
+
+        emit PlatformFeeUpdated(platformFeeBps, feeBps);
+        platformFeeBps = feeBps;
+    }
+
+    /// @notice Change the address platform fees are paid out to
+    /// @param newTreasury New treasury address
+    function setTreasury(address newTreasury) external {
+        _checkOwner();
+        if (newTreasury == address(0)) revert InvalidInput();
+
+        emit TreasuryUpdated(treasury, newTreasury);
+        treasury = newTreasury;
+    }
+
+    /// @notice Hand the admin role to another address
+    /// @param newOwner New owner address
+    function transferOwnership(address newOwner) external {
+        _checkOwner();
+        if (newOwner == address(0)) revert InvalidInput();
+
+        emit OwnershipTransferred(owner, newOwner);
+        owner = newOwner;
+    }
+
+    /// @notice Pay out accumulated platform fees in one payment token to the treasury
+    /// @param token Payment token (address(0) = ETH)
+    function withdrawPlatformFees(address token) external {
+        _checkOwner();
+        uint256 amount = treasuryBalances[token];
+        if (amount == 0) revert NothingToWithdraw();
+
+        treasuryBalances[token] = 0;
+        _transferOut(token, treasury, amount);
+
+        emit PlatformFeesWithdrawn(treasury, token, amount);
+    }
+
+    /// @notice Get platform fees in one payment token
+    /// @param token Payment token (address(0) = ETH)
+    /// @return balance Fees waiting to be paid out
+    /// @return collected Lifetime fees collected
+    function getPlatformFees(address token) external view returns (uint256 balance, uint256 collected) {
+        return (treasuryBalances[token], totalPlatformFees[token]);
+    }
+
     // ============ Access Control Functions ============
 
     /// @notice Check if a user can access a newsletter
@@ -257,24 +1072,43 @@ contract Cryptletter is SepoliaConfig {
             return false;
         }
 
-        // Public posts are accessible to everyone
-        if (post.isPublic) {
+        // Creator can always access their own content
+        if (user == post.creator) {
             return true;
         }
 
-        // Creator can always access their own content
-        if (user == post.creator) {
+        // Scheduled posts stay embargoed for everyone else until their release time
+        if (block.timestamp < post.availableAt) {
+            return false;
+        }
+
+        // Buyers of a pay-per-view post keep access regardless of subscription, even after it's unpublished
+        if (postPurchases[postId][user]) {
+            return true;
+        }
+
+        if (post.isUnpublished) {
+            return false;
+        }
+
+        // Public posts are accessible to everyone
+        if (post.isPublic) {
             return true;
         }
 
         // Check if user has valid subscription (not expired yet)
         // Even if cancelled (isActive=false), user can still access until expiresAt
         Subscription storage sub = subscriptions[user][post.creator];
-        return sub.expiresAt > block.timestamp;
+        if (sub.expiresAt <= block.timestamp) {
+            return false;
+        }
+
+        // Subscriber's tier must rank at least as high as the post requires
+        return creatorTiers[post.creator][sub.tierId].rank >= post.minTierRank;
     }
 
     /// @notice Grant permission to decrypt a newsletter's key
-    /// @dev Must be called before attempting client-side decryption
+    /// @dev Must be called before attempting client-side decryption; works for subscribers and post buyers
     /// @param postId Newsletter post ID
     function grantDecryptionPermission(uint256 postId) external {
         NewsletterPost storage post = newsletters[postId];
@@ -284,6 +1118,7 @@ contract Cryptletter is SepoliaConfig {
             return; // Early return for public posts
         }
 
+        if (block.timestamp < post.availableAt && msg.sender != post.creator) revert NotYetAvailable();
         if (!canAccessNewsletter(postId, msg.sender)) revert Unauthorized();
 
         // Grant permission to the caller to decrypt the key
@@ -315,13 +1150,75 @@ contract Cryptletter is SepoliaConfig {
     /// @return expiresAt Expiry timestamp
     /// @return subscribedAt Initial subscription timestamp
     /// @return hasAccess Whether user can still access content (considers expiry, not cancellation)
+    /// @return tierId Tier the subscriber is on
+    /// @return creditedTime Seconds of the current period that came from overpayment credit
+    /// @return giftedBy Who gifted the current period (address(0) if self-paid)
+    /// @return isTrial Whether the current period is a free trial
     function getSubscriptionStatus(
         address subscriber,
         address creator
-    ) external view returns (bool isActive, uint256 expiresAt, uint256 subscribedAt, bool hasAccess) {
+    )
+        external
+        view
+        returns (
+            bool isActive,
+            uint256 expiresAt,
+            uint256 subscribedAt,
+            bool hasAccess,
+            uint256 tierId,
+            uint256 creditedTime,
+            address giftedBy,
+            bool isTrial
+        )
+    {
         Subscription storage sub = subscriptions[subscriber][creator];
         bool stillHasAccess = sub.expiresAt > block.timestamp;
-        return (sub.isActive, sub.expiresAt, sub.subscribedAt, stillHasAccess);
+        return (
+            sub.isActive,
+            sub.expiresAt,
+            sub.subscribedAt,
+            stillHasAccess,
+            sub.tierId,
+            sub.creditedTime,
+            sub.giftedBy,
+            sub.isTrial
+        );
+    }
+
+    /// @notice Get number of addresses that have ever subscribed to a creator (including expired and cancelled)
+    /// @param creator Creator address
+    /// @return Number of entries in the creator's subscriber index
+    function getCreatorSubscriberCount(address creator) external view returns (uint256) {
+        return creatorSubscribers[creator].length;
+    }
+
+    /// @notice Get a creator's subscribers with their subscriptions (paginated, oldest first)
+    /// @param creator Creator address
+    /// @param offset Starting index
+    /// @param limit Number of subscribers to return
+    /// @return subscribers Subscriber addresses
+    /// @return subs Each subscriber's subscription to the creator
+    function getCreatorSubscribers(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (address[] memory subscribers, Subscription[] memory subs) {
+        address[] storage list = creatorSubscribers[creator];
+        if (offset >= list.length) {
+            return (new address[](0), new Subscription[](0));
+        }
+
+        uint256 end = offset + limit;
+        if (end > list.length) {
+            end = list.length;
+        }
+
+        subscribers = new address[](end - offset);
+        subs = new Subscription[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            subscribers[i - offset] = list[i];
+            subs[i - offset] = subscriptions[list[i]][creator];
+        }
     }
 
     // ============ Query Functions ============
@@ -333,6 +1230,50 @@ contract Cryptletter is SepoliaConfig {
         return creators[creator];
     }
 
+    /// @notice Get the price of a subscription after any multi-period discount
+    /// @param creator Creator address
+    /// @param tierId Tier ID
+    /// @param periods Number of periods (1, 3, 6 or 12)
+    /// @return price Total price in wei
+    function quoteSubscription(address creator, uint256 tierId, uint256 periods) public view returns (uint256 price) {
+        if (tierId >= creatorTiers[creator].length) revert InvalidTier();
+        if (!_isValidPeriods(periods)) revert InvalidPeriods();
+        return _quote(creator, creatorTiers[creator][tierId].price, periods);
+    }
+
+    /// @notice Get the price of a subscription after the multi-period discount and a promo code
+    /// @dev Reverts with InvalidPromoCode if the code can't be used right now
+    /// @param creator Creator address
+    /// @param tierId Tier ID
+    /// @param periods Number of periods (1, 3, 6 or 12)
+    /// @param promoCode Promo code text
+    /// @return price Total price in wei or token units
+    function quoteSubscriptionWithCode(
+        address creator,
+        uint256 tierId,
+        uint256 periods,
+        string calldata promoCode
+    ) external view returns (uint256 price) {
+        price = quoteSubscription(creator, tierId, periods);
+        price -= _promoDiscount(creator, _promoCodeHash(promoCode), price);
+    }
+
+    /// @notice Get all tiers of a creator
+    /// @param creator Creator address
+    /// @return Array of tiers (index = tier ID)
+    function getTiers(address creator) external view returns (Tier[] memory) {
+        return creatorTiers[creator];
+    }
+
+    /// @notice Get a single tier of a creator
+    /// @param creator Creator address
+    /// @param tierId Tier ID
+    /// @return Tier struct
+    function getTier(address creator, uint256 tierId) external view returns (Tier memory) {
+        if (tierId >= creatorTiers[creator].length) revert InvalidTier();
+        return creatorTiers[creator][tierId];
+    }
+
     /// @notice Get newsletter post details
     /// @param postId Post ID
     /// @return NewsletterPost struct with post information
@@ -340,6 +1281,56 @@ contract Cryptletter is SepoliaConfig {
         return newsletters[postId];
     }
 
+    /// @notice Get several newsletter posts in one call
+    /// @param postIds Post IDs to fetch (unknown IDs come back as empty posts)
+    /// @return posts NewsletterPost structs in the same order as `postIds`
+    function getNewsletters(uint256[] calldata postIds) external view returns (NewsletterPost[] memory posts) {
+        posts = new NewsletterPost[](postIds.length);
+        for (uint256 i = 0; i < postIds.length; i++) {
+            posts[i] = newsletters[postIds[i]];
+        }
+    }
+
+    /// @notice Get number of posts a creator has published (including unpublished ones)
+    /// @param creator Creator address
+    /// @return Number of post IDs in the creator's index
+    function getCreatorPostCount(address creator) external view returns (uint256) {
+        return creatorPosts[creator].length;
+    }
+
+    /// @notice Get a creator's post IDs (paginated, newest first)
+    /// @param creator Creator address
+    /// @param offset Number of most recent posts to skip
+    /// @param limit Number of post IDs to return
+    /// @return postIds Post IDs, newest first
+    function getCreatorPosts(
+        address creator,
+        uint256 offset,
+        uint256 limit
+    ) external view returns (uint256[] memory postIds) {
+        uint256[] storage ids = creatorPosts[creator];
+        if (offset >= ids.length) {
+            return new uint256[](0);
+        }
+
+        uint256 count = ids.length - offset;
+        if (count > limit) {
+            count = limit;
+        }
+
+        postIds = new uint256[](count);
+        for (uint256 i = 0; i < count; i++) {
+            postIds[i] = ids[ids.length - 1 - offset - i];
+        }
+    }
+
+    /// @notice Get every content revision of a post, oldest first
+    /// @param postId Post ID
+    /// @return Array of revisions (the last entry is the current content)
+    function getNewsletterVersions(uint256 postId) external view returns (PostVersion[] memory) {
+        return postVersions[postId];
+    }
+
     /// @notice Get total number of creators
     /// @return Total number of registered creators
     function getCreatorCount() external view returns (uint256) {
@@ -347,11 +1338,12 @@ contract Cryptletter is SepoliaConfig {
     }
 
     /// @notice Get list of creator addresses (paginated)
-    /// @param offset Starting index
+    /// @param offset Starting index (counted among active creators when `activeOnly` is set)
     /// @param limit Number of creators to return
+    /// @param activeOnly Skip creators that deactivated their profile
     /// @return Array of creator addresses
-    function getCreators(uint256 offset, uint256 limit) external view returns (address[] memory) {
-        uint256 total = creatorList.length;
+    function getCreators(uint256 offset, uint256 limit, bool activeOnly) external view returns (address[] memory) {
+        uint256 total = activeOnly ? activeCreatorCount : creatorList.length;
         if (offset >= total) {
             return new address[](0);
         }
@@ -362,10 +1354,264 @@ contract Cryptletter is SepoliaConfig {
         }
 
         address[] memory result = new address[](end - offset);
-        for (uint256 i = offset; i < end; i++) {
-            result[i - offset] = creatorList[i];
+        if (!activeOnly) {
+            for (uint256 i = offset; i < end; i++) {
+                result[i - offset] = creatorList[i];
+            }
+            return result;
+        }
+
+        // Walk the full list, counting only active creators towards the offset
+        uint256 seen;
+        uint256 count;
+        for (uint256 i = 0; count < result.length; i++) {
+            address creator = creatorList[i];
+            if (!creators[creator].isActive) continue;
+            if (seen++ >= offset) {
+                result[count++] = creator;
+            }
         }
 
         return result;
     }
+
+    // ============ Internal Functions ============
+
+    /// @dev Start or extend a subscription and return the new expiry.
+    ///      On a tier change the time left is carried over at its value on the new tier.
+    function _activateSubscription(
+        address subscriber,
+        address creator,
+        uint256 tierId,
+        uint256 duration
+    ) internal returns (uint256 expiresAt) {
+        Subscription storage sub = subscriptions[subscriber][creator];
+
+        if (sub.isActive && sub.expiresAt > block.timestamp) {
+            // Extend existing subscription
+            uint256 remaining = sub.expiresAt - block.timestamp;
+            if (sub.tierId != tierId) {
+                Tier storage from = creatorTiers[creator][sub.tierId];
+                Tier storage to = creatorTiers[creator][tierId];
+                remaining = (remaining * from.price * to.duration) / (from.duration * to.price);
+                sub.creditedTime = 0;
+            }
+            expiresAt = block.timestamp + remaining + duration;
+        } else {
+            // New or expired subscription
+            expiresAt = block.timestamp + duration;
+            sub.creditedTime = 0;
+            if (!sub.isActive) {
+                creators[creator].subscriberCount++;
+            }
+        }
+
+        if (sub.subscribedAt == 0) {
+            sub.subscribedAt = block.timestamp;
+            creatorSubscribers[creator].push(subscriber);
+        }
+        sub.expiresAt = expiresAt;
+        sub.isActive = true;
+        sub.tierId = tierId;
+    }
+
+    /// @dev Total price for `periods` periods at `price` each, after the creator's discount
+    function _quote(address creator, uint256 price, uint256 periods) internal view returns (uint256) {
+        uint256 total = price * periods;
+        return total - (total * periodDiscounts[creator][periods]) / BPS_DENOMINATOR;
+    }
+
+    /// @dev Hash of a promo code's text, or zero when no code was given
+    function _promoCodeHash(string calldata promoCode) internal pure returns (bytes32) {
+        return bytes(promoCode).length == 0 ? bytes32(0) : keccak256(bytes(promoCode));
+    }
+
+    /// @dev Amount a usable promo code takes off `price` (never more than the price itself)
+    function _promoDiscount(address creator, bytes32 codeHash, uint256 price) internal view returns (uint256) {
+        if (codeHash == bytes32(0)) return 0;
+
+        PromoCode storage promo = promoCodes[creator][codeHash];
+        if (
+            !promo.isActive ||
+            (promo.expiresAt != 0 && block.timestamp > promo.expiresAt) ||
+            (promo.maxRedemptions != 0 && promo.redemptions >= promo.maxRedemptions)
+        ) revert InvalidPromoCode();
+
+        uint256 discount = promo.fixedDiscount + (price * promo.discountBps) / BPS_DENOMINATOR;
+        return discount > price ? price : discount;
+    }
+
+    /// @dev Extra seconds an overpayment buys at the tier's undiscounted rate, if the sender opted in
+    function _overpaymentCredit(Tier storage tier, uint256 excess) internal view returns (uint256) {
+        if (excess == 0 || !creditOverpayment[msg.sender]) return 0;
+        return (excess * tier.duration) / tier.price;
+    }
+
+    /// @dev Shared body of subscribe, subscribeWithPermit and gifts; the caller always pays
+    function _subscribe(
+        address subscriber,
+        address creator,
+        uint256 tierId,
+        uint256 periods,
+        bytes32 codeHash
+    ) internal returns (uint256 expiresAt) {
+        if (!creators[creator].isActive) revert NotRegistered();
+        Tier storage tier = _purchasableTier(creator, tierId);
+        if (!_isValidPeriods(periods)) revert InvalidPeriods();
+        uint256 price = _quote(creator, tier.price, periods);
+
+        if (codeHash != bytes32(0)) {
+            uint256 discount = _promoDiscount(creator, codeHash, price);
+            promoCodes[creator][codeHash].redemptions++;
+            price -= discount;
+            emit PromoCodeRedeemed(subscriber, creator, codeHash, discount);
+        }
+
+        uint256 credit = _checkPayment(creator, tier, price);
+        expiresAt = _activateSubscription(subscriber, creator, tierId, tier.duration * periods + credit);
+        Subscription storage sub = subscriptions[subscriber][creator];
+        sub.creditedTime += credit;
+        sub.giftedBy = subscriber == msg.sender ? address(0) : msg.sender;
+        sub.isTrial = false;
+
+        _settlePayment(creator, price, credit);
+
+        emit Subscribed(subscriber, creator, expiresAt, tierId, periods);
+    }
+
+    /// @dev Validate a gift and subscribe the recipient on their running tier, or the default tier
+    function _gift(address creator, address recipient, uint256 periods) internal returns (uint256) {
+        if (recipient == address(0) || recipient == msg.sender) revert InvalidInput();
+
+        return _subscribe(recipient, creator, _runningTier(subscriptions[recipient][creator]), periods, bytes32(0));
+    }
+
+    /// @dev Add free time for a subscriber on their running tier, or the default tier if they have none
+    function _grantComp(address creator, address subscriber, uint256 duration) internal returns (uint256 expiresAt) {
+        if (subscriber == address(0) || subscriber == creator) revert InvalidInput();
+        if (duration == 0 || duration > MAX_COMP_DURATION) revert InvalidInput();
+
+        Subscription storage sub = subscriptions[subscriber][creator];
+        expiresAt = _activateSubscription(subscriber, creator, _runningTier(sub), duration);
+        sub.giftedBy = creator;
+        sub.isTrial = false;
+    }
+
+    /// @dev Tier of a running subscription, or the default tier if it isn't running
+    function _runningTier(Subscription storage sub) internal view returns (uint256) {
+        return sub.isActive && sub.expiresAt > block.timestamp ? sub.tierId : 0;
+    }
+
+    /// @dev Validate msg.value against the creator's payment method and return any overpayment credit
+    function _checkPayment(address creator, Tier storage tier, uint256 price) internal view returns (uint256) {
+        if (creators[creator].paymentToken != address(0)) {
+            if (msg.value != 0) revert WrongPaymentMethod();
+            return 0;
+        }
+        if (msg.value < price) revert InsufficientPayment();
+        return _overpaymentCredit(tier, msg.value - price);
+    }
+
+    /// @dev Credit the creator and collect the payment; for ETH, refund whatever was sent above `price`
+    ///      unless it was credited as time
+    function _settlePayment(address creator, uint256 price, uint256 creditedTime) internal {
+        address token = creators[creator].paymentToken;
+        if (token != address(0)) {
+            _splitPayment(creator, msg.sender, token, price);
+            _callToken(token, abi.encodeCall(IERC20.transferFrom, (msg.sender, address(this), price)));
+            return;
+        }
+
+        uint256 excess = msg.value - price;
+        uint256 refund = creditedTime > 0 ? 0 : excess;
+
+        _splitPayment(creator, msg.sender, address(0), msg.value - refund);
+
+        if (refund > 0) {
+            (bool success, ) = msg.sender.call{value: refund}("");
+            if (!success) revert TransferFailed();
+        }
+
+        if (excess > 0) {
+            emit OverpaymentSettled(msg.sender, creator, excess, refund, creditedTime);
+        }
+    }
+
+    /// @dev Take the platform fee off a payment and credit the rest to the creator
+    function _splitPayment(address creator, address payer, address token, uint256 amount) internal {
+        uint256 fee = (amount * platformFeeBps) / BPS_DENOMINATOR;
+        if (fee > 0) {
+            treasuryBalances[token] += fee;
+            totalPlatformFees[token] += fee;
+            emit PlatformFeeCollected(creator, token, fee);
+        }
+
+        _creditEarnings(creator, payer, token, amount - fee);
+    }
+
+    /// @dev Revert unless the caller is the platform owner
+    function _checkOwner() internal view {
+        if (msg.sender != owner) revert Unauthorized();
+    }
+
+    /// @dev Revert unless the caller is an active creator
+    function _checkActiveCreator() internal view {
+        if (!creators[msg.sender].isActive) revert NotRegistered();
+    }
+
+    /// @dev Add a payment to a creator's withdrawable balance
+    function _creditEarnings(address creator, address payer, address token, uint256 amount) internal {
+        creatorBalances[creator][token] += amount;
+        totalEarnings[creator][token] += amount;
+        emit EarningsCredited(creator, payer, token, amount);
+    }
+
+    /// @dev Send the caller's full balance of `token` to `to`
+    function _withdraw(address token, address to) internal {
+        uint256 amount = creatorBalances[msg.sender][token];
+        if (amount == 0) revert NothingToWithdraw();
+
+        creatorBalances[msg.sender][token] = 0;
+        totalWithdrawn[msg.sender][token] += amount;
+        _transferOut(token, to, amount);
+
+        emit EarningsWithdrawn(msg.sender, to, token, amount);
+    }
+
+    /// @dev Send `amount` of `token` (address(0) = ETH) from the contract to `to`
+    function _transferOut(address token, address to, uint256 amount) internal {
+        if (token == address(0)) {
+            (bool success, ) = to.call{value: amount}("");
+            if (!success) revert TransferFailed();
+        } else {
+            _callToken(token, abi.encodeCall(IERC20.transfer, (to, amount)));
+        }
+    }
+
+    /// @dev Call an ERC-20 token, accepting tokens that return nothing instead of `true`
+    function _callToken(address token, bytes memory data) internal {
+        (bool success, bytes memory result) = token.call(data);
+        if (!success || (result.length != 0 && !abi.decode(result, (bool)))) revert TransferFailed();
+    }
+
+    /// @dev Set the caller's payment token, which must be ETH (address(0)) or a contract
+    function _setPaymentToken(address token) internal {
+        if (token != address(0) && token.code.length == 0) revert InvalidInput();
+        if (creators[msg.sender].paymentToken == token) return;
+
+        creators[msg.sender].paymentToken = token;
+        emit PaymentTokenUpdated(msg.sender, token);
+    }
+
+    /// @dev Subscriptions can be bought for 1, 3, 6 or 12 periods
+    function _isValidPeriods(uint256 periods) internal pure returns (bool) {
+        return periods == 1 || periods == 3 || periods == 6 || periods == 12;
+    }
+
+    /// @dev Look up a tier that can currently be bought, reverting otherwise
+    function _purchasableTier(address creator, uint256 tierId) internal view returns (Tier storage tier) {
+        if (tierId >= creatorTiers[creator].length) revert InvalidTier();
+        tier = creatorTiers[creator][tierId];
+        if (!tier.isActive) revert InvalidTier();
+    }
 }
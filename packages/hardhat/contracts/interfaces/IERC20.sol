@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+/// @title Minimal ERC-20 interface used for token-priced subscriptions
+/// @author Zama Developer Program - Cryptletter Team
+/// @notice Only the calls Cryptletter makes; non-standard tokens that return nothing are handled by the caller
+interface IERC20 {
+    /// @notice Move `amount` tokens from the caller to `to`
+    /// @param to Recipient
+    /// @param amount Amount in the token's smallest unit
+    /// @return success Whether the transfer succeeded
+    function transfer(address to, uint256 amount) external returns (bool success);
+
+    /// @notice Move `amount` tokens from `from` to `to` using the caller's allowance
+    /// @param from Owner of the tokens
+    /// @param to Recipient
+    /// @param amount Amount in the token's smallest unit
+    /// @return success Whether the transfer succeeded
+    function transferFrom(address from, address to, uint256 amount) external returns (bool success);
+}
+
+/// @title EIP-2612 permit extension
+/// @author Zama Developer Program - Cryptletter Team
+/// @notice Lets subscribers approve with a signature instead of a transaction
+interface IERC20Permit {
+    /// @notice Set `spender`'s allowance over `owner`'s tokens from a signed approval
+    /// @param owner Token owner who signed the approval
+    /// @param spender Address allowed to spend the tokens
+    /// @param value Allowance to set
+    /// @param deadline Timestamp after which the signature is no longer valid
+    /// @param v Signature recovery id
+    /// @param r Signature r value
+    /// @param s Signature s value
+    function permit(
+        address owner,
+        address spender,
+        uint256 value,
+        uint256 deadline,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external;
+}
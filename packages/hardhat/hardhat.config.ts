@@ -10,6 +10,7 @@ import { vars } from "hardhat/config";
 import "solidity-coverage";
 
 import "./tasks/accounts";
+import "./tasks/renewals";
 
 // Run 'npx hardhat vars setup' to see the list of variables that need to be set
 
@@ -0,0 +1,77 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+interface RenewalsArgs {
+  address?: string;
+  creator?: string;
+  interval: number;
+  batch: number;
+}
+
+/**
+ * Keeper for auto-renewing subscriptions
+ *
+ * Finds every subscription with auto-renew switched on (from AutoRenewUpdated events), and calls
+ * processRenewals for the ones that have lapsed. Subscriptions the contract would skip anyway
+ * (too little escrow, unavailable tier) cost nothing: each batch is simulated first.
+ *
+ * npx hardhat renewals --network localhost
+ * npx hardhat renewals --network localhost --interval 60
+ */
+task("renewals", "Renews lapsed auto-renew subscriptions from their escrows")
+  .addOptionalParam("address", "Cryptletter address (defaults to the hardhat-deploy deployment)")
+  .addOptionalParam("creator", "Only renew subscriptions to this creator")
+  .addOptionalParam("interval", "Seconds between passes (0 = run once)", 0, types.int)
+  .addOptionalParam("batch", "Subscribers per processRenewals call", 50, types.int)
+  .setAction(async (args: RenewalsArgs, hre) => {
+    const address = args.address ?? (await hre.deployments.get("Cryptletter")).address;
+
+    for (;;) {
+      const renewed = await processDueRenewals(hre, address, args);
+      console.log(`Renewed ${renewed} subscription${renewed === 1 ? "" : "s"}`);
+
+      if (args.interval <= 0) return;
+      await new Promise((resolve) => setTimeout(resolve, args.interval * 1000));
+    }
+  });
+
+async function processDueRenewals(hre: HardhatRuntimeEnvironment, address: string, args: RenewalsArgs) {
+  const cryptletter = await hre.ethers.getContractAt("Cryptletter", address);
+
+  // Latest toggle per subscriber => creator
+  const toggles = await cryptletter.queryFilter(cryptletter.filters.AutoRenewUpdated(undefined, args.creator));
+  const enabled = new Map<string, { subscriber: string; creator: string }>();
+  for (const { args: toggle } of toggles) {
+    const key = `${toggle.subscriber}:${toggle.creator}`;
+    if (toggle.enabled) {
+      enabled.set(key, { subscriber: toggle.subscriber, creator: toggle.creator });
+    } else {
+      enabled.delete(key);
+    }
+  }
+
+  // Group lapsed, uncancelled subscriptions by creator
+  const now = BigInt((await hre.ethers.provider.getBlock("latest"))!.timestamp);
+  const due = new Map<string, string[]>();
+  for (const { subscriber, creator } of enabled.values()) {
+    const [isActive, expiresAt] = await cryptletter.getSubscriptionStatus(subscriber, creator);
+    if (isActive && expiresAt <= now) {
+      due.set(creator, [...(due.get(creator) ?? []), subscriber]);
+    }
+  }
+
+  let renewed = 0;
+  for (const [creator, subscribers] of due) {
+    for (let i = 0; i < subscribers.length; i += args.batch) {
+      const batch = subscribers.slice(i, i + args.batch);
+      const count = Number(await cryptletter.processRenewals.staticCall(batch, creator));
+      if (count === 0) continue;
+
+      const tx = await cryptletter.processRenewals(batch, creator);
+      await tx.wait();
+      console.log(`${creator}: renewed ${count} of ${batch.length} (${tx.hash})`);
+      renewed += count;
+    }
+  }
+  return renewed;
+}
@@ -1,15 +1,26 @@
 "use client";
 
-import React, { useEffect } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
-import { useDeployedContractInfo } from "../../hooks/helper";
+import { TokenAmount } from "../../components/cryptletter/TokenAmount";
+import { useDeployedContractInfo, usePaymentToken } from "../../hooks/helper";
+import { useEthersProvider } from "../../hooks/helper/useEthersProvider";
+import { useEthersSigner } from "../../hooks/helper/useEthersSigner";
 import type { AllowedChainIds } from "../../utils/helper/networks";
 import { notification } from "../../utils/helper/notification";
-import { type CreatorRegistrationFormData, creatorRegistrationSchema } from "../../utils/validation";
+import {
+  type CreatorRegistrationFormData,
+  type SubscriptionTierFormData,
+  creatorRegistrationSchema,
+  ethereumAddressSchema,
+  subscriptionTierSchema,
+} from "../../utils/validation";
+import { type CreatorSubscriber, encodeCompVoucher, normalizePromoCode, toCsvField } from "@fhevm-sdk";
+import { useCryptletter } from "@fhevm-sdk/react";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
-import { formatEther } from "viem";
-import { useAccount, useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+import { parseUnits, zeroAddress } from "viem";
+import { useAccount, useReadContract, useReadContracts, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
 export function CreatorDashboardView() {
   const { address: userAddress, chain } = useAccount();
@@ -21,7 +32,7 @@ export function CreatorDashboardView() {
   });
 
   // Get creator details
-  const { data: creatorData } = useReadContract({
+  const { data: creatorData, refetch: refetchCreator } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
     functionName: "getCreator",
@@ -31,69 +42,17 @@ export function CreatorDashboardView() {
     },
   });
 
-  // Get post counter to calculate total posts
-  const { data: postCounter } = useReadContract({
+  // Count posts belonging to this creator via the on-chain post index
+  const { data: postCount, isLoading: isCountingPosts } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
-    functionName: "postCounter",
+    functionName: "getCreatorPostCount",
+    args: [userAddress as `0x${string}`],
     query: {
-      enabled: Boolean(contractInfo?.address),
+      enabled: Boolean(contractInfo?.address && userAddress),
     },
   });
-
-  // Count posts belonging to this creator
-  const [myPostsCount, setMyPostsCount] = React.useState(0);
-  const [isCountingPosts, setIsCountingPosts] = React.useState(false);
-
-  React.useEffect(() => {
-    if (!contractInfo?.address || !postCounter || !userAddress || !chain) return;
-
-    const countMyPosts = async () => {
-      setIsCountingPosts(true);
-      try {
-        const totalPosts = Number(postCounter);
-        let count = 0;
-
-        // Iterate through all posts and count those belonging to this creator
-        // Note: This is inefficient for large datasets. In production, use The Graph or similar indexer.
-        const { createPublicClient, http } = await import("viem");
-
-        const publicClient = createPublicClient({
-          chain: chain, // Use current chain from wagmi
-          transport: http(),
-        });
-
-        for (let i = 0; i < totalPosts; i++) {
-          try {
-            const newsletter = await publicClient.readContract({
-              address: contractInfo.address as `0x${string}`,
-              abi: contractInfo.abi,
-              functionName: "newsletters",
-              args: [BigInt(i)],
-            });
-
-            const creator = Array.isArray(newsletter) ? newsletter[6] : (newsletter as any)?.creator;
-
-            if (creator?.toLowerCase() === userAddress.toLowerCase()) {
-              count++;
-            }
-          } catch {
-            // Skip this post if there's an error (might not exist or be deleted)
-            continue;
-          }
-        }
-
-        setMyPostsCount(count);
-      } catch (error) {
-        console.error("Error counting posts:", error);
-        setMyPostsCount(0);
-      } finally {
-        setIsCountingPosts(false);
-      }
-    };
-
-    countMyPosts();
-  }, [contractInfo?.address, contractInfo?.abi, postCounter, userAddress, chain]);
+  const myPostsCount = Number((postCount as bigint | undefined) ?? 0);
 
   if (!userAddress) {
     return (
@@ -118,7 +77,8 @@ export function CreatorDashboardView() {
 
   // Handle both array and object responses from contract
   const dataArray = creatorData ? (Array.isArray(creatorData) ? creatorData : Object.values(creatorData as any)) : null;
-  const isRegistered = dataArray ? dataArray[4] : false;
+  // Deactivated creators keep their profile, so registration is tracked by the name
+  const isRegistered = dataArray ? (dataArray[0] as string).length > 0 : false;
 
   if (!isRegistered) {
     return (
@@ -158,7 +118,14 @@ export function CreatorDashboardView() {
     );
   }
 
-  const [name, bio, monthlyPrice, subscriberCount] = dataArray as [string, string, bigint, bigint, boolean];
+  const [name, bio, monthlyPrice, subscriberCount, isActive, paymentToken] = dataArray as [
+    string,
+    string,
+    bigint,
+    bigint,
+    boolean,
+    string,
+  ];
 
   return (
     <div className="space-y-6">
@@ -173,14 +140,22 @@ export function CreatorDashboardView() {
         </Link>
       </div>
 
+      {!isActive && (
+        <div className="alert alert-warning">
+          <span>
+            Your profile is deactivated. Readers can&apos;t subscribe and you can&apos;t publish until you reactivate
+            it; existing subscribers keep access for the time they paid for.
+          </span>
+        </div>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-        <div className="card bg-primary text-primary-content shadow-lg">
-          <div className="card-body">
-            <h3 className="card-title text-4xl">{Number(subscriberCount)}</h3>
-            <p className="opacity-80">Subscribers</p>
-          </div>
-        </div>
+        <ActiveSubscribersCard
+          contractInfo={contractInfo}
+          creatorAddress={userAddress}
+          subscriberCount={subscriberCount}
+        />
 
         <div className="card bg-secondary text-secondary-content shadow-lg">
           <div className="card-body">
@@ -193,7 +168,9 @@ export function CreatorDashboardView() {
 
         <div className="card bg-accent text-accent-content shadow-lg">
           <div className="card-body">
-            <h3 className="card-title text-2xl">{formatEther(monthlyPrice)} ETH</h3>
+            <h3 className="card-title text-2xl">
+              <TokenAmount amount={monthlyPrice} token={paymentToken} />
+            </h3>
             <p className="opacity-80">Monthly Price</p>
           </div>
         </div>
@@ -248,6 +225,28 @@ export function CreatorDashboardView() {
         </div>
       </div>
 
+      {/* Subscribers */}
+      <SubscribersCard contractInfo={contractInfo} creatorAddress={userAddress as string} />
+
+      {/* Earnings */}
+      <EarningsCard contractInfo={contractInfo} creatorAddress={userAddress as string} paymentToken={paymentToken} />
+
+      {/* Subscription Tiers */}
+      <SubscriptionTiersCard
+        contractInfo={contractInfo}
+        creatorAddress={userAddress as string}
+        paymentToken={paymentToken}
+      />
+
+      {/* Complimentary Access */}
+      <CompAccessCard contractInfo={contractInfo} />
+
+      {/* Promo Codes */}
+      <PromoCodesCard contractInfo={contractInfo} paymentToken={paymentToken} />
+
+      {/* Deactivation */}
+      <ProfileStatusCard contractInfo={contractInfo} isActive={isActive} onChange={refetchCreator} />
+
       {/* Profile Info */}
       <div className="card bg-base-200 shadow-xl">
         <div className="card-body">
@@ -260,7 +259,8 @@ export function CreatorDashboardView() {
               <span className="font-semibold">Bio:</span> {bio}
             </div>
             <div>
-              <span className="font-semibold">Monthly Price:</span> {formatEther(monthlyPrice)} ETH
+              <span className="font-semibold">Monthly Price:</span>{" "}
+              <TokenAmount amount={monthlyPrice} token={paymentToken} />
             </div>
           </div>
           <div className="card-actions justify-end mt-4">
@@ -274,11 +274,1106 @@ export function CreatorDashboardView() {
   );
 }
 
+// Deactivate / reactivate the creator profile
+function ProfileStatusCard({
+  contractInfo,
+  isActive,
+  onChange,
+}: {
+  contractInfo: any;
+  isActive: boolean;
+  onChange: () => void;
+}) {
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (!isConfirmed) return;
+
+    // isActive still holds the state from before the transaction until the refetch lands
+    notification.success(isActive ? "Profile deactivated" : "Profile reactivated");
+    onChange();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConfirmed]);
+
+  useEffect(() => {
+    if (error) {
+      notification.error("Transaction failed");
+    }
+  }, [error]);
+
+  const handleToggle = () => {
+    if (!contractInfo?.address) return;
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: isActive ? "deactivateCreator" : "reactivateCreator",
+      args: [],
+    });
+  };
+
+  return (
+    <div className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Profile Status</h2>
+        <p className="text-sm opacity-70">
+          {isActive
+            ? "Deactivating closes new subscriptions, trials and post sales. Current subscribers keep access until their paid time ends, and your earnings stay withdrawable."
+            : "Reactivate to publish again and accept new subscribers. Your tiers and settings are kept."}
+        </p>
+        <div className="card-actions justify-end mt-2">
+          <button
+            className={`btn btn-sm ${isActive ? "btn-outline btn-error" : "btn-primary"}`}
+            onClick={handleToggle}
+            disabled={isPending || isConfirming}
+          >
+            {isPending || isConfirming ? (
+              <span className="loading loading-spinner loading-sm"></span>
+            ) : isActive ? (
+              "Deactivate Profile"
+            ) : (
+              "Reactivate Profile"
+            )}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+interface SubscriberRow {
+  address: string;
+  tier: string;
+  status: "Active" | "Cancelled" | "Expired";
+  source: string;
+  subscribedAt: Date;
+  expiresAt: Date;
+}
+
+// Subscribers Component
+function ActiveSubscribersCard({
+  contractInfo,
+  creatorAddress,
+  subscriberCount,
+}: {
+  contractInfo: any;
+  creatorAddress: string;
+  subscriberCount: bigint;
+}) {
+  const provider = useEthersProvider();
+  const [activeCount, setActiveCount] = useState<number | null>(null);
+
+  // The on-chain subscriberCount keeps subscriptions that lapsed without a cancel, so count running ones
+  const { sdk, getActiveSubscriberCount } = useCryptletter({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    provider: provider as any,
+  });
+
+  useEffect(() => {
+    if (!sdk) return;
+    getActiveSubscriberCount(creatorAddress)
+      .then(setActiveCount)
+      .catch(error => console.error("Failed to count active subscribers:", error));
+  }, [sdk, creatorAddress, subscriberCount, getActiveSubscriberCount]);
+
+  return (
+    <div className="card bg-primary text-primary-content shadow-lg">
+      <div className="card-body">
+        <h3 className="card-title text-4xl">
+          {activeCount === null ? <span className="loading loading-spinner loading-md"></span> : activeCount}
+        </h3>
+        <p className="opacity-80">Active Subscribers</p>
+      </div>
+    </div>
+  );
+}
+
+function SubscribersCard({ contractInfo, creatorAddress }: { contractInfo: any; creatorAddress: string }) {
+  const [activeOnly, setActiveOnly] = useState(false);
+
+  const { data: countData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getCreatorSubscriberCount",
+    args: [creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+  const subscriberCount = (countData as bigint | undefined) ?? 0n;
+
+  const provider = useEthersProvider();
+  const { sdk, listSubscribers } = useCryptletter({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    provider: provider as any,
+  });
+  const [subscribers, setSubscribers] = useState<CreatorSubscriber[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Read the whole list in pages rather than one call sized by the subscriber count
+  useEffect(() => {
+    if (!sdk || subscriberCount === 0n) return;
+    let cancelled = false;
+    setIsLoading(true);
+    listSubscribers(creatorAddress, { limit: Number(subscriberCount) })
+      .then(list => {
+        if (!cancelled) setSubscribers(list);
+      })
+      .catch(error => console.error("Failed to load subscribers:", error))
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [sdk, creatorAddress, subscriberCount, listSubscribers]);
+
+  const { data: tiersData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getTiers",
+    args: [creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+
+  const rows = useMemo(() => {
+    const tiers = (tiersData as any[] | undefined) ?? [];
+
+    return subscribers.map((sub): SubscriberRow => {
+      const giftedBy = sub.giftedBy;
+      return {
+        address: sub.address,
+        tier: tiers[sub.tierId]?.name ?? `Tier ${sub.tierId}`,
+        status: !sub.hasAccess ? "Expired" : sub.isActive ? "Active" : "Cancelled",
+        source: sub.isTrial
+          ? "Trial"
+          : giftedBy === zeroAddress
+            ? "Paid"
+            : giftedBy.toLowerCase() === creatorAddress.toLowerCase()
+              ? "Comp"
+              : `Gift from ${giftedBy}`,
+        subscribedAt: new Date(Number(sub.subscribedAt) * 1000),
+        expiresAt: new Date(Number(sub.expiresAt) * 1000),
+      };
+    });
+  }, [subscribers, tiersData, creatorAddress]);
+
+  const visibleRows = activeOnly ? rows.filter(row => row.status === "Active") : rows;
+
+  const handleExport = () => {
+    const header = ["address", "tier", "status", "source", "subscribed_at", "expires_at"];
+    const lines = visibleRows.map(row =>
+      [row.address, row.tier, row.status, row.source, row.subscribedAt.toISOString(), row.expiresAt.toISOString()]
+        .map(toCsvField)
+        .join(","),
+    );
+
+    const blob = new Blob([[header.join(","), ...lines].join("\n")], { type: "text/csv" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `subscribers-${new Date().toISOString().slice(0, 10)}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h2 className="card-title">Subscribers</h2>
+          <div className="flex items-center gap-4">
+            <label className="label cursor-pointer gap-2">
+              <span className="label-text">Active only</span>
+              <input
+                type="checkbox"
+                className="toggle toggle-sm"
+                checked={activeOnly}
+                onChange={e => setActiveOnly(e.target.checked)}
+              />
+            </label>
+            <button className="btn btn-sm btn-outline" onClick={handleExport} disabled={visibleRows.length === 0}>
+              Export CSV
+            </button>
+          </div>
+        </div>
+        <p className="text-sm opacity-70">
+          Everyone who has subscribed, been gifted, comped or started a trial. Cancelled subscribers keep access until
+          their paid time runs out.
+        </p>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <span className="loading loading-spinner loading-md"></span>
+          </div>
+        ) : visibleRows.length === 0 ? (
+          <p className="text-sm opacity-70 py-4">{activeOnly ? "No active subscribers." : "No subscribers yet."}</p>
+        ) : (
+          <div className="overflow-x-auto mt-2 max-h-96">
+            <table className="table table-sm table-pin-rows">
+              <thead>
+                <tr>
+                  <th>Subscriber</th>
+                  <th>Tier</th>
+                  <th>Status</th>
+                  <th>Source</th>
+                  <th>Since</th>
+                  <th>Expires</th>
+                </tr>
+              </thead>
+              <tbody>
+                {visibleRows.map(row => (
+                  <tr key={row.address}>
+                    <td className="font-mono text-xs">{row.address}</td>
+                    <td>{row.tier}</td>
+                    <td>
+                      <span
+                        className={`badge badge-sm ${
+                          row.status === "Active"
+                            ? "badge-success"
+                            : row.status === "Cancelled"
+                              ? "badge-warning"
+                              : "badge-ghost"
+                        }`}
+                      >
+                        {row.status}
+                      </span>
+                    </td>
+                    <td className="text-xs">{row.source}</td>
+                    <td className="text-xs">{row.subscribedAt.toLocaleDateString()}</td>
+                    <td className="text-xs">{row.expiresAt.toLocaleDateString()}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Earnings Component
+function EarningsCard({
+  contractInfo,
+  creatorAddress,
+  paymentToken,
+}: {
+  contractInfo: any;
+  creatorAddress: string;
+  paymentToken?: string;
+}) {
+  // Earnings are tracked per currency; show the one the creator currently charges in
+  const token = usePaymentToken(paymentToken);
+
+  const { data: earningsData, refetch: refetchEarnings } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getCreatorEarnings",
+    args: [creatorAddress as `0x${string}`, token.address],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+  const [balance, totalEarned, totalWithdrawn] = (earningsData as [bigint, bigint, bigint] | undefined) ?? [
+    BigInt(0),
+    BigInt(0),
+    BigInt(0),
+  ];
+  const [recipient, setRecipient] = useState("");
+
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (isConfirmed) {
+      notification.success("Earnings withdrawn");
+      setRecipient("");
+      refetchEarnings();
+    }
+  }, [isConfirmed, refetchEarnings]);
+
+  useEffect(() => {
+    if (error) {
+      notification.error("Failed to withdraw earnings");
+    }
+  }, [error]);
+
+  const handleWithdraw = () => {
+    if (!contractInfo?.address) return;
+
+    // Withdraw to the connected wallet unless another address was entered
+    const parsed = recipient ? ethereumAddressSchema.safeParse(recipient) : null;
+    if (parsed && !parsed.success) {
+      notification.error("Invalid recipient address");
+      return;
+    }
+
+    if (!token.isNative) {
+      writeContract({
+        address: contractInfo.address as `0x${string}`,
+        abi: contractInfo.abi,
+        functionName: "withdrawToken",
+        args: [token.address, (parsed?.data ?? creatorAddress) as `0x${string}`],
+      });
+      return;
+    }
+
+    if (parsed) {
+      writeContract({
+        address: contractInfo.address as `0x${string}`,
+        abi: contractInfo.abi,
+        functionName: "withdrawTo",
+        args: [parsed.data as `0x${string}`],
+      });
+      return;
+    }
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "withdraw",
+      args: [],
+    });
+  };
+
+  const isBusy = isPending || isConfirming;
+
+  return (
+    <div className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title mb-4">Earnings</h2>
+
+        <div className="stats stats-vertical md:stats-horizontal bg-base-100 shadow">
+          <div className="stat">
+            <div className="stat-title">Available</div>
+            <div className="stat-value text-2xl">
+              {token.format(balance)} {token.symbol}
+            </div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Total Earned</div>
+            <div className="stat-value text-2xl">
+              {token.format(totalEarned)} {token.symbol}
+            </div>
+          </div>
+          <div className="stat">
+            <div className="stat-title">Withdrawn</div>
+            <div className="stat-value text-2xl">
+              {token.format(totalWithdrawn)} {token.symbol}
+            </div>
+          </div>
+        </div>
+
+        <div className="join mt-4">
+          <input
+            type="text"
+            placeholder="Withdraw to (defaults to your wallet)"
+            className="input input-bordered input-sm join-item w-full md:w-96 font-mono"
+            value={recipient}
+            onChange={e => setRecipient(e.target.value.trim())}
+            disabled={isBusy}
+          />
+          <button
+            className="btn btn-primary btn-sm join-item"
+            onClick={handleWithdraw}
+            disabled={isBusy || balance === BigInt(0)}
+          >
+            {isBusy ? <span className="loading loading-spinner loading-xs"></span> : "Withdraw"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const SECONDS_PER_DAY = 86400;
+const DISCOUNT_PERIODS = [3, 6, 12] as const;
+const TRIAL_DAY_OPTIONS = [0, 7, 14, 30] as const;
+
+// Subscription Tiers Component
+function SubscriptionTiersCard({
+  contractInfo,
+  creatorAddress,
+  paymentToken,
+}: {
+  contractInfo: any;
+  creatorAddress: string;
+  paymentToken?: string;
+}) {
+  // Tier prices are denominated in the creator's payment token
+  const token = usePaymentToken(paymentToken);
+
+  const { data: tiersData, refetch: refetchTiers } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getTiers",
+    args: [creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+  const tiers = (tiersData as any[] | undefined) ?? [];
+
+  const { data: discountsData, refetch: refetchDiscounts } = useReadContracts({
+    contracts: DISCOUNT_PERIODS.map(periods => ({
+      address: contractInfo?.address as `0x${string}` | undefined,
+      abi: contractInfo?.abi,
+      functionName: "periodDiscounts",
+      args: [creatorAddress as `0x${string}`, BigInt(periods)],
+    })),
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+  const { data: trialData, refetch: refetchTrial } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "trialDurations",
+    args: [creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+  const trialDays = Math.round(Number((trialData as bigint | undefined) ?? 0) / SECONDS_PER_DAY);
+  const [trialDaysInput, setTrialDaysInput] = useState<(typeof TRIAL_DAY_OPTIONS)[number]>(7);
+
+  const [discountPeriods, setDiscountPeriods] = useState<(typeof DISCOUNT_PERIODS)[number]>(12);
+  const [discountPercent, setDiscountPercent] = useState("10");
+
+  const {
+    register,
+    handleSubmit: handleFormSubmit,
+    reset,
+    formState: { errors, isValid },
+  } = useForm<SubscriptionTierFormData>({
+    resolver: zodResolver(subscriptionTierSchema),
+    mode: "onChange",
+    defaultValues: {
+      name: "",
+      price: "0.05",
+      durationDays: "30",
+      rank: "1",
+    },
+  });
+
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (isConfirmed) {
+      notification.success("Subscription tiers updated");
+      reset();
+      refetchTiers();
+      refetchDiscounts();
+      refetchTrial();
+    }
+  }, [isConfirmed, reset, refetchTiers, refetchDiscounts, refetchTrial]);
+
+  useEffect(() => {
+    if (error) {
+      notification.error("Failed to update subscription tiers");
+    }
+  }, [error]);
+
+  const handleCreateTier = handleFormSubmit((data: SubscriptionTierFormData) => {
+    if (!contractInfo?.address) {
+      notification.error("Contract not found. Please check your connection.");
+      return;
+    }
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "createTier",
+      args: [
+        data.name,
+        parseUnits(data.price, token.decimals),
+        BigInt(Number(data.durationDays) * SECONDS_PER_DAY),
+        BigInt(data.rank),
+      ],
+    });
+  });
+
+  const handleToggleTier = (tierId: number, tier: any) => {
+    if (!contractInfo?.address) return;
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "updateTier",
+      args: [BigInt(tierId), tier.price, tier.duration, !tier.isActive],
+    });
+  };
+
+  const handleSetDiscount = () => {
+    if (!contractInfo?.address) return;
+
+    const percent = Number(discountPercent);
+    if (isNaN(percent) || percent < 0 || percent > 50) {
+      notification.error("Discount must be between 0% and 50%");
+      return;
+    }
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "setPeriodDiscount",
+      args: [BigInt(discountPeriods), BigInt(Math.round(percent * 100))],
+    });
+  };
+
+  const handleSetTrial = () => {
+    if (!contractInfo?.address) return;
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "setTrialDuration",
+      args: [BigInt(trialDaysInput * SECONDS_PER_DAY)],
+    });
+  };
+
+  const isBusy = isPending || isConfirming;
+
+  return (
+    <div className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title mb-4">Subscription Tiers</h2>
+
+        <div className="overflow-x-auto">
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Tier</th>
+                <th>Price</th>
+                <th>Duration</th>
+                <th>Rank</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {tiers.map((tier, tierId) => (
+                <tr key={tierId} className={tier.isActive ? "" : "opacity-50"}>
+                  <td className="font-semibold">{tier.name}</td>
+                  <td>
+                    {token.format(tier.price)} {token.symbol}
+                  </td>
+                  <td>{Math.round(Number(tier.duration) / SECONDS_PER_DAY)} days</td>
+                  <td>{Number(tier.rank)}</td>
+                  <td className="text-right">
+                    {tierId > 0 && (
+                      <button
+                        className="btn btn-ghost btn-xs"
+                        onClick={() => handleToggleTier(tierId, tier)}
+                        disabled={isBusy}
+                      >
+                        {tier.isActive ? "Retire" : "Reactivate"}
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <form onSubmit={handleCreateTier} className="grid grid-cols-1 md:grid-cols-5 gap-2 mt-4 items-start">
+          <div>
+            <input
+              type="text"
+              placeholder="e.g., Pro"
+              className={`input input-bordered input-sm w-full ${errors.name ? "input-error" : ""}`}
+              disabled={isBusy}
+              {...register("name")}
+            />
+            {errors.name && <span className="text-error text-xs">{errors.name.message}</span>}
+          </div>
+          <div>
+            <input
+              type="number"
+              step="0.001"
+              placeholder={`Price (${token.symbol})`}
+              className={`input input-bordered input-sm w-full ${errors.price ? "input-error" : ""}`}
+              disabled={isBusy}
+              {...register("price")}
+            />
+            {errors.price && <span className="text-error text-xs">{errors.price.message}</span>}
+          </div>
+          <div>
+            <input
+              type="number"
+              placeholder="Days"
+              className={`input input-bordered input-sm w-full ${errors.durationDays ? "input-error" : ""}`}
+              disabled={isBusy}
+              {...register("durationDays")}
+            />
+            {errors.durationDays && <span className="text-error text-xs">{errors.durationDays.message}</span>}
+          </div>
+          <div>
+            <input
+              type="number"
+              placeholder="Rank"
+              className={`input input-bordered input-sm w-full ${errors.rank ? "input-error" : ""}`}
+              disabled={isBusy}
+              {...register("rank")}
+            />
+            {errors.rank && <span className="text-error text-xs">{errors.rank.message}</span>}
+          </div>
+          <button type="submit" className="btn btn-primary btn-sm" disabled={isBusy || !isValid}>
+            {isBusy ? <span className="loading loading-spinner loading-xs"></span> : "Add Tier"}
+          </button>
+        </form>
+        <p className="text-xs opacity-70 mt-2">
+          Higher ranks unlock every post gated at or below their rank. Name and rank can&apos;t be changed later.
+        </p>
+
+        <div className="divider"></div>
+
+        <h3 className="font-semibold">Multi-period discounts</h3>
+        <div className="flex flex-wrap gap-2 text-sm">
+          {DISCOUNT_PERIODS.map((periods, i) => (
+            <span key={periods} className="badge badge-outline">
+              {periods} periods: {Number((discountsData?.[i]?.result as bigint | undefined) ?? 0) / 100}% off
+            </span>
+          ))}
+        </div>
+        <div className="join mt-2">
+          <select
+            className="select select-bordered select-sm join-item"
+            value={discountPeriods}
+            onChange={e => setDiscountPeriods(Number(e.target.value) as (typeof DISCOUNT_PERIODS)[number])}
+            disabled={isBusy}
+          >
+            {DISCOUNT_PERIODS.map(periods => (
+              <option key={periods} value={periods}>
+                {periods} periods
+              </option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min="0"
+            max="50"
+            className="input input-bordered input-sm join-item w-24"
+            value={discountPercent}
+            onChange={e => setDiscountPercent(e.target.value)}
+            disabled={isBusy}
+          />
+          <span className="join-item bg-base-300 px-3 flex items-center text-sm">%</span>
+          <button className="btn btn-sm join-item" onClick={handleSetDiscount} disabled={isBusy}>
+            Save
+          </button>
+        </div>
+
+        <div className="divider"></div>
+
+        <h3 className="font-semibold">Free trial</h3>
+        <p className="text-sm opacity-70">
+          {trialDays > 0
+            ? `New readers can try your default tier free for ${trialDays} days, once.`
+            : "Free trials are off."}
+        </p>
+        <div className="join mt-2">
+          <select
+            className="select select-bordered select-sm join-item"
+            value={trialDaysInput}
+            onChange={e => setTrialDaysInput(Number(e.target.value) as (typeof TRIAL_DAY_OPTIONS)[number])}
+            disabled={isBusy}
+          >
+            {TRIAL_DAY_OPTIONS.map(days => (
+              <option key={days} value={days}>
+                {days === 0 ? "Off" : `${days} days`}
+              </option>
+            ))}
+          </select>
+          <button className="btn btn-sm join-item" onClick={handleSetTrial} disabled={isBusy}>
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+const COMP_DAY_OPTIONS = [7, 30, 90, 365] as const;
+
+interface IssuedVoucher {
+  nonce: bigint;
+  recipient: string;
+  days: number;
+  link: string;
+  isRevoked: boolean;
+}
+
+// Complimentary Access Component
+function CompAccessCard({ contractInfo }: { contractInfo: any }) {
+  const provider = useEthersProvider();
+  const signer = useEthersSigner();
+  const [recipient, setRecipient] = useState("");
+  const [compDays, setCompDays] = useState<(typeof COMP_DAY_OPTIONS)[number]>(30);
+  const [vouchers, setVouchers] = useState<IssuedVoucher[]>([]);
+  const [revokingNonce, setRevokingNonce] = useState<bigint | null>(null);
+
+  // Vouchers are signed off-chain through the SDK; nothing is sent until they're redeemed
+  const cryptletter = useCryptletter({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    provider: provider as any,
+    signer: signer as any,
+  });
+
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (!isConfirmed) return;
+
+    if (revokingNonce !== null) {
+      notification.success("Voucher revoked");
+      setVouchers(prev => prev.map(v => (v.nonce === revokingNonce ? { ...v, isRevoked: true } : v)));
+      setRevokingNonce(null);
+    } else {
+      notification.success("Complimentary access granted");
+      setRecipient("");
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isConfirmed]);
+
+  useEffect(() => {
+    if (error) {
+      notification.error("Transaction failed");
+      setRevokingNonce(null);
+    }
+  }, [error]);
+
+  const parsedRecipient = recipient ? ethereumAddressSchema.safeParse(recipient) : null;
+
+  const handleGrant = () => {
+    if (!contractInfo?.address) return;
+    if (!parsedRecipient?.success) {
+      notification.error("Enter the reader's wallet address");
+      return;
+    }
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "grantComplimentaryAccess",
+      args: [parsedRecipient.data as `0x${string}`, BigInt(compDays * SECONDS_PER_DAY)],
+    });
+  };
+
+  const handleCreateVoucher = async () => {
+    if (parsedRecipient && !parsedRecipient.success) {
+      notification.error("Invalid recipient address");
+      return;
+    }
+
+    try {
+      const voucher = await cryptletter.createCompVoucher({
+        durationSeconds: compDays * SECONDS_PER_DAY,
+        recipient: parsedRecipient?.data,
+      });
+      const link = `${window.location.origin}/redeem?code=${encodeURIComponent(encodeCompVoucher(voucher))}`;
+      setVouchers(prev => [
+        { nonce: voucher.nonce, recipient: voucher.recipient, days: compDays, link, isRevoked: false },
+        ...prev,
+      ]);
+      setRecipient("");
+    } catch (err) {
+      console.error("Voucher signing failed:", err);
+      notification.error("Failed to create voucher");
+    }
+  };
+
+  const handleRevoke = (nonce: bigint) => {
+    if (!contractInfo?.address) return;
+
+    setRevokingNonce(nonce);
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "revokeVoucher",
+      args: [nonce],
+    });
+  };
+
+  const handleCopy = async (link: string) => {
+    await navigator.clipboard.writeText(link);
+    notification.success("Voucher link copied");
+  };
+
+  const isBusy = isPending || isConfirming || cryptletter.isLoading;
+
+  return (
+    <div className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Comp access</h2>
+        <p className="text-sm opacity-70">
+          Give press, collaborators and friends free access. Grant it straight to a wallet, or sign a voucher link they
+          redeem themselves (leave the address empty to let whoever gets the link redeem it).
+        </p>
+
+        <div className="flex flex-col md:flex-row gap-2 mt-2">
+          <input
+            type="text"
+            placeholder="Reader address (optional for vouchers)"
+            className={`input input-bordered input-sm w-full md:w-96 font-mono ${
+              parsedRecipient && !parsedRecipient.success ? "input-error" : ""
+            }`}
+            value={recipient}
+            onChange={e => setRecipient(e.target.value.trim())}
+            disabled={isBusy}
+          />
+          <select
+            className="select select-bordered select-sm"
+            value={compDays}
+            onChange={e => setCompDays(Number(e.target.value) as (typeof COMP_DAY_OPTIONS)[number])}
+            disabled={isBusy}
+          >
+            {COMP_DAY_OPTIONS.map(days => (
+              <option key={days} value={days}>
+                {days} days
+              </option>
+            ))}
+          </select>
+          <button className="btn btn-sm btn-primary" onClick={handleGrant} disabled={isBusy || !parsedRecipient}>
+            Grant now
+          </button>
+          <button className="btn btn-sm btn-outline" onClick={handleCreateVoucher} disabled={isBusy}>
+            Create voucher
+          </button>
+        </div>
+
+        {vouchers.length > 0 && (
+          <div className="overflow-x-auto mt-4">
+            <table className="table table-sm">
+              <thead>
+                <tr>
+                  <th>For</th>
+                  <th>Access</th>
+                  <th></th>
+                </tr>
+              </thead>
+              <tbody>
+                {vouchers.map(voucher => (
+                  <tr key={voucher.nonce.toString()} className={voucher.isRevoked ? "opacity-50" : ""}>
+                    <td className="font-mono text-xs">
+                      {voucher.recipient === zeroAddress ? "Anyone with the link" : voucher.recipient}
+                    </td>
+                    <td>{voucher.days} days</td>
+                    <td className="text-right space-x-2">
+                      {voucher.isRevoked ? (
+                        <span className="badge badge-ghost">Revoked</span>
+                      ) : (
+                        <>
+                          <button className="btn btn-ghost btn-xs" onClick={() => handleCopy(voucher.link)}>
+                            Copy link
+                          </button>
+                          <button
+                            className="btn btn-ghost btn-xs text-error"
+                            onClick={() => handleRevoke(voucher.nonce)}
+                            disabled={isBusy}
+                          >
+                            Revoke
+                          </button>
+                        </>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <p className="text-xs opacity-70 mt-2">
+              Voucher links stay valid for 30 days and can be redeemed once. Copy them before leaving this page.
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+const PROMO_EXPIRY_DAY_OPTIONS = [0, 7, 30, 90] as const;
+
+interface IssuedPromoCode {
+  code: string;
+  label: string;
+  isDisabled: boolean;
+}
+
+// Promo Codes Component
+function PromoCodesCard({ contractInfo, paymentToken }: { contractInfo: any; paymentToken?: string }) {
+  const provider = useEthersProvider();
+  const signer = useEthersSigner();
+  const token = usePaymentToken(paymentToken);
+  const [code, setCode] = useState("");
+  const [isPercent, setIsPercent] = useState(true);
+  const [amount, setAmount] = useState("");
+  const [maxRedemptions, setMaxRedemptions] = useState("");
+  const [expiryDays, setExpiryDays] = useState<(typeof PROMO_EXPIRY_DAY_OPTIONS)[number]>(0);
+  const [codes, setCodes] = useState<IssuedPromoCode[]>([]);
+
+  // Codes are hashed by the SDK, so only codes created here can be listed
+  const cryptletter = useCryptletter({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    provider: provider as any,
+    signer: signer as any,
+  });
+
+  const handleCreate = async () => {
+    const percent = Number(amount);
+    if (!code.trim() || !amount || (isPercent && !(percent > 0 && percent <= 100))) {
+      notification.error("Enter a code and a valid discount");
+      return;
+    }
+
+    try {
+      const fixedDiscount = isPercent ? undefined : parseUnits(amount, token.decimals);
+      await cryptletter.createPromoCode(code, {
+        discountBps: isPercent ? Math.round(percent * 100) : undefined,
+        fixedDiscount,
+        maxRedemptions: maxRedemptions ? Number(maxRedemptions) : undefined,
+        expiresAt: expiryDays ? Math.floor(Date.now() / 1000) + expiryDays * SECONDS_PER_DAY : undefined,
+      });
+
+      const label = isPercent ? `${percent}% off` : `${amount} ${token.symbol} off`;
+      setCodes(prev => [{ code: normalizePromoCode(code), label, isDisabled: false }, ...prev]);
+      setCode("");
+      setAmount("");
+      setMaxRedemptions("");
+      notification.success("Promo code created");
+    } catch (err) {
+      console.error("Promo code creation failed:", err);
+      notification.error("Failed to create promo code (it may already exist)");
+    }
+  };
+
+  const handleDisable = async (promoCode: string) => {
+    try {
+      await cryptletter.disablePromoCode(promoCode);
+      setCodes(prev => prev.map(c => (c.code === promoCode ? { ...c, isDisabled: true } : c)));
+      notification.success("Promo code disabled");
+    } catch (err) {
+      console.error("Disabling promo code failed:", err);
+      notification.error("Failed to disable promo code");
+    }
+  };
+
+  return (
+    <div className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h2 className="card-title">Promo codes</h2>
+        <p className="text-sm opacity-70">
+          Offer a discount readers enter at checkout. Only a hash of the code is stored on-chain, so keep a note of the
+          codes you share.
+        </p>
+
+        <div className="flex flex-col md:flex-row flex-wrap gap-2 mt-2">
+          <input
+            type="text"
+            placeholder="CODE"
+            className="input input-bordered input-sm w-full md:w-40 font-mono uppercase"
+            value={code}
+            onChange={e => setCode(e.target.value)}
+            disabled={cryptletter.isLoading}
+          />
+          <div className="join">
+            <input
+              type="number"
+              min="0"
+              step="any"
+              placeholder={isPercent ? "20" : "5"}
+              className="input input-bordered input-sm join-item w-24"
+              value={amount}
+              onChange={e => setAmount(e.target.value)}
+              disabled={cryptletter.isLoading}
+            />
+            <select
+              className="select select-bordered select-sm join-item"
+              value={isPercent ? "percent" : "fixed"}
+              onChange={e => setIsPercent(e.target.value === "percent")}
+              disabled={cryptletter.isLoading}
+            >
+              <option value="percent">% off</option>
+              <option value="fixed">{token.symbol} off</option>
+            </select>
+          </div>
+          <input
+            type="number"
+            min="1"
+            placeholder="Max uses (optional)"
+            className="input input-bordered input-sm w-full md:w-40"
+            value={maxRedemptions}
+            onChange={e => setMaxRedemptions(e.target.value)}
+            disabled={cryptletter.isLoading}
+          />
+          <select
+            className="select select-bordered select-sm"
+            value={expiryDays}
+            onChange={e => setExpiryDays(Number(e.target.value) as (typeof PROMO_EXPIRY_DAY_OPTIONS)[number])}
+            disabled={cryptletter.isLoading}
+          >
+            {PROMO_EXPIRY_DAY_OPTIONS.map(days => (
+              <option key={days} value={days}>
+                {days === 0 ? "Never expires" : `Expires in ${days} days`}
+              </option>
+            ))}
+          </select>
+          <button className="btn btn-sm btn-primary" onClick={handleCreate} disabled={cryptletter.isLoading}>
+            {cryptletter.isLoading ? <span className="loading loading-spinner loading-xs"></span> : "Create code"}
+          </button>
+        </div>
+
+        {codes.length > 0 && (
+          <div className="overflow-x-auto mt-4">
+            <table className="table table-sm">
+              <tbody>
+                {codes.map(promo => (
+                  <tr key={promo.code} className={promo.isDisabled ? "opacity-50" : ""}>
+                    <td className="font-mono">{promo.code}</td>
+                    <td>{promo.label}</td>
+                    <td className="text-right">
+                      {promo.isDisabled ? (
+                        <span className="badge badge-ghost">Disabled</span>
+                      ) : (
+                        <button
+                          className="btn btn-ghost btn-xs text-error"
+                          onClick={() => handleDisable(promo.code)}
+                          disabled={cryptletter.isLoading}
+                        >
+                          Disable
+                        </button>
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
 // Register Creator Form Component
 function RegisterCreatorForm({ contractInfo }: { contractInfo: any }) {
   const {
     register,
     handleSubmit: handleFormSubmit,
+    watch,
     formState: { errors, isValid },
   } = useForm<CreatorRegistrationFormData>({
     resolver: zodResolver(creatorRegistrationSchema),
@@ -287,9 +1382,14 @@ function RegisterCreatorForm({ contractInfo }: { contractInfo: any }) {
       name: "",
       bio: "",
       price: "0.01",
+      paymentToken: "",
     },
   });
 
+  // Prices are entered in whole units of the chosen currency
+  const paymentTokenInput = watch("paymentToken");
+  const token = usePaymentToken(/^0x[a-fA-F0-9]{40}$/.test(paymentTokenInput) ? paymentTokenInput : undefined);
+
   const { writeContract, data: hash, isPending, error } = useWriteContract();
   const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
 
@@ -367,13 +1467,13 @@ function RegisterCreatorForm({ contractInfo }: { contractInfo: any }) {
     }
 
     try {
-      const priceWei = BigInt(parseFloat(data.price) * 1e18);
+      const price = parseUnits(data.price, token.decimals);
 
       writeContract({
         address: contractInfo.address as `0x${string}`,
         abi: contractInfo.abi,
         functionName: "registerCreator",
-        args: [data.name, data.bio, priceWei],
+        args: [data.name, data.bio, price, token.address],
       });
     } catch (error) {
       console.error("Registration error:", error);
@@ -460,12 +1560,28 @@ function RegisterCreatorForm({ contractInfo }: { contractInfo: any }) {
             {...register("price")}
           />
           <span className="join-item bg-base-300 px-4 flex items-center text-sm font-medium border border-base-300">
-            ETH
+            {token.symbol}
           </span>
         </div>
         {errors.price && <span className="text-error text-xs mt-1">{errors.price.message}</span>}
       </div>
 
+      {/* Payment Token Input */}
+      <div className="form-control">
+        <label className="label">
+          <span className="label-text font-semibold">Payment Token</span>
+          <span className="label-text-alt text-xs opacity-70">Optional ERC-20, e.g. a USD stablecoin</span>
+        </label>
+        <input
+          type="text"
+          placeholder="Leave empty to be paid in ETH"
+          className={`input input-bordered w-full font-mono focus:input-primary focus:border-primary transition-colors ${errors.paymentToken ? "input-error" : ""}`}
+          disabled={isPending || isConfirming}
+          {...register("paymentToken")}
+        />
+        {errors.paymentToken && <span className="text-error text-xs mt-1">{errors.paymentToken.message}</span>}
+      </div>
+
       {/* Error Message */}
       {error && (
         <div className="alert alert-error shadow-lg">
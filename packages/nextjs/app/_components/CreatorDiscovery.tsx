@@ -18,23 +18,23 @@ export function CreatorDiscovery() {
     chainId,
   });
 
-  // Get total creator count
+  // Get active creator count (deactivated creators are hidden from discovery)
   const { data: creatorCount } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
-    functionName: "getCreatorCount",
+    functionName: "activeCreatorCount",
     query: {
       enabled: Boolean(contractInfo?.address),
       refetchInterval: 10000, // Refetch every 10 seconds
     },
   });
 
-  // Get creator list (first 50 for pagination)
+  // Get active creator list (first 50 for pagination)
   const { data: creatorAddresses } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
     functionName: "getCreators",
-    args: [BigInt(0), BigInt(50)],
+    args: [BigInt(0), BigInt(50), true],
     query: {
       enabled: Boolean(contractInfo?.address && creatorCount),
       refetchInterval: 10000,
@@ -328,7 +328,14 @@ function CreatorCardWrapper({ address, contractInfo }: { address: string; contra
 
   // Handle both array and object responses from contract
   const dataArray = Array.isArray(creatorData) ? creatorData : Object.values(creatorData as any);
-  const [name, bio, monthlyPrice, subscriberCount, isActive] = dataArray as [string, string, bigint, bigint, boolean];
+  const [name, bio, monthlyPrice, subscriberCount, isActive, paymentToken] = dataArray as [
+    string,
+    string,
+    bigint,
+    bigint,
+    boolean,
+    string,
+  ];
 
   // Don't show inactive creators
   if (!isActive) {
@@ -342,6 +349,7 @@ function CreatorCardWrapper({ address, contractInfo }: { address: string; contra
       bio={bio}
       monthlyPrice={monthlyPrice}
       subscriberCount={subscriberCount}
+      paymentToken={paymentToken}
     />
   );
 }
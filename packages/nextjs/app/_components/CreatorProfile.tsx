@@ -3,11 +3,12 @@
 import { useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { NewsletterPreview } from "../../components/cryptletter/NewsletterPreview";
+import { TokenAmount } from "../../components/cryptletter/TokenAmount";
 import { Address } from "../../components/helper";
 import { useDeployedContractInfo } from "../../hooks/helper";
 import type { AllowedChainIds } from "../../utils/helper/networks";
-import { formatEther } from "viem";
-import { useAccount, useReadContract } from "wagmi";
+import { notification } from "../../utils/helper/notification";
+import { useAccount, useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
 const ITEMS_PER_PAGE = 5;
 
@@ -36,7 +37,7 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
   });
 
   // Get subscription status
-  const { data: subscriptionData } = useReadContract({
+  const { data: subscriptionData, refetch: refetchSubscription } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
     functionName: "getSubscriptionStatus",
@@ -47,83 +48,102 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
     },
   });
 
-  // Get total newsletter count (we'll need to iterate through postCounter)
-  const { data: postCounter } = useReadContract({
+  // Free trial offer and whether this reader already used it
+  const { data: trialDuration } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
-    functionName: "postCounter",
+    functionName: "trialDurations",
+    args: [creatorAddress as `0x${string}`],
     query: {
-      enabled: Boolean(contractInfo?.address),
+      enabled: Boolean(contractInfo?.address && creatorAddress),
     },
   });
 
-  const [newsletters, setNewsletters] = useState<any[]>([]);
-  const [newslettersWithData, setNewslettersWithData] = useState<Map<number, any>>(new Map());
-  const [isLoadingPosts, setIsLoadingPosts] = useState(false);
-  const [searchQuery, setSearchQuery] = useState("");
-  const [currentPage, setCurrentPage] = useState(1);
+  const { data: trialUsed, refetch: refetchTrialUsed } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "trialUsed",
+    args: [userAddress as `0x${string}`, creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && userAddress && creatorAddress),
+    },
+  });
+
+  const { writeContract: writeStartTrial, data: trialHash, isPending: isTrialPending } = useWriteContract();
+  const { isLoading: isTrialConfirming, isSuccess: isTrialConfirmed } = useWaitForTransactionReceipt({
+    hash: trialHash,
+  });
 
-  // Fetch newsletters for this creator
-  // Note: In production, you'd want to index this off-chain for better performance
   useEffect(() => {
-    if (!contractInfo?.address || !postCounter) return;
-
-    const fetchNewsletters = async () => {
-      setIsLoadingPosts(true);
-      try {
-        const totalPosts = Number(postCounter);
-        const creatorPosts: any[] = [];
-
-        // This is inefficient but works for MVP
-        // In production, use The Graph or similar indexing solution
-        for (let i = 0; i < totalPosts; i++) {
-          try {
-            // We'd need to check if this post belongs to this creator
-            // For now, we'll just add post IDs and let the preview component handle it
-            creatorPosts.push({ postId: i });
-          } catch (error) {
-            console.error(`Error fetching post ${i}:`, error);
-          }
-        }
-
-        // Sort by postId descending (newest first)
-        creatorPosts.sort((a, b) => b.postId - a.postId);
-
-        setNewsletters(creatorPosts);
-      } catch (error) {
-        console.error("Error fetching newsletters:", error);
-      } finally {
-        setIsLoadingPosts(false);
-      }
-    };
-
-    fetchNewsletters();
-  }, [contractInfo?.address, postCounter, creatorAddress]);
-
-  // Pagination logic - apply directly to newsletters (filtering happens in render)
-  const totalPages = Math.ceil(newsletters.length / ITEMS_PER_PAGE);
-  const paginatedNewsletters = useMemo(() => {
-    const start = (currentPage - 1) * ITEMS_PER_PAGE;
-    return newsletters.slice(start, start + ITEMS_PER_PAGE);
-  }, [newsletters, currentPage]);
+    if (isTrialConfirmed) {
+      notification.success("Your free trial has started");
+      refetchSubscription();
+      refetchTrialUsed();
+    }
+  }, [isTrialConfirmed, refetchSubscription, refetchTrialUsed]);
+
+  // Get this creator's post IDs (newest first) from the on-chain index
+  const { data: postCount } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getCreatorPostCount",
+    args: [creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
 
-  // Calculate how many newsletters match the search
-  const visibleNewsletterCount = useMemo(() => {
-    if (!searchQuery.trim()) return newsletters.length;
+  const { data: postIds, isLoading: isLoadingPostIds } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getCreatorPosts",
+    args: [creatorAddress as `0x${string}`, BigInt(0), (postCount as bigint | undefined) ?? BigInt(0)],
+    query: {
+      enabled: Boolean(contractInfo?.address && postCount),
+    },
+  });
 
-    let count = 0;
-    for (const newsletter of newsletters) {
-      const data = newslettersWithData.get(newsletter.postId);
-      if (!data) continue;
+  // Load all posts in a single batch call
+  const { data: postsData, isLoading: isLoadingPostsData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getNewsletters",
+    args: [(postIds as readonly bigint[] | undefined) ?? []],
+    query: {
+      enabled: Boolean(contractInfo?.address && (postIds as readonly bigint[] | undefined)?.length),
+    },
+  });
 
-      const query = searchQuery.toLowerCase();
-      const matchesTitle = data.title?.toLowerCase().includes(query);
-      const matchesPreview = data.preview?.toLowerCase().includes(query);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [currentPage, setCurrentPage] = useState(1);
+  const isLoadingPosts = isLoadingPostIds || isLoadingPostsData;
+
+  // Published posts, newest first (unpublished posts stay in the index but are withdrawn from listings)
+  const newsletters = useMemo(() => {
+    if (!postIds || !postsData) return [];
+
+    const ids = postIds as readonly bigint[];
+    return (postsData as readonly any[])
+      .map((post, index) => ({ ...post, postId: Number(ids[index]) }))
+      .filter(post => !post.isUnpublished);
+  }, [postIds, postsData]);
+
+  // Filter by search query, then paginate
+  const filteredNewsletters = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return newsletters;
+
+    return newsletters.filter(
+      newsletter =>
+        newsletter.title?.toLowerCase().includes(query) || newsletter.preview?.toLowerCase().includes(query),
+    );
+  }, [newsletters, searchQuery]);
 
-      if (matchesTitle || matchesPreview) count++;
-    }
-    return count;
-  }, [newsletters, newslettersWithData, searchQuery]);
+  const totalPages = Math.ceil(filteredNewsletters.length / ITEMS_PER_PAGE);
+  const paginatedNewsletters = useMemo(() => {
+    const start = (currentPage - 1) * ITEMS_PER_PAGE;
+    return filteredNewsletters.slice(start, start + ITEMS_PER_PAGE);
+  }, [filteredNewsletters, currentPage]);
 
   // Reset to page 1 when search changes
   useEffect(() => {
@@ -146,12 +166,13 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
 
   // Handle both array and object responses from contract
   const creatorArray = Array.isArray(creatorData) ? creatorData : Object.values(creatorData as any);
-  const [name, bio, monthlyPrice, subscriberCount, isActive] = creatorArray as [
+  const [name, bio, monthlyPrice, subscriberCount, isActive, paymentToken] = creatorArray as [
     string,
     string,
     bigint,
     bigint,
     boolean,
+    string,
   ];
 
   const subscriptionArray = subscriptionData
@@ -161,8 +182,22 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
     : null;
   const [hasSubscription] = subscriptionArray || [false, BigInt(0), BigInt(0)];
   const isOwnProfile = userAddress?.toLowerCase() === creatorAddress.toLowerCase();
+  const trialDays = Math.floor(Number((trialDuration as bigint | undefined) ?? 0) / 86400);
+  const canStartTrial = Boolean(userAddress) && trialDays > 0 && trialUsed === false && !hasSubscription;
+
+  const handleStartTrial = () => {
+    if (!contractInfo?.address) return;
 
-  if (!isActive) {
+    writeStartTrial({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "startTrial",
+      args: [creatorAddress as `0x${string}`],
+    });
+  };
+
+  // Deactivated creators keep their name; only show the profile to readers if it was ever registered
+  if (!isActive && !name) {
     return (
       <div className="max-w-4xl mx-auto">
         <div className="alert alert-warning">
@@ -187,6 +222,16 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
 
   return (
     <div className="max-w-5xl mx-auto">
+      {!isActive && (
+        <div className="alert alert-warning mb-6">
+          <span>
+            {isOwnProfile
+              ? "Your profile is deactivated. Reactivate it from the dashboard to publish and take new subscribers."
+              : "This creator has paused their newsletter. New subscriptions are closed; existing subscribers keep access until their paid time runs out."}
+          </span>
+        </div>
+      )}
+
       {/* Creator Header - Enhanced */}
       <div className="card bg-gradient-to-br from-base-200 to-base-300 shadow-2xl mb-8 overflow-hidden">
         <div className="card-body p-6 md:p-8">
@@ -259,14 +304,16 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
                     />
                   </svg>
                   <div>
-                    <span className="text-xl md:text-2xl font-bold">{formatEther(monthlyPrice)} ETH</span>
+                    <span className="text-xl md:text-2xl font-bold">
+                      <TokenAmount amount={monthlyPrice} token={paymentToken} />
+                    </span>
                     <span className="text-sm opacity-70 ml-1">/ month</span>
                   </div>
                 </div>
               </div>
 
               {/* CTA Section */}
-              {!isOwnProfile && (
+              {!isOwnProfile && (hasSubscription || isActive) && (
                 <div className="flex items-center gap-3">
                   {hasSubscription ? (
                     <div className="alert alert-success shadow-lg py-3">
@@ -289,23 +336,38 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
                       </div>
                     </div>
                   ) : (
-                    <Link href={`/subscribe/${creatorAddress}`} className="w-full sm:w-auto">
-                      <button className="btn btn-primary btn-lg w-full sm:w-auto gap-2 shadow-xl hover:shadow-2xl">
-                        <svg
-                          xmlns="http://www.w3.org/2000/svg"
-                          className="h-5 w-5"
-                          viewBox="0 0 20 20"
-                          fill="currentColor"
+                    <>
+                      <Link href={`/subscribe/${creatorAddress}`} className="w-full sm:w-auto">
+                        <button className="btn btn-primary btn-lg w-full sm:w-auto gap-2 shadow-xl hover:shadow-2xl">
+                          <svg
+                            xmlns="http://www.w3.org/2000/svg"
+                            className="h-5 w-5"
+                            viewBox="0 0 20 20"
+                            fill="currentColor"
+                          >
+                            <path
+                              fillRule="evenodd"
+                              d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-11a1 1 0 10-2 0v2H7a1 1 0 100 2h2v2a1 1 0 102 0v-2h2a1 1 0 100-2h-2V7z"
+                              clipRule="evenodd"
+                            />
+                          </svg>
+                          Subscribe Now
+                        </button>
+                      </Link>
+                      {canStartTrial && (
+                        <button
+                          className="btn btn-outline btn-lg w-full sm:w-auto"
+                          onClick={handleStartTrial}
+                          disabled={isTrialPending || isTrialConfirming}
                         >
-                          <path
-                            fillRule="evenodd"
-                            d="M10 18a8 8 0 100-16 8 8 0 000 16zm1-11a1 1 0 10-2 0v2H7a1 1 0 100 2h2v2a1 1 0 102 0v-2h2a1 1 0 100-2h-2V7z"
-                            clipRule="evenodd"
-                          />
-                        </svg>
-                        Subscribe Now
-                      </button>
-                    </Link>
+                          {isTrialPending || isTrialConfirming ? (
+                            <span className="loading loading-spinner"></span>
+                          ) : (
+                            `Start ${trialDays}-day free trial`
+                          )}
+                        </button>
+                      )}
+                    </>
                   )}
                 </div>
               )}
@@ -421,7 +483,7 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
         )}
 
         {/* Empty State - No Search Results */}
-        {!isLoadingPosts && newsletters.length > 0 && visibleNewsletterCount === 0 && searchQuery && (
+        {!isLoadingPosts && newsletters.length > 0 && filteredNewsletters.length === 0 && searchQuery && (
           <div className="card bg-base-200 shadow-xl">
             <div className="card-body items-center text-center py-12">
               <svg
@@ -449,19 +511,21 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
           </div>
         )}
 
-        {!isLoadingPosts && (searchQuery ? visibleNewsletterCount > 0 : paginatedNewsletters.length > 0) && (
+        {!isLoadingPosts && paginatedNewsletters.length > 0 && (
           <>
             <div className="grid grid-cols-1 gap-6">
               {paginatedNewsletters.map(newsletter => (
-                <NewsletterPreviewWrapper
+                <NewsletterPreview
                   key={newsletter.postId}
-                  postId={newsletter.postId}
+                  postId={newsletter.postId.toString()}
                   creatorAddress={creatorAddress}
                   creatorName={name}
-                  contractInfo={contractInfo}
+                  title={newsletter.title}
+                  preview={newsletter.preview}
+                  publishedAt={newsletter.publishedAt}
+                  isPublic={newsletter.isPublic}
                   hasAccess={hasSubscription || isOwnProfile}
-                  searchQuery={searchQuery}
-                  setNewslettersWithData={setNewslettersWithData}
+                  availableAt={newsletter.availableAt}
                 />
               ))}
             </div>
@@ -522,93 +586,3 @@ export function CreatorProfile({ address: creatorAddress }: CreatorProfileProps)
     </div>
   );
 }
-
-// Wrapper to fetch individual newsletter data
-function NewsletterPreviewWrapper({
-  postId,
-  creatorAddress,
-  creatorName,
-  contractInfo,
-  hasAccess,
-  searchQuery,
-  setNewslettersWithData,
-}: {
-  postId: number;
-  creatorAddress: string;
-  creatorName: string;
-  contractInfo: any;
-  hasAccess: boolean;
-  searchQuery: string;
-  setNewslettersWithData: React.Dispatch<React.SetStateAction<Map<number, any>>>;
-}) {
-  const { data: newsletterData } = useReadContract({
-    address: contractInfo?.address as `0x${string}`,
-    abi: contractInfo?.abi,
-    functionName: "getNewsletter",
-    args: [BigInt(postId)],
-    query: {
-      enabled: Boolean(contractInfo?.address),
-    },
-  });
-
-  // Notify parent when data is loaded (only once per data change)
-  useEffect(() => {
-    if (!newsletterData) return;
-
-    const dataArray = Array.isArray(newsletterData) ? newsletterData : Object.values(newsletterData as any);
-    const [, , title, preview, , , creator] = dataArray as [string, bigint, string, string, bigint, boolean, string];
-
-    // Only add to map if this newsletter belongs to this creator
-    if (creator.toLowerCase() !== creatorAddress.toLowerCase()) return;
-
-    setNewslettersWithData(prev => {
-      // Only update if data doesn't exist or has changed
-      const existing = prev.get(postId);
-      if (existing?.title === title && existing?.preview === preview) {
-        return prev;
-      }
-
-      const newMap = new Map(prev);
-      newMap.set(postId, { title, preview, creator });
-      return newMap;
-    });
-  }, [newsletterData, postId, setNewslettersWithData, creatorAddress]);
-
-  if (!newsletterData) return null;
-
-  // Handle both array and object responses from contract
-  const dataArray = Array.isArray(newsletterData) ? newsletterData : Object.values(newsletterData as any);
-  const [, , title, preview, publishedAt, isPublic, creator] = dataArray as [
-    string,
-    bigint,
-    string,
-    string,
-    bigint,
-    boolean,
-    string,
-  ];
-
-  // Only show if this newsletter belongs to this creator
-  if (creator.toLowerCase() !== creatorAddress.toLowerCase()) return null;
-
-  // Filter by search query
-  if (searchQuery.trim()) {
-    const query = searchQuery.toLowerCase();
-    const matchesTitle = title.toLowerCase().includes(query);
-    const matchesPreview = preview.toLowerCase().includes(query);
-    if (!matchesTitle && !matchesPreview) return null;
-  }
-
-  return (
-    <NewsletterPreview
-      postId={postId.toString()}
-      creatorAddress={creatorAddress}
-      creatorName={creatorName}
-      title={title}
-      preview={preview}
-      publishedAt={publishedAt}
-      isPublic={isPublic}
-      hasAccess={hasAccess}
-    />
-  );
-}
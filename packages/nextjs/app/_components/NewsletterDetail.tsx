@@ -3,17 +3,21 @@
 import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { NewsletterViewer } from "../../components/cryptletter/NewsletterViewer";
+import { TokenAmount } from "../../components/cryptletter/TokenAmount";
 import { Address } from "../../components/helper";
 import { useDeployedContractInfo } from "../../hooks/helper";
+import { useEthersProvider } from "../../hooks/helper/useEthersProvider";
+import { useEthersSigner } from "../../hooks/helper/useEthersSigner";
 import type { AllowedChainIds } from "../../utils/helper/networks";
+import { notification } from "../../utils/helper/notification";
 import {
+  type EncryptionContext,
   type NewsletterData,
+  aesKeyToFHEInput,
   createIPFSClient,
-  decryptContent,
-  deserializeBundle,
   fheOutputToAESKey,
 } from "@fhevm-sdk";
-import { useFHEDecrypt, useFhevmContext } from "@fhevm-sdk/react";
+import { useCryptletter, useFHEDecrypt, useFhevmContext } from "@fhevm-sdk/react";
 import { formatDistanceToNow } from "date-fns";
 import { useAccount, useReadContract, useSignTypedData, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
@@ -26,9 +30,15 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
   const chainId = chain?.id as AllowedChainIds | undefined;
   const [decryptedNewsletter, setDecryptedNewsletter] = useState<NewsletterData | null>(null);
   const [aesKey, setAesKey] = useState<Uint8Array | null>(null);
+  const [postContext, setPostContext] = useState<EncryptionContext | null>(null);
   const [isFetching, setIsFetching] = useState(false);
   const [fetchError, setFetchError] = useState<string | null>(null);
   const [permissionGranted, setPermissionGranted] = useState(false);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [isUnpublishing, setIsUnpublishing] = useState(false);
+  const [isRotatingKey, setIsRotatingKey] = useState(false);
+  const provider = useEthersProvider();
+  const signer = useEthersSigner();
 
   // FHEVM instance for decryption
   const { instance, storage } = useFhevmContext();
@@ -51,8 +61,21 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
     chainId,
   });
 
+  // Unlocks and decryption go through the SDK, which handles token approval and checks content against the post
+  const cryptletter = useCryptletter({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    ipfsGateway: process.env.NEXT_PUBLIC_PINATA_GATEWAY
+      ? `https://${process.env.NEXT_PUBLIC_PINATA_GATEWAY}`
+      : undefined,
+    provider: provider as any,
+    signer: signer as any,
+  });
+  const { decryptNewsletterContent } = cryptletter;
+
   // Get newsletter details
-  const { data: newsletterData } = useReadContract({
+  const { data: newsletterData, refetch: refetchNewsletter } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
     functionName: "getNewsletter",
@@ -79,7 +102,7 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
   });
 
   // Check access
-  const { data: hasAccess } = useReadContract({
+  const { data: hasAccess, refetch: refetchAccess } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
     abi: contractInfo?.abi,
     functionName: "canAccessNewsletter",
@@ -290,29 +313,15 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
           ? "0x" + decryptedKeyValue.toString(16).padStart(64, "0")
           : decryptedKeyValue.toString();
 
-      const decryptedAesKey = fheOutputToAESKey(aesKeyHex);
-      setAesKey(decryptedAesKey); // Store AES key for image decryption
-
-      // Step 3: Fetch encrypted content from IPFS
-      const newsletterArray = Array.isArray(newsletterData) ? newsletterData : Object.values(newsletterData as any);
-      const contentCID = newsletterArray[0] as string;
-
-      const pinataJwt = process.env.NEXT_PUBLIC_PINATA_JWT;
-      if (!pinataJwt) {
+      if (!process.env.NEXT_PUBLIC_PINATA_JWT) {
         throw new Error("IPFS configuration missing");
       }
 
-      const ipfsGateway = process.env.NEXT_PUBLIC_PINATA_GATEWAY
-        ? `https://${process.env.NEXT_PUBLIC_PINATA_GATEWAY}`
-        : undefined;
-      const ipfsClient = createIPFSClient({ jwt: pinataJwt, gateway: ipfsGateway });
-      const encryptedData = await ipfsClient.downloadFromIPFS(contentCID);
-
-      // Deserialize the encrypted bundle
-      const bundle = deserializeBundle(new TextDecoder().decode(encryptedData));
+      // Step 3: Fetch and decrypt the content, checked against the post's on-chain creator and index
+      const { newsletter, context } = await decryptNewsletterContent(Number(postId), aesKeyHex);
 
-      // Step 4: Decrypt content with AES key
-      const newsletter = await decryptContent(bundle, decryptedAesKey);
+      setAesKey(fheOutputToAESKey(aesKeyHex)); // Store AES key and post context for image decryption
+      setPostContext(context);
       setDecryptedNewsletter(newsletter);
       setFetchError(null);
     } catch (error) {
@@ -321,7 +330,7 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
     } finally {
       setIsFetching(false);
     }
-  }, [newsletterData, fheResults, encryptedKeyHandle]);
+  }, [newsletterData, fheResults, encryptedKeyHandle, decryptNewsletterContent, postId]);
 
   // Auto-trigger AES decryption when FHE results are available (ONLY for premium content)
   useEffect(() => {
@@ -389,6 +398,11 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
   const preview = newsletterArray[3] as string;
   const publishedAt = newsletterArray[4] as bigint;
   const creatorAddress = newsletterArray[6] as string;
+  const unlockPrice = newsletterArray.length > 8 ? (newsletterArray[8] as bigint) : BigInt(0);
+  const isUnpublished = newsletterArray.length > 9 && Boolean(newsletterArray[9]);
+  const availableAt = newsletterArray.length > 10 ? Number(newsletterArray[10] as bigint) * 1000 : 0;
+  const isScheduled = availableAt > Date.now();
+  const isOwnPost = userAddress?.toLowerCase() === creatorAddress?.toLowerCase();
 
   const creatorArray = creatorData
     ? Array.isArray(creatorData)
@@ -399,6 +413,66 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
   const timestamp = Number(publishedAt) * 1000;
   const timeAgo = formatDistanceToNow(timestamp, { addSuffix: true });
   const canView = Boolean(hasAccess);
+  const paymentToken = creatorArray && creatorArray.length > 5 ? (creatorArray[5] as string) : undefined;
+
+  const handleUnlock = async () => {
+    if (!userAddress) {
+      notification.error("Please connect your wallet");
+      return;
+    }
+
+    setIsUnlocking(true);
+    const loadingToast = notification.loading("Unlocking issue...");
+    try {
+      await cryptletter.purchasePost(Number(postId));
+      notification.remove(loadingToast);
+      notification.success("Issue unlocked");
+      await refetchAccess();
+    } catch (error) {
+      console.error("Unlock failed:", error);
+      notification.remove(loadingToast);
+      notification.error(error instanceof Error ? error.message : "Failed to unlock issue");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  const handleUnpublish = async () => {
+    setIsUnpublishing(true);
+    const loadingToast = notification.loading("Unpublishing issue...");
+    try {
+      await cryptletter.unpublishNewsletter(Number(postId));
+      notification.remove(loadingToast);
+      notification.success("Issue unpublished");
+      await refetchNewsletter();
+    } catch (error) {
+      console.error("Unpublish failed:", error);
+      notification.remove(loadingToast);
+      notification.error(error instanceof Error ? error.message : "Failed to unpublish issue");
+    } finally {
+      setIsUnpublishing(false);
+    }
+  };
+
+  // Re-encrypt the issue under a fresh key so readers whose access lapsed can't read later revisions.
+  // The decrypted view stays as is: the plaintext doesn't change and the old uploads remain pinned.
+  const handleRotateKey = async () => {
+    if (!aesKey) return;
+    setIsRotatingKey(true);
+    const loadingToast = notification.loading("Re-encrypting issue under a new key...");
+    try {
+      await cryptletter.rotateNewsletterKey(Number(postId), aesKeyToFHEInput(aesKey));
+      notification.remove(loadingToast);
+      notification.success("Key rotated. Current readers need to unlock the issue again.");
+      await refetchNewsletter();
+    } catch (error) {
+      console.error("Key rotation failed:", error);
+      notification.remove(loadingToast);
+      notification.error(error instanceof Error ? error.message : "Failed to rotate key");
+    } finally {
+      setIsRotatingKey(false);
+    }
+  };
 
   return (
     <div className="max-w-5xl mx-auto">
@@ -418,6 +492,30 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
             <span className="text-sm opacity-70">{timeAgo}</span>
             {isPublic && <div className="badge badge-success">Free</div>}
             {!isPublic && canView && <div className="badge badge-info">Premium</div>}
+            {isUnpublished && <div className="badge badge-ghost">Unpublished</div>}
+            {isScheduled && (
+              <div className="badge badge-accent">Scheduled for {new Date(availableAt).toLocaleString()}</div>
+            )}
+            {isOwnPost && !isUnpublished && (
+              <>
+                <Link href={`/dashboard/edit/${postId}`} className="btn btn-ghost btn-xs">
+                  Edit
+                </Link>
+                <button className="btn btn-ghost btn-xs text-error" onClick={handleUnpublish} disabled={isUnpublishing}>
+                  {isUnpublishing ? <span className="loading loading-spinner loading-xs"></span> : "Unpublish"}
+                </button>
+                {!isPublic && aesKey && (
+                  <button
+                    className="btn btn-ghost btn-xs"
+                    onClick={handleRotateKey}
+                    disabled={isRotatingKey}
+                    title="Re-encrypt this issue and its images under a new key"
+                  >
+                    {isRotatingKey ? <span className="loading loading-spinner loading-xs"></span> : "Rotate key"}
+                  </button>
+                )}
+              </>
+            )}
           </div>
           <Address address={creatorAddress} size="sm" />
         </div>
@@ -449,13 +547,46 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
                     d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"
                   />
                 </svg>
-                <div>
-                  <h3 className="font-bold">Subscribe to read the full content</h3>
-                  <div className="text-sm">This is a premium newsletter. Subscribe to {creatorName} to unlock.</div>
-                </div>
+                {isUnpublished ? (
+                  <div>
+                    <h3 className="font-bold">This issue was unpublished</h3>
+                    <div className="text-sm">{creatorName} has withdrawn this newsletter.</div>
+                  </div>
+                ) : isScheduled ? (
+                  <div>
+                    <h3 className="font-bold">Coming {formatDistanceToNow(availableAt, { addSuffix: true })}</h3>
+                    <div className="text-sm">
+                      This issue is scheduled for {new Date(availableAt).toLocaleString()}.{" "}
+                      {isPublic
+                        ? "It's free to read once it's released."
+                        : "Subscribers and buyers can read it once it's released."}
+                    </div>
+                  </div>
+                ) : (
+                  <div>
+                    <h3 className="font-bold">Subscribe to read the full content</h3>
+                    <div className="text-sm">
+                      This is a premium newsletter. Subscribe to {creatorName} to unlock
+                      {unlockPrice > BigInt(0) ? ", or buy this issue on its own." : "."}
+                    </div>
+                  </div>
+                )}
               </div>
 
-              <div className="card-actions justify-end mt-4">
+              <div
+                className={`card-actions justify-end mt-4 ${isUnpublished || (isScheduled && isPublic) ? "hidden" : ""}`}
+              >
+                {unlockPrice > BigInt(0) && (
+                  <button className="btn btn-outline" onClick={handleUnlock} disabled={isUnlocking}>
+                    {isUnlocking ? (
+                      <span className="loading loading-spinner"></span>
+                    ) : (
+                      <>
+                        Unlock this issue · <TokenAmount amount={unlockPrice} token={paymentToken} />
+                      </>
+                    )}
+                  </button>
+                )}
                 <Link href={`/subscribe/${creatorAddress}`}>
                   <button className="btn btn-primary">Subscribe Now</button>
                 </Link>
@@ -517,7 +648,11 @@ export function NewsletterDetail({ postId }: NewsletterDetailProps) {
                 </div>
               ) : (
                 <div>
-                  <NewsletterViewer content={decryptedNewsletter.content} aesKey={aesKey || undefined} />
+                  <NewsletterViewer
+                    content={decryptedNewsletter.content}
+                    aesKey={aesKey || undefined}
+                    context={postContext || undefined}
+                  />
 
                   <div className="divider"></div>
 
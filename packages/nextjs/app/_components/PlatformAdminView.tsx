@@ -0,0 +1,242 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { TokenAmount } from "../../components/cryptletter/TokenAmount";
+import { Address } from "../../components/helper";
+import { useDeployedContractInfo } from "../../hooks/helper";
+import type { AllowedChainIds } from "../../utils/helper/networks";
+import { notification } from "../../utils/helper/notification";
+import { ethereumAddressSchema } from "../../utils/validation";
+import { zeroAddress } from "viem";
+import { useAccount, useReadContract, useReadContracts, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+
+export function PlatformAdminView() {
+  const { address: userAddress, chain } = useAccount();
+  const chainId = chain?.id as AllowedChainIds | undefined;
+  const [feePercent, setFeePercent] = useState("");
+  const [newTreasury, setNewTreasury] = useState("");
+  const [tokenInput, setTokenInput] = useState("");
+
+  const { data: contractInfo } = useDeployedContractInfo({
+    contractName: "Cryptletter",
+    chainId,
+  });
+
+  // Platform settings
+  const { data: settingsData, refetch: refetchSettings } = useReadContracts({
+    contracts: (["owner", "treasury", "platformFeeBps", "MAX_PLATFORM_FEE_BPS"] as const).map(functionName => ({
+      address: contractInfo?.address as `0x${string}` | undefined,
+      abi: contractInfo?.abi as any,
+      functionName,
+    })),
+    query: {
+      enabled: Boolean(contractInfo?.address),
+    },
+  });
+  const owner = settingsData?.[0]?.result as string | undefined;
+  const treasury = settingsData?.[1]?.result as string | undefined;
+  const feeBps = Number((settingsData?.[2]?.result as bigint | undefined) ?? 0);
+  const maxFeeBps = Number((settingsData?.[3]?.result as bigint | undefined) ?? 0);
+  const isOwner = Boolean(owner && userAddress && owner.toLowerCase() === userAddress.toLowerCase());
+
+  // Fees are kept per payment token; shows ETH unless a token address is entered
+  const token = ethereumAddressSchema.safeParse(tokenInput).success ? tokenInput : zeroAddress;
+  const { data: feesData, refetch: refetchFees } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getPlatformFees",
+    args: [token as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address),
+    },
+  });
+  const [feeBalance, feesCollected] = (feesData as [bigint, bigint] | undefined) ?? [BigInt(0), BigInt(0)];
+
+  const { writeContract, data: hash, isPending, error } = useWriteContract();
+  const { isLoading: isConfirming, isSuccess: isConfirmed } = useWaitForTransactionReceipt({ hash });
+
+  useEffect(() => {
+    if (isConfirmed) {
+      notification.success("Platform settings updated");
+      setFeePercent("");
+      setNewTreasury("");
+      refetchSettings();
+      refetchFees();
+    }
+  }, [isConfirmed, refetchSettings, refetchFees]);
+
+  useEffect(() => {
+    if (error) {
+      notification.error("Transaction failed");
+    }
+  }, [error]);
+
+  if (!contractInfo?.address) {
+    return (
+      <div className="alert alert-warning">
+        <span>Cryptletter is not deployed on this network</span>
+      </div>
+    );
+  }
+
+  const handleSetFee = () => {
+    const bps = Math.round(Number(feePercent) * 100);
+    if (feePercent === "" || isNaN(bps) || bps < 0 || bps > maxFeeBps) {
+      notification.error(`Fee must be between 0% and ${maxFeeBps / 100}%`);
+      return;
+    }
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "setPlatformFee",
+      args: [BigInt(bps)],
+    });
+  };
+
+  const handleSetTreasury = () => {
+    const parsed = ethereumAddressSchema.safeParse(newTreasury);
+    if (!parsed.success) {
+      notification.error("Invalid treasury address");
+      return;
+    }
+
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "setTreasury",
+      args: [parsed.data as `0x${string}`],
+    });
+  };
+
+  const handleWithdrawFees = () => {
+    writeContract({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "withdrawPlatformFees",
+      args: [token as `0x${string}`],
+    });
+  };
+
+  const isBusy = isPending || isConfirming;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-3xl font-bold">Platform Admin</h1>
+        <p className="opacity-70">Platform fee and treasury settings</p>
+      </div>
+
+      {!isOwner && (
+        <div className="alert alert-info">
+          <span>Only the platform owner can change these settings. Values are shown read-only.</span>
+        </div>
+      )}
+
+      {/* Settings */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div className="card bg-primary text-primary-content shadow-lg">
+          <div className="card-body">
+            <h3 className="card-title text-4xl">{feeBps / 100}%</h3>
+            <p className="opacity-80">Platform fee (max {maxFeeBps / 100}%)</p>
+          </div>
+        </div>
+        <div className="card bg-base-200 shadow-lg">
+          <div className="card-body">
+            <p className="opacity-70 text-sm">Owner</p>
+            {owner && <Address address={owner} size="sm" />}
+          </div>
+        </div>
+        <div className="card bg-base-200 shadow-lg">
+          <div className="card-body">
+            <p className="opacity-70 text-sm">Treasury</p>
+            {treasury && <Address address={treasury} size="sm" />}
+          </div>
+        </div>
+      </div>
+
+      {/* Accumulated fees */}
+      <div className="card bg-base-200 shadow-xl">
+        <div className="card-body">
+          <h2 className="card-title mb-4">Accumulated Fees</h2>
+
+          <input
+            type="text"
+            placeholder="Token address (leave empty for ETH)"
+            className="input input-bordered input-sm w-full md:w-96 font-mono"
+            value={tokenInput}
+            onChange={e => setTokenInput(e.target.value.trim())}
+          />
+
+          <div className="stats stats-vertical md:stats-horizontal bg-base-100 shadow mt-4">
+            <div className="stat">
+              <div className="stat-title">Awaiting payout</div>
+              <div className="stat-value text-2xl">
+                <TokenAmount amount={feeBalance} token={token} />
+              </div>
+            </div>
+            <div className="stat">
+              <div className="stat-title">Collected all time</div>
+              <div className="stat-value text-2xl">
+                <TokenAmount amount={feesCollected} token={token} />
+              </div>
+            </div>
+          </div>
+
+          {isOwner && (
+            <div className="card-actions justify-end mt-4">
+              <button
+                className="btn btn-primary btn-sm"
+                onClick={handleWithdrawFees}
+                disabled={isBusy || feeBalance === BigInt(0)}
+              >
+                {isBusy ? <span className="loading loading-spinner loading-xs"></span> : "Pay out to treasury"}
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Owner controls */}
+      {isOwner && (
+        <div className="card bg-base-200 shadow-xl">
+          <div className="card-body space-y-4">
+            <h2 className="card-title">Settings</h2>
+
+            <div className="join">
+              <input
+                type="number"
+                min="0"
+                max={maxFeeBps / 100}
+                step="0.01"
+                placeholder={`Fee % (currently ${feeBps / 100})`}
+                className="input input-bordered input-sm join-item w-48"
+                value={feePercent}
+                onChange={e => setFeePercent(e.target.value)}
+                disabled={isBusy}
+              />
+              <button className="btn btn-sm join-item" onClick={handleSetFee} disabled={isBusy}>
+                Set fee
+              </button>
+            </div>
+            <p className="text-xs opacity-70">The new fee applies to payments made after the change.</p>
+
+            <div className="join">
+              <input
+                type="text"
+                placeholder="New treasury address"
+                className="input input-bordered input-sm join-item w-full md:w-96 font-mono"
+                value={newTreasury}
+                onChange={e => setNewTreasury(e.target.value.trim())}
+                disabled={isBusy}
+              />
+              <button className="btn btn-sm join-item" onClick={handleSetTreasury} disabled={isBusy}>
+                Set treasury
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,36 @@
 "use client";
 
-import { useState } from "react";
+import { useCallback, useEffect, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { type NewsletterContent, NewsletterEditor } from "../../components/cryptletter/NewsletterEditor";
 import { NewsletterViewer } from "../../components/cryptletter/NewsletterViewer";
-import { useDeployedContractInfo, useRetryableOperation } from "../../hooks/helper";
+import { useDeployedContractInfo, usePaymentToken, useRetryableOperation } from "../../hooks/helper";
 import { useEthersProvider } from "../../hooks/helper/useEthersProvider";
 import { useEthersSigner } from "../../hooks/helper/useEthersSigner";
 import type { AllowedChainIds } from "../../utils/helper/networks";
 import { notification } from "../../utils/helper/notification";
-import { useCryptletter } from "@fhevm-sdk/react";
-import { useAccount, useReadContract } from "wagmi";
+import {
+  type EncryptionContext,
+  type NewsletterData,
+  type UploadedImage,
+  createIPFSClient,
+  fheOutputToAESKey,
+  inlineEncryptedImages,
+  replaceImagesInHtml,
+  replaceImagesInJson,
+} from "@fhevm-sdk";
+import { useCryptletter, useFHEDecrypt, useFhevmContext } from "@fhevm-sdk/react";
+import { parseUnits } from "viem";
+import { useAccount, useReadContract, useSignTypedData } from "wagmi";
 
-export function PublishEditor() {
+interface PublishEditorProps {
+  editPostId?: number; // Re-open an existing post for editing instead of publishing a new one
+}
+
+export function PublishEditor({ editPostId }: PublishEditorProps = {}) {
   const router = useRouter();
+  const isEditing = editPostId !== undefined;
   const { address: userAddress, chain } = useAccount();
   const chainId = chain?.id as AllowedChainIds | undefined;
   const provider = useEthersProvider();
@@ -22,11 +38,22 @@ export function PublishEditor() {
 
   const [content, setContent] = useState<NewsletterContent>({ title: "", contentHtml: "", contentJson: null });
   const [isPublic, setIsPublic] = useState(false);
+  const [minTierRank, setMinTierRank] = useState(0);
+  const [unlockPrice, setUnlockPrice] = useState("");
+  const [publishAt, setPublishAt] = useState(""); // datetime-local value, empty = publish now
   const [publishError, setPublishError] = useState<string | null>(null);
   const [publishSuccess, setPublishSuccess] = useState(false);
   const [publishedPostId, setPublishedPostId] = useState<bigint | null>(null);
   const [showPreview, setShowPreview] = useState(false);
 
+  // Edit mode: the post's decrypted AES key and the images that are already on IPFS
+  const [isPostLoaded, setIsPostLoaded] = useState(false);
+  const [isLoadingPost, setIsLoadingPost] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [postKey, setPostKey] = useState<string | null>(null);
+  const [keptImages, setKeptImages] = useState<UploadedImage[]>([]);
+  const [savedVersion, setSavedVersion] = useState<number | null>(null);
+
   const { execute: executeWithRetry, isRetrying, retryCount } = useRetryableOperation();
 
   const { data: contractInfo } = useDeployedContractInfo({
@@ -59,14 +86,162 @@ export function PublishEditor() {
     },
   });
 
+  // Creator's subscription tiers (for tier-gated posts)
+  const { data: tiersData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getTiers",
+    args: userAddress ? [userAddress as `0x${string}`] : undefined,
+    query: {
+      enabled: Boolean(contractInfo?.address && userAddress),
+    },
+  });
+
+  // Post being edited
+  const { data: postData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getNewsletter",
+    args: [BigInt(editPostId ?? 0)],
+    query: {
+      enabled: Boolean(contractInfo?.address && isEditing),
+    },
+  });
+  const postArray = postData ? (Array.isArray(postData) ? postData : Object.values(postData as any)) : null;
+  const postIsPublic = postArray ? (postArray[5] as boolean) : false;
+  const isOwnPost = Boolean(
+    postArray && userAddress && (postArray[6] as string).toLowerCase() === userAddress.toLowerCase(),
+  );
+
+  // Creators keep FHE permission on their post keys, so no grant is needed before decrypting
+  const { data: encryptedKeyHandle } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getDecryptionKey",
+    args: [BigInt(editPostId ?? 0)],
+    query: {
+      enabled: Boolean(contractInfo?.address && isEditing && isOwnPost && !postIsPublic),
+    },
+  });
+
+  const { instance, storage } = useFhevmContext();
+  const { signTypedDataAsync } = useSignTypedData();
+  const signTypedData = useCallback(
+    async (domain: any, types: any, message: any) => {
+      return await signTypedDataAsync({ domain, types, message, primaryType: Object.keys(types)[0] });
+    },
+    [signTypedDataAsync],
+  );
+  const getAddress = useCallback(async () => userAddress as string, [userAddress]);
+
+  const fheRequests = useMemo(() => {
+    if (!encryptedKeyHandle || !contractInfo?.address) return undefined;
+    return [{ handle: encryptedKeyHandle as string, contractAddress: contractInfo.address }];
+  }, [encryptedKeyHandle, contractInfo?.address]);
+
+  const {
+    decrypt: decryptFHE,
+    results: fheResults,
+    errorMessage: fheErrorMessage,
+  } = useFHEDecrypt({
+    instance,
+    signTypedData,
+    getAddress,
+    fhevmDecryptionSignatureStorage: storage!,
+    chainId,
+    requests: fheRequests,
+    autoDecrypt: false,
+    retry: { maxRetries: 0, retryDelay: 2000 },
+  });
+
+  // Fill the editor from the stored Tiptap JSON; encrypted images are inlined so the editor can show them
+  const loadIntoEditor = useCallback(
+    async (newsletter: NewsletterData, aesKeyHex: string | null, context: EncryptionContext | null) => {
+      let contentJson = newsletter.metadata?.contentJson ?? null;
+      let images: UploadedImage[] = [];
+
+      if (aesKeyHex && context && contentJson) {
+        const ipfsClient = createIPFSClient({ jwt: ipfsJWT, gateway: ipfsGateway });
+        ({ json: contentJson, images } = await inlineEncryptedImages(
+          contentJson,
+          ipfsClient,
+          fheOutputToAESKey(aesKeyHex),
+          context,
+        ));
+      }
+
+      setContent({ title: newsletter.title, contentHtml: newsletter.content, contentJson });
+      setKeptImages(images);
+      setPostKey(aesKeyHex);
+      setIsPostLoaded(true);
+    },
+    [ipfsJWT, ipfsGateway],
+  );
+
+  const handleLoadPost = async () => {
+    if (!postArray) return;
+
+    setIsLoadingPost(true);
+    setLoadError(null);
+
+    try {
+      if (!postIsPublic) {
+        // Continues in the effect below once the key is decrypted
+        await decryptFHE();
+        return;
+      }
+
+      // Free posts are stored as plain JSON
+      const ipfsClient = createIPFSClient({ jwt: ipfsJWT, gateway: ipfsGateway });
+      const data = await ipfsClient.downloadFromIPFS(postArray[0] as string);
+      await loadIntoEditor(JSON.parse(new TextDecoder().decode(data)) as NewsletterData, null, null);
+    } catch (error) {
+      console.error("Failed to load post:", error);
+      setLoadError(error instanceof Error ? error.message : "Failed to load post");
+    }
+    setIsLoadingPost(false);
+  };
+
+  useEffect(() => {
+    if (!isEditing || isPostLoaded || !fheResults || Object.keys(fheResults).length === 0) return;
+
+    const decrypted = fheResults[encryptedKeyHandle as string] ?? Object.values(fheResults)[0];
+    const aesKeyHex =
+      typeof decrypted === "bigint" ? "0x" + decrypted.toString(16).padStart(64, "0") : String(decrypted);
+
+    cryptletter
+      .decryptNewsletterContent(editPostId, aesKeyHex)
+      .then(({ newsletter, context }) => loadIntoEditor(newsletter, aesKeyHex, context))
+      .catch(error => {
+        console.error("Failed to load post:", error);
+        setLoadError(error instanceof Error ? error.message : "Failed to decrypt post");
+      })
+      .finally(() => setIsLoadingPost(false));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [fheResults]);
+
+  useEffect(() => {
+    if (fheErrorMessage) {
+      setLoadError(fheErrorMessage);
+      setIsLoadingPost(false);
+    }
+  }, [fheErrorMessage]);
+
+  const tierRanks = Array.from(
+    new Map(((tiersData as any[] | undefined) ?? []).map((tier: any) => [Number(tier.rank), tier.name as string])),
+  ).sort(([a], [b]) => a - b);
+
   // Extract creator data
   const creatorArray = creatorData
     ? Array.isArray(creatorData)
       ? creatorData
       : Object.values(creatorData as any)
     : null;
-  // Creator struct: [name, bio, monthlyPrice, subscriberCount, isActive]
-  const isRegistered = creatorArray ? (creatorArray[4] as boolean) : false;
+  // Creator struct: [name, bio, monthlyPrice, subscriberCount, isActive, paymentToken]
+  // Deactivated creators keep their name but can't publish until they reactivate
+  const isRegistered = creatorArray ? (creatorArray[0] as string).length > 0 : false;
+  const isActiveCreator = creatorArray ? (creatorArray[4] as boolean) : false;
+  const token = usePaymentToken(creatorArray ? (creatorArray[5] as string) : undefined);
 
   const handlePublish = async () => {
     if (!contractInfo?.address || !userAddress) {
@@ -100,8 +275,27 @@ export function PublishEditor() {
       return;
     }
 
+    // Validate the optional pay-per-view price
+    if (!isEditing && !isPublic && unlockPrice !== "" && !(Number(unlockPrice) > 0)) {
+      notification.error("Unlock price must be greater than zero");
+      setPublishError("Unlock price must be greater than zero");
+      return;
+    }
+
+    // Validate the optional release time
+    if (!isEditing && !isPublic && publishAt !== "" && new Date(publishAt).getTime() <= Date.now()) {
+      notification.error("Scheduled time must be in the future");
+      setPublishError("Scheduled time must be in the future");
+      return;
+    }
+
     setPublishError(null);
 
+    if (isEditing) {
+      await handleSaveEdit();
+      return;
+    }
+
     // Show loading toast
     const loadingToast = notification.loading("Publishing newsletter to blockchain...");
 
@@ -117,6 +311,9 @@ export function PublishEditor() {
             contentJson: content.contentJson,
             author: userAddress,
             isPublic,
+            minTierRank: isPublic ? 0 : minTierRank,
+            price: isPublic || unlockPrice === "" ? undefined : parseUnits(unlockPrice, token.decimals),
+            publishAt: isPublic || publishAt === "" ? undefined : new Date(publishAt),
           }),
         {
           maxRetries: 3,
@@ -158,6 +355,46 @@ export function PublishEditor() {
     }
   };
 
+  const handleSaveEdit = async () => {
+    if (!isEditing || !userAddress) return;
+
+    const loadingToast = notification.loading("Saving changes to blockchain...");
+
+    try {
+      // Images that were already uploaded go back to their IPFS URLs instead of being uploaded again
+      const result = await cryptletter.editNewsletter(
+        editPostId,
+        {
+          title: content.title,
+          content: replaceImagesInHtml(content.contentHtml, keptImages),
+          contentJson: replaceImagesInJson(content.contentJson, keptImages),
+          author: userAddress,
+        },
+        postKey ?? undefined,
+      );
+
+      notification.remove(loadingToast);
+      notification.success("Newsletter updated", { duration: 5000 });
+
+      setSavedVersion(result.version);
+      setPublishSuccess(true);
+    } catch (error) {
+      console.error("Editing error:", error);
+      const errorMessage = error instanceof Error ? error.message : "Failed to save changes. Please try again.";
+
+      notification.remove(loadingToast);
+      notification.error(
+        <div>
+          <p className="font-bold">Saving failed</p>
+          <p className="text-sm opacity-80">{errorMessage}</p>
+        </div>,
+        { duration: 5000 },
+      );
+
+      setPublishError(errorMessage);
+    }
+  };
+
   // Show loading state while checking creator status
   if (isLoadingCreator) {
     return (
@@ -167,8 +404,8 @@ export function PublishEditor() {
     );
   }
 
-  // Show registration prompt if user is not a creator
-  if (!isRegistered && userAddress) {
+  // Show registration prompt if user is not an active creator
+  if (!isActiveCreator && userAddress) {
     return (
       <div className="max-w-2xl mx-auto">
         <div className="card bg-gradient-to-br from-warning/20 to-warning/5 shadow-2xl border border-warning/30">
@@ -189,9 +426,13 @@ export function PublishEditor() {
                 />
               </svg>
             </div>
-            <h2 className="text-3xl font-bold mb-3">Creator Registration Required</h2>
+            <h2 className="text-3xl font-bold mb-3">
+              {isRegistered ? "Creator Profile Deactivated" : "Creator Registration Required"}
+            </h2>
             <p className="text-lg opacity-80 mb-6">
-              You need to register as a creator before you can publish newsletters
+              {isRegistered
+                ? "Reactivate your creator profile before publishing or editing newsletters"
+                : "You need to register as a creator before you can publish newsletters"}
             </p>
             <div className="divider my-6"></div>
             <div className="flex flex-col sm:flex-row gap-3 justify-center">
@@ -199,7 +440,7 @@ export function PublishEditor() {
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                   <path d="M8 9a3 3 0 100-6 3 3 0 000 6zM8 11a6 6 0 016 6H2a6 6 0 016-6zM16 7a1 1 0 10-2 0v1h-1a1 1 0 100 2h1v1a1 1 0 102 0v-1h1a1 1 0 100-2h-1V7z" />
                 </svg>
-                Register as Creator
+                {isRegistered ? "Reactivate Profile" : "Register as Creator"}
               </Link>
             </div>
           </div>
@@ -208,6 +449,68 @@ export function PublishEditor() {
     );
   }
 
+  if (publishSuccess && isEditing) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card bg-gradient-to-br from-success/20 to-success/5 shadow-2xl border border-success/30">
+          <div className="card-body text-center py-12">
+            <h2 className="text-3xl font-bold mb-3">Changes Saved!</h2>
+            <p className="text-lg opacity-80 mb-2">The updated newsletter is live on the blockchain</p>
+            {savedVersion !== null && <div className="badge badge-success badge-lg mt-2">Version {savedVersion}</div>}
+            <div className="divider my-6"></div>
+            <div className="flex flex-col sm:flex-row gap-3 justify-center">
+              <Link href={`/creator/${userAddress}/post/${editPostId}`} className="btn btn-primary btn-lg">
+                View Post
+              </Link>
+              <Link href={`/creator/${userAddress}`} className="btn btn-outline btn-lg">
+                Back to Profile
+              </Link>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  if (isEditing && postArray && !isOwnPost) {
+    return (
+      <div className="alert alert-error max-w-2xl mx-auto">
+        <span>You can only edit your own newsletters.</span>
+      </div>
+    );
+  }
+
+  if (isEditing && !isPostLoaded) {
+    return (
+      <div className="max-w-2xl mx-auto">
+        <div className="card bg-base-200 shadow-xl">
+          <div className="card-body text-center py-12">
+            <h2 className="text-2xl font-bold mb-2">{postArray ? (postArray[2] as string) : "Loading post..."}</h2>
+            <p className="opacity-70 mb-4">
+              {postIsPublic
+                ? "Load the post into the editor to make changes."
+                : "Decrypt the post with your wallet to load it into the editor."}
+            </p>
+            {loadError && (
+              <div className="alert alert-error mb-4">
+                <span>{loadError}</span>
+              </div>
+            )}
+            <div className="card-actions justify-center">
+              <button
+                className="btn btn-primary"
+                onClick={handleLoadPost}
+                disabled={!postArray || !ipfsJWT || isLoadingPost || (!postIsPublic && !fheRequests)}
+              >
+                {isLoadingPost ? <span className="loading loading-spinner"></span> : "Load Post for Editing"}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (publishSuccess) {
     return (
       <div className="max-w-2xl mx-auto">
@@ -229,8 +532,12 @@ export function PublishEditor() {
                 />
               </svg>
             </div>
-            <h2 className="text-3xl font-bold mb-3">Newsletter Published!</h2>
-            <p className="text-lg opacity-80 mb-2">Your newsletter has been successfully published on the blockchain</p>
+            <h2 className="text-3xl font-bold mb-3">{publishAt ? "Newsletter Scheduled!" : "Newsletter Published!"}</h2>
+            <p className="text-lg opacity-80 mb-2">
+              {publishAt
+                ? `Your newsletter is on the blockchain and will be released ${new Date(publishAt).toLocaleString()}`
+                : "Your newsletter has been successfully published on the blockchain"}
+            </p>
             {publishedPostId && (
               <div className="badge badge-success badge-lg mt-2">Post ID: {publishedPostId.toString()}</div>
             )}
@@ -259,6 +566,7 @@ export function PublishEditor() {
                   setPublishedPostId(null);
                   setContent({ title: "", contentHtml: "", contentJson: null });
                   setIsPublic(false);
+                  setPublishAt("");
                   setPublishError(null);
                 }}
               >
@@ -283,7 +591,7 @@ export function PublishEditor() {
       {/* Header with Tab Switcher */}
       <div className="flex items-center justify-between">
         <div>
-          <h1 className="text-2xl md:text-3xl font-bold">Create Newsletter</h1>
+          <h1 className="text-2xl md:text-3xl font-bold">{isEditing ? "Edit Newsletter" : "Create Newsletter"}</h1>
           <p className="text-sm opacity-70 mt-1">
             {showPreview ? "Preview how your newsletter will look" : "Write and format your newsletter content"}
           </p>
@@ -323,8 +631,8 @@ export function PublishEditor() {
           <div className="card-body">
             <div className="flex items-center justify-between mb-4">
               <h2 className="text-xl font-bold">Preview</h2>
-              <div className={`badge ${isPublic ? "badge-info" : "badge-warning"}`}>
-                {isPublic ? "Free Newsletter" : "Premium Newsletter"}
+              <div className={`badge ${(isEditing ? postIsPublic : isPublic) ? "badge-info" : "badge-warning"}`}>
+                {(isEditing ? postIsPublic : isPublic) ? "Free Newsletter" : "Premium Newsletter"}
               </div>
             </div>
             <div className="divider my-2"></div>
@@ -365,25 +673,111 @@ export function PublishEditor() {
             <h3 className="font-bold text-lg">Publishing Options</h3>
           </div>
 
-          <div className="form-control bg-base-100 p-4 rounded-lg">
-            <label className="label cursor-pointer justify-start gap-4">
+          {isEditing && (
+            <div className="bg-base-100 p-4 rounded-lg text-sm opacity-80">
+              This is a {postIsPublic ? "free" : "premium"} newsletter. Visibility, tier and price can&apos;t be changed
+              after publishing. Readers will need to decrypt the post again to see your changes.
+            </div>
+          )}
+
+          {!isEditing && (
+            <div className="form-control bg-base-100 p-4 rounded-lg">
+              <label className="label cursor-pointer justify-start gap-4">
+                <input
+                  type="checkbox"
+                  className="toggle toggle-lg toggle-primary"
+                  checked={isPublic}
+                  onChange={e => {
+                    setIsPublic(e.target.checked);
+                    // Free posts go out unencrypted, so they can't be held back until a release time
+                    if (e.target.checked) setPublishAt("");
+                  }}
+                  disabled={cryptletter.isPublishing}
+                />
+                <span className="label-text flex-1">
+                  <div className="font-semibold text-base mb-1">Make this newsletter free</div>
+                  <div className="text-sm opacity-70">
+                    {isPublic
+                      ? "Anyone can read this newsletter without subscribing"
+                      : "Only your paid subscribers can read this newsletter"}
+                  </div>
+                </span>
+              </label>
+            </div>
+          )}
+
+          {!isEditing && !isPublic && tierRanks.length > 1 && (
+            <div className="form-control bg-base-100 p-4 rounded-lg mt-4">
+              <label className="label">
+                <span className="label-text font-semibold">Minimum subscription tier</span>
+              </label>
+              <select
+                className="select select-bordered w-full"
+                value={minTierRank}
+                onChange={e => setMinTierRank(Number(e.target.value))}
+                disabled={cryptletter.isPublishing}
+              >
+                {tierRanks.map(([rank, name]) => (
+                  <option key={rank} value={rank}>
+                    {rank === 0 ? "All subscribers" : `${name} and above`}
+                  </option>
+                ))}
+              </select>
+              <label className="label">
+                <span className="label-text-alt opacity-70">
+                  Subscribers on a lower tier will see the preview but can&apos;t decrypt the content
+                </span>
+              </label>
+            </div>
+          )}
+
+          {!isEditing && !isPublic && (
+            <div className="form-control bg-base-100 p-4 rounded-lg mt-4">
+              <label className="label">
+                <span className="label-text font-semibold">Pay-per-view price (optional)</span>
+              </label>
+              <div className="join w-full">
+                <input
+                  type="number"
+                  min="0"
+                  step="any"
+                  placeholder="Subscribers only"
+                  className="input input-bordered join-item w-full"
+                  value={unlockPrice}
+                  onChange={e => setUnlockPrice(e.target.value)}
+                  disabled={cryptletter.isPublishing}
+                />
+                <span className="join-item bg-base-300 px-4 flex items-center">{token.symbol}</span>
+              </div>
+              <label className="label">
+                <span className="label-text-alt opacity-70">
+                  Readers without a subscription can unlock just this issue for this price
+                </span>
+              </label>
+            </div>
+          )}
+
+          {!isEditing && !isPublic && (
+            <div className="form-control bg-base-100 p-4 rounded-lg mt-4">
+              <label className="label">
+                <span className="label-text font-semibold">Release time (optional)</span>
+              </label>
               <input
-                type="checkbox"
-                className="toggle toggle-lg toggle-primary"
-                checked={isPublic}
-                onChange={e => setIsPublic(e.target.checked)}
+                type="datetime-local"
+                className="input input-bordered w-full"
+                value={publishAt}
+                onChange={e => setPublishAt(e.target.value)}
                 disabled={cryptletter.isPublishing}
               />
-              <span className="label-text flex-1">
-                <div className="font-semibold text-base mb-1">Make this newsletter free</div>
-                <div className="text-sm opacity-70">
-                  {isPublic
-                    ? "Anyone can read this newsletter without subscribing"
-                    : "Only your paid subscribers can read this newsletter"}
-                </div>
-              </span>
-            </label>
-          </div>
+              <label className="label">
+                <span className="label-text-alt opacity-70">
+                  {publishAt
+                    ? "Readers can't open this issue before then; it shows as scheduled until it's released"
+                    : "Leave empty to publish immediately"}
+                </span>
+              </label>
+            </div>
+          )}
 
           {!ipfsJWT && (
             <div className="alert alert-warning mt-4">
@@ -424,7 +818,7 @@ export function PublishEditor() {
                   />
                 </svg>
                 <div className="flex-1">
-                  <h3 className="font-bold">Publishing Failed</h3>
+                  <h3 className="font-bold">{isEditing ? "Saving Failed" : "Publishing Failed"}</h3>
                   <div className="text-sm">{publishError}</div>
                   {retryCount > 0 && <div className="text-xs mt-1 opacity-70">Attempted {retryCount} retries</div>}
                 </div>
@@ -461,7 +855,7 @@ export function PublishEditor() {
               <div className="flex items-start gap-3 w-full">
                 <span className="loading loading-spinner loading-md flex-shrink-0"></span>
                 <div className="flex-1">
-                  <h4 className="font-bold mb-1">Publishing Newsletter...</h4>
+                  <h4 className="font-bold mb-1">{isEditing ? "Saving Changes..." : "Publishing Newsletter..."}</h4>
                   <p className="text-sm opacity-90 mb-2">
                     This involves multiple steps: encrypting content, uploading to IPFS, and writing to blockchain.
                   </p>
@@ -489,14 +883,18 @@ export function PublishEditor() {
               {cryptletter.isPublishing ? (
                 <>
                   <span className="loading loading-spinner loading-sm"></span>
-                  <span>Publishing...</span>
+                  <span>{isEditing ? "Saving..." : "Publishing..."}</span>
                 </>
               ) : (
                 <>
                   <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" viewBox="0 0 20 20" fill="currentColor">
                     <path d="M10.894 2.553a1 1 0 00-1.788 0l-7 14a1 1 0 001.169 1.409l5-1.429A1 1 0 009 15.571V11a1 1 0 112 0v4.571a1 1 0 00.725.962l5 1.428a1 1 0 001.17-1.408l-7-14z" />
                   </svg>
-                  <span>Publish {isPublic ? "Free" : "Premium"} Newsletter</span>
+                  <span>
+                    {isEditing
+                      ? "Save Changes"
+                      : `${publishAt ? "Schedule" : "Publish"} ${isPublic ? "Free" : "Premium"} Newsletter`}
+                  </span>
                 </>
               )}
             </button>
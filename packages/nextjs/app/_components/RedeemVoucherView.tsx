@@ -0,0 +1,176 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { Address } from "../../components/helper";
+import { useDeployedContractInfo } from "../../hooks/helper";
+import { useEthersProvider } from "../../hooks/helper/useEthersProvider";
+import { useEthersSigner } from "../../hooks/helper/useEthersSigner";
+import type { AllowedChainIds } from "../../utils/helper/networks";
+import { notification } from "../../utils/helper/notification";
+import { type CompVoucher, decodeCompVoucher } from "@fhevm-sdk";
+import { useCryptletter } from "@fhevm-sdk/react";
+import { formatDistanceToNow } from "date-fns";
+import { zeroAddress } from "viem";
+import { useAccount, useReadContract } from "wagmi";
+
+export function RedeemVoucherView() {
+  const { address: userAddress, chain } = useAccount();
+  const chainId = chain?.id as AllowedChainIds | undefined;
+  const provider = useEthersProvider();
+  const signer = useEthersSigner();
+  const [code, setCode] = useState("");
+  const [redeemed, setRedeemed] = useState(false);
+
+  const { data: contractInfo } = useDeployedContractInfo({
+    contractName: "Cryptletter",
+    chainId,
+  });
+
+  const cryptletter = useCryptletter({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    provider: provider as any,
+    signer: signer as any,
+  });
+
+  // Voucher links from the creator dashboard carry the code in the query string
+  useEffect(() => {
+    const fromLink = new URLSearchParams(window.location.search).get("code");
+    if (fromLink) setCode(fromLink);
+  }, []);
+
+  const voucher = useMemo<CompVoucher | null>(() => {
+    if (!code) return null;
+    try {
+      return decodeCompVoucher(code);
+    } catch {
+      return null;
+    }
+  }, [code]);
+
+  const { data: isUsed } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "voucherNonceUsed",
+    args: [voucher?.creator as `0x${string}`, voucher?.nonce ?? BigInt(0)],
+    query: {
+      enabled: Boolean(contractInfo?.address && voucher),
+    },
+  });
+
+  const isExpired = voucher ? voucher.deadline * 1000 < Date.now() : false;
+  const isForSomeoneElse = Boolean(
+    voucher &&
+      userAddress &&
+      voucher.recipient !== zeroAddress &&
+      voucher.recipient.toLowerCase() !== userAddress.toLowerCase(),
+  );
+
+  const handleRedeem = async () => {
+    if (!voucher) return;
+    if (!userAddress) {
+      notification.error("Please connect your wallet");
+      return;
+    }
+
+    const loadingToast = notification.loading("Redeeming voucher...");
+    try {
+      await cryptletter.redeemCompVoucher(voucher);
+      notification.remove(loadingToast);
+      setRedeemed(true);
+    } catch (error) {
+      console.error("Redeem failed:", error);
+      notification.remove(loadingToast);
+      notification.error(error instanceof Error ? error.message : "Failed to redeem voucher");
+    }
+  };
+
+  if (redeemed && voucher) {
+    return (
+      <div className="card bg-success text-success-content shadow-xl">
+        <div className="card-body text-center">
+          <div className="text-6xl mb-4">🎟️</div>
+          <h2 className="text-2xl font-bold">Voucher Redeemed!</h2>
+          <p>You have {Math.round(voucher.duration / 86400)} days of free access.</p>
+          <div className="card-actions justify-center mt-4">
+            <Link href={`/creator/${voucher.creator}`} className="btn">
+              Start Reading
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="card bg-base-200 shadow-xl">
+      <div className="card-body">
+        <h1 className="card-title text-2xl">Redeem a voucher</h1>
+        <p className="opacity-70">Paste the voucher code a creator shared with you.</p>
+
+        <textarea
+          className="textarea textarea-bordered font-mono text-xs h-28 mt-2"
+          placeholder="Voucher code"
+          value={code}
+          onChange={e => setCode(e.target.value.trim())}
+          disabled={cryptletter.isLoading}
+        />
+
+        {code && !voucher && (
+          <div className="alert alert-error mt-2">
+            <span>This doesn&apos;t look like a valid voucher code</span>
+          </div>
+        )}
+
+        {voucher && (
+          <div className="bg-base-100 rounded-lg p-4 mt-2 space-y-2 text-sm">
+            <div className="flex items-center gap-2">
+              <span className="opacity-70">From</span>
+              <Address address={voucher.creator} size="sm" />
+            </div>
+            <div>
+              <span className="opacity-70">Access: </span>
+              {Math.round(voucher.duration / 86400)} days
+            </div>
+            <div>
+              <span className="opacity-70">Redeem by: </span>
+              {formatDistanceToNow(voucher.deadline * 1000, { addSuffix: true })}
+            </div>
+            {voucher.recipient !== zeroAddress && (
+              <div className="flex items-center gap-2">
+                <span className="opacity-70">Only for</span>
+                <Address address={voucher.recipient} size="sm" />
+              </div>
+            )}
+          </div>
+        )}
+
+        {voucher && (isUsed || isExpired || isForSomeoneElse) && (
+          <div className="alert alert-warning mt-2">
+            <span>
+              {isUsed
+                ? "This voucher was already redeemed or revoked"
+                : isExpired
+                  ? "This voucher has expired"
+                  : "This voucher was issued to a different wallet"}
+            </span>
+          </div>
+        )}
+
+        <div className="card-actions justify-end mt-4">
+          <button
+            className="btn btn-primary"
+            onClick={handleRedeem}
+            disabled={
+              !voucher || !userAddress || Boolean(isUsed) || isExpired || isForSomeoneElse || cryptletter.isLoading
+            }
+          >
+            {cryptletter.isLoading ? <span className="loading loading-spinner"></span> : "Redeem"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
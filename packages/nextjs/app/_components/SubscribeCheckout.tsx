@@ -3,26 +3,78 @@
 import { useEffect, useState } from "react";
 import Link from "next/link";
 import { Address } from "../../components/helper";
-import { useDeployedContractInfo } from "../../hooks/helper";
+import { useDeployedContractInfo, usePaymentToken } from "../../hooks/helper";
+import { useEthersProvider } from "../../hooks/helper/useEthersProvider";
+import { useEthersSigner } from "../../hooks/helper/useEthersSigner";
 import type { AllowedChainIds } from "../../utils/helper/networks";
 import { notification } from "../../utils/helper/notification";
-import { formatEther } from "viem";
-import { useAccount, useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+import { ethereumAddressSchema } from "../../utils/validation";
+import { normalizePromoCode } from "@fhevm-sdk";
+import { useCryptletter } from "@fhevm-sdk/react";
+import { erc20Abi } from "viem";
+import { useAccount, useReadContract, useReadContracts, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
 interface SubscribeCheckoutProps {
   creatorAddress: string;
 }
 
+interface TierOption {
+  tierId: number;
+  name: string;
+  price: bigint;
+  duration: bigint;
+  rank: bigint;
+  isActive: boolean;
+}
+
+const SECONDS_PER_DAY = 86400;
+const PERIOD_OPTIONS = [1, 3, 6, 12] as const;
+
 export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
   const { address: userAddress, chain } = useAccount();
   const chainId = chain?.id as AllowedChainIds | undefined;
   const [isProcessing, setIsProcessing] = useState(false);
+  const [selectedTierId, setSelectedTierId] = useState(0);
+  const [periods, setPeriods] = useState<(typeof PERIOD_OPTIONS)[number]>(1);
+  const [isGift, setIsGift] = useState(false);
+  const [recipient, setRecipient] = useState("");
+  const [giftNote, setGiftNote] = useState("");
+  const [giftSent, setGiftSent] = useState(false);
+  const [promoInput, setPromoInput] = useState("");
+  const [appliedPromo, setAppliedPromo] = useState<string | null>(null);
+  const [isCheckingPromo, setIsCheckingPromo] = useState(false);
+  const provider = useEthersProvider();
+  const signer = useEthersSigner();
 
   const { data: contractInfo } = useDeployedContractInfo({
     contractName: "Cryptletter",
     chainId,
   });
 
+  // Gifts go through the SDK, which handles token approval and note encryption
+  const cryptletter = useCryptletter({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    provider: provider as any,
+    signer: signer as any,
+  });
+  const isValidRecipient = ethereumAddressSchema.safeParse(recipient).success;
+
+  // Gifts extend the recipient's running tier, or buy the default tier if they have none
+  const { data: recipientData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getSubscriptionStatus",
+    args: [recipient as `0x${string}`, creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && isGift && isValidRecipient),
+    },
+  });
+  const recipientStatus = recipientData as readonly [boolean, bigint, bigint, boolean, bigint] | undefined;
+  const recipientTierId = recipientStatus && recipientStatus[0] && recipientStatus[3] ? Number(recipientStatus[4]) : 0;
+  const tierId = isGift ? recipientTierId : selectedTierId;
+
   // Get creator details
   const { data: creatorData } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
@@ -34,6 +86,52 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
     },
   });
 
+  // Get subscription tiers offered by the creator
+  const { data: tiersData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "getTiers",
+    args: [creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+
+  // Get multi-period discounts (basis points) offered by the creator
+  const { data: discountsData } = useReadContracts({
+    contracts: PERIOD_OPTIONS.map(option => ({
+      address: contractInfo?.address as `0x${string}` | undefined,
+      abi: contractInfo?.abi as any,
+      functionName: "periodDiscounts",
+      args: [creatorAddress as `0x${string}`, BigInt(option)],
+    })),
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+
+  // Get the total price for the selected tier and term
+  const { data: quoteData } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "quoteSubscription",
+    args: [creatorAddress as `0x${string}`, BigInt(tierId), BigInt(periods)],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress),
+    },
+  });
+
+  // Re-quote with the applied promo code whenever the tier or term changes (gifts don't take codes)
+  const { data: promoQuoteData, error: promoQuoteError } = useReadContract({
+    address: contractInfo?.address as `0x${string}` | undefined,
+    abi: contractInfo?.abi,
+    functionName: "quoteSubscriptionWithCode",
+    args: [creatorAddress as `0x${string}`, BigInt(tierId), BigInt(periods), appliedPromo ?? ""],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress && appliedPromo && !isGift),
+    },
+  });
+
   // Get subscription status
   const { data: subscriptionData } = useReadContract({
     address: contractInfo?.address as `0x${string}` | undefined,
@@ -52,13 +150,79 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
     hash,
   });
 
+  // Token-priced creators are paid via transferFrom, so the contract needs an allowance first
+  const { writeContract: writeApproval, data: approvalHash, isPending: isApprovalPending } = useWriteContract();
+
+  const { isLoading: isApprovalConfirming, isSuccess: isApprovalConfirmed } = useWaitForTransactionReceipt({
+    hash: approvalHash,
+  });
+
   // Handle both array and object responses from contract - extract early to avoid conditional hook calls
   const creatorArray = creatorData
     ? Array.isArray(creatorData)
       ? creatorData
       : Object.values(creatorData as any)
     : null;
-  const [name, bio, monthlyPrice, subscriberCount, isActive] = creatorArray || ["", "", BigInt(0), BigInt(0), false];
+  const [name, bio, monthlyPrice, subscriberCount, isActive, paymentTokenAddress] = creatorArray || [
+    "",
+    "",
+    BigInt(0),
+    BigInt(0),
+    false,
+    undefined,
+  ];
+  const paymentToken = usePaymentToken(paymentTokenAddress as string | undefined);
+
+  const { data: allowanceData, refetch: refetchAllowance } = useReadContract({
+    address: paymentToken.address,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [userAddress as `0x${string}`, contractInfo?.address as `0x${string}`],
+    query: {
+      enabled: Boolean(!paymentToken.isNative && userAddress && contractInfo?.address),
+    },
+  });
+
+  // Tier ID is the index in the creator's tier list; retired tiers can't be bought
+  const tiers: TierOption[] = ((tiersData as any[] | undefined) ?? [])
+    .map((tier: any, index: number) => ({
+      tierId: index,
+      name: tier.name,
+      price: tier.price,
+      duration: tier.duration,
+      rank: tier.rank,
+      isActive: tier.isActive,
+    }))
+    .filter(tier => tier.isActive);
+  const selectedTier = tiers.find(tier => tier.tierId === tierId);
+  const periodPrice = selectedTier?.price ?? (monthlyPrice as bigint);
+  const fullPrice = periodPrice * BigInt(periods);
+  const basePrice = (quoteData as bigint | undefined) ?? fullPrice;
+  const promoPrice = appliedPromo && !isGift && !promoQuoteError ? (promoQuoteData as bigint | undefined) : undefined;
+  const price = promoPrice ?? basePrice;
+  const periodDays = selectedTier ? Math.round(Number(selectedTier.duration) / SECONDS_PER_DAY) : 30;
+  const durationDays = periodDays * periods;
+  const discountBps = (option: number) =>
+    Number((discountsData?.[PERIOD_OPTIONS.indexOf(option as (typeof PERIOD_OPTIONS)[number])]?.result as bigint) ?? 0);
+  const needsApproval = !paymentToken.isNative && ((allowanceData as bigint | undefined) ?? BigInt(0)) < price;
+
+  // Pick up the new allowance once the approval is mined
+  useEffect(() => {
+    if (isApprovalConfirmed) {
+      refetchAllowance();
+      notification.success(`${paymentToken.symbol} spending approved`);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isApprovalConfirmed]);
+
+  // A code can run out or expire while the checkout is open
+  useEffect(() => {
+    if (promoQuoteError && appliedPromo) {
+      notification.error(`Promo code ${appliedPromo} can no longer be used`);
+      setAppliedPromo(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [promoQuoteError]);
 
   // Track toast IDs for cleanup
   const [pendingToastId, setPendingToastId] = useState<string | null>(null);
@@ -144,6 +308,8 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
     : null;
   const subIsActive = subscriptionArray ? subscriptionArray[0] : false;
   const subHasAccess = subscriptionArray && subscriptionArray.length > 3 ? subscriptionArray[3] : false;
+  const subTierId = subscriptionArray && subscriptionArray.length > 4 ? Number(subscriptionArray[4]) : 0;
+  const isTierChange = subHasAccess && subTierId !== selectedTierId;
 
   if (!isActive) {
     return (
@@ -174,12 +340,22 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
 
     setIsProcessing(true);
     try {
+      if (needsApproval) {
+        writeApproval({
+          address: paymentToken.address,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [contractInfo.address as `0x${string}`, price],
+        });
+        return;
+      }
+
       writeContract({
         address: contractInfo.address as `0x${string}`,
         abi: contractInfo.abi,
         functionName: "subscribe",
-        args: [creatorAddress as `0x${string}`],
-        value: monthlyPrice,
+        args: [creatorAddress as `0x${string}`, BigInt(selectedTierId), BigInt(periods), appliedPromo ?? ""],
+        value: paymentToken.isNative ? price : undefined,
       });
     } catch (error) {
       console.error("Subscription failed:", error);
@@ -189,6 +365,74 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
     }
   };
 
+  const handleApplyPromo = async () => {
+    if (!promoInput.trim()) return;
+
+    setIsCheckingPromo(true);
+    try {
+      const result = await cryptletter.validatePromoCode(creatorAddress, promoInput, tierId, periods);
+      if (!result.valid) {
+        notification.error(result.reason ?? "Invalid promo code");
+        return;
+      }
+      setAppliedPromo(normalizePromoCode(promoInput));
+      setPromoInput("");
+    } catch (error) {
+      console.error("Promo code check failed:", error);
+      notification.error("Failed to check promo code");
+    } finally {
+      setIsCheckingPromo(false);
+    }
+  };
+
+  const handleGift = async () => {
+    if (!userAddress) {
+      notification.error("Please connect your wallet");
+      return;
+    }
+    if (!isValidRecipient) {
+      notification.error("Enter a valid recipient address");
+      return;
+    }
+    if (recipient.toLowerCase() === userAddress.toLowerCase()) {
+      notification.error("Use Subscribe to pay for your own subscription");
+      return;
+    }
+
+    setIsProcessing(true);
+    const loadingToast = notification.loading("Sending gift...");
+    try {
+      await cryptletter.giftSubscription(creatorAddress, recipient, price, periods, giftNote.trim() || undefined);
+      notification.remove(loadingToast);
+      setGiftSent(true);
+    } catch (error) {
+      console.error("Gift failed:", error);
+      notification.remove(loadingToast);
+      notification.error(error instanceof Error ? error.message : "Failed to send gift");
+    } finally {
+      setIsProcessing(false);
+    }
+  };
+
+  if (giftSent) {
+    return (
+      <div className="card bg-success text-success-content shadow-xl">
+        <div className="card-body text-center">
+          <div className="text-6xl mb-4">🎁</div>
+          <h2 className="card-title justify-center text-2xl">Gift Sent!</h2>
+          <p className="flex items-center justify-center gap-2">
+            <Address address={recipient} size="sm" /> now has {durationDays} days of {name}
+          </p>
+          <div className="card-actions justify-center mt-4">
+            <Link href={`/creator/${creatorAddress}`}>
+              <button className="btn btn-primary">Back to {name}</button>
+            </Link>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   if (isConfirmed) {
     return (
       <div className="card bg-success text-success-content shadow-xl">
@@ -212,7 +456,27 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
   return (
     <div className="card bg-base-200 shadow-xl">
       <div className="card-body">
-        <h2 className="card-title text-3xl mb-4">Subscribe to {name}</h2>
+        <div className="flex items-center justify-between gap-4 mb-4">
+          <h2 className="card-title text-3xl">
+            {isGift ? "Gift" : "Subscribe to"} {name}
+          </h2>
+          <div className="join">
+            <button
+              type="button"
+              className={`join-item btn btn-sm ${!isGift ? "btn-primary" : "btn-outline"}`}
+              onClick={() => setIsGift(false)}
+            >
+              For me
+            </button>
+            <button
+              type="button"
+              className={`join-item btn btn-sm ${isGift ? "btn-primary" : "btn-outline"}`}
+              onClick={() => setIsGift(true)}
+            >
+              🎁 Gift
+            </button>
+          </div>
+        </div>
 
         <div className="mb-6">
           <div className="flex items-center gap-2 mb-2">
@@ -224,22 +488,154 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
         <div className="divider"></div>
 
         <div className="space-y-4">
+          {isGift && (
+            <div className="space-y-2">
+              <span className="font-semibold">Recipient</span>
+              <input
+                type="text"
+                placeholder="0x..."
+                className={`input input-bordered w-full font-mono ${recipient && !isValidRecipient ? "input-error" : ""}`}
+                value={recipient}
+                onChange={e => setRecipient(e.target.value.trim())}
+              />
+              <textarea
+                placeholder="Add a private note (optional, only the recipient can read it)"
+                className="textarea textarea-bordered w-full"
+                rows={2}
+                maxLength={500}
+                value={giftNote}
+                onChange={e => setGiftNote(e.target.value)}
+              />
+              <p className="text-xs opacity-70">
+                Gifts extend the recipient&apos;s current plan, or start them on{" "}
+                {selectedTier?.name ?? "the default plan"} if they don&apos;t have one.
+              </p>
+            </div>
+          )}
+
+          {!isGift && tiers.length > 1 && (
+            <div className="space-y-2">
+              <span className="font-semibold">Choose a plan</span>
+              {tiers.map(tier => (
+                <label
+                  key={tier.tierId}
+                  className={`flex items-center justify-between gap-4 p-4 rounded-lg border cursor-pointer ${
+                    tier.tierId === selectedTierId ? "border-primary bg-base-100" : "border-base-300"
+                  }`}
+                >
+                  <div className="flex items-center gap-3">
+                    <input
+                      type="radio"
+                      name="subscription-tier"
+                      className="radio radio-primary"
+                      checked={tier.tierId === selectedTierId}
+                      onChange={() => setSelectedTierId(tier.tierId)}
+                    />
+                    <div>
+                      <div className="font-semibold">{tier.name}</div>
+                      <div className="text-xs opacity-70">
+                        {Math.round(Number(tier.duration) / SECONDS_PER_DAY)} days
+                        {subHasAccess && tier.tierId === subTierId && " · Current plan"}
+                      </div>
+                    </div>
+                  </div>
+                  <span className="font-bold">
+                    {paymentToken.format(tier.price)} {paymentToken.symbol}
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <span className="font-semibold">Billing term</span>
+            <div className="join w-full">
+              {PERIOD_OPTIONS.map(option => (
+                <button
+                  key={option}
+                  type="button"
+                  className={`join-item btn btn-sm flex-1 ${option === periods ? "btn-primary" : "btn-outline"}`}
+                  onClick={() => setPeriods(option)}
+                >
+                  {option} {option === 1 ? "period" : "periods"}
+                  {discountBps(option) > 0 && (
+                    <span className="badge badge-success badge-xs">-{discountBps(option) / 100}%</span>
+                  )}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {!isGift && (
+            <div className="space-y-2">
+              <span className="font-semibold">Promo code</span>
+              {appliedPromo ? (
+                <div className="flex items-center justify-between gap-4 p-3 rounded-lg bg-base-100">
+                  <span>
+                    <span className="badge badge-success mr-2">{appliedPromo}</span>
+                    {promoPrice !== undefined && (
+                      <span className="text-sm opacity-70">
+                        You save {paymentToken.format(basePrice - promoPrice)} {paymentToken.symbol}
+                      </span>
+                    )}
+                  </span>
+                  <button type="button" className="btn btn-ghost btn-xs" onClick={() => setAppliedPromo(null)}>
+                    Remove
+                  </button>
+                </div>
+              ) : (
+                <div className="join w-full">
+                  <input
+                    type="text"
+                    placeholder="Enter a code"
+                    className="input input-bordered input-sm join-item flex-1 uppercase"
+                    value={promoInput}
+                    onChange={e => setPromoInput(e.target.value)}
+                    onKeyDown={e => e.key === "Enter" && handleApplyPromo()}
+                  />
+                  <button
+                    type="button"
+                    className="btn btn-sm btn-outline join-item"
+                    onClick={handleApplyPromo}
+                    disabled={!promoInput.trim() || isCheckingPromo}
+                  >
+                    {isCheckingPromo ? <span className="loading loading-spinner loading-xs"></span> : "Apply"}
+                  </button>
+                </div>
+              )}
+            </div>
+          )}
+
           <div className="flex justify-between items-center">
-            <span className="font-semibold">Monthly Subscription</span>
-            <span className="text-2xl font-bold">{formatEther(monthlyPrice)} ETH</span>
+            <span className="font-semibold">{selectedTier?.name ?? "Monthly"} Subscription</span>
+            <span className="text-2xl font-bold">
+              {price < fullPrice && (
+                <span className="text-base line-through opacity-50 mr-2">{paymentToken.format(fullPrice)}</span>
+              )}
+              {paymentToken.format(price)} {paymentToken.symbol}
+            </span>
           </div>
 
           <div className="flex justify-between items-center text-sm opacity-70">
             <span>Duration</span>
-            <span>30 days</span>
+            <span>{durationDays} days</span>
           </div>
 
+          {!paymentToken.isNative && (
+            <div className="flex justify-between items-center text-sm opacity-70">
+              <span>Paid in</span>
+              <span>
+                {paymentToken.symbol} ({needsApproval ? "approval required" : "approved"})
+              </span>
+            </div>
+          )}
+
           <div className="flex justify-between items-center text-sm opacity-70">
             <span>Current Subscribers</span>
             <span>{Number(subscriberCount)} subscribers</span>
           </div>
 
-          {subHasAccess && (
+          {!isGift && subHasAccess && (
             <div className="alert alert-info">
               <svg
                 xmlns="http://www.w3.org/2000/svg"
@@ -255,9 +651,11 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
                 ></path>
               </svg>
               <span className="text-sm">
-                {subIsActive
-                  ? "You already have an active subscription. This will extend your access by 30 days."
-                  : "You have a cancelled subscription that's still valid. This will reactivate and extend your access by 30 days."}
+                {isTierChange
+                  ? `Switching plans starts a new ${durationDays}-day period from today. Time left on your current plan is not carried over.`
+                  : subIsActive
+                    ? `You already have an active subscription. This will extend your access by ${durationDays} days.`
+                    : `You have a cancelled subscription that's still valid. This will reactivate and extend your access by ${durationDays} days.`}
               </span>
             </div>
           )}
@@ -271,16 +669,28 @@ export function SubscribeCheckout({ creatorAddress }: SubscribeCheckoutProps) {
           </Link>
           <button
             className="btn btn-primary"
-            onClick={handleSubscribe}
-            disabled={!userAddress || isPending || isConfirming || isProcessing}
+            onClick={isGift ? handleGift : handleSubscribe}
+            disabled={
+              !userAddress ||
+              isPending ||
+              isConfirming ||
+              isProcessing ||
+              isApprovalPending ||
+              isApprovalConfirming ||
+              (isGift && !isValidRecipient)
+            }
           >
-            {isPending || isConfirming ? (
+            {isPending || isConfirming || isProcessing || isApprovalPending || isApprovalConfirming ? (
               <>
                 <span className="loading loading-spinner"></span>
                 Processing...
               </>
+            ) : isGift ? (
+              `Gift for ${paymentToken.format(price)} ${paymentToken.symbol}`
+            ) : needsApproval ? (
+              `Approve ${paymentToken.format(price)} ${paymentToken.symbol}`
             ) : (
-              `Subscribe for ${formatEther(monthlyPrice)} ETH`
+              `Subscribe for ${paymentToken.format(price)} ${paymentToken.symbol}`
             )}
           </button>
         </div>
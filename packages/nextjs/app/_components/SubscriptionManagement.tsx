@@ -4,7 +4,10 @@ import { useEffect, useState } from "react";
 import Link from "next/link";
 import { SubscriptionStatus } from "../../components/cryptletter/SubscriptionStatus";
 import { useDeployedContractInfo } from "../../hooks/helper";
+import { useEthersProvider } from "../../hooks/helper/useEthersProvider";
 import type { AllowedChainIds } from "../../utils/helper/networks";
+import { useSubscriptions } from "@fhevm-sdk/react";
+import { zeroAddress } from "viem";
 import { useAccount, useReadContract } from "wagmi";
 
 interface SubscriptionInfo {
@@ -14,73 +17,32 @@ interface SubscriptionInfo {
   expiresAt: bigint;
   subscribedAt: bigint;
   monthlyPrice: bigint;
+  giftedBy?: string;
 }
 
 export function SubscriptionManagement() {
   const { address: userAddress, chain } = useAccount();
   const chainId = chain?.id as AllowedChainIds | undefined;
-  const [subscriptions, setSubscriptions] = useState<any[]>([]);
+  const provider = useEthersProvider();
   const [activeSubscriptions, setActiveSubscriptions] = useState<SubscriptionInfo[]>([]);
   const [expiringSubscriptions, setExpiringSubscriptions] = useState<SubscriptionInfo[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
 
   const { data: contractInfo } = useDeployedContractInfo({
     contractName: "Cryptletter",
     chainId,
   });
 
-  // Get all creators
-  const { data: creatorCount } = useReadContract({
-    address: contractInfo?.address as `0x${string}` | undefined,
-    abi: contractInfo?.abi,
-    functionName: "getCreatorCount",
-    query: {
-      enabled: Boolean(contractInfo?.address),
-    },
-  });
-
-  const { data: creatorAddresses } = useReadContract({
-    address: contractInfo?.address as `0x${string}` | undefined,
-    abi: contractInfo?.abi,
-    functionName: "getCreators",
-    args: [BigInt(0), BigInt(100)], // Get up to 100 creators
-    query: {
-      enabled: Boolean(contractInfo?.address && creatorCount),
-    },
+  // Tracks every creator the user has subscribed to (paid, trial or comp), found from contract events
+  const { subscriptions, isLoading } = useSubscriptions({
+    contractAddress: contractInfo?.address || "",
+    contractABI: (contractInfo?.abi as any) || [],
+    ipfsJWT: process.env.NEXT_PUBLIC_PINATA_JWT || "",
+    provider: provider as any,
+    subscriberAddress: userAddress,
   });
+  const creatorAddresses = Array.from(subscriptions.keys());
 
-  // Fetch subscriptions for user
-  useEffect(() => {
-    if (!creatorAddresses || !contractInfo?.address || !userAddress) return;
-
-    const fetchSubscriptions = async () => {
-      setIsLoading(true);
-      try {
-        const addresses = creatorAddresses as string[];
-        const subs: any[] = [];
-
-        // Check subscription status for each creator
-        // In production, you'd want to index this off-chain
-        for (const creatorAddr of addresses) {
-          try {
-            // This would need to be done with proper contract reads
-            // For now, we'll add all creators and let the component handle it
-            subs.push({ creatorAddress: creatorAddr });
-          } catch (error) {
-            console.error(`Error checking subscription for ${creatorAddr}:`, error);
-          }
-        }
-
-        setSubscriptions(subs);
-      } catch (error) {
-        console.error("Error fetching subscriptions:", error);
-      } finally {
-        setIsLoading(false);
-      }
-    };
-
-    fetchSubscriptions();
-  }, [creatorAddresses, contractInfo?.address, userAddress]);
+  const giftedCount = activeSubscriptions.filter(sub => sub.giftedBy && sub.giftedBy !== zeroAddress).length;
 
   if (!userAddress) {
     return (
@@ -111,7 +73,7 @@ export function SubscriptionManagement() {
     );
   }
 
-  if (subscriptions.length === 0) {
+  if (creatorAddresses.length === 0) {
     return (
       <div className="text-center py-12 card bg-base-200">
         <div className="card-body">
@@ -129,7 +91,7 @@ export function SubscriptionManagement() {
   return (
     <div className="space-y-6">
       {/* Show empty state if no subscriptions are being displayed */}
-      {!isLoading && subscriptions.length > 0 && activeSubscriptions.length === 0 && (
+      {!isLoading && creatorAddresses.length > 0 && activeSubscriptions.length === 0 && (
         <div className="text-center py-12 card bg-base-200">
           <div className="card-body">
             <div className="text-6xl mb-4">📭</div>
@@ -197,14 +159,22 @@ export function SubscriptionManagement() {
               {expiringSubscriptions.length > 0 && `${expiringSubscriptions.length} expiring soon`}
             </div>
           </div>
+          {giftedCount > 0 && (
+            <div className="stat">
+              <div className="stat-figure text-secondary text-3xl">🎁</div>
+              <div className="stat-title">Gifted to You</div>
+              <div className="stat-value text-secondary">{giftedCount}</div>
+              <div className="stat-desc">Paid for by someone else</div>
+            </div>
+          )}
         </div>
       )}
 
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-        {subscriptions.map(sub => (
+        {creatorAddresses.map(creatorAddress => (
           <SubscriptionStatusWrapper
-            key={sub.creatorAddress}
-            creatorAddress={sub.creatorAddress}
+            key={creatorAddress}
+            creatorAddress={creatorAddress}
             userAddress={userAddress}
             contractInfo={contractInfo}
             onSubscriptionLoad={info => {
@@ -276,6 +246,7 @@ function SubscriptionStatusWrapper({
     : null;
   const name = creatorArray ? (creatorArray[0] as string) : "";
   const monthlyPrice = creatorArray ? (creatorArray[2] as bigint) : BigInt(0);
+  const paymentToken = creatorArray && creatorArray.length > 5 ? (creatorArray[5] as string) : undefined;
 
   const subscriptionArray = subscriptionData
     ? Array.isArray(subscriptionData)
@@ -286,6 +257,23 @@ function SubscriptionStatusWrapper({
   const expiresAt = subscriptionArray ? (subscriptionArray[1] as bigint) : BigInt(0);
   const subscribedAt = subscriptionArray ? (subscriptionArray[2] as bigint) : BigInt(0);
   const hasAccess = subscriptionArray && subscriptionArray.length > 3 ? (subscriptionArray[3] as boolean) : false;
+  const tierId = subscriptionArray && subscriptionArray.length > 4 ? (subscriptionArray[4] as bigint) : BigInt(0);
+  const creditedTime = subscriptionArray && subscriptionArray.length > 5 ? (subscriptionArray[5] as bigint) : BigInt(0);
+  const giftedBy = subscriptionArray && subscriptionArray.length > 6 ? (subscriptionArray[6] as string) : undefined;
+  const isTrial = subscriptionArray && subscriptionArray.length > 7 ? (subscriptionArray[7] as boolean) : false;
+
+  // Renewals are charged at the price of the subscriber's current tier
+  const { data: tierData } = useReadContract({
+    address: contractInfo?.address as `0x${string}`,
+    abi: contractInfo?.abi,
+    functionName: "getTier",
+    args: [creatorAddress as `0x${string}`, tierId],
+    query: {
+      enabled: Boolean(contractInfo?.address && creatorAddress && subscriptionData),
+    },
+  });
+  const tier = tierData as { name: string; price: bigint } | undefined;
+  const renewalPrice = tier?.price ?? monthlyPrice;
 
   // Notify parent component about this subscription (must be before any returns)
   useEffect(() => {
@@ -299,7 +287,8 @@ function SubscriptionStatusWrapper({
         isActive,
         expiresAt,
         subscribedAt,
-        monthlyPrice,
+        monthlyPrice: renewalPrice,
+        giftedBy,
       });
     }
   }, [
@@ -310,7 +299,8 @@ function SubscriptionStatusWrapper({
     name,
     expiresAt,
     subscribedAt,
-    monthlyPrice,
+    renewalPrice,
+    giftedBy,
     creatorData,
     subscriptionData,
   ]);
@@ -328,7 +318,12 @@ function SubscriptionStatusWrapper({
       isActive={isActive}
       expiresAt={expiresAt}
       subscribedAt={subscribedAt}
-      monthlyPrice={monthlyPrice}
+      monthlyPrice={renewalPrice}
+      paymentToken={paymentToken}
+      tierName={tier?.name}
+      creditedTime={creditedTime}
+      giftedBy={giftedBy}
+      isTrial={isTrial}
     />
   );
 }
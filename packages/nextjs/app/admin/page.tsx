@@ -0,0 +1,12 @@
+"use client";
+
+import { PlatformAdminView } from "../_components/PlatformAdminView";
+import { PageContainer } from "~~/components/layouts/PageContainer";
+
+export default function AdminPage() {
+  return (
+    <PageContainer maxWidth="lg">
+      <PlatformAdminView />
+    </PageContainer>
+  );
+}
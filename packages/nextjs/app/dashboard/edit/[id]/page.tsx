@@ -0,0 +1,17 @@
+"use client";
+
+import { useParams } from "next/navigation";
+import { PublishEditor } from "../../../_components/PublishEditor";
+
+export default function EditPage() {
+  const params = useParams();
+  const postId = Number(params.id);
+
+  return (
+    <div className="flex flex-col gap-8 w-full px-3 md:px-8 py-8">
+      <div className="max-w-4xl mx-auto w-full">
+        <PublishEditor editPostId={postId} />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+"use client";
+
+import { RedeemVoucherView } from "../_components/RedeemVoucherView";
+import { PageContainer } from "~~/components/layouts/PageContainer";
+
+export default function RedeemPage() {
+  return (
+    <PageContainer maxWidth="md">
+      <RedeemVoucherView />
+    </PageContainer>
+  );
+}
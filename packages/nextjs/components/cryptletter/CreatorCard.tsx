@@ -1,7 +1,7 @@
 "use client";
 
 import Link from "next/link";
-import { formatEther } from "viem";
+import { TokenAmount } from "./TokenAmount";
 
 interface CreatorCardProps {
   address: string;
@@ -9,9 +9,10 @@ interface CreatorCardProps {
   bio: string;
   monthlyPrice: bigint;
   subscriberCount: bigint;
+  paymentToken?: string;
 }
 
-export function CreatorCard({ address, name, bio, monthlyPrice, subscriberCount }: CreatorCardProps) {
+export function CreatorCard({ address, name, bio, monthlyPrice, subscriberCount, paymentToken }: CreatorCardProps) {
   return (
     <Link href={`/creator/${address}`} className="group h-full">
       <div className="card bg-base-100 border border-base-300 hover:border-primary hover:shadow-2xl transition-all duration-300 cursor-pointer h-full group-hover:-translate-y-1">
@@ -58,7 +59,9 @@ export function CreatorCard({ address, name, bio, monthlyPrice, subscriberCount
                   clipRule="evenodd"
                 />
               </svg>
-              <span className="font-semibold">{formatEther(monthlyPrice)} ETH</span>
+              <span className="font-semibold">
+                <TokenAmount amount={monthlyPrice} token={paymentToken} />
+              </span>
               <span className="text-xs opacity-60">/mo</span>
             </div>
             <button className="btn btn-ghost btn-sm gap-1 group-hover:btn-primary transition-all">
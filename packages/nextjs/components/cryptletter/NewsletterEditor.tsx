@@ -57,7 +57,11 @@ export function NewsletterEditor({ initialContent, onChange, disabled = false }:
           <span className="label-text font-semibold">Content</span>
           <span className="label-text-alt opacity-60">Rich text editor with image support</span>
         </label>
-        <TiptapEditor content={contentHtml} onChange={handleContentChange} disabled={disabled} />
+        <TiptapEditor
+          content={initialContent?.contentJson || contentHtml}
+          onChange={handleContentChange}
+          disabled={disabled}
+        />
       </div>
     </div>
   );
@@ -12,6 +12,7 @@ interface NewsletterPreviewProps {
   publishedAt: bigint;
   isPublic: boolean;
   hasAccess?: boolean;
+  availableAt?: bigint;
 }
 
 export function NewsletterPreview({
@@ -23,9 +24,12 @@ export function NewsletterPreview({
   publishedAt,
   isPublic,
   hasAccess = false,
+  availableAt,
 }: NewsletterPreviewProps) {
   const timestamp = Number(publishedAt) * 1000;
   const timeAgo = formatDistanceToNow(timestamp, { addSuffix: true });
+  const releaseTimestamp = Number(availableAt ?? publishedAt) * 1000;
+  const isScheduled = releaseTimestamp > Date.now();
 
   // Format preview to highlight [Image] placeholders
   const formatPreview = (text: string) => {
@@ -59,6 +63,7 @@ export function NewsletterPreview({
           <div className="flex items-start justify-between gap-2 mb-2">
             <h3 className="card-title text-lg flex-1">{title}</h3>
             <div className="flex gap-2">
+              {isScheduled && <div className="badge badge-accent">Scheduled</div>}
               {isPublic && <div className="badge badge-success">Free</div>}
               {!isPublic && hasAccess && <div className="badge badge-info">Unlocked</div>}
               {!isPublic && !hasAccess && <div className="badge badge-warning">Premium</div>}
@@ -66,7 +71,8 @@ export function NewsletterPreview({
           </div>
 
           <div className="text-sm opacity-70 mb-2">
-            by {creatorName} • {timeAgo}
+            by {creatorName} •{" "}
+            {isScheduled ? `releases ${formatDistanceToNow(releaseTimestamp, { addSuffix: true })}` : timeAgo}
           </div>
 
           <p className="text-sm opacity-80 line-clamp-3">{formatPreview(preview)}</p>
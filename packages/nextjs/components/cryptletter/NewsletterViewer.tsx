@@ -1,7 +1,7 @@
 "use client";
 
 import { useEffect, useState } from "react";
-import { createIPFSClient, decryptImage } from "@fhevm-sdk";
+import { type EncryptionContext, createIPFSClient, decryptImageStream } from "@fhevm-sdk";
 import DOMPurify from "isomorphic-dompurify";
 
 /**
@@ -9,19 +9,23 @@ import DOMPurify from "isomorphic-dompurify";
  *
  * Renders Tiptap HTML content with proper styling
  * Supports both preview mode (base64 images) and published mode (IPFS images)
- * Handles encrypted image decryption automatically
+ * Handles encrypted image decryption automatically: the text shows right away and each image
+ * is decrypted chunk by chunk as it downloads, then swapped in as soon as it's done
  */
 
 interface NewsletterViewerProps {
   content: string; // Tiptap HTML output
   aesKey?: Uint8Array; // AES key for decrypting encrypted images (optional)
+  context?: EncryptionContext; // Post the encrypted images must belong to, from on-chain data (needed with aesKey)
 }
 
-export function NewsletterViewer({ content, aesKey }: NewsletterViewerProps) {
+export function NewsletterViewer({ content, aesKey, context }: NewsletterViewerProps) {
   const [processedContent, setProcessedContent] = useState(content);
   const [isProcessing, setIsProcessing] = useState(false);
 
   useEffect(() => {
+    let cancelled = false;
+
     // Process encrypted images if AES key is provided
     const processEncryptedImages = async () => {
       // First, clean up any HTML-like text that appears as literal text in the content
@@ -81,13 +85,11 @@ export function NewsletterViewer({ content, aesKey }: NewsletterViewerProps) {
       });
 
       // Check if content has encrypted images
-      if (!sanitizedContent.includes('data-encrypted="true"') || !aesKey) {
+      if (!sanitizedContent.includes('data-encrypted="true"') || !aesKey || !context) {
         setProcessedContent(sanitizedContent);
         return;
       }
 
-      setIsProcessing(true);
-
       try {
         const parser = new DOMParser();
         const doc = parser.parseFromString(sanitizedContent, "text/html");
@@ -95,7 +97,6 @@ export function NewsletterViewer({ content, aesKey }: NewsletterViewerProps) {
 
         if (encryptedImages.length === 0) {
           setProcessedContent(sanitizedContent);
-          setIsProcessing(false);
           return;
         }
 
@@ -108,118 +109,137 @@ export function NewsletterViewer({ content, aesKey }: NewsletterViewerProps) {
         if (!pinataJwt) {
           console.warn("IPFS JWT not configured, encrypted images will not be decrypted");
           setProcessedContent(sanitizedContent);
-          setIsProcessing(false);
           return;
         }
 
         const ipfsClient = createIPFSClient({ jwt: pinataJwt, gateway: ipfsGateway });
 
+        // Show the text straight away; encrypted images stay empty until they're decrypted
+        for (const img of Array.from(encryptedImages)) {
+          img.removeAttribute("src");
+        }
+        const showDocument = () => {
+          if (!cancelled) setProcessedContent(sanitizeProcessed(doc.body.innerHTML));
+        };
+        showDocument();
+        setIsProcessing(true);
+
         // Decrypt each image
         for (const img of Array.from(encryptedImages)) {
+          if (cancelled) return;
+
           try {
             const imgElement = img as HTMLImageElement;
             const ipfsCid = imgElement.getAttribute("data-ipfs-cid");
 
             if (!ipfsCid) continue;
 
-            // Download encrypted image from IPFS
-            const encryptedData = await ipfsClient.downloadFromIPFS(ipfsCid);
-
-            // Decrypt image
-            const decryptedData = await decryptImage(encryptedData, aesKey);
+            // Download and decrypt the image chunk by chunk
+            const decryptedStream = await decryptImageStream(await ipfsClient.downloadStream(ipfsCid), aesKey, context);
+            const decrypted = await new Response(decryptedStream).blob();
 
             // Detect MIME type from first bytes
+            const magic = new Uint8Array(await decrypted.slice(0, 2).arrayBuffer());
             let mimeType = "image/jpeg"; // default
-            if (decryptedData[0] === 0x89 && decryptedData[1] === 0x50) {
+            if (magic[0] === 0x89 && magic[1] === 0x50) {
               mimeType = "image/png";
-            } else if (decryptedData[0] === 0xff && decryptedData[1] === 0xd8) {
+            } else if (magic[0] === 0xff && magic[1] === 0xd8) {
               mimeType = "image/jpeg";
-            } else if (decryptedData[0] === 0x47 && decryptedData[1] === 0x49) {
+            } else if (magic[0] === 0x47 && magic[1] === 0x49) {
               mimeType = "image/gif";
-            } else if (decryptedData[0] === 0x52 && decryptedData[1] === 0x49) {
+            } else if (magic[0] === 0x52 && magic[1] === 0x49) {
               mimeType = "image/webp";
             }
 
             // Convert to base64 data URL
-            const blob = new Blob([decryptedData], { type: mimeType });
+            const blob = new Blob([decrypted], { type: mimeType });
             const dataUrl = await new Promise<string>(resolve => {
               const reader = new FileReader();
               reader.onloadend = () => resolve(reader.result as string);
               reader.readAsDataURL(blob);
             });
 
-            // Replace image src with decrypted data URL
+            // Replace image src with decrypted data URL and show it
             imgElement.src = dataUrl;
             imgElement.removeAttribute("data-encrypted");
             imgElement.removeAttribute("data-ipfs-cid");
+            showDocument();
           } catch (error) {
             console.error("Failed to decrypt image:", error);
             // Leave the broken image
           }
         }
-
-        // Serialize back to HTML and sanitize again after processing
-        const finalContent = DOMPurify.sanitize(doc.body.innerHTML, {
-          ALLOWED_TAGS: [
-            "p",
-            "br",
-            "strong",
-            "em",
-            "u",
-            "s",
-            "h1",
-            "h2",
-            "h3",
-            "h4",
-            "h5",
-            "h6",
-            "ul",
-            "ol",
-            "li",
-            "blockquote",
-            "a",
-            "code",
-            "pre",
-            "img",
-            "span",
-            "div",
-          ],
-          ALLOWED_ATTR: ["href", "target", "rel", "src", "alt", "title", "class"],
-          ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|tel):|[^a-z]|[a-z+.\-]+(?:[^a-z+.\-:]|$))/i,
-          // Remove dangerous tags completely (including their content)
-          FORBID_TAGS: ["script", "style", "iframe", "object", "embed", "link", "meta", "title", "base"],
-          FORBID_ATTR: [
-            "onerror",
-            "onload",
-            "onclick",
-            "onmouseover",
-            "onmouseenter",
-            "onfocus",
-            "onblur",
-            "onsubmit",
-            "onchange",
-          ],
-        });
-        setProcessedContent(finalContent);
       } catch (error) {
         console.error("Failed to process encrypted images:", error);
-        setProcessedContent(sanitizedContent);
+        if (!cancelled) setProcessedContent(sanitizedContent);
       } finally {
-        setIsProcessing(false);
+        if (!cancelled) setIsProcessing(false);
       }
     };
 
     processEncryptedImages();
-  }, [content, aesKey]);
-
-  if (isProcessing) {
-    return (
-      <div className="flex items-center justify-center py-8 opacity-60">
-        <span className="loading loading-spinner loading-md mr-3"></span>
-        <span>Loading images...</span>
-      </div>
-    );
-  }
-
-  return <div className="newsletter-viewer-wrapper" dangerouslySetInnerHTML={{ __html: processedContent }} />;
+
+    return () => {
+      cancelled = true;
+    };
+  }, [content, aesKey, context]);
+
+  return (
+    <>
+      {isProcessing && (
+        <div className="flex items-center py-2 text-sm opacity-60">
+          <span className="loading loading-spinner loading-xs mr-2"></span>
+          <span>Decrypting images...</span>
+        </div>
+      )}
+      <div className="newsletter-viewer-wrapper" dangerouslySetInnerHTML={{ __html: processedContent }} />
+    </>
+  );
+}
+
+/**
+ * Sanitize the processed document again (decrypted images carry data URLs)
+ */
+function sanitizeProcessed(html: string): string {
+  return DOMPurify.sanitize(html, {
+    ALLOWED_TAGS: [
+      "p",
+      "br",
+      "strong",
+      "em",
+      "u",
+      "s",
+      "h1",
+      "h2",
+      "h3",
+      "h4",
+      "h5",
+      "h6",
+      "ul",
+      "ol",
+      "li",
+      "blockquote",
+      "a",
+      "code",
+      "pre",
+      "img",
+      "span",
+      "div",
+    ],
+    ALLOWED_ATTR: ["href", "target", "rel", "src", "alt", "title", "class"],
+    ALLOWED_URI_REGEXP: /^(?:(?:https?|mailto|tel):|[^a-z]|[a-z+.\-]+(?:[^a-z+.\-:]|$))/i,
+    // Remove dangerous tags completely (including their content)
+    FORBID_TAGS: ["script", "style", "iframe", "object", "embed", "link", "meta", "title", "base"],
+    FORBID_ATTR: [
+      "onerror",
+      "onload",
+      "onclick",
+      "onmouseover",
+      "onmouseenter",
+      "onfocus",
+      "onblur",
+      "onsubmit",
+      "onchange",
+    ],
+  });
 }
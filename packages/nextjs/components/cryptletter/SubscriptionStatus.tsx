@@ -1,12 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import Link from "next/link";
-import { useDeployedContractInfo } from "../../hooks/helper";
+import { useDeployedContractInfo, usePaymentToken } from "../../hooks/helper";
 import type { AllowedChainIds } from "../../utils/helper/networks";
-import { formatDistanceToNow } from "date-fns";
-import { formatEther } from "viem";
-import { useAccount, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
+import { Address } from "../helper";
+import { formatDistanceStrict, formatDistanceToNow } from "date-fns";
+import { erc20Abi, zeroAddress } from "viem";
+import { useAccount, useReadContract, useWaitForTransactionReceipt, useWriteContract } from "wagmi";
 
 interface SubscriptionStatusProps {
   creatorAddress: string;
@@ -15,6 +16,11 @@ interface SubscriptionStatusProps {
   expiresAt?: bigint;
   subscribedAt?: bigint;
   monthlyPrice?: bigint;
+  paymentToken?: string;
+  tierName?: string;
+  creditedTime?: bigint;
+  giftedBy?: string;
+  isTrial?: boolean;
   showActions?: boolean;
 }
 
@@ -25,9 +31,14 @@ export function SubscriptionStatus({
   expiresAt,
   subscribedAt,
   monthlyPrice = BigInt(0),
+  paymentToken,
+  tierName,
+  creditedTime = BigInt(0),
+  giftedBy,
+  isTrial = false,
   showActions = true,
 }: SubscriptionStatusProps) {
-  const { chain } = useAccount();
+  const { address: userAddress, chain } = useAccount();
   const chainId = chain?.id as AllowedChainIds | undefined;
   const [showRenewModal, setShowRenewModal] = useState(false);
   const [showCancelModal, setShowCancelModal] = useState(false);
@@ -42,6 +53,66 @@ export function SubscriptionStatus({
     hash,
   });
 
+  // Token-priced renewals are pulled with transferFrom and need an allowance first
+  const token = usePaymentToken(paymentToken);
+  const { data: allowanceData, refetch: refetchAllowance } = useReadContract({
+    address: token.address,
+    abi: erc20Abi,
+    functionName: "allowance",
+    args: [userAddress as `0x${string}`, contractInfo?.address as `0x${string}`],
+    query: {
+      enabled: Boolean(!token.isNative && userAddress && contractInfo?.address),
+    },
+  });
+  const needsApproval = !token.isNative && ((allowanceData as bigint | undefined) ?? BigInt(0)) < monthlyPrice;
+
+  const { writeContract: writeApproval, data: approvalHash, isPending: isApprovalPending } = useWriteContract();
+  const { isLoading: isApprovalConfirming, isSuccess: isApprovalConfirmed } = useWaitForTransactionReceipt({
+    hash: approvalHash,
+  });
+
+  useEffect(() => {
+    if (isApprovalConfirmed) refetchAllowance();
+  }, [isApprovalConfirmed, refetchAllowance]);
+
+  // Auto-renew: a keeper renews lapsed subscriptions from the escrow the subscriber pre-funds
+  const { data: autoRenewData, refetch: refetchAutoRenew } = useReadContract({
+    address: contractInfo?.address as `0x${string}`,
+    abi: contractInfo?.abi,
+    functionName: "autoRenew",
+    args: [userAddress as `0x${string}`, creatorAddress as `0x${string}`],
+    query: {
+      enabled: Boolean(userAddress && contractInfo?.address),
+    },
+  });
+  const { data: escrowData, refetch: refetchEscrow } = useReadContract({
+    address: contractInfo?.address as `0x${string}`,
+    abi: contractInfo?.abi,
+    functionName: "renewalEscrow",
+    args: [userAddress as `0x${string}`, creatorAddress as `0x${string}`, token.address],
+    query: {
+      enabled: Boolean(userAddress && contractInfo?.address),
+    },
+  });
+  const autoRenew = Boolean(autoRenewData);
+  const escrowBalance = (escrowData as bigint | undefined) ?? BigInt(0);
+  const renewalsFunded = monthlyPrice > 0 ? escrowBalance / monthlyPrice : BigInt(0);
+
+  const { writeContract: writeEscrow, data: escrowHash, isPending: isEscrowPending } = useWriteContract();
+  const { isLoading: isEscrowConfirming, isSuccess: isEscrowConfirmed } = useWaitForTransactionReceipt({
+    hash: escrowHash,
+  });
+
+  useEffect(() => {
+    if (!isEscrowConfirmed) return;
+    refetchAutoRenew();
+    refetchEscrow();
+    refetchAllowance();
+  }, [isEscrowConfirmed, refetchAutoRenew, refetchEscrow, refetchAllowance]);
+
+  const isBusy = isPending || isConfirming || isApprovalPending || isApprovalConfirming;
+  const isEscrowBusy = isEscrowPending || isEscrowConfirming || isApprovalPending || isApprovalConfirming;
+
   const now = Date.now();
   const expiryTimestamp = expiresAt ? Number(expiresAt) * 1000 : 0;
   const isExpired = expiryTimestamp > 0 && expiryTimestamp < now;
@@ -65,12 +136,22 @@ export function SubscriptionStatus({
     if (!contractInfo?.address) return;
 
     try {
+      if (needsApproval) {
+        writeApproval({
+          address: token.address,
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [contractInfo.address as `0x${string}`, monthlyPrice],
+        });
+        return;
+      }
+
       writeContract({
         address: contractInfo.address as `0x${string}`,
         abi: contractInfo.abi,
         functionName: "renewSubscription",
         args: [creatorAddress as `0x${string}`],
-        value: monthlyPrice,
+        value: token.isNative ? monthlyPrice : undefined,
       });
     } catch (error) {
       console.error("Renew failed:", error);
@@ -92,6 +173,51 @@ export function SubscriptionStatus({
     }
   };
 
+  const handleToggleAutoRenew = (enabled: boolean) => {
+    if (!contractInfo?.address) return;
+
+    writeEscrow({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "setAutoRenew",
+      args: [creatorAddress as `0x${string}`, enabled],
+    });
+  };
+
+  // Deposits one period's price; tokens are pulled with transferFrom like renewals
+  const handleFundEscrow = () => {
+    if (!contractInfo?.address) return;
+
+    if (needsApproval) {
+      writeApproval({
+        address: token.address,
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [contractInfo.address as `0x${string}`, monthlyPrice],
+      });
+      return;
+    }
+
+    writeEscrow({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "fundRenewalEscrow",
+      args: [creatorAddress as `0x${string}`, monthlyPrice],
+      value: token.isNative ? monthlyPrice : undefined,
+    });
+  };
+
+  const handleWithdrawEscrow = () => {
+    if (!contractInfo?.address) return;
+
+    writeEscrow({
+      address: contractInfo.address as `0x${string}`,
+      abi: contractInfo.abi,
+      functionName: "withdrawRenewalEscrow",
+      args: [creatorAddress as `0x${string}`, token.address],
+    });
+  };
+
   // Close modals and refresh when transaction is confirmed
   if (isConfirmed && (showRenewModal || showCancelModal)) {
     setShowRenewModal(false);
@@ -116,6 +242,8 @@ export function SubscriptionStatus({
             >
               {isActive && !isExpired ? "Active" : !isActive && !isExpired ? "Cancelled" : "Inactive"}
             </div>
+            {giftedBy && giftedBy !== zeroAddress && <div className="badge badge-secondary badge-sm">🎁 Gift</div>}
+            {isTrial && <div className="badge badge-info badge-sm">Trial</div>}
             {isExpiringSoon && (
               <div className="badge badge-warning badge-sm">
                 {daysRemaining} {daysRemaining === 1 ? "day" : "days"} left
@@ -145,7 +273,7 @@ export function SubscriptionStatus({
               </div>
             )}
             <div className="text-sm">
-              <span className="opacity-80">Expires: </span>
+              <span className="opacity-80">{isTrial ? "Free trial ends: " : "Expires: "}</span>
               <span className={`font-medium ${isExpired ? "text-error" : ""}`}>{timeUntilExpiry}</span>
             </div>
             {subscribedAt && (
@@ -153,7 +281,60 @@ export function SubscriptionStatus({
                 Subscribed: {formatDistanceToNow(Number(subscribedAt) * 1000, { addSuffix: true })}
               </div>
             )}
-            {monthlyPrice > 0 && <div className="text-sm opacity-80">Price: {formatEther(monthlyPrice)} ETH/month</div>}
+            {tierName && <div className="text-sm opacity-80">Plan: {tierName}</div>}
+            {giftedBy && giftedBy !== zeroAddress && (
+              <div className="text-sm opacity-80 flex items-center gap-1">
+                Gifted by <Address address={giftedBy} size="xs" />
+              </div>
+            )}
+            {creditedTime > 0 && (
+              <div className="text-sm opacity-80">
+                Includes {formatDistanceStrict(0, Number(creditedTime) * 1000)} credited from overpayment
+              </div>
+            )}
+            {monthlyPrice > 0 && (
+              <div className="text-sm opacity-80">
+                Price: {token.format(monthlyPrice)} {token.symbol}/month
+              </div>
+            )}
+          </div>
+        )}
+
+        {showActions && isActive && monthlyPrice > 0 && (
+          <div className="mt-4 rounded-lg bg-base-100 text-base-content p-3 space-y-2">
+            <label className="label cursor-pointer p-0">
+              <span className="label-text font-medium">Auto-renew</span>
+              <input
+                type="checkbox"
+                className="toggle toggle-sm toggle-primary"
+                checked={autoRenew}
+                onChange={e => handleToggleAutoRenew(e.target.checked)}
+                disabled={isEscrowBusy}
+              />
+            </label>
+            <div className="text-sm opacity-80">
+              Escrow: {token.format(escrowBalance)} {token.symbol} ({renewalsFunded.toString()}{" "}
+              {renewalsFunded === BigInt(1) ? "renewal" : "renewals"} funded)
+            </div>
+            {autoRenew && escrowBalance < monthlyPrice && (
+              <div className="text-xs text-warning">Add funds to the escrow or this subscription won&apos;t renew.</div>
+            )}
+            <div className="flex justify-end gap-2">
+              {escrowBalance > 0 && (
+                <button className="btn btn-xs btn-ghost" onClick={handleWithdrawEscrow} disabled={isEscrowBusy}>
+                  Withdraw
+                </button>
+              )}
+              <button className="btn btn-xs btn-outline" onClick={handleFundEscrow} disabled={isEscrowBusy}>
+                {isEscrowBusy ? (
+                  <span className="loading loading-spinner loading-xs"></span>
+                ) : needsApproval ? (
+                  `Approve ${token.format(monthlyPrice)} ${token.symbol}`
+                ) : (
+                  `Add ${token.format(monthlyPrice)} ${token.symbol}`
+                )}
+              </button>
+            </div>
           </div>
         )}
 
@@ -171,7 +352,7 @@ export function SubscriptionStatus({
                       onClick={() => setShowRenewModal(true)}
                       disabled={isPending || isConfirming}
                     >
-                      Renew
+                      {isTrial ? "Subscribe" : "Renew"}
                     </button>
                     <button
                       className="btn btn-sm btn-ghost btn-error"
@@ -218,7 +399,9 @@ export function SubscriptionStatus({
               ></path>
             </svg>
             <div>
-              <div className="text-sm">Price: {formatEther(monthlyPrice)} ETH</div>
+              <div className="text-sm">
+                Price: {token.format(monthlyPrice)} {token.symbol}
+              </div>
               <div className="text-sm">Your subscription will be extended by 30 days</div>
             </div>
           </div>
@@ -245,18 +428,16 @@ export function SubscriptionStatus({
             >
               Close
             </button>
-            <button
-              className="btn btn-primary"
-              onClick={handleRenew}
-              disabled={isPending || isConfirming || isConfirmed}
-            >
-              {isPending || isConfirming ? (
+            <button className="btn btn-primary" onClick={handleRenew} disabled={isBusy || isConfirmed}>
+              {isBusy ? (
                 <>
                   <span className="loading loading-spinner"></span>
                   Processing...
                 </>
+              ) : needsApproval ? (
+                `Approve ${token.format(monthlyPrice)} ${token.symbol}`
               ) : (
-                `Renew for ${formatEther(monthlyPrice)} ETH`
+                `Renew for ${token.format(monthlyPrice)} ${token.symbol}`
               )}
             </button>
           </div>
@@ -3,12 +3,12 @@
 import { useCallback, useEffect } from "react";
 import Image from "@tiptap/extension-image";
 import Link from "@tiptap/extension-link";
-import { EditorContent, useEditor } from "@tiptap/react";
+import { EditorContent, type JSONContent, useEditor } from "@tiptap/react";
 import StarterKit from "@tiptap/starter-kit";
 import DOMPurify from "isomorphic-dompurify";
 
 export interface TiptapEditorProps {
-  content: string;
+  content: string | JSONContent; // HTML, or Tiptap JSON when re-opening a saved post
   onChange: (html: string, json: any) => void;
   disabled?: boolean;
 }
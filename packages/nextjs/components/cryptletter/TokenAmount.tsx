@@ -0,0 +1,21 @@
+"use client";
+
+import { usePaymentToken } from "../../hooks/helper";
+
+interface TokenAmountProps {
+  amount: bigint;
+  token?: string;
+}
+
+/**
+ * Formats an amount in the creator's payment currency (ETH when no token is set)
+ */
+export function TokenAmount({ amount, token }: TokenAmountProps) {
+  const paymentToken = usePaymentToken(token);
+
+  return (
+    <>
+      {paymentToken.format(amount)} {paymentToken.symbol}
+    </>
+  );
+}
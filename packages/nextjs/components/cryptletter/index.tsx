@@ -4,5 +4,6 @@ export { NewsletterPreview } from "./NewsletterPreview";
 export { NewsletterEditor } from "./NewsletterEditor";
 export { NewsletterViewer } from "./NewsletterViewer";
 export { SubscriptionStatus } from "./SubscriptionStatus";
+export { TokenAmount } from "./TokenAmount";
 
 export type { NewsletterContent } from "./NewsletterEditor";
@@ -9,6 +9,16 @@ const deployedContracts = {
     Cryptletter: {
       address: "0xA4085402AB6564f06218C963071FdBF489ebF197",
       abi: [
+        {
+          inputs: [],
+          stateMutability: "nonpayable",
+          type: "constructor",
+        },
+        {
+          inputs: [],
+          name: "AlreadyPurchased",
+          type: "error",
+        },
         {
           inputs: [],
           name: "AlreadyRegistered",
@@ -19,16 +29,41 @@ const deployedContracts = {
           name: "InsufficientPayment",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidFee",
+          type: "error",
+        },
         {
           inputs: [],
           name: "InvalidInput",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidPeriods",
+          type: "error",
+        },
         {
           inputs: [],
           name: "InvalidPrice",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "InvalidPromoCode",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidSignature",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "InvalidTier",
+          type: "error",
+        },
         {
           inputs: [],
           name: "NoActiveSubscription",
@@ -39,16 +74,130 @@ const deployedContracts = {
           name: "NotRegistered",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "NotYetAvailable",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "NothingToWithdraw",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "PostNotForSale",
+          type: "error",
+        },
         {
           inputs: [],
           name: "SubscriptionExpired",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "TooManyTiers",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "TransferFailed",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "TrialUnavailable",
+          type: "error",
+        },
         {
           inputs: [],
           name: "Unauthorized",
           type: "error",
         },
+        {
+          inputs: [],
+          name: "VoucherExpired",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "VoucherUsed",
+          type: "error",
+        },
+        {
+          inputs: [],
+          name: "WrongPaymentMethod",
+          type: "error",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "enabled",
+              type: "bool",
+            },
+          ],
+          name: "AutoRenewUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "voucherNonce",
+              type: "uint256",
+            },
+          ],
+          name: "ComplimentaryAccessGranted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "CreatorDeactivated",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -74,6 +223,19 @@ const deployedContracts = {
           name: "CreatorProfileUpdated",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "CreatorReactivated",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -99,6 +261,68 @@ const deployedContracts = {
           name: "CreatorRegistered",
           type: "event",
         },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "payer",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "EarningsCredited",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "to",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "EarningsWithdrawn",
+          type: "event",
+        },
         {
           anonymous: false,
           inputs: [
@@ -164,26 +388,57 @@ const deployedContracts = {
         {
           anonymous: false,
           inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
             {
               indexed: true,
               internalType: "address",
-              name: "subscriber",
+              name: "creator",
               type: "address",
             },
+          ],
+          name: "NewsletterUnpublished",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
             {
               indexed: true,
               internalType: "address",
               name: "creator",
               type: "address",
             },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "title",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "contentCID",
+              type: "string",
+            },
             {
               indexed: false,
               internalType: "uint256",
-              name: "expiresAt",
+              name: "version",
               type: "uint256",
             },
           ],
-          name: "Subscribed",
+          name: "NewsletterUpdated",
           type: "event",
         },
         {
@@ -196,13 +451,13 @@ const deployedContracts = {
               type: "address",
             },
             {
-              indexed: true,
-              internalType: "address",
-              name: "creator",
-              type: "address",
+              indexed: false,
+              internalType: "bool",
+              name: "creditOverpayment",
+              type: "bool",
             },
           ],
-          name: "SubscriptionCancelled",
+          name: "OverpaymentPreferenceUpdated",
           type: "event",
         },
         {
@@ -223,50 +478,2172 @@ const deployedContracts = {
             {
               indexed: false,
               internalType: "uint256",
-              name: "newExpiresAt",
+              name: "excess",
               type: "uint256",
             },
-          ],
-          name: "SubscriptionRenewed",
-          type: "event",
-        },
-        {
-          inputs: [],
-          name: "SUBSCRIPTION_DURATION",
-          outputs: [
             {
+              indexed: false,
               internalType: "uint256",
-              name: "",
+              name: "refunded",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "creditedTime",
               type: "uint256",
             },
           ],
-          stateMutability: "view",
-          type: "function",
+          name: "OverpaymentSettled",
+          type: "event",
         },
         {
+          anonymous: false,
           inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "previousOwner",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "OwnershipTransferred",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+          ],
+          name: "PaymentTokenUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "discountBps",
+              type: "uint256",
+            },
+          ],
+          name: "PeriodDiscountUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "PlatformFeeCollected",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "oldFeeBps",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newFeeBps",
+              type: "uint256",
+            },
+          ],
+          name: "PlatformFeeUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "treasury",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "PlatformFeesWithdrawn",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "buyer",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+          ],
+          name: "PostPurchased",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "codeHash",
+              type: "bytes32",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "discountBps",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "fixedDiscount",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "maxRedemptions",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+          ],
+          name: "PromoCodeCreated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "codeHash",
+              type: "bytes32",
+            },
+          ],
+          name: "PromoCodeDisabled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "bytes32",
+              name: "codeHash",
+              type: "bytes32",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "discount",
+              type: "uint256",
+            },
+          ],
+          name: "PromoCodeRedeemed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "RenewalEscrowFunded",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "RenewalEscrowWithdrawn",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
+            },
+          ],
+          name: "Subscribed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "SubscriptionCancelled",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "gifter",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "recipient",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "bytes",
+              name: "encryptedNote",
+              type: "bytes",
+            },
+            {
+              indexed: false,
+              internalType: "bytes32",
+              name: "noteKey",
+              type: "bytes32",
+            },
+          ],
+          name: "SubscriptionGifted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "newExpiresAt",
+              type: "uint256",
+            },
+          ],
+          name: "SubscriptionRenewed",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "string",
+              name: "name",
+              type: "string",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "rank",
+              type: "uint256",
+            },
+          ],
+          name: "TierCreated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
+            },
+            {
+              indexed: false,
+              internalType: "bool",
+              name: "isActive",
+              type: "bool",
+            },
+          ],
+          name: "TierUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "oldTreasury",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "newTreasury",
+              type: "address",
+            },
+          ],
+          name: "TreasuryUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
+            },
+          ],
+          name: "TrialDurationUpdated",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+          ],
+          name: "TrialStarted",
+          type: "event",
+        },
+        {
+          anonymous: false,
+          inputs: [
+            {
+              indexed: true,
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              indexed: false,
+              internalType: "uint256",
+              name: "nonce",
+              type: "uint256",
+            },
+          ],
+          name: "VoucherRevoked",
+          type: "event",
+        },
+        {
+          inputs: [],
+          name: "COMP_VOUCHER_TYPEHASH",
+          outputs: [
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "DOMAIN_SEPARATOR",
+          outputs: [
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_COMP_DURATION",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_PERIOD_DISCOUNT_BPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_PLATFORM_FEE_BPS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_TIERS",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "MAX_TRIAL_DURATION",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "SUBSCRIPTION_DURATION",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "activeCreatorCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "autoRenew",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "user",
+              type: "address",
+            },
+          ],
+          name: "canAccessNewsletter",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "hasAccess",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "cancelSubscription",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "codeHash",
+              type: "bytes32",
+            },
+            {
+              internalType: "uint256",
+              name: "discountBps",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "fixedDiscount",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "maxRedemptions",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+          ],
+          name: "createPromoCode",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "name",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "rank",
+              type: "uint256",
+            },
+          ],
+          name: "createTier",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "creatorBalances",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "creatorList",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "creditOverpayment",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "deactivateCreator",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bytes32",
+              name: "codeHash",
+              type: "bytes32",
+            },
+          ],
+          name: "disablePromoCode",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "amount",
+              type: "uint256",
+            },
+          ],
+          name: "fundRenewalEscrow",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "getCreator",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "string",
+                  name: "bio",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "monthlyPrice",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "subscriberCount",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isActive",
+                  type: "bool",
+                },
+                {
+                  internalType: "address",
+                  name: "paymentToken",
+                  type: "address",
+                },
+              ],
+              internalType: "struct Cryptletter.Creator",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "getCreatorCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+          ],
+          name: "getCreatorEarnings",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "earned",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "withdrawn",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "getCreatorPostCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "offset",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "limit",
+              type: "uint256",
+            },
+          ],
+          name: "getCreatorPosts",
+          outputs: [
+            {
+              internalType: "uint256[]",
+              name: "postIds",
+              type: "uint256[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "getCreatorSubscriberCount",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "offset",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "limit",
+              type: "uint256",
+            },
+          ],
+          name: "getCreatorSubscribers",
+          outputs: [
+            {
+              internalType: "address[]",
+              name: "subscribers",
+              type: "address[]",
+            },
+            {
+              components: [
+                {
+                  internalType: "uint256",
+                  name: "expiresAt",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "subscribedAt",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isActive",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint256",
+                  name: "tierId",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "creditedTime",
+                  type: "uint256",
+                },
+                {
+                  internalType: "address",
+                  name: "giftedBy",
+                  type: "address",
+                },
+                {
+                  internalType: "bool",
+                  name: "isTrial",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct Cryptletter.Subscription[]",
+              name: "subs",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "offset",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "limit",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "activeOnly",
+              type: "bool",
+            },
+          ],
+          name: "getCreators",
+          outputs: [
+            {
+              internalType: "address[]",
+              name: "",
+              type: "address[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+          ],
+          name: "getDecryptionKey",
+          outputs: [
+            {
+              internalType: "euint256",
+              name: "encryptedKey",
+              type: "bytes32",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+          ],
+          name: "getNewsletter",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "contentCID",
+                  type: "string",
+                },
+                {
+                  internalType: "euint256",
+                  name: "encryptedKey",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "string",
+                  name: "title",
+                  type: "string",
+                },
+                {
+                  internalType: "string",
+                  name: "preview",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "publishedAt",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isPublic",
+                  type: "bool",
+                },
+                {
+                  internalType: "address",
+                  name: "creator",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "minTierRank",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "price",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isUnpublished",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint256",
+                  name: "availableAt",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct Cryptletter.NewsletterPost",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+          ],
+          name: "getNewsletterVersions",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "contentCID",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "updatedAt",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct Cryptletter.PostVersion[]",
+              name: "",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256[]",
+              name: "postIds",
+              type: "uint256[]",
+            },
+          ],
+          name: "getNewsletters",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "contentCID",
+                  type: "string",
+                },
+                {
+                  internalType: "euint256",
+                  name: "encryptedKey",
+                  type: "bytes32",
+                },
+                {
+                  internalType: "string",
+                  name: "title",
+                  type: "string",
+                },
+                {
+                  internalType: "string",
+                  name: "preview",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "publishedAt",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isPublic",
+                  type: "bool",
+                },
+                {
+                  internalType: "address",
+                  name: "creator",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "minTierRank",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "price",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isUnpublished",
+                  type: "bool",
+                },
+                {
+                  internalType: "uint256",
+                  name: "availableAt",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct Cryptletter.NewsletterPost[]",
+              name: "posts",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "token",
+              type: "address",
+            },
+          ],
+          name: "getPlatformFees",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "balance",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "collected",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "getSubscriptionStatus",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "isActive",
+              type: "bool",
+            },
+            {
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "subscribedAt",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "hasAccess",
+              type: "bool",
+            },
+            {
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "creditedTime",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "giftedBy",
+              type: "address",
+            },
+            {
+              internalType: "bool",
+              name: "isTrial",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+          ],
+          name: "getTier",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "price",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "duration",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "rank",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isActive",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct Cryptletter.Tier",
+              name: "",
+              type: "tuple",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "getTiers",
+          outputs: [
+            {
+              components: [
+                {
+                  internalType: "string",
+                  name: "name",
+                  type: "string",
+                },
+                {
+                  internalType: "uint256",
+                  name: "price",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "duration",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "rank",
+                  type: "uint256",
+                },
+                {
+                  internalType: "bool",
+                  name: "isActive",
+                  type: "bool",
+                },
+              ],
+              internalType: "struct Cryptletter.Tier[]",
+              name: "",
+              type: "tuple[]",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "recipient",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
+            },
+          ],
+          name: "giftSubscription",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "recipient",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
+            },
+            {
+              internalType: "bytes",
+              name: "encryptedNote",
+              type: "bytes",
+            },
+            {
+              internalType: "externalEuint256",
+              name: "inputNoteKey",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes",
+              name: "inputProof",
+              type: "bytes",
+            },
+          ],
+          name: "giftSubscriptionWithNote",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "subscriber",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
+            },
+          ],
+          name: "grantComplimentaryAccess",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+          ],
+          name: "grantDecryptionPermission",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "owner",
+          outputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          name: "periodDiscounts",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "platformFeeBps",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "postCounter",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "postPurchases",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address[]",
+              name: "subscribers",
+              type: "address[]",
+            },
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "processRenewals",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "renewed",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "bytes32",
+              name: "",
+              type: "bytes32",
+            },
+          ],
+          name: "promoCodes",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "discountBps",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "fixedDiscount",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "maxRedemptions",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "redemptions",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "expiresAt",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "isActive",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "protocolId",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "pure",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "contentCID",
+              type: "string",
+            },
+            {
+              internalType: "externalEuint256",
+              name: "inputEncryptedKey",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes",
+              name: "inputProof",
+              type: "bytes",
+            },
+            {
+              internalType: "string",
+              name: "title",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "preview",
+              type: "string",
+            },
+            {
+              internalType: "bool",
+              name: "isPublic",
+              type: "bool",
+            },
+            {
+              internalType: "uint256",
+              name: "minTierRank",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "availableAt",
+              type: "uint256",
+            },
+          ],
+          name: "publishNewsletter",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "postId",
+              type: "uint256",
+            },
+          ],
+          name: "purchasePost",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
+            },
+          ],
+          name: "quoteSubscription",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
+            },
+            {
+              internalType: "string",
+              name: "promoCode",
+              type: "string",
+            },
+          ],
+          name: "quoteSubscriptionWithCode",
+          outputs: [
+            {
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "reactivateCreator",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              components: [
+                {
+                  internalType: "address",
+                  name: "creator",
+                  type: "address",
+                },
+                {
+                  internalType: "address",
+                  name: "recipient",
+                  type: "address",
+                },
+                {
+                  internalType: "uint256",
+                  name: "duration",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "nonce",
+                  type: "uint256",
+                },
+                {
+                  internalType: "uint256",
+                  name: "deadline",
+                  type: "uint256",
+                },
+              ],
+              internalType: "struct Cryptletter.CompVoucher",
+              name: "voucher",
+              type: "tuple",
+            },
+            {
+              internalType: "uint8",
+              name: "v",
+              type: "uint8",
+            },
+            {
+              internalType: "bytes32",
+              name: "r",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes32",
+              name: "s",
+              type: "bytes32",
+            },
+          ],
+          name: "redeemCompVoucher",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "string",
+              name: "name",
+              type: "string",
+            },
+            {
+              internalType: "string",
+              name: "bio",
+              type: "string",
+            },
             {
               internalType: "uint256",
-              name: "postId",
+              name: "monthlyPrice",
               type: "uint256",
             },
             {
               internalType: "address",
-              name: "user",
+              name: "paymentToken",
               type: "address",
             },
           ],
-          name: "canAccessNewsletter",
+          name: "registerCreator",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+          ],
+          name: "renewSubscription",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "renewalEscrow",
           outputs: [
             {
-              internalType: "bool",
-              name: "hasAccess",
-              type: "bool",
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
           type: "function",
         },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "nonce",
+              type: "uint256",
+            },
+          ],
+          name: "revokeVoucher",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
         {
           inputs: [
             {
@@ -274,8 +2651,26 @@ const deployedContracts = {
               name: "creator",
               type: "address",
             },
+            {
+              internalType: "bool",
+              name: "enabled",
+              type: "bool",
+            },
           ],
-          name: "cancelSubscription",
+          name: "setAutoRenew",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "bool",
+              name: "credit",
+              type: "bool",
+            },
+          ],
+          name: "setOverpaymentPreference",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -284,109 +2679,181 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "uint256",
-              name: "",
+              name: "periods",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "discountBps",
               type: "uint256",
             },
           ],
-          name: "creatorList",
-          outputs: [
+          name: "setPeriodDiscount",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "feeBps",
+              type: "uint256",
+            },
+          ],
+          name: "setPlatformFee",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "address",
-              name: "",
+              name: "newTreasury",
               type: "address",
             },
           ],
-          stateMutability: "view",
+          name: "setTreasury",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
+            },
+          ],
+          name: "setTrialDuration",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "",
+              name: "creator",
               type: "address",
             },
           ],
-          name: "creators",
-          outputs: [
+          name: "startTrial",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
-              internalType: "string",
-              name: "name",
-              type: "string",
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
+            {
+              internalType: "uint256",
+              name: "tierId",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "periods",
+              type: "uint256",
             },
             {
               internalType: "string",
-              name: "bio",
+              name: "promoCode",
               type: "string",
             },
+          ],
+          name: "subscribe",
+          outputs: [],
+          stateMutability: "payable",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "creator",
+              type: "address",
+            },
             {
               internalType: "uint256",
-              name: "monthlyPrice",
+              name: "tierId",
               type: "uint256",
             },
             {
               internalType: "uint256",
-              name: "subscriberCount",
+              name: "periods",
               type: "uint256",
             },
             {
-              internalType: "bool",
-              name: "isActive",
-              type: "bool",
+              internalType: "string",
+              name: "promoCode",
+              type: "string",
+            },
+            {
+              internalType: "uint256",
+              name: "deadline",
+              type: "uint256",
+            },
+            {
+              internalType: "uint8",
+              name: "v",
+              type: "uint8",
+            },
+            {
+              internalType: "bytes32",
+              name: "r",
+              type: "bytes32",
+            },
+            {
+              internalType: "bytes32",
+              name: "s",
+              type: "bytes32",
             },
           ],
-          stateMutability: "view",
+          name: "subscribeWithPermit",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "creator",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
               type: "address",
             },
           ],
-          name: "getCreator",
+          name: "totalEarnings",
           outputs: [
             {
-              components: [
-                {
-                  internalType: "string",
-                  name: "name",
-                  type: "string",
-                },
-                {
-                  internalType: "string",
-                  name: "bio",
-                  type: "string",
-                },
-                {
-                  internalType: "uint256",
-                  name: "monthlyPrice",
-                  type: "uint256",
-                },
-                {
-                  internalType: "uint256",
-                  name: "subscriberCount",
-                  type: "uint256",
-                },
-                {
-                  internalType: "bool",
-                  name: "isActive",
-                  type: "bool",
-                },
-              ],
-              internalType: "struct Cryptletter.Creator",
+              internalType: "uint256",
               name: "",
-              type: "tuple",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
           type: "function",
         },
         {
-          inputs: [],
-          name: "getCreatorCount",
+          inputs: [
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+          ],
+          name: "totalPlatformFees",
           outputs: [
             {
               internalType: "uint256",
@@ -400,22 +2867,48 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "offset",
-              type: "uint256",
+              internalType: "address",
+              name: "",
+              type: "address",
+            },
+            {
+              internalType: "address",
+              name: "",
+              type: "address",
             },
+          ],
+          name: "totalWithdrawn",
+          outputs: [
             {
               internalType: "uint256",
-              name: "limit",
+              name: "",
               type: "uint256",
             },
           ],
-          name: "getCreators",
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [
+            {
+              internalType: "address",
+              name: "newOwner",
+              type: "address",
+            },
+          ],
+          name: "transferOwnership",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "treasury",
           outputs: [
             {
-              internalType: "address[]",
+              internalType: "address",
               name: "",
-              type: "address[]",
+              type: "address",
             },
           ],
           stateMutability: "view",
@@ -424,17 +2917,17 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "postId",
-              type: "uint256",
+              internalType: "address",
+              name: "",
+              type: "address",
             },
           ],
-          name: "getDecryptionKey",
+          name: "treasuryBalances",
           outputs: [
             {
-              internalType: "euint256",
-              name: "encryptedKey",
-              type: "bytes32",
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
@@ -443,54 +2936,17 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "postId",
-              type: "uint256",
+              internalType: "address",
+              name: "",
+              type: "address",
             },
           ],
-          name: "getNewsletter",
+          name: "trialDurations",
           outputs: [
             {
-              components: [
-                {
-                  internalType: "string",
-                  name: "contentCID",
-                  type: "string",
-                },
-                {
-                  internalType: "euint256",
-                  name: "encryptedKey",
-                  type: "bytes32",
-                },
-                {
-                  internalType: "string",
-                  name: "title",
-                  type: "string",
-                },
-                {
-                  internalType: "string",
-                  name: "preview",
-                  type: "string",
-                },
-                {
-                  internalType: "uint256",
-                  name: "publishedAt",
-                  type: "uint256",
-                },
-                {
-                  internalType: "bool",
-                  name: "isPublic",
-                  type: "bool",
-                },
-                {
-                  internalType: "address",
-                  name: "creator",
-                  type: "address",
-                },
-              ],
-              internalType: "struct Cryptletter.NewsletterPost",
+              internalType: "uint256",
               name: "",
-              type: "tuple",
+              type: "uint256",
             },
           ],
           stateMutability: "view",
@@ -500,35 +2956,20 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "address",
-              name: "subscriber",
+              name: "",
               type: "address",
             },
             {
               internalType: "address",
-              name: "creator",
+              name: "",
               type: "address",
             },
           ],
-          name: "getSubscriptionStatus",
+          name: "trialUsed",
           outputs: [
             {
               internalType: "bool",
-              name: "isActive",
-              type: "bool",
-            },
-            {
-              internalType: "uint256",
-              name: "expiresAt",
-              type: "uint256",
-            },
-            {
-              internalType: "uint256",
-              name: "subscribedAt",
-              type: "uint256",
-            },
-            {
-              internalType: "bool",
-              name: "hasAccess",
+              name: "",
               type: "bool",
             },
           ],
@@ -543,7 +2984,7 @@ const deployedContracts = {
               type: "uint256",
             },
           ],
-          name: "grantDecryptionPermission",
+          name: "unpublishNewsletter",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -552,87 +2993,35 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "uint256",
-              name: "",
-              type: "uint256",
-            },
-          ],
-          name: "newsletters",
-          outputs: [
-            {
-              internalType: "string",
-              name: "contentCID",
-              type: "string",
-            },
-            {
-              internalType: "euint256",
-              name: "encryptedKey",
-              type: "bytes32",
-            },
-            {
-              internalType: "string",
-              name: "title",
-              type: "string",
-            },
-            {
-              internalType: "string",
-              name: "preview",
-              type: "string",
-            },
-            {
-              internalType: "uint256",
-              name: "publishedAt",
+              name: "newPrice",
               type: "uint256",
             },
-            {
-              internalType: "bool",
-              name: "isPublic",
-              type: "bool",
-            },
             {
               internalType: "address",
-              name: "creator",
+              name: "paymentToken",
               type: "address",
             },
           ],
-          stateMutability: "view",
-          type: "function",
-        },
-        {
-          inputs: [],
-          name: "postCounter",
-          outputs: [
-            {
-              internalType: "uint256",
-              name: "",
-              type: "uint256",
-            },
-          ],
-          stateMutability: "view",
+          name: "updateMonthlyPrice",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
-          inputs: [],
-          name: "protocolId",
-          outputs: [
+          inputs: [
             {
               internalType: "uint256",
-              name: "",
+              name: "postId",
               type: "uint256",
             },
-          ],
-          stateMutability: "pure",
-          type: "function",
-        },
-        {
-          inputs: [
             {
               internalType: "string",
-              name: "contentCID",
+              name: "newCID",
               type: "string",
             },
             {
               internalType: "externalEuint256",
-              name: "inputEncryptedKey",
+              name: "newEncryptedKey",
               type: "bytes32",
             },
             {
@@ -650,20 +3039,9 @@ const deployedContracts = {
               name: "preview",
               type: "string",
             },
-            {
-              internalType: "bool",
-              name: "isPublic",
-              type: "bool",
-            },
-          ],
-          name: "publishNewsletter",
-          outputs: [
-            {
-              internalType: "uint256",
-              name: "postId",
-              type: "uint256",
-            },
           ],
+          name: "updateNewsletter",
+          outputs: [],
           stateMutability: "nonpayable",
           type: "function",
         },
@@ -679,13 +3057,36 @@ const deployedContracts = {
               name: "bio",
               type: "string",
             },
+          ],
+          name: "updateProfile",
+          outputs: [],
+          stateMutability: "nonpayable",
+          type: "function",
+        },
+        {
+          inputs: [
             {
               internalType: "uint256",
-              name: "monthlyPrice",
+              name: "tierId",
               type: "uint256",
             },
+            {
+              internalType: "uint256",
+              name: "price",
+              type: "uint256",
+            },
+            {
+              internalType: "uint256",
+              name: "duration",
+              type: "uint256",
+            },
+            {
+              internalType: "bool",
+              name: "isActive",
+              type: "bool",
+            },
           ],
-          name: "registerCreator",
+          name: "updateTier",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -694,71 +3095,73 @@ const deployedContracts = {
           inputs: [
             {
               internalType: "address",
-              name: "creator",
+              name: "",
               type: "address",
             },
+            {
+              internalType: "uint256",
+              name: "",
+              type: "uint256",
+            },
           ],
-          name: "renewSubscription",
+          name: "voucherNonceUsed",
+          outputs: [
+            {
+              internalType: "bool",
+              name: "",
+              type: "bool",
+            },
+          ],
+          stateMutability: "view",
+          type: "function",
+        },
+        {
+          inputs: [],
+          name: "withdraw",
           outputs: [],
-          stateMutability: "payable",
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "creator",
+              name: "token",
               type: "address",
             },
           ],
-          name: "subscribe",
+          name: "withdrawPlatformFees",
           outputs: [],
-          stateMutability: "payable",
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
               internalType: "address",
-              name: "",
+              name: "creator",
               type: "address",
             },
             {
               internalType: "address",
-              name: "",
+              name: "token",
               type: "address",
             },
           ],
-          name: "subscriptions",
-          outputs: [
-            {
-              internalType: "uint256",
-              name: "expiresAt",
-              type: "uint256",
-            },
-            {
-              internalType: "uint256",
-              name: "subscribedAt",
-              type: "uint256",
-            },
-            {
-              internalType: "bool",
-              name: "isActive",
-              type: "bool",
-            },
-          ],
-          stateMutability: "view",
+          name: "withdrawRenewalEscrow",
+          outputs: [],
+          stateMutability: "nonpayable",
           type: "function",
         },
         {
           inputs: [
             {
-              internalType: "uint256",
-              name: "newPrice",
-              type: "uint256",
+              internalType: "address",
+              name: "to",
+              type: "address",
             },
           ],
-          name: "updateMonthlyPrice",
+          name: "withdrawTo",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
@@ -766,17 +3169,17 @@ const deployedContracts = {
         {
           inputs: [
             {
-              internalType: "string",
-              name: "name",
-              type: "string",
+              internalType: "address",
+              name: "token",
+              type: "address",
             },
             {
-              internalType: "string",
-              name: "bio",
-              type: "string",
+              internalType: "address",
+              name: "to",
+              type: "address",
             },
           ],
-          name: "updateProfile",
+          name: "withdrawToken",
           outputs: [],
           stateMutability: "nonpayable",
           type: "function",
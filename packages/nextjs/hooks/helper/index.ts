@@ -5,3 +5,4 @@ export * from "./useSelectedNetwork";
 export * from "./useEthersProvider";
 export * from "./useEthersSigner";
 export * from "./useRetryableOperation";
+export * from "./usePaymentToken";
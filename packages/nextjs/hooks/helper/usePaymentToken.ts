@@ -0,0 +1,31 @@
+import { erc20Abi, formatUnits, zeroAddress } from "viem";
+import { useReadContracts } from "wagmi";
+
+/**
+ * Resolves the currency a creator prices subscriptions in. `address(0)` (or no address)
+ * means native ETH; anything else is read as an ERC-20 for its symbol and decimals.
+ */
+export const usePaymentToken = (tokenAddress?: string) => {
+  const isNative = !tokenAddress || tokenAddress === zeroAddress;
+
+  const { data } = useReadContracts({
+    contracts: [
+      { address: tokenAddress as `0x${string}`, abi: erc20Abi, functionName: "symbol" },
+      { address: tokenAddress as `0x${string}`, abi: erc20Abi, functionName: "decimals" },
+    ],
+    query: {
+      enabled: !isNative,
+    },
+  });
+
+  const symbol = isNative ? "ETH" : ((data?.[0]?.result as string | undefined) ?? "tokens");
+  const decimals = isNative ? 18 : ((data?.[1]?.result as number | undefined) ?? 18);
+
+  return {
+    address: (isNative ? zeroAddress : tokenAddress) as `0x${string}`,
+    isNative,
+    symbol,
+    decimals,
+    format: (amount: bigint) => formatUnits(amount, decimals),
+  };
+};
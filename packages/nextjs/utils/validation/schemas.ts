@@ -11,10 +11,34 @@ export const creatorRegistrationSchema = z.object({
     .refine(val => !isNaN(Number(val)) && Number(val) > 0, "Price must be a positive number")
     .refine(val => Number(val) >= 0.001, "Minimum price is 0.001 ETH (approximately $3 USD)")
     .refine(val => Number(val) <= 100, "Maximum price is 100 ETH"),
+  // Leave empty to be paid in ETH
+  paymentToken: z.union([z.literal(""), z.string().regex(/^0x[a-fA-F0-9]{40}$/, "Invalid token address")]),
 });
 
 export type CreatorRegistrationFormData = z.infer<typeof creatorRegistrationSchema>;
 
+/**
+ * Subscription Tier Validation Schema
+ */
+export const subscriptionTierSchema = z.object({
+  name: z.string().min(1, "Tier name is required").max(30, "Tier name must be 30 characters or less").trim(),
+  price: z
+    .string()
+    .refine(val => !isNaN(Number(val)) && Number(val) > 0, "Price must be a positive number")
+    .refine(val => Number(val) >= 0.001, "Minimum price is 0.001 ETH (approximately $3 USD)")
+    .refine(val => Number(val) <= 100, "Maximum price is 100 ETH"),
+  durationDays: z
+    .string()
+    .refine(val => Number.isInteger(Number(val)) && Number(val) >= 1, "Duration must be at least 1 day")
+    .refine(val => Number(val) <= 366, "Maximum duration is 366 days"),
+  rank: z
+    .string()
+    .refine(val => Number.isInteger(Number(val)) && Number(val) >= 1, "Rank must be a whole number of at least 1")
+    .refine(val => Number(val) <= 100, "Maximum rank is 100"),
+});
+
+export type SubscriptionTierFormData = z.infer<typeof subscriptionTierSchema>;
+
 /**
  * Newsletter Content Validation Schema
  */